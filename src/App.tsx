@@ -4,6 +4,7 @@ import "./index.css"
 import { TabsView } from './components/tabs/TabsView'
 import { Store } from './Store'
 import { useDeviceSettings } from './hooks/useSettings'
+import { useIdleTimeout } from './hooks/useIdleTimeout'
 import { AuthProvider, useAuth } from './modules/auth/AuthContext'
 import { LoginPage } from './modules/auth/LoginPage'
 import { SignupPage } from './modules/auth/SignupPage'
@@ -14,7 +15,8 @@ import { EncryptedFirestoreStore } from './modules/encrypted/EncryptedFirestoreS
 import { EncryptedStoreWrapper } from './modules/encrypted/EncryptedStoreWrapper'
 import { EncryptionSetupModal } from './modules/encrypted/components/EncryptionSetupModal'
 import { UnlockModal } from './modules/encrypted/components/UnlockModal'
-import { getStoredPassword } from './modules/encrypted/passwordStorage'
+import { getStoredPassword, clearStoredPassword } from './modules/encrypted/passwordStorage'
+import { getDeviceName, isDeviceLocked, setDeviceLocked } from './modules/encrypted/deviceStorage'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
@@ -47,6 +49,18 @@ function ProtectedRoute({ children }: ProtectedRouteProps) {
   return <>{children}</>
 }
 
+/**
+ * Remembers this device so that it unlocks without the password. Failing to
+ * remember it only means the password is asked for next time
+ */
+async function rememberDevice(encryptedStore: EncryptedFirestoreStore, password: string) {
+  try {
+    await encryptedStore.rememberDevice(password, getDeviceName())
+  } catch (error) {
+    console.error('Error remembering device:', error)
+  }
+}
+
 function MainContent() {
   const { settings: deviceSettings, updateSettings: updateDeviceSettings } = useDeviceSettings()
   const { user } = useAuth()
@@ -54,6 +68,7 @@ function MainContent() {
   const [encryptedStore, setEncryptedStore] = useState<EncryptedFirestoreStore | null>(null)
   const [needsPasswordSetup, setNeedsPasswordSetup] = useState(false)
   const [needsUnlock, setNeedsUnlock] = useState(false)
+  const [canRecover, setCanRecover] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
 
   // Initialize store based on storage type
@@ -79,19 +94,29 @@ function MainContent() {
             return
           }
 
-          // Try stored password if available
-          const storedPassword = getStoredPassword(user.uid)
+          // Unlock with the key this device keeps, if it was remembered and not locked
+          const isLocked = isDeviceLocked(user.uid)
+          if (!isLocked && await encrypted.unlockWithDevice()) {
+            setStore(new EncryptedStoreWrapper(encrypted))
+            setIsLoading(false)
+            return
+          }
+
+          // Passwords remembered by earlier versions are replaced with a device key
+          const storedPassword = isLocked ? null : getStoredPassword(user.uid)
           if (storedPassword) {
+            clearStoredPassword(user.uid)
             const isValid = await encrypted.validatePassword(storedPassword)
             if (isValid) {
-              const wrapper = new EncryptedStoreWrapper(encrypted, storedPassword)
-              setStore(wrapper)
+              await rememberDevice(encrypted, storedPassword)
+              setStore(new EncryptedStoreWrapper(encrypted))
               setIsLoading(false)
               return
             }
           }
 
           // Need to unlock
+          setCanRecover(await encrypted.hasRecoveryCode())
           setNeedsUnlock(true)
           setIsLoading(false)
         } else if (deviceSettings.storage.type === 'local') {
@@ -116,12 +141,15 @@ function MainContent() {
   }
 
   // Handle encryption setup
-  const handleSetupComplete = async (password: string) => {
+  const handleSetupComplete = async (password: string, recoveryCode: string, remember: boolean) => {
     if (!encryptedStore) return
 
     try {
-      await encryptedStore.initialize(password)
-      const wrapper = new EncryptedStoreWrapper(encryptedStore, password)
+      await encryptedStore.initialize(password, recoveryCode)
+      if (remember) {
+        await rememberDevice(encryptedStore, password)
+      }
+      const wrapper = new EncryptedStoreWrapper(encryptedStore)
       setStore(wrapper)
       setNeedsPasswordSetup(false)
     } catch (error) {
@@ -131,8 +159,8 @@ function MainContent() {
   }
 
   // Handle unlock
-  const handleUnlock = async (password: string) => {
-    if (!encryptedStore) return
+  const handleUnlock = async (password: string, remember: boolean) => {
+    if (!encryptedStore || !user) return
 
     try {
       const isValid = await encryptedStore.validatePassword(password)
@@ -140,7 +168,11 @@ function MainContent() {
         throw new Error('Invalid password')
       }
 
-      const wrapper = new EncryptedStoreWrapper(encryptedStore, password)
+      if (remember) {
+        await rememberDevice(encryptedStore, password)
+      }
+      setDeviceLocked(user.uid, false)
+      const wrapper = new EncryptedStoreWrapper(encryptedStore)
       setStore(wrapper)
       setNeedsUnlock(false)
     } catch (error) {
@@ -149,6 +181,44 @@ function MainContent() {
     }
   }
 
+  // Handle unlock with the recovery code, which replaces the forgotten password
+  const handleRecover = async (recoveryCode: string, newPassword: string, remember: boolean) => {
+    if (!encryptedStore || !user) return
+
+    try {
+      const isValid = await encryptedStore.unlockWithRecoveryCode(recoveryCode, newPassword)
+      if (!isValid) {
+        throw new Error('Invalid recovery code')
+      }
+
+      if (remember) {
+        await rememberDevice(encryptedStore, newPassword)
+      }
+      setDeviceLocked(user.uid, false)
+      const wrapper = new EncryptedStoreWrapper(encryptedStore)
+      setStore(wrapper)
+      setNeedsUnlock(false)
+    } catch (error) {
+      console.error('Error recovering store:', error)
+      throw error
+    }
+  }
+
+  // Handle lock, which drops the keys from memory until the password is entered again,
+  // also after reloading the page
+  const handleLock = async () => {
+    if (!encryptedStore || !store || !user) return
+
+    setDeviceLocked(user.uid, true)
+    setStore(null)
+    encryptedStore.lock()
+    setNeedsUnlock(true)
+    setCanRecover(await encryptedStore.hasRecoveryCode())
+  }
+
+  // Lock encrypted notes after the chosen time without activity
+  useIdleTimeout(store && encryptedStore ? deviceSettings.security?.autoLockMinutes ?? 0 : 0, handleLock)
+
   // If storage type not selected, show welcome screen
   if (!deviceSettings.storage.type) {
     return <WelcomeScreen onChoose={handleStorageModeSelect} />
@@ -166,7 +236,7 @@ function MainContent() {
 
   // Show unlock screen if needed
   if (needsUnlock) {
-    return <UnlockModal onUnlock={handleUnlock} />
+    return <UnlockModal onUnlock={handleUnlock} onRecover={handleRecover} canRecover={canRecover} />
   }
 
   // If store not initialized yet, show loading
@@ -175,7 +245,7 @@ function MainContent() {
   }
 
   return (
-    <TabsView store={store} />
+    <TabsView store={store} onLock={encryptedStore ? handleLock : undefined} />
   )
 }
 
@@ -1,5 +1,5 @@
 import React, { useEffect, useCallback, useMemo, useRef, useState } from 'react'
-import { useEditor, EditorContent } from '@tiptap/react'
+import { useEditor, EditorContent, Editor } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import Link from '@tiptap/extension-link'
 import Placeholder from '@tiptap/extension-placeholder'
@@ -11,6 +11,8 @@ import { RichTextToolbar } from './RichTextToolbar'
 import { RichTextBubbleMenu } from './RichTextBubbleMenu'
 import { useDebouncedCallback } from 'use-debounce'
 import { UserSettings } from './types/settings'
+import type { TokenUsage } from './types'
+import type { ModelId } from './api/llm'
 import { Table } from '@tiptap/extension-table'
 import TableCell from '@tiptap/extension-table-cell'
 import TableHeader from '@tiptap/extension-table-header'
@@ -18,6 +20,9 @@ import TableRow from '@tiptap/extension-table-row'
 import { TaskList } from '@tiptap/extension-task-list'
 import { TaskItem } from '@tiptap/extension-task-item'
 import { AddContentButton } from './components/notes/AddContentButton'
+import { WikiLink } from './WikiLink'
+import { TagHighlight } from './TagHighlight'
+import { wikilinkPlugin, addWikilinkRule } from './modules/wikilinks'
 
 const md = MarkdownIt({
   html: true,
@@ -25,12 +30,16 @@ const md = MarkdownIt({
   linkify: true,
   // Enable GitHub-flavored Markdown features
   typographer: true
-}).use(taskListPlugin)
+}).use(taskListPlugin).use(wikilinkPlugin)
 
 const turndown = new TurndownService({
   headingStyle: 'atx',
   codeBlockStyle: 'fenced'
 }).use(gfm)
+addWikilinkRule(turndown)
+
+/** Maximum number of notes shown in the wikilink autocomplete */
+const MAX_WIKILINK_SUGGESTIONS = 8
 
 const debug = false
 
@@ -163,14 +172,30 @@ function convertEditorHtmlToMarkdown(html: string): string {
   return turndown.turndown(cleanedHtml)
 }
 
+/** An in-progress [[ wikilink being typed, used to drive autocomplete */
+interface WikiLinkQuery {
+  /** Text typed after the [[ */
+  query: string
+  /** Document position of the opening [[ */
+  from: number
+  /** Document position of the cursor */
+  to: number
+}
+
 interface RichTextEditorProps {
   content: string
   onChange: (markdown: string) => void
   placeholder?: string
   showToolbar?: boolean
   userSettings: UserSettings
+  /** Called with the tokens used to convert an image to markdown */
+  onImageUsage?: (usage: TokenUsage, modelId: ModelId) => void
   showVoiceInput?: boolean
   onVoiceTranscription?: (text: string) => void
+  /** Note titles offered when typing a [[wikilink]] */
+  wikiLinkTitles?: string[]
+  /** Called when a [[wikilink]] is clicked */
+  onWikiLinkClick?: (title: string) => void
 }
 
 export function RichTextEditor({ 
@@ -179,11 +204,30 @@ export function RichTextEditor({
   placeholder,
   showToolbar = false,
   userSettings,
+  onImageUsage,
   showVoiceInput = true,
-  onVoiceTranscription
+  onVoiceTranscription,
+  wikiLinkTitles = [],
+  onWikiLinkClick
 }: RichTextEditorProps) {
   const lastPushedContent = useRef(content)
   const [hasFocus, setHasFocus] = useState(false)
+  const [wikiLinkQuery, setWikiLinkQuery] = useState<WikiLinkQuery | null>(null)
+  const [suggestionIndex, setSuggestionIndex] = useState(0)
+
+  const wikiLinkSuggestions = useMemo(() => {
+    if (!wikiLinkQuery) return []
+    const query = wikiLinkQuery.query.trim().toLowerCase()
+    return Array.from(new Set(wikiLinkTitles))
+      .filter(title => title.toLowerCase().includes(query))
+      .slice(0, MAX_WIKILINK_SUGGESTIONS)
+  }, [wikiLinkQuery, wikiLinkTitles])
+
+  // The editor's props are created once, so handlers read the latest state through refs
+  const suggestionStateRef = useRef({ wikiLinkQuery, wikiLinkSuggestions, suggestionIndex })
+  suggestionStateRef.current = { wikiLinkQuery, wikiLinkSuggestions, suggestionIndex }
+  const onWikiLinkClickRef = useRef(onWikiLinkClick)
+  onWikiLinkClickRef.current = onWikiLinkClick
 
   // Debounce the markdown conversion and onChange callback
   const debouncedOnChange = useDebouncedCallback((html: string) => {
@@ -256,11 +300,41 @@ export function RichTextEditor({
       TaskItem.configure({
         nested: true,
       }),
+      WikiLink,
+      TagHighlight,
     ],
     content: initialHtml,
     editorProps: {
       attributes: {
         class: 'prose prose-sm dark:prose-invert max-w-none focus:outline-none'
+      },
+      handleClick: (_view, _pos, event) => {
+        const link = (event.target as HTMLElement).closest('[data-wikilink]')
+        if (!link || !onWikiLinkClickRef.current) return false
+        onWikiLinkClickRef.current(link.getAttribute('data-wikilink') ?? '')
+        return true
+      },
+      handleKeyDown: (_view, event) => {
+        const { wikiLinkQuery, wikiLinkSuggestions, suggestionIndex } = suggestionStateRef.current
+        if (!wikiLinkQuery || wikiLinkSuggestions.length === 0) return false
+
+        if (event.key === 'ArrowDown') {
+          setSuggestionIndex((suggestionIndex + 1) % wikiLinkSuggestions.length)
+          return true
+        }
+        if (event.key === 'ArrowUp') {
+          setSuggestionIndex((suggestionIndex - 1 + wikiLinkSuggestions.length) % wikiLinkSuggestions.length)
+          return true
+        }
+        if (event.key === 'Enter' || event.key === 'Tab') {
+          insertWikiLinkRef.current(wikiLinkSuggestions[suggestionIndex])
+          return true
+        }
+        if (event.key === 'Escape') {
+          setWikiLinkQuery(null)
+          return true
+        }
+        return false
       }
     },
     onUpdate: ({ editor }) => {
@@ -269,11 +343,50 @@ export function RichTextEditor({
         console.log(editor.getHTML())
       }
       debouncedOnChange(editor.getHTML())
+      updateWikiLinkQuery(editor)
     },
+    onSelectionUpdate: ({ editor }) => updateWikiLinkQuery(editor),
     onFocus: () => setHasFocus(true),
-    onBlur: () => setHasFocus(false)
+    onBlur: () => {
+      setHasFocus(false)
+      setWikiLinkQuery(null)
+    }
   })
 
+  /** Looks for an unfinished [[ before the cursor to show the autocomplete */
+  function updateWikiLinkQuery(editor: Editor) {
+    const { $from, empty } = editor.state.selection
+    if (!empty) {
+      setWikiLinkQuery(null)
+      return
+    }
+
+    const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, '\ufffc')
+    const match = /\[\[([^[\]\n\ufffc]*)$/.exec(textBefore)
+    if (!match) {
+      setWikiLinkQuery(null)
+      return
+    }
+
+    if (suggestionStateRef.current.wikiLinkQuery?.query !== match[1]) {
+      setSuggestionIndex(0)
+    }
+    setWikiLinkQuery({ query: match[1], from: $from.pos - match[0].length, to: $from.pos })
+  }
+
+  /** Replaces the typed [[query with a link to the chosen note */
+  const insertWikiLink = (title: string) => {
+    const query = suggestionStateRef.current.wikiLinkQuery
+    if (!editor || !query) return
+    editor.chain().focus().insertContentAt({ from: query.from, to: query.to }, [
+      { type: 'wikiLink', attrs: { title } },
+      { type: 'text', text: ' ' }
+    ]).run()
+    setWikiLinkQuery(null)
+  }
+  const insertWikiLinkRef = useRef(insertWikiLink)
+  insertWikiLinkRef.current = insertWikiLink
+
   const handleVoiceTranscription = useCallback((text: string) => {
     if (onVoiceTranscription) {
       onVoiceTranscription(text)
@@ -322,10 +435,19 @@ export function RichTextEditor({
           editor={editor} 
           className="h-full [&_.ProseMirror]:h-full [&_.ProseMirror]:min-h-full [&_.ProseMirror]:pb-4" 
         />
+        {wikiLinkQuery && wikiLinkSuggestions.length > 0 && (
+          <WikiLinkSuggestions
+            coords={editor.view.coordsAtPos(wikiLinkQuery.from)}
+            titles={wikiLinkSuggestions}
+            selectedIndex={suggestionIndex}
+            onSelect={insertWikiLink}
+          />
+        )}
         {showVoiceInput && (
           <div className="absolute bottom-0 right-1 z-10">
             <AddContentButton
               userSettings={userSettings}
+              onImageUsage={onImageUsage}
               onTranscription={handleVoiceTranscription}
               onImageMarkdown={handleVoiceTranscription}
               iconSize={16}
@@ -335,4 +457,43 @@ export function RichTextEditor({
       </div>
     </div>
   )
-} 
\ No newline at end of file
+} 
+
+/** Props for the WikiLinkSuggestions component */
+interface WikiLinkSuggestionsProps {
+  /** Viewport coordinates of the [[ being completed */
+  coords: { left: number, bottom: number }
+  /** Matching note titles */
+  titles: string[]
+  /** Index of the highlighted title */
+  selectedIndex: number
+  /** Callback when a title is chosen */
+  onSelect: (title: string) => void
+}
+
+/** Autocomplete popup listing notes that match a [[wikilink]] being typed */
+function WikiLinkSuggestions({ coords, titles, selectedIndex, onSelect }: WikiLinkSuggestionsProps) {
+  return (
+    <div
+      className="fixed z-50 min-w-[12rem] max-w-xs py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg"
+      style={{ left: coords.left, top: coords.bottom + 4 }}
+    >
+      {titles.map((title, index) => (
+        <button
+          key={title}
+          // Keep focus in the editor so the selection is not lost
+          onMouseDown={e => {
+            e.preventDefault()
+            onSelect(title)
+          }}
+          className={`block w-full px-3 py-1.5 text-left text-sm truncate
+            ${index === selectedIndex
+              ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300'
+              : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'}`}
+        >
+          {title}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
-import type { Card, Board, Chat } from "./types"
-import { useState, useEffect, useRef, useCallback } from "react"
+import type { Card, Board, Chat, ChatAttachmentData, CardRevision, CardEmbedding, Trash, UsageRecord } from "./types"
+import { useState, useEffect, useRef, useCallback, useMemo } from "react"
 import type { UserSettings } from "./types/settings"
 
 export interface Store {
@@ -11,12 +11,26 @@ export interface Store {
     setBoard(board: Board): Promise<void>
 
     /**
-     * Removes a board and all its associated cards from the store
+     * Moves a board to the trash. Its cards and chats are hidden along with it
      * @param boardId The ID of the board to remove
      * @returns Promise that resolves when the board is removed
      */
     removeBoard(boardId: string): Promise<void>
 
+    /**
+     * Restores a board from the trash
+     * @param boardId The ID of the board to restore
+     * @returns Promise that resolves when the board is restored
+     */
+    restoreBoard(boardId: string): Promise<void>
+
+    /**
+     * Permanently deletes a board and all its associated cards, chats, attachments, revisions and embeddings
+     * @param boardId The ID of the board to purge
+     * @returns Promise that resolves when the board is deleted
+     */
+    purgeBoard(boardId: string): Promise<void>
+
     /**
      * Retrieves all boards from the store
      * @param callback Function called with array of boards
@@ -40,12 +54,26 @@ export interface Store {
     setCard(card: Card): Promise<void>
 
     /**
-     * Removes a card from the store
+     * Moves a card to the trash
      * @param cardId The ID of the card to remove
      * @returns Promise that resolves when the card is removed
      */
     removeCard(cardId: string): Promise<void>
 
+    /**
+     * Restores a card from the trash
+     * @param cardId The ID of the card to restore
+     * @returns Promise that resolves when the card is restored
+     */
+    restoreCard(cardId: string): Promise<void>
+
+    /**
+     * Permanently deletes a card along with its revisions and embeddings
+     * @param cardId The ID of the card to purge
+     * @returns Promise that resolves when the card is deleted
+     */
+    purgeCard(cardId: string): Promise<void>
+
     /**
      * Retrieves all cards for a board from the store
      * @param boardId The ID of the board whose cards to retrieve
@@ -62,6 +90,60 @@ export interface Store {
      */
     getCard(cardId: string, callback: (card: Card | null) => void): () => void
 
+    /**
+     * Adds a revision snapshot of a card to the store
+     * @param revision The revision to add
+     * @returns Promise that resolves when the revision is persisted
+     */
+    addCardRevision(revision: CardRevision): Promise<void>
+
+    /**
+     * Retrieves all revisions of a card from the store
+     * @param cardId The ID of the card whose revisions to retrieve
+     * @param callback Function called with array of revisions
+     * @returns Function to unsubscribe from updates
+     */
+    getCardRevisions(cardId: string, callback: (revisions: CardRevision[]) => void): () => void
+
+    /**
+     * Permanently deletes revisions of a card
+     * @param cardId The ID of the card the revisions belong to
+     * @param revisionIds The IDs of the revisions to delete
+     * @returns Promise that resolves when the revisions are deleted
+     */
+    removeCardRevisions(cardId: string, revisionIds: string[]): Promise<void>
+
+    /**
+     * Adds or updates the embeddings of a card in the store
+     * @param embedding The embedding to upsert
+     * @returns Promise that resolves when the embedding is persisted
+     */
+    setCardEmbedding(embedding: CardEmbedding): Promise<void>
+
+    /**
+     * Retrieves the embeddings of all cards on a board from the store
+     * @param boardId The ID of the board whose card embeddings to retrieve
+     * @param callback Function called with array of embeddings
+     * @returns Function to unsubscribe from updates
+     */
+    getCardEmbeddingsByBoard(boardId: string, callback: (embeddings: CardEmbedding[]) => void): () => void
+
+    /**
+     * Adds a record of the tokens used by a model request to the store.
+     * Records are kept when their board is deleted so past spend stays accurate
+     * @param record The record to add
+     * @returns Promise that resolves when the record is persisted
+     */
+    addUsageRecord(record: UsageRecord): Promise<void>
+
+    /**
+     * Retrieves the usage records created since a time from the store
+     * @param since Earliest creation time to include in ISO 8601 format
+     * @param callback Function called with array of records
+     * @returns Function to unsubscribe from updates
+     */
+    getUsageRecords(since: string, callback: (records: UsageRecord[]) => void): () => void
+
     /**
      * Adds or updates a chat in the store
      * @param chat The chat to upsert
@@ -70,12 +152,26 @@ export interface Store {
     setChat(chat: Chat): Promise<void>
 
     /**
-     * Removes a chat from the store
+     * Moves a chat to the trash
      * @param chatId The ID of the chat to remove
      * @returns Promise that resolves when the chat is removed
      */
     removeChat(chatId: string): Promise<void>
 
+    /**
+     * Restores a chat from the trash
+     * @param chatId The ID of the chat to restore
+     * @returns Promise that resolves when the chat is restored
+     */
+    restoreChat(chatId: string): Promise<void>
+
+    /**
+     * Permanently deletes a chat along with its attachments
+     * @param chatId The ID of the chat to purge
+     * @returns Promise that resolves when the chat is deleted
+     */
+    purgeChat(chatId: string): Promise<void>
+
     /**
      * Retrieves all chats for a board from the store
      * @param boardId The ID of the board whose chats to retrieve
@@ -92,6 +188,28 @@ export interface Store {
      */
     getChat(chatId: string, callback: (chat: Chat | null) => void): () => void
 
+    /**
+     * Adds the content of a file attached to a chat message to the store
+     * @param attachment The attachment content to add
+     * @returns Promise that resolves when the attachment is persisted
+     */
+    setChatAttachment(attachment: ChatAttachmentData): Promise<void>
+
+    /**
+     * Retrieves the content of a file attached to a chat message
+     * @param attachmentId The ID of the attachment to retrieve
+     * @param callback Function called with the attachment content or null if not found
+     * @returns Function to unsubscribe from updates
+     */
+    getChatAttachment(attachmentId: string, callback: (attachment: ChatAttachmentData | null) => void): () => void
+
+    /**
+     * Retrieves the items that have been moved to the trash
+     * @param callback Function called with the trash contents
+     * @returns Function to unsubscribe from updates
+     */
+    getTrash(callback: (trash: Trash) => void): () => void
+
     /**
      * Retrieves user settings from the store
      * @param callback Function called with the settings or null if not found
@@ -343,6 +461,123 @@ export function useCard(store: Store, cardId: string) {
     }
 }
 
+/**
+ * Hook to load the revision history of a card
+ * @param store The store instance
+ * @param cardId ID of the card whose revisions to load
+ */
+export function useCardRevisions(store: Store, cardId: string) {
+    const [revisions, setRevisions] = useState<CardRevision[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<Error | null>(null)
+
+    useEffect(() => {
+        setRevisions([])
+        setLoading(true)
+        setError(null)
+        const unsubscribe = store.getCardRevisions(cardId, (updatedRevisions) => {
+            try {
+                // Newest first
+                setRevisions([...updatedRevisions].sort((a, b) => b.createdAt.localeCompare(a.createdAt)))
+                setLoading(false)
+                setError(null)
+            } catch (e) {
+                setError(e instanceof Error ? e : new Error('Failed to process revisions update'))
+                setLoading(false)
+            }
+        })
+        return unsubscribe
+    }, [store, cardId])
+
+    return {
+        revisions,
+        loading,
+        error
+    }
+}
+
+/**
+ * Hook to read the embeddings of the cards on a board
+ * @param store The store instance
+ * @param boardId ID of the board whose card embeddings to load
+ * @param enabled Whether to load them. Embeddings can be large, so they are only loaded when needed
+ */
+export function useCardEmbeddings(store: Store, boardId: string, enabled: boolean = true) {
+    const [embeddings, setEmbeddings] = useState<CardEmbedding[]>([])
+    const [loading, setLoading] = useState(enabled)
+
+    useEffect(() => {
+        setEmbeddings([])
+        if (!enabled) {
+            setLoading(false)
+            return
+        }
+        setLoading(true)
+        const unsubscribe = store.getCardEmbeddingsByBoard(boardId, (updatedEmbeddings) => {
+            setEmbeddings(updatedEmbeddings)
+            setLoading(false)
+        })
+        return unsubscribe
+    }, [store, boardId, enabled])
+
+    return {
+        embeddings,
+        loading
+    }
+}
+
+/**
+ * Hook to read the usage records created since a time
+ * @param store The store instance
+ * @param since Earliest creation time to include in ISO 8601 format
+ */
+export function useUsageRecords(store: Store, since: string) {
+    const [records, setRecords] = useState<UsageRecord[]>([])
+    const [loading, setLoading] = useState(true)
+
+    useEffect(() => {
+        setLoading(true)
+        const unsubscribe = store.getUsageRecords(since, (updatedRecords) => {
+            setRecords(updatedRecords)
+            setLoading(false)
+        })
+        return unsubscribe
+    }, [store, since])
+
+    return {
+        records,
+        loading
+    }
+}
+
+/**
+ * Hook to load the cards of every board, such as for linking between notes
+ * @param store The store instance
+ */
+export function useAllCards(store: Store) {
+    const { boards, loading: boardsLoading, error } = useBoards(store)
+    const [cardsByBoard, setCardsByBoard] = useState<Record<string, Card[]>>({})
+    const boardIds = boards.map(b => b.id).join(',')
+
+    useEffect(() => {
+        const ids = boardIds ? boardIds.split(',') : []
+        // Drop cards of boards that no longer exist
+        setCardsByBoard(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => ids.includes(id))))
+        const unsubscribes = ids.map(boardId => store.getCardsByBoard(boardId, (updatedCards) => {
+            setCardsByBoard(prev => ({ ...prev, [boardId]: updatedCards }))
+        }))
+        return () => unsubscribes.forEach(unsubscribe => unsubscribe())
+    }, [store, boardIds])
+
+    const cards = useMemo(() => Object.values(cardsByBoard).flat(), [cardsByBoard])
+
+    return {
+        cards,
+        loading: boardsLoading,
+        error
+    }
+}
+
 /**
  * Hook to interact with chats belonging to a board
  * @param store The store instance
@@ -463,4 +698,36 @@ export function useChat(store: Store, chatId: string) {
             }
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Hook to load the contents of the trash
+ * @param store The store instance
+ */
+export function useTrash(store: Store) {
+    const [trash, setTrash] = useState<Trash>({ boards: [], cards: [], chats: [] })
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<Error | null>(null)
+
+    useEffect(() => {
+        setLoading(true)
+        setError(null)
+        const unsubscribe = store.getTrash((updatedTrash) => {
+            try {
+                setTrash(updatedTrash)
+                setLoading(false)
+                setError(null)
+            } catch (e) {
+                setError(e instanceof Error ? e : new Error('Failed to process trash update'))
+                setLoading(false)
+            }
+        })
+        return unsubscribe
+    }, [store])
+
+    return {
+        trash,
+        loading,
+        error
+    }
+}
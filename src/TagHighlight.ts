@@ -0,0 +1,56 @@
+import { Extension } from '@tiptap/react'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import { INLINE_TAG_PATTERN } from './modules/tags'
+
+const tagHighlightKey = new PluginKey('tagHighlight')
+
+/**
+ * Finds the inline #tags in a document and decorates them
+ */
+function findTagDecorations(doc: ProseMirrorNode): DecorationSet {
+  const decorations: Decoration[] = []
+
+  doc.descendants((node, pos) => {
+    if (!node.isText || !node.text) return
+    // Tags inside code are literal text
+    if (node.marks.some(mark => mark.type.name === 'code')) return
+
+    for (const match of node.text.matchAll(INLINE_TAG_PATTERN)) {
+      const from = pos + match.index! + match[1].length
+      const to = from + match[2].length + 1
+      decorations.push(Decoration.inline(from, to, {
+        class: 'text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/30 rounded px-0.5',
+        'data-tag': match[2].toLowerCase()
+      }))
+    }
+  })
+
+  return DecorationSet.create(doc, decorations)
+}
+
+/**
+ * Highlights inline #tags as they are typed. Tags stay plain text in the
+ * markdown; this only changes how they are displayed.
+ */
+export const TagHighlight = Extension.create({
+  name: 'tagHighlight',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: tagHighlightKey,
+        state: {
+          init: (_, { doc }) => findTagDecorations(doc),
+          apply: (tr, decorations) => tr.docChanged ? findTagDecorations(tr.doc) : decorations
+        },
+        props: {
+          decorations(state) {
+            return tagHighlightKey.getState(state)
+          }
+        }
+      })
+    ]
+  }
+})
@@ -0,0 +1,62 @@
+import { Node, InputRule, mergeAttributes } from '@tiptap/react'
+
+/** Options for the WikiLink extension */
+export interface WikiLinkOptions {
+  /** HTML attributes added to every rendered link */
+  HTMLAttributes: Record<string, any>
+}
+
+/**
+ * Inline node for a [[Note title]] link to another note. Stored in markdown as
+ * [[Note title]] and rendered as a span with a data-wikilink attribute.
+ */
+export const WikiLink = Node.create<WikiLinkOptions>({
+  name: 'wikiLink',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {
+        class: 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 rounded px-0.5 cursor-pointer hover:underline'
+      }
+    }
+  },
+
+  addAttributes() {
+    return {
+      title: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-wikilink') ?? '',
+        renderHTML: attributes => ({ 'data-wikilink': attributes.title })
+      }
+    }
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-wikilink]' }]
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes), node.attrs.title]
+  },
+
+  renderText({ node }) {
+    return `[[${node.attrs.title}]]`
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: /\[\[([^[\]\n]+)\]\]$/,
+        handler: ({ state, range, match }) => {
+          const title = match[1].trim()
+          if (!title) return null
+          state.tr.replaceWith(range.from, range.to, this.type.create({ title }))
+        }
+      })
+    ]
+  }
+})
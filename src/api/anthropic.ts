@@ -1,16 +1,36 @@
-import type { ChatMessage } from '../types'
-import type { LLMProvider, LLMOptions, LLMResponse } from './llm'
+import type { LLMProvider, LLMFile, LLMMessage, LLMOptions, LLMResponse, LLMUsage, LLMStreamEvent, ToolConversationMessage, ToolDefinition, ToolCompletionResponse } from './llm'
+import { LLMRequestError, normalizeFinishReason, parseRetryAfter, readErrorBody } from './llm'
 
 /** Base URL for Anthropic's API */
 const ANTHROPIC_API_BASE = 'https://api.anthropic.com/v1'
 
+/** Default output limit for tool completions, which may produce the final answer */
+const TOOL_COMPLETION_MAX_TOKENS = 4096
+
 /** Message role for Anthropic's API */
 export type AnthropicRole = 'user' | 'assistant'
 
+/** Content block of an Anthropic API message */
+export type AnthropicContentBlock =
+    | { type: 'text', text: string }
+    | { type: 'image', source: { type: 'base64', media_type: string, data: string } }
+    | { type: 'document', source: { type: 'base64', media_type: string, data: string }, title?: string }
+    | { type: 'tool_use', id: string, name: string, input: Record<string, unknown> }
+    | { type: 'tool_result', tool_use_id: string, content: string }
+    | { type: 'thinking', thinking: string, signature: string }
+    | { type: 'redacted_thinking', data: string }
+
 /** Interface for Anthropic API message */
 export interface AnthropicMessage {
     role: AnthropicRole
-    content: string
+    content: string | AnthropicContentBlock[]
+}
+
+/** Interface for a tool in an Anthropic API request */
+export interface AnthropicTool {
+    name: string
+    description: string
+    input_schema: ToolDefinition['parameters']
 }
 
 /** Interface for Anthropic API request */
@@ -21,6 +41,7 @@ export interface AnthropicChatRequest {
     temperature?: number
     system?: string
     stream?: boolean
+    tools?: AnthropicTool[]
     thinking?: {
         type: 'enabled'
         budget_tokens: number
@@ -38,12 +59,7 @@ export interface AnthropicChatResponse {
     /** Model used to generate the response */
     model: string
     /** Array of content blocks */
-    content: Array<{
-        /** Type of content block */
-        type: 'text'
-        /** Text content */
-        text: string
-    }>
+    content: AnthropicContentBlock[]
     /** Reason the generation stopped */
     stop_reason: string | null
     /** Sequence that caused the stop */
@@ -64,13 +80,14 @@ export interface AnthropicChatResponse {
 /**
  * Error thrown when there's an issue with the Anthropic API
  */
-export class AnthropicError extends Error {
+export class AnthropicError extends LLMRequestError {
     constructor(
         message: string,
-        public status?: number,
-        public response?: any
+        status?: number,
+        public response?: any,
+        retryAfterMs: number | null = null
     ) {
-        super(message)
+        super(message, status, retryAfterMs)
         this.name = 'AnthropicError'
     }
 }
@@ -88,13 +105,85 @@ export class AnthropicClient implements LLMProvider {
     /**
      * Converts our internal ChatMessage format to Anthropic's format
      */
-    private static toAnthropicMessages(messages: ChatMessage[]): AnthropicMessage[] {
+    private static toAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
         return messages.map(msg => ({
             role: msg.role,
-            content: msg.content
+            content: AnthropicClient.toAnthropicContent(msg.content, msg.files)
         }))
     }
 
+    /**
+     * Converts the text and files of a message to Anthropic's format. Images are
+     * sent as image blocks and other files, such as PDFs, as document blocks
+     */
+    private static toAnthropicContent(content: string, files: LLMFile[] | undefined): string | AnthropicContentBlock[] {
+        if (!files?.length) return content
+        return [
+            ...files.map((file): AnthropicContentBlock => {
+                const source = { type: 'base64' as const, media_type: file.mimeType, data: file.data }
+                return file.mimeType.startsWith('image/')
+                    ? { type: 'image', source }
+                    : { type: 'document', source, title: file.name }
+            }),
+            ...(content ? [{ type: 'text' as const, text: content }] : [])
+        ]
+    }
+
+    /**
+     * Converts a tool conversation to Anthropic's format. Tool results are sent in
+     * user messages, with the results of consecutive calls grouped together
+     */
+    private static toAnthropicToolMessages(messages: ToolConversationMessage[]): AnthropicMessage[] {
+        const converted: AnthropicMessage[] = []
+
+        for (const msg of messages) {
+            if (msg.role === 'tool') {
+                const block: AnthropicContentBlock = { type: 'tool_result', tool_use_id: msg.toolCallId ?? '', content: msg.content }
+                const last = converted[converted.length - 1]
+                if (last?.role === 'user' && Array.isArray(last.content) && last.content.every(b => b.type === 'tool_result')) {
+                    last.content.push(block)
+                } else {
+                    converted.push({ role: 'user', content: [block] })
+                }
+            } else if (msg.role === 'assistant' && msg.providerData) {
+                // The original content blocks, which include any thinking the model continues from
+                converted.push({ role: 'assistant', content: msg.providerData as AnthropicContentBlock[] })
+            } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+                converted.push({
+                    role: 'assistant',
+                    content: [
+                        ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+                        ...msg.toolCalls.map(call => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments }))
+                    ]
+                })
+            } else {
+                converted.push({ role: msg.role, content: AnthropicClient.toAnthropicContent(msg.content, msg.files) })
+            }
+        }
+
+        return converted
+    }
+
+    /**
+     * Gets the text of a response, joining its text blocks
+     */
+    private static getResponseText(response: AnthropicChatResponse): string {
+        return response.content
+            .map(block => block.type === 'text' ? block.text : '')
+            .join('')
+    }
+
+    /**
+     * Gets the thinking of a response, joining its thinking blocks
+     * @returns The thinking, or undefined if there is none
+     */
+    private static getReasoningText(response: AnthropicChatResponse): string | undefined {
+        const thinking = response.content
+            .map(block => block.type === 'thinking' ? block.thinking : '')
+            .join('')
+        return thinking || undefined
+    }
+
     /**
      * Makes a request to the Anthropic API
      */
@@ -112,16 +201,12 @@ export class AnthropicClient implements LLMProvider {
         })
 
         if (!response.ok) {
-            let errorBody
-            try {
-                errorBody = await response.json()
-            } catch {
-                errorBody = await response.text()
-            }
+            const errorBody = await readErrorBody(response)
             throw new AnthropicError(
                 `Anthropic API error: ${response.statusText}`,
                 response.status,
-                errorBody
+                errorBody,
+                parseRetryAfter(response.headers.get('retry-after'))
             )
         }
 
@@ -132,7 +217,7 @@ export class AnthropicClient implements LLMProvider {
      * Sends a chat completion request to Anthropic
      */
     async createChatCompletion(
-        messages: ChatMessage[],
+        messages: LLMMessage[],
         options: LLMOptions,
         signal?: AbortSignal
     ): Promise<LLMResponse> {
@@ -154,25 +239,111 @@ export class AnthropicClient implements LLMProvider {
         const response = await this.makeRequest('/messages', request, signal)
         const anthropicResponse: AnthropicChatResponse = await response.json()
 
+        const reasoning = AnthropicClient.getReasoningText(anthropicResponse)
         return {
-            content: anthropicResponse.content[0].text,
+            content: AnthropicClient.getResponseText(anthropicResponse),
             model: anthropicResponse.model,
-            usage: {
-                inputTokens: anthropicResponse.usage.input_tokens,
-                outputTokens: anthropicResponse.usage.output_tokens
+            usage: AnthropicClient.getUsage(anthropicResponse.usage),
+            ...(reasoning ? { reasoning } : {})
+        }
+    }
+
+    /**
+     * Sends a chat completion request in which the model may call tools
+     */
+    async createToolCompletion(
+        messages: ToolConversationMessage[],
+        tools: ToolDefinition[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): Promise<ToolCompletionResponse> {
+        const maxTokens = options.maxTokens ?? TOOL_COMPLETION_MAX_TOKENS
+        const request: AnthropicChatRequest = {
+            model: options.modelId,
+            messages: AnthropicClient.toAnthropicToolMessages(messages),
+            max_tokens: options.thinkingTokens ? maxTokens + options.thinkingTokens : maxTokens,
+            temperature: options.thinkingTokens ? 1 : (options.temperature ?? 0.7),
+            system: options.system,
+            tools: tools.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters
+            }))
+        }
+
+        if (options.thinkingTokens) {
+            request.thinking = {
+                type: 'enabled',
+                budget_tokens: options.thinkingTokens
             }
         }
+
+        const response = await this.makeRequest('/messages', request, signal)
+        const anthropicResponse: AnthropicChatResponse = await response.json()
+        const reasoning = AnthropicClient.getReasoningText(anthropicResponse)
+
+        return {
+            content: AnthropicClient.getResponseText(anthropicResponse),
+            model: anthropicResponse.model,
+            usage: AnthropicClient.getUsage(anthropicResponse.usage),
+            ...(reasoning ? { reasoning } : {}),
+            toolCalls: anthropicResponse.content.flatMap(block =>
+                block.type === 'tool_use' ? [{ id: block.id, name: block.name, arguments: block.input }] : []
+            ),
+            providerData: anthropicResponse.content
+        }
+    }
+
+    /**
+     * Converts Anthropic's usage statistics. Cached input tokens are billed as input
+     * too, so they are counted with it
+     */
+    private static getUsage(usage: Partial<AnthropicChatResponse['usage']>): LLMUsage {
+        return {
+            inputTokens: (usage.input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0),
+            outputTokens: usage.output_tokens
+        }
+    }
+
+    /**
+     * Converts an event of Anthropic's stream
+     * @returns The stream events it carries
+     */
+    private static toStreamEvents(data: any): LLMStreamEvent[] {
+        switch (data.type) {
+            case 'content_block_delta':
+                if (data.delta?.type === 'text_delta' && data.delta.text) {
+                    return [{ type: 'text', text: data.delta.text }]
+                }
+                if (data.delta?.type === 'thinking_delta' && data.delta.thinking) {
+                    return [{ type: 'reasoning', text: data.delta.thinking }]
+                }
+                return []
+            case 'message_delta': {
+                const reason = normalizeFinishReason(data.delta?.stop_reason)
+                return reason ? [{ type: 'finish', reason }] : []
+            }
+            case 'error':
+                throw new AnthropicError(
+                    data.error.message,
+                    undefined,
+                    data.error
+                )
+            default:
+                // Handle other event types silently
+                return []
+        }
     }
 
     /**
      * Creates a streaming chat completion
-     * @returns AsyncGenerator that yields chunks of the response
+     * @returns AsyncGenerator that yields the text and thinking of the response, then the usage
      */
     async *createStreamingChatCompletion(
-        messages: ChatMessage[],
+        messages: LLMMessage[],
         options: LLMOptions,
         signal?: AbortSignal
-    ): AsyncGenerator<string, void, unknown> {
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
         const request: AnthropicChatRequest = {
             model: options.modelId,
             messages: AnthropicClient.toAnthropicMessages(messages),
@@ -181,6 +352,7 @@ export class AnthropicClient implements LLMProvider {
             system: options.system,
             stream: true,
         }
+        let usage: Partial<AnthropicChatResponse['usage']> = {}
 
         if (options.thinkingTokens) {
             request.thinking = {
@@ -201,6 +373,7 @@ export class AnthropicClient implements LLMProvider {
                 // Check if request was aborted
                 if (signal?.aborted) {
                     reader.cancel()
+                    yield { type: 'usage', usage: AnthropicClient.getUsage(usage) }
                     return
                 }
                 
@@ -214,35 +387,25 @@ export class AnthropicClient implements LLMProvider {
                 for (const line of lines) {
                     if (!line.trim()) continue
 
-                    // Parse SSE event
-                    const event = line.startsWith('event: ') 
-                        ? line.slice(7).trim() 
-                        : undefined
+                    // Parse SSE data. The event name is repeated in the data's type
                     const data = line.startsWith('data: ') 
                         ? JSON.parse(line.slice(6)) 
                         : undefined
 
                     if (!data) continue
 
-                    switch (data.type) {
-                        case 'content_block_delta':
-                            if (data.delta?.type === 'text_delta' && data.delta.text) {
-                                yield data.delta.text
-                            }
-                            break
-                        case 'error':
-                            throw new AnthropicError(
-                                data.error.message,
-                                undefined,
-                                data.error
-                            )
-                        // Handle other event types silently
+                    if (data.type === 'message_start') {
+                        usage = { ...usage, ...data.message?.usage }
+                    } else if (data.type === 'message_delta') {
+                        usage = { ...usage, ...data.usage }
                     }
+                    yield* AnthropicClient.toStreamEvents(data)
                 }
             }
         } catch (error) {
             if (signal?.aborted) {
                 // If this was due to an abort, just return quietly
+                yield { type: 'usage', usage: AnthropicClient.getUsage(usage) }
                 return
             }
             throw error // Re-throw if it wasn't an abort
@@ -252,13 +415,10 @@ export class AnthropicClient implements LLMProvider {
         if (buffer.trim()) {
             const line = buffer.trim()
             if (line.startsWith('data: ')) {
-                const data = JSON.parse(line.slice(6))
-                if (data.type === 'content_block_delta' && 
-                    data.delta?.type === 'text_delta' && 
-                    data.delta.text) {
-                    yield data.delta.text
-                }
+                yield* AnthropicClient.toStreamEvents(JSON.parse(line.slice(6)))
             }
         }
+
+        yield { type: 'usage', usage: AnthropicClient.getUsage(usage) }
     }
 } 
\ No newline at end of file
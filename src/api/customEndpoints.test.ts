@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { fetchEndpointModels, normalizeBaseURL } from './customEndpoints'
+import { getApiKeyForModel, getCustomModelId, getModelById } from './llm'
+import type { CustomEndpoint } from '../types/settings'
+
+describe('customEndpoints', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('adds the usual /v1 path to bare server URLs', () => {
+        expect(normalizeBaseURL('http://localhost:11434/')).toBe('http://localhost:11434/v1')
+        expect(normalizeBaseURL(' http://localhost:8000/api/v1/ ')).toBe('http://localhost:8000/api/v1')
+    })
+
+    it('lists the models of a server, sending the key only if there is one', async () => {
+        const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({
+            object: 'list',
+            data: [{ id: 'qwen3:8b' }, { id: 'llama3.2' }]
+        })))
+        vi.stubGlobal('fetch', fetchMock)
+
+        expect(await fetchEndpointModels('http://localhost:11434/v1', '')).toEqual(['llama3.2', 'qwen3:8b'])
+        expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/models')
+        expect(fetchMock.mock.calls[0][1]!.headers).toEqual({})
+
+        await fetchEndpointModels('http://localhost:11434/v1', 'secret')
+        expect(fetchMock.mock.calls[1][1]!.headers).toEqual({ 'Authorization': 'Bearer secret' })
+    })
+
+    it('reports servers that fail or do not list models', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404, statusText: 'Not Found' })))
+        await expect(fetchEndpointModels('http://localhost/v1', '')).rejects.toThrow('404')
+
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ models: [] }))))
+        await expect(fetchEndpointModels('http://localhost/v1', '')).rejects.toThrow('did not return a list')
+    })
+
+    it('finds the models of custom endpoints and their keys', () => {
+        const endpoint: CustomEndpoint = { id: 'ollama', name: 'Ollama', baseURL: 'http://localhost:11434/v1', apiKey: '', models: ['llama3.2'] }
+        const model = getModelById(getCustomModelId('ollama', 'llama3.2'), { customEndpoints: [endpoint] })
+
+        expect(model).toMatchObject({ provider: 'custom', modelId: 'llama3.2', name: 'llama3.2 (Ollama)', baseURL: endpoint.baseURL })
+        expect(getApiKeyForModel(model!, { customEndpoints: [endpoint] })).toBe('')
+        expect(getModelById(getCustomModelId('ollama', 'removed'), { customEndpoints: [endpoint] })).toBeUndefined()
+    })
+})
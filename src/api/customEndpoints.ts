@@ -0,0 +1,45 @@
+/**
+ * Normalizes the base URL of an OpenAI-compatible server. A URL with no path,
+ * such as http://localhost:11434, is given the usual /v1 path
+ * @returns The URL without a trailing slash
+ */
+export function normalizeBaseURL(url: string): string {
+    const trimmed = url.trim().replace(/\/+$/, '')
+    try {
+        const parsed = new URL(trimmed)
+        if (parsed.pathname === '/' || parsed.pathname === '') {
+            return `${trimmed}/v1`
+        }
+    } catch {
+        // Left as is, so the request reports the problem
+    }
+    return trimmed
+}
+
+/**
+ * Lists the models an OpenAI-compatible server offers, using its /models endpoint
+ * @param baseURL Base URL of the API, e.g. http://localhost:11434/v1
+ * @param apiKey API key. Empty if the server does not need one
+ * @param signal Signal to cancel the request
+ * @returns The model IDs, sorted
+ */
+export async function fetchEndpointModels(baseURL: string, apiKey: string, signal?: AbortSignal): Promise<string[]> {
+    const response = await fetch(`${baseURL}/models`, {
+        headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+        signal
+    })
+
+    if (!response.ok) {
+        throw new Error(`Could not list models: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    if (!Array.isArray(data?.data)) {
+        throw new Error('The server did not return a list of models')
+    }
+
+    return data.data
+        .map((model: { id?: unknown }) => model.id)
+        .filter((id: unknown): id is string => typeof id === 'string')
+        .sort((a: string, b: string) => a.localeCompare(b))
+}
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DeepSeekClient } from './deepseek'
+import { LLMFactory, getModelById, type LLMStreamEvent, type ToolDefinition } from './llm'
+
+describe('DeepSeekClient', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('is created for DeepSeek models', async () => {
+        const provider = await LLMFactory.createProvider('deepseek-reasoner', 'test-key')
+        expect(provider).toBeInstanceOf(DeepSeekClient)
+        expect(getModelById('deepseek-reasoner')?.noTemperature).toBe(true)
+    })
+
+    it('returns the reasoning separately from the answer', async () => {
+        const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({
+            choices: [{ message: { content: '42', reasoning_content: 'Six times seven.' } }],
+            model: 'deepseek-reasoner',
+            usage: { prompt_tokens: 10, completion_tokens: 20, completion_tokens_details: { reasoning_tokens: 15 } }
+        })))
+        vi.stubGlobal('fetch', fetchMock)
+
+        const response = await new DeepSeekClient('test-key').createChatCompletion([
+            { role: 'user', content: 'What is six times seven?', createdAt: '2026-05-01T00:00:00.000Z' }
+        ], { modelId: 'deepseek-reasoner', system: 'Be brief' })
+
+        expect(response).toMatchObject({ content: '42', reasoning: 'Six times seven.', usage: { inputTokens: 10, outputTokens: 20, reasoningTokens: 15 } })
+        expect(fetchMock.mock.calls[0][0]).toBe('https://api.deepseek.com/chat/completions')
+        expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string).messages[0]).toEqual({ role: 'system', content: 'Be brief' })
+    })
+
+    it('streams the reasoning separately from the answer', async () => {
+        const body = [
+            ': keep-alive',
+            'data: {"choices":[{"delta":{"reasoning_content":"Thinking"}}]}',
+            'data: {"choices":[{"delta":{"content":"4"}}]}',
+            'data: {"choices":[{"delta":{"content":"2"}}]}',
+            'data: {"choices":[],"usage":{"prompt_tokens":10,"completion_tokens":5}}',
+            'data: [DONE]',
+            ''
+        ].join('\n')
+        const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(body))
+        vi.stubGlobal('fetch', fetchMock)
+
+        const stream = new DeepSeekClient('test-key').createStreamingChatCompletion([
+            { role: 'user', content: 'Hi', createdAt: '2026-05-01T00:00:00.000Z' }
+        ], { modelId: 'deepseek-reasoner' })
+
+        const events: LLMStreamEvent[] = []
+        for await (const event of stream) {
+            events.push(event)
+        }
+
+        expect(events.filter(e => e.type === 'reasoning')).toEqual([{ type: 'reasoning', text: 'Thinking' }])
+        expect(events.flatMap(e => e.type === 'text' ? [e.text] : []).join('')).toBe('42')
+        expect(events[events.length - 1]).toMatchObject({ type: 'usage', usage: { inputTokens: 10, outputTokens: 5 } })
+        expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string)).toMatchObject({ stream: true, stream_options: { include_usage: true } })
+    })
+
+    it('sends the reasoning back with tool calls', async () => {
+        const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({
+            choices: [{
+                message: {
+                    content: '',
+                    reasoning_content: 'I should read note a.',
+                    tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'read_note', arguments: '{"id":"a"}' } }]
+                }
+            }],
+            model: 'deepseek-reasoner'
+        })))
+        vi.stubGlobal('fetch', fetchMock)
+
+        const tools: ToolDefinition[] = [{
+            name: 'read_note',
+            description: 'Reads a note',
+            parameters: { type: 'object', properties: { id: { type: 'string', description: 'ID' } }, required: ['id'] }
+        }]
+        const client = new DeepSeekClient('test-key')
+        const response = await client.createToolCompletion([{ role: 'user', content: 'What does note a say?' }], tools, { modelId: 'deepseek-reasoner' })
+
+        expect(response.toolCalls).toEqual([{ id: 'call-1', name: 'read_note', arguments: { id: 'a' } }])
+        expect(response.providerData).toBe('I should read note a.')
+
+        await client.createToolCompletion([
+            { role: 'user', content: 'What does note a say?' },
+            { role: 'assistant', content: '', toolCalls: response.toolCalls, providerData: response.providerData },
+            { role: 'tool', content: 'Nothing', toolCallId: 'call-1', toolName: 'read_note' }
+        ], tools, { modelId: 'deepseek-reasoner' })
+
+        const request = JSON.parse(fetchMock.mock.calls[1][1]!.body as string)
+        expect(request.messages[1]).toMatchObject({ role: 'assistant', reasoning_content: 'I should read note a.' })
+        expect(request.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call-1', content: 'Nothing' })
+    })
+})
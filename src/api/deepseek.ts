@@ -0,0 +1,236 @@
+import type { LLMProvider, LLMMessage, LLMOptions, LLMResponse, LLMStreamEvent, ToolConversationMessage, ToolDefinition, ToolCompletionResponse } from './llm'
+import { LLMRequestError, parseToolArguments, parseOpenAIUsage, normalizeFinishReason, parseRetryAfter, readErrorBody } from './llm'
+
+/** Base URL for DeepSeek's API */
+const DEEPSEEK_API_BASE = 'https://api.deepseek.com'
+
+/**
+ * DeepSeek API client implementation. DeepSeek's API follows OpenAI's, except that
+ * deepseek-reasoner returns its chain of thought as reasoning_content, separately
+ * from the answer
+ */
+export class DeepSeekClient implements LLMProvider {
+    private apiKey: string
+
+    constructor(apiKey: string) {
+        this.apiKey = apiKey
+    }
+
+    /** Converts messages to DeepSeek's format. Files are left out, as the API only takes text */
+    private convertMessages(messages: LLMMessage[], system?: string): any[] {
+        const converted: any[] = []
+
+        if (system) {
+            converted.push({
+                role: 'system',
+                content: system
+            })
+        }
+
+        messages.forEach(msg => {
+            converted.push({
+                role: msg.role,
+                content: msg.content
+            })
+        })
+
+        return converted
+    }
+
+    /**
+     * Converts a tool conversation to DeepSeek's format. The reasoning returned with
+     * an assistant message that calls tools is sent back, as deepseek-reasoner
+     * continues from it once it has the results
+     */
+    private convertToolMessages(messages: ToolConversationMessage[], system?: string): any[] {
+        const converted: any[] = []
+
+        if (system) {
+            converted.push({
+                role: 'system',
+                content: system
+            })
+        }
+
+        messages.forEach(msg => {
+            if (msg.role === 'tool') {
+                converted.push({
+                    role: 'tool',
+                    tool_call_id: msg.toolCallId,
+                    content: msg.content
+                })
+            } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+                converted.push({
+                    role: 'assistant',
+                    content: msg.content || null,
+                    tool_calls: msg.toolCalls.map(call => ({
+                        id: call.id,
+                        type: 'function',
+                        function: {
+                            name: call.name,
+                            arguments: JSON.stringify(call.arguments)
+                        }
+                    })),
+                    ...(typeof msg.providerData === 'string' ? { reasoning_content: msg.providerData } : {})
+                })
+            } else {
+                converted.push({
+                    role: msg.role,
+                    content: msg.content
+                })
+            }
+        })
+
+        return converted
+    }
+
+    /** Sends a request to the chat completions endpoint */
+    private async post(body: object, signal?: AbortSignal): Promise<Response> {
+        const response = await fetch(`${DEEPSEEK_API_BASE}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.apiKey}`
+            },
+            body: JSON.stringify(body),
+            signal
+        })
+
+        if (!response.ok) {
+            const errorBody = await readErrorBody(response)
+            throw new LLMRequestError(
+                `DeepSeek API error: ${response.statusText} - ${JSON.stringify(errorBody)}`,
+                response.status,
+                parseRetryAfter(response.headers.get('retry-after'))
+            )
+        }
+
+        return response
+    }
+
+    async createChatCompletion(
+        messages: LLMMessage[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): Promise<LLMResponse> {
+        const response = await this.post({
+            model: options.modelId,
+            messages: this.convertMessages(messages, options.system),
+            max_tokens: options.maxTokens,
+            temperature: options.temperature
+        }, signal)
+
+        const data = await response.json()
+        const message = data.choices[0]?.message
+        if (!message?.content) {
+            throw new Error('No completion received from DeepSeek')
+        }
+
+        return {
+            content: message.content,
+            model: data.model,
+            usage: parseOpenAIUsage(data.usage),
+            ...(message.reasoning_content ? { reasoning: message.reasoning_content } : {})
+        }
+    }
+
+    async createToolCompletion(
+        messages: ToolConversationMessage[],
+        tools: ToolDefinition[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): Promise<ToolCompletionResponse> {
+        const response = await this.post({
+            model: options.modelId,
+            messages: this.convertToolMessages(messages, options.system),
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+            tools: tools.map(tool => ({
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters
+                }
+            }))
+        }, signal)
+
+        const data = await response.json()
+        const message = data.choices[0]?.message
+        if (!message) {
+            throw new Error('No completion received from DeepSeek')
+        }
+
+        return {
+            content: message.content ?? '',
+            model: data.model,
+            usage: parseOpenAIUsage(data.usage),
+            toolCalls: (message.tool_calls ?? []).map((call: any) => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: parseToolArguments(call.function.arguments)
+            })),
+            ...(message.reasoning_content ? { reasoning: message.reasoning_content, providerData: message.reasoning_content } : {})
+        }
+    }
+
+    /**
+     * Streams the answer. The reasoning of deepseek-reasoner arrives before the
+     * answer as reasoning_content deltas, which are yielded as reasoning
+     */
+    async *createStreamingChatCompletion(
+        messages: LLMMessage[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
+        const response = await this.post({
+            model: options.modelId,
+            messages: this.convertMessages(messages, options.system),
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+            stream: true,
+            stream_options: { include_usage: true }
+        }, signal)
+
+        const reader = response.body?.getReader()
+        if (!reader) throw new Error('No response body')
+
+        const decoder = new TextDecoder()
+        let buffer = ''
+
+        try {
+            while (true) {
+                const { done, value } = await reader.read()
+                if (done) break
+
+                buffer += decoder.decode(value, { stream: true })
+                const lines = buffer.split('\n')
+                buffer = lines.pop() || ''
+
+                for (const line of lines) {
+                    // DeepSeek sends keep-alive comments while the request is queued
+                    if (line.trim() === '' || line.startsWith(':')) continue
+                    if (line.trim() === 'data: [DONE]') continue
+
+                    try {
+                        const data = JSON.parse(line.replace(/^data: /, ''))
+                        const choice = data.choices[0]
+                        if (choice?.delta?.reasoning_content) yield { type: 'reasoning', text: choice.delta.reasoning_content }
+                        if (choice?.delta?.content) yield { type: 'text', text: choice.delta.content }
+
+                        const finishReason = normalizeFinishReason(choice?.finish_reason)
+                        if (finishReason) yield { type: 'finish', reason: finishReason }
+
+                        // Usage arrives in the last chunk
+                        const usage = parseOpenAIUsage(data.usage)
+                        if (usage) yield { type: 'usage', usage }
+                    } catch (e) {
+                        console.warn('Error parsing SSE message:', e)
+                    }
+                }
+            }
+        } finally {
+            reader.releaseLock()
+        }
+    }
+}
@@ -1,6 +1,13 @@
-import { GoogleGenerativeAI, GenerativeModel, Part } from '@google/generative-ai'
-import { LLMProvider, LLMOptions, LLMResponse } from './llm'
-import type { ChatMessage } from '../types'
+import { GoogleGenerativeAI, GenerativeModel, Part, Content, SchemaType, UsageMetadata } from '@google/generative-ai'
+import { LLMProvider, LLMFile, LLMMessage, LLMOptions, LLMResponse, LLMUsage, LLMStreamEvent, EmbeddingProvider, ToolConversationMessage, ToolDefinition, ToolCompletionResponse, ToolParameters, normalizeFinishReason } from './llm'
+
+/** Gemini schema types of tool arguments */
+const GEMINI_SCHEMA_TYPES: Record<ToolParameters['properties'][string]['type'], SchemaType> = {
+    string: SchemaType.STRING,
+    number: SchemaType.NUMBER,
+    integer: SchemaType.INTEGER,
+    boolean: SchemaType.BOOLEAN
+}
 
 /** Options for audio transcription */
 export interface TranscriptionOptions {
@@ -23,13 +30,35 @@ export class GeminiClient implements LLMProvider {
     }
 
     /** Convert our message format to Gemini's format */
-    private convertMessages(messages: ChatMessage[]) {
+    private convertMessages(messages: LLMMessage[]) {
         return messages.map(msg => ({
             role: msg.role === 'assistant' ? 'model' : 'user',
-            parts: [{ text: msg.content }]
+            parts: this.convertParts(msg.content, msg.files)
         }))
     }
 
+    /** Convert the text and files of a message to Gemini parts, with files sent inline */
+    private convertParts(content: string, files: LLMFile[] | undefined): Part[] {
+        return [
+            ...(files ?? []).map(file => ({ inlineData: { mimeType: file.mimeType, data: file.data } })),
+            { text: content }
+        ]
+    }
+
+    /**
+     * Convert Gemini's usage metadata. Newer models report reasoning as thoughts,
+     * separately from the candidates, though both are billed as output
+     */
+    private getUsage(metadata: UsageMetadata | undefined): LLMUsage | undefined {
+        if (!metadata) return undefined
+        const thoughtsTokenCount: number | undefined = (metadata as UsageMetadata & { thoughtsTokenCount?: number }).thoughtsTokenCount
+        return {
+            inputTokens: metadata.promptTokenCount,
+            outputTokens: metadata.candidatesTokenCount + (thoughtsTokenCount ?? 0),
+            reasoningTokens: thoughtsTokenCount
+        }
+    }
+
     /** Convert system message to Gemini's Content format */
     private convertSystemMessage(system: string) {
         return {
@@ -38,6 +67,44 @@ export class GeminiClient implements LLMProvider {
         }
     }
 
+    /**
+     * Convert a tool conversation to Gemini's format. Results of consecutive
+     * tool calls are grouped into one function message
+     */
+    private convertToolMessages(messages: ToolConversationMessage[]): Content[] {
+        const converted: Content[] = []
+
+        for (const msg of messages) {
+            if (msg.role === 'tool') {
+                const part: Part = { functionResponse: { name: msg.toolName ?? '', response: { content: msg.content } } }
+                const last = converted[converted.length - 1]
+                if (last?.role === 'function') {
+                    last.parts.push(part)
+                } else {
+                    converted.push({ role: 'function', parts: [part] })
+                }
+            } else if (msg.role === 'assistant' && msg.providerData) {
+                // The original parts, which carry signatures of any thinking the model continues from
+                converted.push({ role: 'model', parts: msg.providerData as Part[] })
+            } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+                converted.push({
+                    role: 'model',
+                    parts: [
+                        ...(msg.content ? [{ text: msg.content }] : []),
+                        ...msg.toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+                    ]
+                })
+            } else {
+                converted.push({
+                    role: msg.role === 'assistant' ? 'model' : 'user',
+                    parts: this.convertParts(msg.content, msg.files)
+                })
+            }
+        }
+
+        return converted
+    }
+
     /** 
      * Transcribe audio content using Gemini
      * @param audioBlob Audio blob to transcribe
@@ -82,7 +149,7 @@ export class GeminiClient implements LLMProvider {
     }
 
     async createChatCompletion(
-        messages: ChatMessage[],
+        messages: LLMMessage[],
         options: LLMOptions,
         signal?: AbortSignal
     ): Promise<LLMResponse> {
@@ -107,16 +174,61 @@ export class GeminiClient implements LLMProvider {
         return {
             content: text,
             model: options.modelId,
-            // Note: Gemini API currently doesn't provide token usage information
-            usage: {}
+            usage: this.getUsage(response.usageMetadata)
+        }
+    }
+
+    async createToolCompletion(
+        messages: ToolConversationMessage[],
+        tools: ToolDefinition[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): Promise<ToolCompletionResponse> {
+        const result = await this.model.generateContent({
+            contents: this.convertToolMessages(messages),
+            tools: [{
+                functionDeclarations: tools.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: {
+                        type: SchemaType.OBJECT,
+                        properties: Object.fromEntries(Object.entries(tool.parameters.properties).map(([name, property]) => [
+                            name,
+                            { type: GEMINI_SCHEMA_TYPES[property.type], description: property.description }
+                        ])),
+                        required: tool.parameters.required
+                    }
+                }))
+            }],
+            generationConfig: {
+                maxOutputTokens: options.maxTokens,
+                temperature: options.temperature,
+            },
+            ...(options.system && { systemInstruction: this.convertSystemMessage(options.system) })
+        }, signal ? { signal } : undefined)
+
+        const response = result.response
+        const parts = response.candidates?.[0]?.content?.parts ?? []
+
+        return {
+            content: parts.map(part => part.text ?? '').join(''),
+            model: options.modelId,
+            usage: this.getUsage(response.usageMetadata),
+            // Gemini does not give calls IDs, so results are matched to calls by name
+            toolCalls: (response.functionCalls() ?? []).map((call, index) => ({
+                id: `${call.name}-${index}`,
+                name: call.name,
+                arguments: call.args as Record<string, unknown>
+            })),
+            providerData: parts
         }
     }
 
     async *createStreamingChatCompletion(
-        messages: ChatMessage[],
+        messages: LLMMessage[],
         options: LLMOptions,
         signal?: AbortSignal
-    ): AsyncGenerator<string, void, unknown> {
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
         const chat = this.model.startChat({
             history: this.convertMessages(messages.slice(0, -1)),
             generationConfig: {
@@ -144,11 +256,25 @@ export class GeminiClient implements LLMProvider {
                     return
                 }
                 
-                const text = chunk.text()
-                if (text) {
-                    yield text
+                const candidate = chunk.candidates?.[0]
+                for (const part of candidate?.content?.parts ?? []) {
+                    if (!part.text) continue
+                    // Thought summaries are parts marked as thoughts, which this SDK does not type
+                    yield (part as Part & { thought?: boolean }).thought
+                        ? { type: 'reasoning', text: part.text }
+                        : { type: 'text', text: part.text }
+                }
+
+                const finishReason = normalizeFinishReason(candidate?.finishReason)
+                if (finishReason) {
+                    yield { type: 'finish', reason: finishReason }
                 }
             }
+
+            const usage = this.getUsage((await result.response).usageMetadata)
+            if (usage) {
+                yield { type: 'usage', usage }
+            }
         } catch (error: any) {
             // Handle abort errors
             if (signal?.aborted || error.name === 'AbortError') {
@@ -157,4 +283,23 @@ export class GeminiClient implements LLMProvider {
             throw error
         }
     }
-} 
\ No newline at end of file
+} 
+
+/** Gemini embeddings client */
+export class GeminiEmbeddingClient implements EmbeddingProvider {
+    readonly model = 'gemini/text-embedding-004'
+    private embeddingModel: GenerativeModel
+
+    constructor(apiKey: string) {
+        this.embeddingModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: 'text-embedding-004' })
+    }
+
+    async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+        const response = await this.embeddingModel.batchEmbedContents({
+            requests: texts.map(text => ({
+                content: { role: 'user', parts: [{ text }] }
+            }))
+        }, { signal })
+        return response.embeddings.map(embedding => embedding.values)
+    }
+}
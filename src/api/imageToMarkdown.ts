@@ -1,8 +1,11 @@
 import { OpenRouterClient } from './openrouter'
+import { getModelById, type ModelId } from './llm'
 import { UserSettings } from '../types/settings'
+import type { TokenUsage } from '../types'
+import { toTokenUsage } from '../modules/usage'
 
 /** The model to use for image-to-markdown conversion */
-const IMAGE_TO_MARKDOWN_MODEL = 'google/gemini-3-flash-preview'
+const IMAGE_TO_MARKDOWN_MODEL: ModelId = 'google/gemini-3-flash-preview'
 
 /** System prompt for extracting markdown from images */
 const SYSTEM_PROMPT = `You are a document text extraction assistant. Your task is to extract all text content from the provided image and format it as clean, well-structured markdown.
@@ -24,12 +27,14 @@ const USER_PROMPT = 'Please extract all text from this image and format it as cl
  * Convert an image to markdown text using Gemini 3 Flash via OpenRouter
  * @param imageBase64 - Base64 encoded image data (can include data URL prefix or not)
  * @param userSettings - User settings containing API keys
+ * @param onUsage - Optional callback with the tokens used, so spend can be recorded
  * @returns The extracted markdown text
  * @throws Error if OpenRouter API key is not configured or if the API call fails
  */
 export async function imageToMarkdown(
     imageBase64: string,
-    userSettings: UserSettings
+    userSettings: UserSettings,
+    onUsage?: (usage: TokenUsage, modelId: ModelId) => void
 ): Promise<string> {
     const apiKey = userSettings.llm.openrouterKey
     if (!apiKey) {
@@ -49,6 +54,11 @@ export async function imageToMarkdown(
         }
     )
 
+    const usage = toTokenUsage(response.usage, getModelById(IMAGE_TO_MARKDOWN_MODEL)?.pricing)
+    if (usage) {
+        onUsage?.(usage, IMAGE_TO_MARKDOWN_MODEL)
+    }
+
     return response.content
 }
 
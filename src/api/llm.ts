@@ -1,25 +1,66 @@
 import type { ChatMessage } from '../types'
-import { UserSettings } from '../types/settings'
+import { UserSettings, type CustomEndpoint } from '../types/settings'
+import { applyCatalogInfo, catalogModelToModelInfo, getCatalogModel, type ModelModality } from './modelCatalog'
 
 /** Base interface for all LLM providers */
 export interface LLMProvider {
     /** Send a chat completion request */
     createChatCompletion(
-        messages: ChatMessage[],
+        messages: LLMMessage[],
         options: LLMOptions,
         signal?: AbortSignal
     ): Promise<LLMResponse>
 
-    /** Create a streaming chat completion */
+    /**
+     * Create a streaming chat completion. The generator yields the answer and any
+     * reasoning as they arrive, then the usage and why the model stopped if the
+     * provider reports them
+     */
     createStreamingChatCompletion(
-        messages: ChatMessage[],
+        messages: LLMMessage[],
         options: LLMOptions,
         signal?: AbortSignal
-    ): AsyncGenerator<string, void, unknown>
+    ): AsyncGenerator<LLMStreamEvent, void, unknown>
+
+    /**
+     * Send a chat completion request in which the model may call tools instead of
+     * answering. The caller runs the tools and sends their results back in a new request
+     */
+    createToolCompletion(
+        messages: ToolConversationMessage[],
+        tools: ToolDefinition[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): Promise<ToolCompletionResponse>
+}
+
+/** A file sent to the model along with a message */
+export interface LLMFile {
+    /** File name */
+    name: string
+    /** MIME type of the content, e.g. image/png or application/pdf */
+    mimeType: string
+    /** Content encoded in base64 */
+    data: string
+}
+
+/** A chat message as sent to a model, with the content of any files attached to it */
+export interface LLMMessage extends ChatMessage {
+    /** Files sent along with the text of a user message */
+    files?: LLMFile[]
+}
+
+/** Interface for providers that turn text into embedding vectors */
+export interface EmbeddingProvider {
+    /** Identifier of the embedding model, stored with vectors so ones from another model can be detected */
+    readonly model: string
+
+    /** Embed a batch of texts, returning one vector per text */
+    embed(texts: string[], signal?: AbortSignal): Promise<number[][]>
 }
 
 /** Available LLM providers */
-export type LLMProviderType = 'anthropic' | 'gemini' | 'openai' | 'deepseek' | 'openrouter'
+export type LLMProviderType = 'anthropic' | 'gemini' | 'openai' | 'deepseek' | 'openrouter' | 'custom'
 
 /** Normalized reasoning effort levels supported by OpenRouter */
 export type ReasoningEffort = "xhigh" | "high" | "medium" | "low" | "minimal" | "none"
@@ -51,8 +92,29 @@ export interface ModelInfo {
     reasoningMaxTokens?: number
     /** Output effort control for models that support OpenRouter verbosity */
     verbosity?: ModelVerbosity
+    /** Maximum number of tokens the model accepts, prompt and response together */
+    contextWindow?: number
+    /** Price in US dollars, used to estimate spend when the provider does not report it */
+    pricing?: ModelPricing
+    /** For models on a custom endpoint, the ID of the endpoint */
+    endpointId?: string
+    /** Whether the model can reason before answering, according to the model catalog */
+    supportsReasoning?: boolean
+    /** Kinds of content the model takes in, according to the model catalog */
+    inputModalities?: ModelModality[]
 }
 
+/** Price of a model in US dollars per million tokens */
+export interface ModelPricing {
+    /** Price per million input tokens */
+    input: number
+    /** Price per million output tokens, including reasoning */
+    output: number
+}
+
+/** Context window assumed for models that do not specify one */
+export const DEFAULT_CONTEXT_WINDOW = 128000
+
 /** Settings interface for LLM API keys */
 export interface LLMSettings {
     anthropicKey?: string
@@ -61,6 +123,32 @@ export interface LLMSettings {
     deepseekKey?: string
     fireworksKey?: string
     openrouterKey?: string
+    /** OpenAI-compatible servers configured by the user */
+    customEndpoints?: CustomEndpoint[]
+    /** OpenRouter model IDs chosen from the model catalog */
+    favoriteModels?: string[]
+    /** Model to answer with when the chosen model keeps failing. Empty for none */
+    fallbackModel?: ModelId
+}
+
+/** Prefix of the IDs of models on custom endpoints, which look like custom:<endpoint ID>/<model ID> */
+const CUSTOM_MODEL_PREFIX = 'custom:'
+
+/** Gets the ID in our application of a model on a custom endpoint */
+export function getCustomModelId(endpointId: string, modelId: string): ModelId {
+    return `${CUSTOM_MODEL_PREFIX}${endpointId}/${modelId}`
+}
+
+/** Gets the models offered by custom endpoints */
+export function getCustomModels(endpoints: CustomEndpoint[] | undefined): ModelInfo[] {
+    return (endpoints ?? []).flatMap(endpoint => endpoint.models.map(modelId => ({
+        id: getCustomModelId(endpoint.id, modelId),
+        provider: 'custom' as const,
+        modelId,
+        name: `${modelId} (${endpoint.name})`,
+        baseURL: endpoint.baseURL,
+        endpointId: endpoint.id
+    })))
 }
 
 /** Get the default model based on available API keys */
@@ -88,6 +176,11 @@ export function getDefaultModel(settings: LLMSettings): ModelId {
     if (settings.anthropicKey) return 'claude-3-7-sonnet-latest'
     if (settings.geminiKey) return 'gemini-2.0-pro-exp-02-05'
     if (settings.openaiKey) return 'gpt-4o'
+    if (settings.deepseekKey) return 'deepseek-chat'
+
+    // Then the first model on a custom endpoint
+    const [customModel] = getCustomModels(settings.customEndpoints)
+    if (customModel) return customModel.id
     
     // Fallback to Claude as default (will show API key missing message)
     return 'claude-3-7-sonnet-latest'
@@ -95,7 +188,7 @@ export function getDefaultModel(settings: LLMSettings): ModelId {
 
 /** Check if a model is available (has API key) */
 export function isModelAvailable(modelId: ModelId, settings: LLMSettings): boolean {
-    const model = getModelById(modelId)
+    const model = getModelById(modelId, settings)
     if (!model) return false
 
     switch (model.provider) {
@@ -109,11 +202,35 @@ export function isModelAvailable(modelId: ModelId, settings: LLMSettings): boole
             return !!settings.deepseekKey
         case 'openrouter':
             return !!settings.openrouterKey
+        case 'custom':
+            // Only models the endpoint still offers are found
+            return true
         default:
             return false
     }
 }
 
+/**
+ * Gets the API key to use for a model
+ * @returns The key, which is empty for custom endpoints that do not need one, or undefined if it is missing
+ */
+export function getApiKeyForModel(model: ModelInfo, settings: LLMSettings): string | undefined {
+    switch (model.provider) {
+        case 'anthropic':
+            return settings.anthropicKey || undefined
+        case 'gemini':
+            return settings.geminiKey || undefined
+        case 'openai':
+            return settings.openaiKey || undefined
+        case 'deepseek':
+            return settings.deepseekKey || undefined
+        case 'openrouter':
+            return settings.openrouterKey || undefined
+        case 'custom':
+            return settings.customEndpoints?.find(endpoint => endpoint.id === model.endpointId)?.apiKey ?? undefined
+    }
+}
+
 /** Available models */
 export const AVAILABLE_MODELS: ModelInfo[] = [
     // OpenRouter models
@@ -122,14 +239,20 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
          id: 'google/gemini-3.1-pro-preview',
          modelId: 'google/gemini-3.1-pro-preview',
          name: 'Gemini 3.1 Pro',
-         baseURL: 'https://openrouter.ai/api/v1'
+         baseURL: 'https://openrouter.ai/api/v1',
+         contextWindow: 1048576,
+         pricing: { input: 2, output: 12 },
+         inputModalities: ['text', 'image', 'file']
     },
     {
         provider: 'openrouter',
         id: 'google/gemini-3-flash-preview',
         modelId: 'google/gemini-3-flash-preview',
         name: 'Gemini 3 Flash',
-        baseURL: 'https://openrouter.ai/api/v1'
+        baseURL: 'https://openrouter.ai/api/v1',
+        contextWindow: 1048576,
+        pricing: { input: 0.5, output: 3 },
+        inputModalities: ['text', 'image', 'file']
     },
     {
         provider: 'openrouter',
@@ -137,45 +260,19 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
         modelId: 'openai/gpt-5.5',
         name: 'GPT-5.5 High',
         baseURL: 'https://openrouter.ai/api/v1',
-        reasoningEffort: "high"
+        reasoningEffort: "high",
+        contextWindow: 400000,
+        inputModalities: ['text', 'image', 'file']
     },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'openai/gpt-5-high',
-    //     modelId: 'openai/gpt-5',
-    //     name: 'OR: GPT-5 High',
-    //     baseURL: 'https://openrouter.ai/api/v1',
-    //     reasoningEffort: "high"
-    // },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'openai/gpt-5-medium',
-    //     modelId: 'openai/gpt-5',
-    //     name: 'OR: GPT-5 Medium',
-    //     baseURL: 'https://openrouter.ai/api/v1',
-    //     reasoningEffort: "medium"
-    // },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'openai/gpt-5-low',
-    //     modelId: 'openai/gpt-5',
-    //     name: 'OR: GPT-5 Low',
-    //     baseURL: 'https://openrouter.ai/api/v1',
-    //     reasoningEffort: "low"
-    // },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'google/gemini-2.5-pro-preview',
-    //     modelId: 'google/gemini-2.5-pro-preview',
-    //     name: 'OR: Gemini 2.5 Pro',
-    //     baseURL: 'https://openrouter.ai/api/v1'
-    // },
     {
         provider: 'openrouter',
         id: 'anthropic/claude-sonnet-4.5',
         modelId: 'anthropic/claude-sonnet-4.5',
         name: 'Claude Sonnet 4.5',
-        baseURL: 'https://openrouter.ai/api/v1'
+        baseURL: 'https://openrouter.ai/api/v1',
+        contextWindow: 200000,
+        pricing: { input: 3, output: 15 },
+        inputModalities: ['text', 'image', 'file']
     },
     {
         provider: 'openrouter',
@@ -184,155 +281,29 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
         name: 'Claude Opus 4.7',
         baseURL: 'https://openrouter.ai/api/v1',
         noTemperature: true,
-        reasoningEnabled: true
+        reasoningEnabled: true,
+        contextWindow: 200000,
+        pricing: { input: 5, output: 25 },
+        inputModalities: ['text', 'image', 'file']
     },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'anthropic/claude-opus-4.1-medium',
-    //     modelId: 'anthropic/claude-opus-4.1',
-    //     name: 'OR: Claude Opus 4.1 Medium',
-    //     baseURL: 'https://openrouter.ai/api/v1',
-    //     reasoningEffort: "medium"
-    // },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'google/gemini-2.0-pro-exp-02-05:free',
-    //     modelId: 'google/gemini-2.0-pro-exp-02-05:free',
-    //     name: 'Gemini 2.0 Pro',
-    //     baseURL: 'https://openrouter.ai/api/v1'
-    // },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'google/gemini-2.0-flash-thinking-exp:free',
-    //     modelId: 'google/gemini-2.0-flash-thinking-exp:free',
-    //     name: 'Gemini 2.0 Flash Thinking',
-    //     baseURL: 'https://openrouter.ai/api/v1'
-    // },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'google/gemini-2.5-pro-exp-03-25:free',
-    //     modelId: 'google/gemini-2.5-pro-exp-03-25:free',
-    //     name: 'Gemini 2.5 Pro',
-    //     baseURL: 'https://openrouter.ai/api/v1'
-    // },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'openai/gpt-4o',
-    //     modelId: 'openai/gpt-4o',
-    //     name: 'GPT-4o',
-    //     baseURL: 'https://openrouter.ai/api/v1'
-    // },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'deepseek/deepseek-r1',
-    //     modelId: 'deepseek/deepseek-r1',
-    //     name: 'DeepSeek R1',
-    //     baseURL: 'https://openrouter.ai/api/v1'
-    // },
-    // {
-    //     provider: 'openrouter',
-    //     id: 'openai/o3-mini-high',
-    //     modelId: 'openai/o3-mini-high',
-    //     name: 'O3 Mini High',
-    //     baseURL: 'https://openrouter.ai/api/v1'
-    // },
-    // // Gemini models
-    // {
-    //     provider: 'gemini',
-    //     id: 'gemini-2.5-pro-exp-03-25',
-    //     modelId: 'gemini-2.5-pro-exp-03-25',
-    //     name: 'Gemini 2.5 Pro',
-    //     baseURL: 'https://generativelanguage.googleapis.com/v1beta/openai/'
-    // },
-    // // Anthropic models
-    // {
-    //     provider: 'anthropic',
-    //     id: 'claude-3-7-sonnet-latest',
-    //     modelId: 'claude-3-7-sonnet-latest',
-    //     name: 'Claude 3.7 Sonnet'
-    // },
-    // {
-    //     provider: 'anthropic',
-    //     id: 'claude-3-7-sonnet-thinking-latest',
-    //     modelId: 'claude-3-7-sonnet-latest',
-    //     name: 'Claude 3.7 Sonnet (Thinking)',
-    //     thinkingTokens: 16000
-    // },
-    // {
-    //     provider: 'anthropic',
-    //     id: 'claude-3-5-sonnet-latest',
-    //     modelId: 'claude-3-5-sonnet-20240620',
-    //     name: 'Claude 3.5 Sonnet'
-    // },
-    // {
-    //     provider: 'anthropic',
-    //     id: 'claude-3-5-haiku-latest',
-    //     modelId: 'claude-3-5-haiku-20240620',
-    //     name: 'Claude 3.5 Haiku'
-    // },
-    // {
-    //     provider: 'anthropic',
-    //     id: 'claude-3-haiku-20240307',
-    //     name: 'Claude 3 Haiku'
-    // },
-    // OpenAI models
-    // {
-    //     provider: 'openai',
-    //     id: 'gpt-4o',
-    //     modelId: 'gpt-4o',
-    //     name: 'GPT-4o'
-    // },
-    // {
-    //     provider: 'openai',
-    //     id: 'gpt-4o-mini',
-    //     modelId: 'gpt-4o-mini',
-    //     name: 'GPT-4o Mini'
-    // },
-    // {
-    //     provider: 'openai',
-    //     id: 'o1',
-    //     modelId: 'o1',
-    //     name: 'O1',
-    //     noTemperature: true
-    // },
-    // {
-    //     provider: 'openai',
-    //     id: 'o1-mini',
-    //     modelId: 'o1-mini',
-    //     name: 'O1 Mini',
-    //     noTemperature: true
-    // },
-    // {
-    //     provider: 'openai',
-    //     id: 'o3-mini',
-    //     modelId: 'o3-mini',
-    //     name: 'O3 Mini',
-    //     noTemperature: true
-    // },
-    // {
-    //     provider: 'openai',
-    //     id: 'chatgpt-4o-latest',
-    //     modelId: 'chatgpt-4o-latest',
-    //     name: 'ChatGPT 4o'
-    // },
-    // {
-    //     provider: 'openai',
-    //     id: 'o3',
-    //     modelId: 'o3',
-    //     name: 'O3'
-    // },
-    // // Google models
-    // {
-    //     provider: 'gemini',
-    //     id: 'gemini-pro',
-    //     name: 'Gemini Pro'
-    // },
-    // // DeepSeek models
-    // {
-    //     provider: 'deepseek',
-    //     id: 'deepseek-chat',
-    //     name: 'DeepSeek Chat'
-    // }
+    // DeepSeek models
+    {
+        provider: 'deepseek',
+        id: 'deepseek-chat',
+        modelId: 'deepseek-chat',
+        name: 'DeepSeek Chat',
+        contextWindow: 128000,
+        pricing: { input: 0.28, output: 0.42 }
+    },
+    {
+        provider: 'deepseek',
+        id: 'deepseek-reasoner',
+        modelId: 'deepseek-reasoner',
+        name: 'DeepSeek Reasoner',
+        noTemperature: true,
+        contextWindow: 128000,
+        pricing: { input: 0.28, output: 0.42 }
+    }
 ]
 
 /** Model ID type */
@@ -367,19 +338,237 @@ export interface LLMResponse {
     /** The model that generated the response */
     model: string
     /** Usage statistics if available */
-    usage?: {
-        inputTokens?: number
-        outputTokens?: number
+    usage?: LLMUsage
+    /** Reasoning the model gave before answering, for providers that return it separately */
+    reasoning?: string
+}
+
+/** Why a model stopped generating */
+export type FinishReason = 'stop' | 'length' | 'content_filter' | 'tool_calls' | 'other'
+
+/** An event in a streamed response */
+export type LLMStreamEvent =
+    /** Part of the answer */
+    | { type: 'text', text: string }
+    /** Part of the reasoning the model does before answering */
+    | { type: 'reasoning', text: string }
+    /** Tokens used by the request */
+    | { type: 'usage', usage: LLMUsage }
+    /** The model stopped generating */
+    | { type: 'finish', reason: FinishReason }
+    /** The request is being sent again, so the reasoning streamed so far is discarded */
+    | { type: 'reset' }
+
+/**
+ * Converts the reason a provider gives for stopping, such as end_turn or MAX_TOKENS,
+ * to a finish reason
+ * @returns The finish reason, or null if the provider gave none
+ */
+export function normalizeFinishReason(reason: string | null | undefined): FinishReason | null {
+    if (!reason) return null
+    switch (reason.toLowerCase()) {
+        case 'stop':
+        case 'end_turn':
+        case 'stop_sequence':
+            return 'stop'
+        case 'length':
+        case 'max_tokens':
+            return 'length'
+        case 'content_filter':
+        case 'safety':
+        case 'recitation':
+        case 'refusal':
+            return 'content_filter'
+        case 'tool_calls':
+        case 'tool_use':
+            return 'tool_calls'
+        default:
+            return 'other'
     }
 }
 
+/**
+ * Error returned by a provider's API. The status and the time the provider asked
+ * us to wait are kept so that the request can be retried if the failure is temporary
+ */
+export class LLMRequestError extends Error {
+    constructor(
+        message: string,
+        public status?: number,
+        public retryAfterMs: number | null = null
+    ) {
+        super(message)
+        this.name = 'LLMRequestError'
+    }
+}
+
+/**
+ * Parses a Retry-After header, which gives either a number of seconds or an HTTP date
+ * @param value The header value
+ * @param now The current time in milliseconds since the epoch
+ * @returns How long to wait in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+    if (!value) return null
+    const trimmed = value.trim()
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(parseFloat(trimmed) * 1000)
+    }
+    const date = Date.parse(trimmed)
+    return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * Reads the body of a failed response. The body can only be read once, so it is
+ * read as text and parsed as JSON if it is JSON, as gateway errors are often HTML pages
+ * @returns The parsed JSON, or the text if it is not JSON
+ */
+export async function readErrorBody(response: Response): Promise<unknown> {
+    const text = await response.text()
+    try {
+        return JSON.parse(text)
+    } catch {
+        return text
+    }
+}
+
+/** Tokens used by a request, as reported by the provider */
+export interface LLMUsage {
+    /** Tokens in the prompt */
+    inputTokens?: number
+    /** Tokens in the response, including any reasoning */
+    outputTokens?: number
+    /** Tokens the model spent reasoning. Already counted in outputTokens */
+    reasoningTokens?: number
+    /** Cost in US dollars, if the provider reports it */
+    cost?: number
+}
+
+/** JSON schema of a tool's arguments */
+export interface ToolParameters {
+    type: 'object'
+    /** Schema of each argument */
+    properties: Record<string, {
+        type: 'string' | 'number' | 'integer' | 'boolean'
+        /** What the argument is for */
+        description: string
+    }>
+    /** Names of the arguments that must be given */
+    required?: string[]
+}
+
+/** A tool the model can call */
+export interface ToolDefinition {
+    /** Name of the tool. Letters, digits and underscores only */
+    name: string
+    /** What the tool does and when to use it */
+    description: string
+    /** Schema of the arguments */
+    parameters: ToolParameters
+}
+
+/** A call to a tool requested by the model */
+export interface ToolCall {
+    /** ID that links the call to its result */
+    id: string
+    /** Name of the tool */
+    name: string
+    /** Arguments given by the model */
+    arguments: Record<string, unknown>
+}
+
+/** A message in a conversation in which the model can call tools */
+export interface ToolConversationMessage {
+    /** Who sent the message. Tool messages carry the result of a tool call */
+    role: 'user' | 'assistant' | 'tool'
+    /** Text of the message, or the result of the tool call */
+    content: string
+    /** For user messages, files sent along with the text */
+    files?: LLMFile[]
+    /** For assistant messages, the tools the model called */
+    toolCalls?: ToolCall[]
+    /** For tool messages, the ID of the call this is the result of */
+    toolCallId?: string
+    /** For tool messages, the name of the tool that was called */
+    toolName?: string
+    /**
+     * For assistant messages, provider-specific data that must be sent back with
+     * the message, such as reasoning that the model continues from
+     */
+    providerData?: unknown
+}
+
+/** Response to a request in which the model can call tools */
+export interface ToolCompletionResponse extends LLMResponse {
+    /** Tools the model wants called. Empty when the model has answered */
+    toolCalls: ToolCall[]
+    /** Provider-specific data to send back with the assistant message */
+    providerData?: unknown
+}
+
+/**
+ * Parses tool call arguments sent as a JSON string
+ * @returns The arguments, or an empty object if they are missing or not a JSON object
+ */
+export function parseToolArguments(json: string | undefined): Record<string, unknown> {
+    if (!json) return {}
+    try {
+        const parsed = JSON.parse(json)
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+    } catch {
+        return {}
+    }
+}
+
+/**
+ * Converts usage statistics in the OpenAI format, which OpenRouter also uses.
+ * OpenRouter adds the cost of the request
+ * @returns The usage, or undefined if none was given
+ */
+export function parseOpenAIUsage(usage: any): LLMUsage | undefined {
+    if (!usage) return undefined
+    return {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+        cost: typeof usage.cost === 'number' ? usage.cost : undefined
+    }
+}
+
+/** A part of a message's content in the OpenAI format, which OpenRouter also uses */
+export type OpenAIContentPart =
+    | { type: 'text', text: string }
+    | { type: 'image_url', image_url: { url: string } }
+    | { type: 'file', file: { filename: string, file_data: string } }
+
+/**
+ * Converts the text and files of a message to content parts in the OpenAI format.
+ * Messages without files stay plain text
+ */
+export function toOpenAIContent(content: string, files: LLMFile[] | undefined): string | OpenAIContentPart[] {
+    if (!files?.length) return content
+    return [
+        ...files.map((file): OpenAIContentPart => file.mimeType.startsWith('image/')
+            ? { type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${file.data}` } }
+            : { type: 'file', file: { filename: file.name, file_data: `data:${file.mimeType};base64,${file.data}` } }),
+        ...(content ? [{ type: 'text' as const, text: content }] : [])
+    ]
+}
+
 /** Factory to create LLM providers */
 export class LLMFactory {
+    /**
+     * Creates a provider for a model
+     * @param modelId ID of the model in our application
+     * @param apiKey API key for the model's provider
+     * @param settings LLM settings, needed to find custom endpoint and favorite models
+     */
     static async createProvider(
         modelId: ModelId,
-        apiKey: string
+        apiKey: string,
+        settings?: LLMSettings
     ): Promise<LLMProvider> {
-        const model = getModelById(modelId)
+        const model = getModelById(modelId, settings)
         if (!model) {
             throw new Error(`Unknown model: ${modelId}`)
         }
@@ -401,10 +590,41 @@ export class LLMFactory {
                 const { OpenRouterClient } = await import('./openrouter')
                 return new OpenRouterClient(apiKey)
             }
+            case 'deepseek': {
+                const { DeepSeekClient } = await import('./deepseek')
+                return new DeepSeekClient(apiKey)
+            }
+            case 'custom': {
+                // Local servers usually ignore the key, but the OpenAI client requires one
+                const { OpenAIClient } = await import('./openai')
+                return new OpenAIClient(apiKey || 'none', model.baseURL)
+            }
             default:
                 throw new Error(`Provider ${model.provider} not implemented`)
         }
     }
+
+    /**
+     * Creates an embedding provider using the first API key that supports embeddings.
+     * Falls back to a deterministic local embedder when there is none, so retrieval
+     * works offline and without a key
+     */
+    static async createEmbeddingProvider(settings: LLMSettings): Promise<EmbeddingProvider> {
+        if (settings.openaiKey) {
+            const { OpenAIEmbeddingClient } = await import('./openai')
+            return new OpenAIEmbeddingClient(settings.openaiKey)
+        }
+        if (settings.openrouterKey) {
+            const { OpenRouterEmbeddingClient } = await import('./openrouter')
+            return new OpenRouterEmbeddingClient(settings.openrouterKey)
+        }
+        if (settings.geminiKey) {
+            const { GeminiEmbeddingClient } = await import('./gemini')
+            return new GeminiEmbeddingClient(settings.geminiKey)
+        }
+        const { LocalEmbeddingProvider } = await import('../modules/embeddings/embeddings')
+        return new LocalEmbeddingProvider()
+    }
 }
 
 /** Helper to get models for a specific provider */
@@ -412,14 +632,47 @@ export function getModelsForProvider(provider: LLMProviderType): ModelInfo[] {
     return AVAILABLE_MODELS.filter(model => model.provider === provider)
 }
 
-/** Helper to get model info by ID */
-export function getModelById(modelId: ModelId): ModelInfo | undefined {
-    return AVAILABLE_MODELS.find(model => model.id === modelId)
+/**
+ * Helper to get model info by ID. OpenRouter models are updated from the model
+ * catalog if it has been fetched on this device
+ * @param settings LLM settings, needed to find custom endpoint and favorite models
+ */
+export function getModelById(modelId: ModelId, settings?: LLMSettings): ModelInfo | undefined {
+    if (modelId.startsWith(CUSTOM_MODEL_PREFIX)) {
+        return getCustomModels(settings?.customEndpoints).find(model => model.id === modelId)
+    }
+
+    const builtIn = AVAILABLE_MODELS.find(model => model.id === modelId)
+    if (builtIn) {
+        const catalogModel = builtIn.provider === 'openrouter' ? getCatalogModel(builtIn.modelId) : undefined
+        return catalogModel ? applyCatalogInfo(builtIn, catalogModel) : builtIn
+    }
+
+    if (settings?.favoriteModels?.includes(modelId)) {
+        return getFavoriteModel(modelId)
+    }
+    return undefined
+}
+
+/**
+ * Gets a favorite model from the catalog. Until the catalog has been fetched on this
+ * device, the model is still usable with what can be assumed about it
+ */
+function getFavoriteModel(modelId: ModelId): ModelInfo {
+    const catalogModel = getCatalogModel(modelId)
+    if (catalogModel) return catalogModelToModelInfo(catalogModel)
+    return {
+        provider: 'openrouter',
+        id: modelId,
+        modelId,
+        name: modelId,
+        baseURL: 'https://openrouter.ai/api/v1'
+    }
 }
 
 /** Helper to get provider for a model */
-export function getProviderForModel(modelId: ModelId): LLMProviderType | undefined {
-    return getModelById(modelId)?.provider
+export function getProviderForModel(modelId: ModelId, settings?: LLMSettings): LLMProviderType | undefined {
+    return getModelById(modelId, settings)?.provider
 } 
 
 type LLMSettingsKey = `${LLMProviderType}Key`
@@ -431,11 +684,62 @@ export function getAvailableModels(userSettings: UserSettings): ModelInfo[] {
     //     return AVAILABLE_MODELS.filter(model => model.provider === 'openrouter')
     // }
 
-    // Get available models based on API keys
-    const availableModels = AVAILABLE_MODELS.filter(model => {
-        const key = `${model.provider}Key` as LLMSettingsKey
-        return userSettings.llm[key]
-    })
+    // Get available models based on API keys, with their flags and prices from the catalog
+    const availableModels = AVAILABLE_MODELS
+        .filter(model => {
+            const key = `${model.provider}Key` as LLMSettingsKey
+            return userSettings.llm[key as keyof UserSettings['llm']]
+        })
+        .map(model => getModelById(model.id, userSettings.llm) ?? model)
+
+    // Favorites from the model catalog are offered through OpenRouter
+    const favoriteModels = userSettings.llm.openrouterKey
+        ? (userSettings.llm.favoriteModels ?? [])
+            .filter(modelId => !availableModels.some(model => model.id === modelId))
+            .map(getFavoriteModel)
+        : []
+
+    return [...availableModels, ...favoriteModels, ...getCustomModels(userSettings.llm.customEndpoints)]
+}
+
+/**
+ * Get the cheapest available model, for small tasks such as writing chat titles.
+ * Models that reason before answering are only used if no other model is priced
+ * @returns The model, or null if no available model has a price
+ */
+export function getCheapestModel(userSettings: UserSettings): ModelInfo | null {
+    const pricedModels = getAvailableModels(userSettings).filter(model => model.pricing)
+    const directModels = pricedModels.filter(model => !model.thinkingTokens && !model.reasoningEnabled)
+    const candidates = directModels.length > 0 ? directModels : pricedModels
+
+    let cheapest: ModelInfo | null = null
+    for (const model of candidates) {
+        const price = model.pricing!.input + model.pricing!.output
+        if (!cheapest || price < cheapest.pricing!.input + cheapest.pricing!.output) {
+            cheapest = model
+        }
+    }
+    return cheapest
+}
+
+/**
+ * Kinds of content assumed for models the model catalog says nothing about. Custom
+ * endpoints are assumed to take images, since local vision models are common
+ */
+const DEFAULT_INPUT_MODALITIES: Record<LLMProviderType, ModelModality[]> = {
+    anthropic: ['text', 'image', 'file'],
+    gemini: ['text', 'image', 'file'],
+    openai: ['text', 'image', 'file'],
+    openrouter: ['text'],
+    deepseek: ['text'],
+    custom: ['text', 'image']
+}
 
-    return availableModels
+/**
+ * Checks whether a model can be sent a file of a type. Images need the model to
+ * take images, and other files such as PDFs need it to take files
+ */
+export function modelAcceptsFile(model: ModelInfo, mimeType: string): boolean {
+    const modalities = model.inputModalities ?? DEFAULT_INPUT_MODALITIES[model.provider]
+    return modalities.includes(mimeType.startsWith('image/') ? 'image' : 'file')
 }
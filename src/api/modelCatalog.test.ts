@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { applyCatalogInfo, catalogModelToModelInfo, getCatalogModel, loadModelCatalog, parseOpenRouterModels } from './modelCatalog'
+import { AVAILABLE_MODELS, getAvailableModels, getModelById } from './llm'
+import type { UserSettings } from '../types/settings'
+
+const MODELS_RESPONSE = {
+    data: [
+        {
+            id: 'openai/o9',
+            name: 'OpenAI: o9',
+            context_length: 400000,
+            pricing: { prompt: '0.000002', completion: '0.000008' },
+            supported_parameters: ['max_tokens', 'reasoning', 'tools'],
+            architecture: { input_modalities: ['text', 'image'], output_modalities: ['text'] }
+        },
+        {
+            id: 'meta/llama-9',
+            name: 'Meta: Llama 9',
+            context_length: 131072,
+            pricing: { prompt: '0', completion: '0' },
+            supported_parameters: ['temperature', 'max_tokens'],
+            architecture: { input_modalities: ['text'], output_modalities: ['text'] }
+        },
+        {
+            id: 'acme/painter',
+            name: 'Acme: Painter',
+            architecture: { input_modalities: ['text'], output_modalities: ['image'] }
+        }
+    ]
+}
+
+describe('modelCatalog', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('parses prices, capabilities and modalities, leaving out models without text output', () => {
+        const models = parseOpenRouterModels(MODELS_RESPONSE)
+
+        expect(models.map(m => m.id)).toEqual(['openai/o9', 'meta/llama-9'])
+        expect(models[0]).toEqual({
+            id: 'openai/o9',
+            name: 'OpenAI: o9',
+            contextLength: 400000,
+            pricing: { input: 2, output: 8 },
+            supportsReasoning: true,
+            supportsTemperature: false,
+            inputModalities: ['text', 'image']
+        })
+        expect(models[1]).toMatchObject({ pricing: { input: 0, output: 0 }, supportsReasoning: false, supportsTemperature: true })
+    })
+
+    it('derives the flags of a model from the catalog', () => {
+        const [reasoner, llama] = parseOpenRouterModels(MODELS_RESPONSE)
+
+        expect(catalogModelToModelInfo(reasoner)).toMatchObject({
+            provider: 'openrouter',
+            modelId: 'openai/o9',
+            noTemperature: true,
+            reasoningEnabled: true,
+            contextWindow: 400000
+        })
+        expect(catalogModelToModelInfo(llama).noTemperature).toBeUndefined()
+        expect(catalogModelToModelInfo(llama).reasoningEnabled).toBeUndefined()
+    })
+
+    it('keeps the name and reasoning settings of built-in models', () => {
+        const [reasoner] = parseOpenRouterModels(MODELS_RESPONSE)
+        const builtIn = { provider: 'openrouter' as const, id: 'openai/o9-high', modelId: 'openai/o9', name: 'o9 High', reasoningEffort: 'high' as const, contextWindow: 200000 }
+
+        expect(applyCatalogInfo(builtIn, reasoner)).toMatchObject({
+            id: 'openai/o9-high',
+            name: 'o9 High',
+            reasoningEffort: 'high',
+            noTemperature: true,
+            contextWindow: 400000,
+            pricing: { input: 2, output: 8 }
+        })
+        expect(applyCatalogInfo(builtIn, reasoner).reasoningEnabled).toBeUndefined()
+        expect(applyCatalogInfo({ ...builtIn, reasoningEnabled: true }, reasoner).reasoningEnabled).toBe(true)
+    })
+
+    it('offers favorites through OpenRouter, even before the catalog is fetched', () => {
+        const settings = { llm: { openrouterKey: 'key', favoriteModels: ['meta/llama-9'] } } as UserSettings
+
+        expect(getModelById('meta/llama-9')).toBeUndefined()
+        expect(getModelById('meta/llama-9', settings.llm)).toMatchObject({ provider: 'openrouter', modelId: 'meta/llama-9' })
+        expect(getAvailableModels(settings).map(m => m.id)).toEqual([...AVAILABLE_MODELS.filter(m => m.provider === 'openrouter').map(m => m.id), 'meta/llama-9'])
+        expect(getAvailableModels({ llm: { favoriteModels: ['meta/llama-9'] } } as UserSettings)).toEqual([])
+    })
+
+    it('fetches the catalog once and then uses the cached copy', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify(MODELS_RESPONSE)))
+        vi.stubGlobal('fetch', fetchMock)
+
+        const models = await loadModelCatalog()
+        await loadModelCatalog()
+
+        expect(models.map(m => m.name)).toEqual(['Meta: Llama 9', 'OpenAI: o9'])
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+        expect(getCatalogModel('meta/llama-9')?.contextLength).toBe(131072)
+
+        await loadModelCatalog(true)
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('offers built-in models with the prices of the catalog', async () => {
+        const builtIn = AVAILABLE_MODELS.find(m => m.provider === 'openrouter' && !m.reasoningEnabled)!
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+            data: [{ ...MODELS_RESPONSE.data[0], id: builtIn.modelId, name: 'Catalog name' }]
+        }))))
+        await loadModelCatalog(true)
+
+        const settings = { llm: { openrouterKey: 'key' } } as UserSettings
+        const available = getAvailableModels(settings).find(m => m.id === builtIn.id)
+        expect(available).toEqual(getModelById(builtIn.id, settings.llm))
+        expect(available).toMatchObject({ name: builtIn.name, pricing: { input: 2, output: 8 } })
+        expect(available?.reasoningEnabled).toBeUndefined()
+    })
+})
@@ -0,0 +1,203 @@
+import type { ModelInfo, ModelPricing } from './llm'
+
+/** Kinds of content a model can take in or produce */
+export type ModelModality = 'text' | 'image' | 'audio' | 'file'
+
+/** A model in OpenRouter's catalog */
+export interface CatalogModel {
+    /** OpenRouter model ID, e.g. anthropic/claude-sonnet-4.5 */
+    id: string
+    /** Human-friendly name */
+    name: string
+    /** Maximum number of tokens the model accepts, prompt and response together */
+    contextLength: number | null
+    /** Price in US dollars per million tokens, or null if not known */
+    pricing: ModelPricing | null
+    /** Whether the model can reason before answering */
+    supportsReasoning: boolean
+    /** Whether the model accepts a temperature */
+    supportsTemperature: boolean
+    /** Kinds of content the model takes in */
+    inputModalities: ModelModality[]
+}
+
+/** The catalog as cached on this device */
+interface CachedCatalog {
+    /** When the catalog was fetched, in milliseconds since the epoch */
+    fetchedAt: number
+    /** The models */
+    models: CatalogModel[]
+}
+
+/** URL of OpenRouter's model list. It does not need an API key */
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models'
+
+/** Key the catalog is cached under in localStorage */
+const CATALOG_STORAGE_KEY = 'openrouterModelCatalog'
+
+/** Age after which the cached catalog is fetched again */
+export const CATALOG_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+/** The cached catalog, read from localStorage the first time it is needed */
+let cachedCatalog: CachedCatalog | null | undefined
+
+/** Request for the catalog in progress, shared so it is only fetched once at a time */
+let pendingFetch: Promise<CachedCatalog> | null = null
+
+/** Converts a price per token, which OpenRouter gives as a string, to a price per million tokens */
+function parsePrice(price: unknown): number | null {
+    const value = typeof price === 'string' ? parseFloat(price) : typeof price === 'number' ? price : NaN
+    return Number.isFinite(value) && value >= 0 ? value * 1_000_000 : null
+}
+
+/**
+ * Parses OpenRouter's model list. Models that cannot produce text, such as image
+ * generators, are left out
+ * @param json The response of the models endpoint
+ */
+export function parseOpenRouterModels(json: any): CatalogModel[] {
+    if (!Array.isArray(json?.data)) {
+        throw new Error('OpenRouter did not return a list of models')
+    }
+
+    return json.data
+        .filter((model: any) => typeof model?.id === 'string')
+        .filter((model: any) => {
+            const output = model.architecture?.output_modalities
+            return !Array.isArray(output) || output.includes('text')
+        })
+        .map((model: any): CatalogModel => {
+            const supportedParameters: string[] = Array.isArray(model.supported_parameters) ? model.supported_parameters : []
+            const input = parsePrice(model.pricing?.prompt)
+            const output = parsePrice(model.pricing?.completion)
+            return {
+                id: model.id,
+                name: typeof model.name === 'string' ? model.name : model.id,
+                contextLength: typeof model.context_length === 'number' ? model.context_length : null,
+                pricing: input !== null && output !== null ? { input, output } : null,
+                supportsReasoning: supportedParameters.includes('reasoning'),
+                // Models that do not list their parameters are assumed to take a temperature
+                supportsTemperature: supportedParameters.length === 0 || supportedParameters.includes('temperature'),
+                inputModalities: Array.isArray(model.architecture?.input_modalities) ? model.architecture.input_modalities : ['text']
+            }
+        })
+}
+
+/**
+ * Converts a catalog model to the model information used to make requests.
+ * Reasoning is turned on for models that support it
+ */
+export function catalogModelToModelInfo(model: CatalogModel): ModelInfo {
+    return {
+        provider: 'openrouter',
+        id: model.id,
+        modelId: model.id,
+        name: model.name,
+        baseURL: 'https://openrouter.ai/api/v1',
+        ...(model.supportsTemperature ? {} : { noTemperature: true }),
+        ...(model.supportsReasoning ? { reasoningEnabled: true, supportsReasoning: true } : {}),
+        ...(model.contextLength ? { contextWindow: model.contextLength } : {}),
+        ...(model.pricing ? { pricing: model.pricing } : {}),
+        inputModalities: model.inputModalities
+    }
+}
+
+/**
+ * Updates a built-in model entry from the catalog, so that its flags, context window
+ * and price follow OpenRouter rather than being edited by hand. The entry's name and
+ * reasoning settings are kept, and its other values are only used if the catalog lacks them
+ * @param model The built-in entry
+ * @param catalogModel The same model in the catalog
+ */
+export function applyCatalogInfo(model: ModelInfo, catalogModel: CatalogModel): ModelInfo {
+    // Reasoning is only turned on where the built-in entry does, as it changes the cost
+    const { reasoningEnabled: _, ...info } = catalogModelToModelInfo(catalogModel)
+    return {
+        ...info,
+        ...model,
+        noTemperature: info.noTemperature,
+        supportsReasoning: info.supportsReasoning,
+        inputModalities: info.inputModalities,
+        contextWindow: info.contextWindow ?? model.contextWindow,
+        pricing: info.pricing ?? model.pricing
+    }
+}
+
+/** Reads the cached catalog from localStorage */
+function readCachedCatalog(): CachedCatalog | null {
+    if (cachedCatalog !== undefined) return cachedCatalog
+
+    let catalog: CachedCatalog | null = null
+    try {
+        const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(CATALOG_STORAGE_KEY) : null
+        if (stored) {
+            const parsed = JSON.parse(stored)
+            if (typeof parsed?.fetchedAt === 'number' && Array.isArray(parsed.models)) {
+                catalog = parsed
+            }
+        }
+    } catch {
+        // A corrupt cache is fetched again
+    }
+    cachedCatalog = catalog
+    return catalog
+}
+
+/** Stores the catalog in memory and, where possible, in localStorage */
+function writeCachedCatalog(catalog: CachedCatalog) {
+    cachedCatalog = catalog
+    if (typeof localStorage === 'undefined') return
+    try {
+        localStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(catalog))
+    } catch {
+        // The catalog is still kept in memory if storage is full
+    }
+}
+
+/**
+ * Gets the cached catalog without fetching it
+ * @returns The models, or an empty list if the catalog has not been fetched on this device
+ */
+export function getCachedCatalog(): CatalogModel[] {
+    return readCachedCatalog()?.models ?? []
+}
+
+/** Gets when the cached catalog was fetched, in milliseconds since the epoch, or null if it has not been */
+export function getCatalogFetchedAt(): number | null {
+    return readCachedCatalog()?.fetchedAt ?? null
+}
+
+/** Finds a model in the cached catalog */
+export function getCatalogModel(id: string): CatalogModel | undefined {
+    return getCachedCatalog().find(model => model.id === id)
+}
+
+/**
+ * Gets OpenRouter's model catalog, using the cached copy unless it is too old
+ * @param force Whether to fetch the catalog even if the cached copy is recent
+ * @returns The models, sorted by name
+ */
+export async function loadModelCatalog(force: boolean = false): Promise<CatalogModel[]> {
+    const cached = readCachedCatalog()
+    if (!force && cached && Date.now() - cached.fetchedAt < CATALOG_MAX_AGE_MS) {
+        return cached.models
+    }
+
+    if (!pendingFetch) {
+        pendingFetch = (async () => {
+            const response = await fetch(OPENROUTER_MODELS_URL)
+            if (!response.ok) {
+                throw new Error(`Could not load the model catalog: ${response.status} ${response.statusText}`)
+            }
+            const models = parseOpenRouterModels(await response.json())
+                .sort((a, b) => a.name.localeCompare(b.name))
+            const catalog = { fetchedAt: Date.now(), models }
+            writeCachedCatalog(catalog)
+            return catalog
+        })().finally(() => {
+            pendingFetch = null
+        })
+    }
+
+    return (await pendingFetch).models
+}
@@ -1,6 +1,5 @@
 import OpenAI from 'openai'
-import { LLMProvider, LLMOptions, LLMResponse } from './llm'
-import type { ChatMessage } from '../types'
+import { LLMProvider, LLMMessage, LLMOptions, LLMResponse, LLMStreamEvent, EmbeddingProvider, ToolConversationMessage, ToolDefinition, ToolCompletionResponse, parseToolArguments, parseOpenAIUsage, normalizeFinishReason, toOpenAIContent } from './llm'
 
 type SimpleChatMessage = OpenAI.Chat.ChatCompletionSystemMessageParam | OpenAI.Chat.ChatCompletionUserMessageParam | OpenAI.Chat.ChatCompletionAssistantMessageParam
 
@@ -17,7 +16,7 @@ export class OpenAIClient implements LLMProvider {
     }
 
     /** Convert our message format to OpenAI's format */
-    private convertMessages(messages: ChatMessage[], system?: string): SimpleChatMessage[] {
+    private convertMessages(messages: LLMMessage[], system?: string): SimpleChatMessage[] {
         const converted: SimpleChatMessage[] = []
         
         if (system) {
@@ -27,10 +26,16 @@ export class OpenAIClient implements LLMProvider {
             })
         }
 
-        converted.push(...messages.map(msg => {
-            const role = msg.role as 'system' | 'user' | 'assistant'
+        converted.push(...messages.map((msg): SimpleChatMessage => {
+            if (msg.role === 'user') {
+                return {
+                    role: 'user',
+                    // The SDK does not yet have a type for file parts, which the API accepts
+                    content: toOpenAIContent(msg.content, msg.files) as OpenAI.Chat.ChatCompletionUserMessageParam['content']
+                }
+            }
             return {
-                role,
+                role: 'assistant',
                 content: msg.content
             }
         }))
@@ -38,8 +43,55 @@ export class OpenAIClient implements LLMProvider {
         return converted
     }
 
+    /** Convert a tool conversation to OpenAI's format */
+    private convertToolMessages(messages: ToolConversationMessage[], system?: string): OpenAI.Chat.ChatCompletionMessageParam[] {
+        const converted: OpenAI.Chat.ChatCompletionMessageParam[] = []
+
+        if (system) {
+            converted.push({
+                role: 'system',
+                content: system
+            })
+        }
+
+        for (const msg of messages) {
+            if (msg.role === 'tool') {
+                converted.push({
+                    role: 'tool',
+                    tool_call_id: msg.toolCallId ?? '',
+                    content: msg.content
+                })
+            } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+                converted.push({
+                    role: 'assistant',
+                    content: msg.content || null,
+                    tool_calls: msg.toolCalls.map(call => ({
+                        id: call.id,
+                        type: 'function',
+                        function: {
+                            name: call.name,
+                            arguments: JSON.stringify(call.arguments)
+                        }
+                    }))
+                })
+            } else if (msg.role === 'user') {
+                converted.push({
+                    role: 'user',
+                    content: toOpenAIContent(msg.content, msg.files) as OpenAI.Chat.ChatCompletionUserMessageParam['content']
+                })
+            } else {
+                converted.push({
+                    role: msg.role,
+                    content: msg.content
+                })
+            }
+        }
+
+        return converted
+    }
+
     async createChatCompletion(
-        messages: ChatMessage[],
+        messages: LLMMessage[],
         options: LLMOptions,
         signal?: AbortSignal
     ): Promise<LLMResponse> {
@@ -58,24 +110,22 @@ export class OpenAIClient implements LLMProvider {
         return {
             content: completion,
             model: response.model,
-            usage: {
-                inputTokens: response.usage?.prompt_tokens,
-                outputTokens: response.usage?.completion_tokens
-            }
+            usage: parseOpenAIUsage(response.usage)
         }
     }
 
     async *createStreamingChatCompletion(
-        messages: ChatMessage[],
+        messages: LLMMessage[],
         options: LLMOptions,
         signal?: AbortSignal
-    ): AsyncGenerator<string, void, unknown> {
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
         const stream = await this.client.chat.completions.create({
             model: options.modelId,
             messages: this.convertMessages(messages, options.system),
             max_tokens: options.maxTokens,
             temperature: options.temperature,
-            stream: true
+            stream: true,
+            stream_options: { include_usage: true }
         }, { signal })
 
         for await (const chunk of stream) {
@@ -83,14 +133,67 @@ export class OpenAIClient implements LLMProvider {
             if (signal?.aborted) {
                 return
             }
-            
-            const content = chunk.choices[0]?.delta?.content
+
+            const choice = chunk.choices[0]
+            // OpenAI-compatible servers such as vLLM and Ollama stream reasoning in fields OpenAI does not have
+            const delta = choice?.delta as { reasoning_content?: string, reasoning?: string } | undefined
+            const reasoning = delta?.reasoning_content ?? delta?.reasoning
+            if (reasoning) {
+                yield { type: 'reasoning', text: reasoning }
+            }
+
+            const content = choice?.delta?.content
             if (content) {
-                yield content
+                yield { type: 'text', text: content }
+            }
+
+            const finishReason = normalizeFinishReason(choice?.finish_reason)
+            if (finishReason) {
+                yield { type: 'finish', reason: finishReason }
+            }
+
+            // Usage arrives in a final chunk with no choices
+            const usage = parseOpenAIUsage(chunk.usage)
+            if (usage) {
+                yield { type: 'usage', usage }
             }
         }
     }
 
+    async createToolCompletion(
+        messages: ToolConversationMessage[],
+        tools: ToolDefinition[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): Promise<ToolCompletionResponse> {
+        const response = await this.client.chat.completions.create({
+            model: options.modelId,
+            messages: this.convertToolMessages(messages, options.system),
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+            tools: tools.map(tool => ({
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: { ...tool.parameters }
+                }
+            }))
+        }, { signal })
+
+        const message = response.choices[0]?.message
+        return {
+            content: message?.content ?? '',
+            model: response.model,
+            usage: parseOpenAIUsage(response.usage),
+            toolCalls: (message?.tool_calls ?? []).map(call => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: parseToolArguments(call.function.arguments)
+            }))
+        }
+    }
+
     /**
      * Transcribe audio using Whisper
      * @param audioBlob The audio blob to transcribe
@@ -114,3 +217,31 @@ export class OpenAIClient implements LLMProvider {
         }
     }
 }
+
+/** Dimensions requested from OpenAI embedding models. Smaller vectors keep stored embeddings compact */
+const OPENAI_EMBEDDING_DIMENSIONS = 512
+
+/** OpenAI embeddings client */
+export class OpenAIEmbeddingClient implements EmbeddingProvider {
+    readonly model = `openai/text-embedding-3-small@${OPENAI_EMBEDDING_DIMENSIONS}`
+    private client: OpenAI
+
+    constructor(apiKey: string) {
+        this.client = new OpenAI({
+            apiKey,
+            dangerouslyAllowBrowser: true
+        })
+    }
+
+    async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+        const response = await this.client.embeddings.create({
+            model: 'text-embedding-3-small',
+            input: texts,
+            dimensions: OPENAI_EMBEDDING_DIMENSIONS
+        }, { signal })
+
+        return [...response.data]
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding)
+    }
+}
@@ -1,6 +1,6 @@
 import { afterEach, describe, expect, it, vi } from 'vitest'
 import { OpenRouterClient } from './openrouter'
-import { getModelById } from './llm'
+import { getModelById, type LLMMessage, type LLMStreamEvent, type ToolDefinition } from './llm'
 import type { ChatMessage } from '../types'
 
 describe('OpenRouterClient', () => {
@@ -108,4 +108,130 @@ describe('OpenRouterClient', () => {
         expect(request).not.toHaveProperty('verbosity')
         expect(request.reasoning).not.toHaveProperty('effort')
     })
+    it('sends tools and returns the tool calls with reasoning details to send back', async () => {
+        vi.stubGlobal('window', {
+            location: {
+                origin: 'https://notelets.example'
+            }
+        })
+
+        const reasoningDetails = [{ type: 'reasoning.encrypted', data: 'abc' }]
+        const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({
+            choices: [
+                {
+                    message: {
+                        content: null,
+                        tool_calls: [
+                            {
+                                id: 'call-1',
+                                type: 'function',
+                                function: { name: 'read_note', arguments: '{"id":"a"}' }
+                            }
+                        ],
+                        reasoning_details: reasoningDetails
+                    }
+                }
+            ],
+            model: 'google/gemini-3-flash-preview'
+        })))
+        vi.stubGlobal('fetch', fetchMock)
+
+        const client = new OpenRouterClient('test-key')
+        const tools: ToolDefinition[] = [
+            {
+                name: 'read_note',
+                description: 'Reads a note',
+                parameters: { type: 'object', properties: { id: { type: 'string', description: 'ID' } }, required: ['id'] }
+            }
+        ]
+
+        const response = await client.createToolCompletion([
+            { role: 'user', content: 'What does note a say?' },
+            { role: 'assistant', content: '', toolCalls: [{ id: 'call-0', name: 'read_note', arguments: { id: 'b' } }], providerData: reasoningDetails },
+            { role: 'tool', content: 'Nothing', toolCallId: 'call-0', toolName: 'read_note' }
+        ], tools, { modelId: 'google/gemini-3-flash-preview' })
+
+        expect(response.toolCalls).toEqual([{ id: 'call-1', name: 'read_note', arguments: { id: 'a' } }])
+        expect(response.providerData).toEqual(reasoningDetails)
+
+        const request = JSON.parse(fetchMock.mock.calls[0][1]!.body as string)
+        expect(request.tools[0]).toMatchObject({ type: 'function', function: { name: 'read_note' } })
+        expect(request.messages[1]).toMatchObject({
+            role: 'assistant',
+            tool_calls: [{ id: 'call-0', function: { name: 'read_note', arguments: '{"id":"b"}' } }],
+            reasoning_details: reasoningDetails
+        })
+        expect(request.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call-0', content: 'Nothing' })
+    })
+
+    it('streams reasoning separately and reports the usage, cost and finish reason', async () => {
+        vi.stubGlobal('window', {
+            location: {
+                origin: 'https://notelets.example'
+            }
+        })
+
+        const body = [
+            'data: {"choices":[{"delta":{"reasoning":"Greet back"}}]}',
+            'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+            'data: {"choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}',
+            'data: {"choices":[],"usage":{"prompt_tokens":120,"completion_tokens":30,"completion_tokens_details":{"reasoning_tokens":12},"cost":0.0009}}',
+            'data: [DONE]',
+            ''
+        ].join('\n')
+        const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(body))
+        vi.stubGlobal('fetch', fetchMock)
+
+        const client = new OpenRouterClient('test-key')
+        const stream = client.createStreamingChatCompletion([
+            { role: 'user', content: 'Hi', createdAt: '2026-04-29T00:00:00.000Z' }
+        ], { modelId: 'google/gemini-3-flash-preview' })
+
+        const events: LLMStreamEvent[] = []
+        for await (const event of stream) {
+            events.push(event)
+        }
+
+        expect(events).toEqual([
+            { type: 'reasoning', text: 'Greet back' },
+            { type: 'text', text: 'Hel' },
+            { type: 'text', text: 'lo' },
+            { type: 'finish', reason: 'stop' },
+            { type: 'usage', usage: { inputTokens: 120, outputTokens: 30, reasoningTokens: 12, cost: 0.0009 } }
+        ])
+        expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string).usage).toEqual({ include: true })
+    })
+
+    it('sends attached images and PDFs as content parts before the text', async () => {
+        vi.stubGlobal('window', { location: { origin: 'https://notelets.example' } })
+        const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({
+            choices: [{ message: { content: 'A chart' } }],
+            model: 'google/gemini-3-flash-preview'
+        })))
+        vi.stubGlobal('fetch', fetchMock)
+
+        const client = new OpenRouterClient('test-key')
+        const messages: LLMMessage[] = [
+            {
+                role: 'user',
+                content: 'What is this?',
+                createdAt: '2026-05-01T00:00:00.000Z',
+                files: [
+                    { name: 'chart.png', mimeType: 'image/png', data: 'iVBORw0KGgo=' },
+                    { name: 'report.pdf', mimeType: 'application/pdf', data: 'JVBERi0=' }
+                ]
+            },
+            { role: 'assistant', content: 'A chart', createdAt: '2026-05-01T00:00:01.000Z' }
+        ]
+
+        await client.createChatCompletion(messages, { modelId: 'google/gemini-3-flash-preview' })
+
+        const request = JSON.parse(fetchMock.mock.calls[0][1]!.body as string)
+        expect(request.messages[0].content).toEqual([
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+            { type: 'file', file: { filename: 'report.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' } },
+            { type: 'text', text: 'What is this?' }
+        ])
+        expect(request.messages[1].content).toBe('A chart')
+    })
 })
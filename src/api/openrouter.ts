@@ -1,5 +1,5 @@
-import type { ChatMessage } from '../types'
-import type { LLMProvider, LLMOptions, LLMResponse } from './llm'
+import type { LLMProvider, LLMMessage, LLMOptions, LLMResponse, LLMStreamEvent, EmbeddingProvider, ToolConversationMessage, ToolDefinition, ToolCompletionResponse } from './llm'
+import { LLMRequestError, parseToolArguments, parseOpenAIUsage, normalizeFinishReason, parseRetryAfter, readErrorBody, toOpenAIContent } from './llm'
 
 /** Base URL for OpenRouter's API */
 const OPENROUTER_API_BASE = 'https://openrouter.ai/api/v1'
@@ -22,7 +22,7 @@ export class OpenRouterClient implements LLMProvider {
         this.apiKey = apiKey
     }
 
-    private convertMessages(messages: ChatMessage[], system?: string): any[] {
+    private convertMessages(messages: LLMMessage[], system?: string): any[] {
         const converted: any[] = []
 
         if (system) {
@@ -35,13 +35,59 @@ export class OpenRouterClient implements LLMProvider {
         messages.forEach(msg => {
             converted.push({
                 role: msg.role,
-                content: msg.content
+                content: toOpenAIContent(msg.content, msg.files)
             })
         })
 
         return converted
     }
 
+    /**
+     * Converts a tool conversation to OpenRouter's format. Reasoning details returned
+     * with an assistant message are sent back so the model can continue from them
+     */
+    private convertToolMessages(messages: ToolConversationMessage[], system?: string): any[] {
+        const converted: any[] = []
+
+        if (system) {
+            converted.push({
+                role: 'system',
+                content: system
+            })
+        }
+
+        messages.forEach(msg => {
+            if (msg.role === 'tool') {
+                converted.push({
+                    role: 'tool',
+                    tool_call_id: msg.toolCallId,
+                    content: msg.content
+                })
+            } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+                converted.push({
+                    role: 'assistant',
+                    content: msg.content || null,
+                    tool_calls: msg.toolCalls.map(call => ({
+                        id: call.id,
+                        type: 'function',
+                        function: {
+                            name: call.name,
+                            arguments: JSON.stringify(call.arguments)
+                        }
+                    })),
+                    ...(msg.providerData ? { reasoning_details: msg.providerData } : {})
+                })
+            } else {
+                converted.push({
+                    role: msg.role,
+                    content: toOpenAIContent(msg.content, msg.files)
+                })
+            }
+        })
+
+        return converted
+    }
+
     /**
      * Builds OpenRouter's reasoning object from normalized LLM options
      */
@@ -68,7 +114,7 @@ export class OpenRouterClient implements LLMProvider {
     }
 
     async createChatCompletion(
-        messages: ChatMessage[],
+        messages: LLMMessage[],
         options: LLMOptions,
         signal?: AbortSignal
     ): Promise<LLMResponse> {
@@ -86,19 +132,19 @@ export class OpenRouterClient implements LLMProvider {
                 max_tokens: options.maxTokens,
                 temperature: options.temperature,
                 reasoning: this.buildReasoningConfig(options),
-                verbosity: options.verbosity
+                verbosity: options.verbosity,
+                usage: { include: true }
             }),
             signal
         })
 
         if (!response.ok) {
-            let errorBody
-            try {
-                errorBody = await response.json()
-            } catch {
-                errorBody = await response.text()
-            }
-            throw new Error(`OpenRouter API error: ${response.statusText} - ${JSON.stringify(errorBody)}`)
+            const errorBody = await readErrorBody(response)
+            throw new LLMRequestError(
+                `OpenRouter API error: ${response.statusText} - ${JSON.stringify(errorBody)}`,
+                response.status,
+                parseRetryAfter(response.headers.get('retry-after'))
+            )
         }
 
         const data = await response.json()
@@ -107,21 +153,83 @@ export class OpenRouterClient implements LLMProvider {
             throw new Error('No completion received from OpenRouter')
         }
 
+        const reasoning = data.choices[0]?.message?.reasoning
         return {
             content: completion,
             model: data.model,
-            usage: {
-                inputTokens: data.usage?.prompt_tokens,
-                outputTokens: data.usage?.completion_tokens
-            }
+            usage: parseOpenAIUsage(data.usage),
+            ...(reasoning ? { reasoning } : {})
+        }
+    }
+
+    async createToolCompletion(
+        messages: ToolConversationMessage[],
+        tools: ToolDefinition[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): Promise<ToolCompletionResponse> {
+        const response = await fetch(`${OPENROUTER_API_BASE}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.apiKey}`,
+                'HTTP-Referer': window.location.origin,
+                'X-Title': 'Notelets'
+            },
+            body: JSON.stringify({
+                model: options.modelId,
+                messages: this.convertToolMessages(messages, options.system),
+                max_tokens: options.maxTokens,
+                temperature: options.temperature,
+                reasoning: this.buildReasoningConfig(options),
+                verbosity: options.verbosity,
+                usage: { include: true },
+                tools: tools.map(tool => ({
+                    type: 'function',
+                    function: {
+                        name: tool.name,
+                        description: tool.description,
+                        parameters: tool.parameters
+                    }
+                }))
+            }),
+            signal
+        })
+
+        if (!response.ok) {
+            const errorBody = await readErrorBody(response)
+            throw new LLMRequestError(
+                `OpenRouter API error: ${response.statusText} - ${JSON.stringify(errorBody)}`,
+                response.status,
+                parseRetryAfter(response.headers.get('retry-after'))
+            )
+        }
+
+        const data = await response.json()
+        const message = data.choices[0]?.message
+        if (!message) {
+            throw new Error('No completion received from OpenRouter')
+        }
+
+        return {
+            content: message.content ?? '',
+            model: data.model,
+            usage: parseOpenAIUsage(data.usage),
+            toolCalls: (message.tool_calls ?? []).map((call: any) => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: parseToolArguments(call.function.arguments)
+            })),
+            providerData: message.reasoning_details,
+            ...(message.reasoning ? { reasoning: message.reasoning } : {})
         }
     }
 
     async *createStreamingChatCompletion(
-        messages: ChatMessage[],
+        messages: LLMMessage[],
         options: LLMOptions,
         signal?: AbortSignal
-    ): AsyncGenerator<string, void, unknown> {
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
         const response = await fetch(`${OPENROUTER_API_BASE}/chat/completions`, {
             method: 'POST',
             headers: {
@@ -137,19 +245,19 @@ export class OpenRouterClient implements LLMProvider {
                 temperature: options.temperature,
                 stream: true,
                 reasoning: this.buildReasoningConfig(options),
-                verbosity: options.verbosity
+                verbosity: options.verbosity,
+                usage: { include: true }
             }),
             signal
         })
 
         if (!response.ok) {
-            let errorBody
-            try {
-                errorBody = await response.json()
-            } catch {
-                errorBody = await response.text()
-            }
-            throw new Error(`OpenRouter API error: ${response.statusText} - ${JSON.stringify(errorBody)}`)
+            const errorBody = await readErrorBody(response)
+            throw new LLMRequestError(
+                `OpenRouter API error: ${response.statusText} - ${JSON.stringify(errorBody)}`,
+                response.status,
+                parseRetryAfter(response.headers.get('retry-after'))
+            )
         }
 
         const reader = response.body?.getReader()
@@ -171,13 +279,33 @@ export class OpenRouterClient implements LLMProvider {
                     if (line.trim() === '') continue
                     if (line.trim() === 'data: [DONE]') continue
 
+                    let data
                     try {
-                        const data = JSON.parse(line.replace(/^data: /, ''))
-                        const content = data.choices[0]?.delta?.content
-                        if (content) yield content
+                        data = JSON.parse(line.replace(/^data: /, ''))
                     } catch (e) {
                         console.warn('Error parsing SSE message:', e)
+                        continue
+                    }
+
+                    // Errors after the response has started, such as the upstream provider
+                    // failing, arrive as a chunk with an error rather than as a status
+                    if (data.error) {
+                        throw new LLMRequestError(
+                            `OpenRouter stream error: ${data.error.message ?? JSON.stringify(data.error)}`,
+                            typeof data.error.code === 'number' ? data.error.code : undefined
+                        )
                     }
+
+                    const choice = data.choices?.[0]
+                    if (choice?.delta?.reasoning) yield { type: 'reasoning', text: choice.delta.reasoning }
+                    if (choice?.delta?.content) yield { type: 'text', text: choice.delta.content }
+
+                    const finishReason = normalizeFinishReason(choice?.finish_reason)
+                    if (finishReason) yield { type: 'finish', reason: finishReason }
+
+                    // Usage, including the cost, arrives in the last chunk
+                    const usage = parseOpenAIUsage(data.usage)
+                    if (usage) yield { type: 'usage', usage }
                 }
             }
         } finally {
@@ -234,12 +362,7 @@ export class OpenRouterClient implements LLMProvider {
         })
 
         if (!response.ok) {
-            let errorBody
-            try {
-                errorBody = await response.json()
-            } catch {
-                errorBody = await response.text()
-            }
+            const errorBody = await readErrorBody(response)
             throw new Error(`OpenRouter transcription error: ${response.statusText} - ${JSON.stringify(errorBody)}`)
         }
 
@@ -299,19 +422,19 @@ export class OpenRouterClient implements LLMProvider {
                 model: options.modelId,
                 messages,
                 max_tokens: options.maxTokens,
-                temperature: options.temperature
+                temperature: options.temperature,
+                usage: { include: true }
             }),
             signal
         })
 
         if (!response.ok) {
-            let errorBody
-            try {
-                errorBody = await response.json()
-            } catch {
-                errorBody = await response.text()
-            }
-            throw new Error(`OpenRouter API error: ${response.statusText} - ${JSON.stringify(errorBody)}`)
+            const errorBody = await readErrorBody(response)
+            throw new LLMRequestError(
+                `OpenRouter API error: ${response.statusText} - ${JSON.stringify(errorBody)}`,
+                response.status,
+                parseRetryAfter(response.headers.get('retry-after'))
+            )
         }
 
         const data = await response.json()
@@ -320,13 +443,54 @@ export class OpenRouterClient implements LLMProvider {
             throw new Error('No completion received from OpenRouter')
         }
 
+        const reasoning = data.choices[0]?.message?.reasoning
         return {
             content: completion,
             model: data.model,
-            usage: {
-                inputTokens: data.usage?.prompt_tokens,
-                outputTokens: data.usage?.completion_tokens
-            }
+            usage: parseOpenAIUsage(data.usage),
+            ...(reasoning ? { reasoning } : {})
         }
     }
-}
\ No newline at end of file
+}
+
+/** OpenRouter embeddings client */
+export class OpenRouterEmbeddingClient implements EmbeddingProvider {
+    readonly model = 'openrouter/openai/text-embedding-3-small@512'
+    private apiKey: string
+
+    constructor(apiKey: string) {
+        this.apiKey = apiKey
+    }
+
+    async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+        const response = await fetch(`${OPENROUTER_API_BASE}/embeddings`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.apiKey}`,
+                'HTTP-Referer': window.location.origin,
+                'X-Title': 'Notelets'
+            },
+            body: JSON.stringify({
+                model: 'openai/text-embedding-3-small',
+                input: texts,
+                dimensions: 512
+            }),
+            signal
+        })
+
+        if (!response.ok) {
+            const errorBody = await readErrorBody(response)
+            throw new LLMRequestError(
+                `OpenRouter API error: ${response.statusText} - ${JSON.stringify(errorBody)}`,
+                response.status,
+                parseRetryAfter(response.headers.get('retry-after'))
+            )
+        }
+
+        const data: { data: { index: number, embedding: number[] }[] } = await response.json()
+        return [...data.data]
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding)
+    }
+}
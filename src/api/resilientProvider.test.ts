@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getRetryDelay, isTransientError, ResilientProvider } from './resilientProvider'
+import { LLMRequestError, parseRetryAfter, type LLMProvider, type LLMStreamEvent } from './llm'
+import { DeepSeekClient } from './deepseek'
+import type { ChatMessage } from '../types'
+
+const messages: ChatMessage[] = [
+    { role: 'user', content: 'Tell me a story', createdAt: '2026-05-01T00:00:00.000Z' }
+]
+
+/** Makes a provider whose methods are the given mocks */
+function mockProvider(provider: Partial<LLMProvider>): LLMProvider {
+    return {
+        createChatCompletion: vi.fn(),
+        createStreamingChatCompletion: vi.fn(),
+        createToolCompletion: vi.fn(),
+        ...provider
+    } as LLMProvider
+}
+
+/** Collects the events of a stream */
+async function collect(stream: AsyncGenerator<LLMStreamEvent, void, unknown>): Promise<LLMStreamEvent[]> {
+    const events: LLMStreamEvent[] = []
+    for await (const event of stream) {
+        events.push(event)
+    }
+    return events
+}
+
+describe('isTransientError', () => {
+    it('retries overload, rate limit and network failures but not other errors', () => {
+        expect(isTransientError(new LLMRequestError('Overloaded', 529))).toBe(true)
+        expect(isTransientError(new LLMRequestError('Too many requests', 429))).toBe(true)
+        expect(isTransientError(new LLMRequestError('Bad gateway', 502))).toBe(true)
+        expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true)
+        expect(isTransientError(new LLMRequestError('Unauthorized', 401))).toBe(false)
+        expect(isTransientError(new LLMRequestError('Bad request', 400))).toBe(false)
+        expect(isTransientError(new DOMException('Aborted', 'AbortError'))).toBe(false)
+        expect(isTransientError(new Error('Unknown model'))).toBe(false)
+    })
+})
+
+describe('getRetryDelay', () => {
+    it('honors Retry-After, in seconds or as a date', () => {
+        expect(parseRetryAfter('2')).toBe(2000)
+        expect(parseRetryAfter('Fri, 01 May 2026 00:00:05 GMT', Date.parse('2026-05-01T00:00:00Z'))).toBe(5000)
+        expect(parseRetryAfter('soon')).toBeNull()
+        expect(getRetryDelay(new LLMRequestError('Too many requests', 429, 2000), 1)).toBe(2000)
+        // Waits longer than the limit are left to the backup model
+        expect(getRetryDelay(new LLMRequestError('Too many requests', 429, 120000), 1)).toBeNull()
+    })
+
+    it('backs off exponentially with jitter', () => {
+        const error = new LLMRequestError('Overloaded', 529)
+        expect(getRetryDelay(error, 1, { baseDelayMs: 1000 })).toBeGreaterThanOrEqual(1000)
+        expect(getRetryDelay(error, 1, { baseDelayMs: 1000 })).toBeLessThanOrEqual(1250)
+        expect(getRetryDelay(error, 3, { baseDelayMs: 1000 })).toBeGreaterThanOrEqual(4000)
+        expect(getRetryDelay(error, 10, { baseDelayMs: 1000, maxDelayMs: 30000 })).toBe(30000)
+    })
+})
+
+describe('ResilientProvider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('retries transient failures and then gives up', async () => {
+        const createChatCompletion = vi.fn()
+            .mockRejectedValueOnce(new LLMRequestError('Overloaded', 529))
+            .mockResolvedValueOnce({ content: 'Once upon a time', model: 'test' })
+        const onRetry = vi.fn()
+        const provider = new ResilientProvider(mockProvider({ createChatCompletion }), { baseDelayMs: 0, onRetry })
+
+        await expect(provider.createChatCompletion(messages, { modelId: 'test' })).resolves.toMatchObject({ content: 'Once upon a time' })
+        expect(onRetry).toHaveBeenCalledTimes(1)
+
+        const failing = vi.fn().mockRejectedValue(new LLMRequestError('Overloaded', 529))
+        const giveUp = new ResilientProvider(mockProvider({ createChatCompletion: failing }), { baseDelayMs: 0, maxRetries: 2 })
+        await expect(giveUp.createChatCompletion(messages, { modelId: 'test' })).rejects.toThrow('Overloaded')
+        expect(failing).toHaveBeenCalledTimes(3)
+    })
+
+    it('retries gateway errors whose body is not JSON', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response('<html><body>503 Service Temporarily Unavailable</body></html>', {
+                status: 503,
+                statusText: 'Service Unavailable',
+                headers: { 'retry-after': '0' }
+            }))
+            .mockResolvedValueOnce(new Response(JSON.stringify({
+                choices: [{ message: { content: 'Once upon a time' } }],
+                model: 'deepseek-chat'
+            })))
+        vi.stubGlobal('fetch', fetchMock)
+        const provider = new ResilientProvider(new DeepSeekClient('test-key'), { baseDelayMs: 0 })
+
+        await expect(provider.createChatCompletion(messages, { modelId: 'deepseek-chat' })).resolves.toMatchObject({ content: 'Once upon a time' })
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not retry errors that will not go away', async () => {
+        const createToolCompletion = vi.fn().mockRejectedValue(new LLMRequestError('Unauthorized', 401))
+        const provider = new ResilientProvider(mockProvider({ createToolCompletion }), { baseDelayMs: 0 })
+
+        await expect(provider.createToolCompletion([], [], { modelId: 'test' })).rejects.toThrow('Unauthorized')
+        expect(createToolCompletion).toHaveBeenCalledTimes(1)
+    })
+
+    it('continues a stream that fails partway through from what has arrived', async () => {
+        const requests: ChatMessage[][] = []
+        const createStreamingChatCompletion = vi.fn(async function* (request: ChatMessage[]): AsyncGenerator<LLMStreamEvent, void, unknown> {
+            requests.push(request)
+            if (requests.length === 1) {
+                yield { type: 'text', text: 'Once upon ' }
+                throw new TypeError('network error')
+            }
+            yield { type: 'text', text: 'a time' }
+            yield { type: 'finish', reason: 'stop' }
+        })
+        const provider = new ResilientProvider(mockProvider({ createStreamingChatCompletion }), { baseDelayMs: 0 })
+
+        const events = await collect(provider.createStreamingChatCompletion(messages, { modelId: 'test' }))
+
+        expect(events).toEqual([
+            { type: 'text', text: 'Once upon ' },
+            { type: 'text', text: 'a time' },
+            { type: 'finish', reason: 'stop' }
+        ])
+        expect(requests[1].slice(0, 2)).toEqual([
+            messages[0],
+            expect.objectContaining({ role: 'assistant', content: 'Once upon ' })
+        ])
+        expect(requests[1][2]).toMatchObject({ role: 'user' })
+    })
+
+    it('sends the request again when a stream fails after only reasoning has arrived', async () => {
+        const requests: ChatMessage[][] = []
+        const createStreamingChatCompletion = vi.fn(async function* (request: ChatMessage[]): AsyncGenerator<LLMStreamEvent, void, unknown> {
+            requests.push(request)
+            yield { type: 'reasoning', text: 'Thinking' }
+            if (requests.length === 1) throw new TypeError('network error')
+            yield { type: 'text', text: 'Once upon a time' }
+        })
+        const provider = new ResilientProvider(mockProvider({ createStreamingChatCompletion }), { baseDelayMs: 0 })
+
+        const events = await collect(provider.createStreamingChatCompletion(messages, { modelId: 'test' }))
+
+        expect(events).toEqual([
+            { type: 'reasoning', text: 'Thinking' },
+            { type: 'reset' },
+            { type: 'reasoning', text: 'Thinking' },
+            { type: 'text', text: 'Once upon a time' }
+        ])
+        expect(requests[1]).toEqual(messages)
+    })
+
+    it('stops retrying a stream once it is aborted', async () => {
+        const controller = new AbortController()
+        const createStreamingChatCompletion = vi.fn(async function* (): AsyncGenerator<LLMStreamEvent, void, unknown> {
+            controller.abort()
+            throw new LLMRequestError('Overloaded', 529)
+        })
+        const provider = new ResilientProvider(mockProvider({ createStreamingChatCompletion }), { baseDelayMs: 0 })
+
+        await expect(collect(provider.createStreamingChatCompletion(messages, { modelId: 'test' }, controller.signal))).rejects.toThrow('Overloaded')
+        expect(createStreamingChatCompletion).toHaveBeenCalledTimes(1)
+    })
+})
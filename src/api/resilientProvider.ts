@@ -0,0 +1,202 @@
+import type { LLMProvider, LLMMessage, LLMOptions, LLMResponse, LLMStreamEvent, ToolConversationMessage, ToolDefinition, ToolCompletionResponse } from './llm'
+import { parseRetryAfter } from './llm'
+
+/** How a {@link ResilientProvider} retries failed requests */
+export interface RetryOptions {
+    /** Retries after the first attempt. Defaults to 3 */
+    maxRetries?: number
+    /** Delay before the first retry in milliseconds, doubled for each retry after it. Defaults to 1000 */
+    baseDelayMs?: number
+    /**
+     * Longest delay before a retry in milliseconds. A provider asking us to wait
+     * longer than this is not retried. Defaults to 30000
+     */
+    maxDelayMs?: number
+    /** Times a stream that fails partway through is continued. Defaults to 2 */
+    maxResumes?: number
+    /** Called before waiting to retry a request */
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+}
+
+/** Statuses of failures that are likely to succeed if the request is sent again */
+const TRANSIENT_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529])
+
+/** Instruction sent after the partial answer of an interrupted stream to get the rest */
+const CONTINUE_PROMPT = 'Your previous response was cut off. Continue it exactly where it stopped, without repeating anything or commenting on the interruption.'
+
+/**
+ * Checks whether an error is a temporary failure, such as the provider being
+ * overloaded or rate limiting us, or the network dropping, so the request is worth retrying
+ */
+export function isTransientError(error: unknown): boolean {
+    if (!error || typeof error !== 'object') return false
+    const err = error as { name?: string, message?: string, status?: unknown }
+    if (err.name === 'AbortError') return false
+
+    if (typeof err.status === 'number') {
+        return TRANSIENT_STATUSES.has(err.status)
+    }
+
+    // fetch rejects with a TypeError when the connection fails or drops. The OpenAI SDK wraps it
+    if (err.name === 'APIConnectionError' || err.name === 'APIConnectionTimeoutError') return true
+    return error instanceof TypeError && /fetch|network|load failed/i.test(err.message ?? '')
+}
+
+/** Gets how long the provider asked us to wait before retrying, in milliseconds */
+function getRetryAfterMs(error: unknown): number | null {
+    const err = error as { retryAfterMs?: unknown, headers?: any } | null
+    if (typeof err?.retryAfterMs === 'number') return err.retryAfterMs
+
+    // The OpenAI SDK keeps the response headers on its errors
+    const headers = err?.headers
+    if (!headers) return null
+    return parseRetryAfter(typeof headers.get === 'function' ? headers.get('retry-after') : headers['retry-after'])
+}
+
+/**
+ * Gets how long to wait before retrying a failed request: what the provider asked
+ * for, or an exponential backoff with jitter
+ * @param error The error of the failed attempt
+ * @param attempt The number of the retry, starting at 1
+ * @returns The delay in milliseconds, or null if the provider asked us to wait too long
+ */
+export function getRetryDelay(error: unknown, attempt: number, options: RetryOptions = {}): number | null {
+    const baseDelayMs = options.baseDelayMs ?? 1000
+    const maxDelayMs = options.maxDelayMs ?? 30000
+
+    const retryAfterMs = getRetryAfterMs(error)
+    if (retryAfterMs !== null) {
+        return retryAfterMs <= maxDelayMs ? retryAfterMs : null
+    }
+
+    const backoff = baseDelayMs * 2 ** (attempt - 1)
+    // Up to a quarter is added at random so that requests that failed together are not retried together
+    return Math.min(maxDelayMs, backoff + Math.random() * backoff * 0.25)
+}
+
+/** Waits for a time, stopping early with an AbortError if the signal is aborted */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Aborted', 'AbortError'))
+            return
+        }
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(new DOMException('Aborted', 'AbortError'))
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+}
+
+/**
+ * Provider that wraps another to retry temporary failures with exponential backoff,
+ * honoring Retry-After. A stream that fails after part of the answer has arrived is
+ * continued from that part rather than started again, so nothing already shown is lost
+ */
+export class ResilientProvider implements LLMProvider {
+    private provider: LLMProvider
+    private options: RetryOptions
+
+    constructor(provider: LLMProvider, options: RetryOptions = {}) {
+        this.provider = provider
+        this.options = options
+    }
+
+    /**
+     * Decides whether to retry after a failure and waits if so
+     * @returns Whether to retry. If not, the caller throws the error
+     */
+    private async waitToRetry(error: unknown, attempt: number, maxAttempts: number, signal?: AbortSignal): Promise<boolean> {
+        if (signal?.aborted || attempt > maxAttempts || !isTransientError(error)) return false
+
+        const delayMs = getRetryDelay(error, attempt, this.options)
+        if (delayMs === null) return false
+
+        this.options.onRetry?.(error, attempt, delayMs)
+        await sleep(delayMs, signal)
+        return true
+    }
+
+    /** Calls a request function, retrying it while it fails temporarily */
+    private async withRetries<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await request()
+            } catch (error) {
+                if (!await this.waitToRetry(error, attempt, this.options.maxRetries ?? 3, signal)) throw error
+            }
+        }
+    }
+
+    async createChatCompletion(
+        messages: LLMMessage[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): Promise<LLMResponse> {
+        return this.withRetries(() => this.provider.createChatCompletion(messages, options, signal), signal)
+    }
+
+    async createToolCompletion(
+        messages: ToolConversationMessage[],
+        tools: ToolDefinition[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): Promise<ToolCompletionResponse> {
+        return this.withRetries(() => this.provider.createToolCompletion(messages, tools, options, signal), signal)
+    }
+
+    /**
+     * Streams the answer. A failure before any of the answer arrives is retried like
+     * other requests, with a reset event if reasoning had arrived, as it is streamed
+     * again. After that, the model is asked to continue from the partial answer, and
+     * the rest is streamed as if nothing had happened
+     */
+    async *createStreamingChatCompletion(
+        messages: LLMMessage[],
+        options: LLMOptions,
+        signal?: AbortSignal
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
+        let partial = ''
+        let reasoned = false
+        let retries = 0
+        let resumes = 0
+
+        while (true) {
+            const request = partial ? getContinuationMessages(messages, partial) : messages
+            try {
+                for await (const event of this.provider.createStreamingChatCompletion(request, options, signal)) {
+                    if (event.type === 'text') partial += event.text
+                    if (event.type === 'reasoning') reasoned = true
+                    yield event
+                }
+                return
+            } catch (error) {
+                const retry = partial
+                    ? await this.waitToRetry(error, ++resumes, this.options.maxResumes ?? 2, signal)
+                    : await this.waitToRetry(error, ++retries, this.options.maxRetries ?? 3, signal)
+                if (!retry) throw error
+
+                // The request is sent again from the start, so its reasoning is streamed again
+                if (!partial && reasoned) {
+                    reasoned = false
+                    yield { type: 'reset' }
+                }
+            }
+        }
+    }
+}
+
+/** Gets the messages asking the model to continue an answer that was cut off */
+function getContinuationMessages(messages: LLMMessage[], partial: string): LLMMessage[] {
+    const createdAt = new Date().toISOString()
+    return [
+        ...messages,
+        { role: 'assistant', content: partial, createdAt },
+        { role: 'user', content: CONTINUE_PROMPT, createdAt }
+    ]
+}
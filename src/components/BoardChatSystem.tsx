@@ -1,20 +1,36 @@
 import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react'
 import type { Store } from '../Store'
-import { useCards, useChats } from '../Store'
-import type { Card, Chat, RichTextCard } from '../types'
+import { useCards, useChats, useUsageRecords } from '../Store'
+import type { Card, Chat, ChatMessage, ImageCard, ProposedNoteEdit, RichTextCard, TokenUsage } from '../types'
 import { ModelId, getDefaultModel, isModelAvailable } from '../api/llm'
 import { v4 as uuidv4 } from 'uuid'
 import { ChatInterface } from './ChatInterface'
 import { useChat } from '../hooks/useChat'
+import { useChatAttachments } from '../hooks/useChatAttachments'
+import { useRelevantContext } from '../hooks/useRelevantContext'
 import { useUserSettings } from '../hooks/useSettings'
 import { ModelSelector } from './chat/ModelSelector'
+import { CompareModelSelector, MAX_COMPARE_MODELS, MIN_COMPARE_MODELS } from './chat/CompareModelSelector'
 import { usePersist } from '../hooks/usePersist'
 import { SettingsModal } from './settings/SettingsModal'
-import { FaTimes, FaTrash } from 'react-icons/fa'
+import { FaPen, FaTimes, FaTrash } from 'react-icons/fa'
 import { Popover, PopoverButton, PopoverPanel } from '@headlessui/react'
 import { getCardTitle } from '../modules/cards'
+import { snapshotCard } from '../modules/revisions'
+import { getAllTags, cardMatchesTagFilter } from '../modules/tags'
+import { useNoteNavigation } from './notes/NoteNavigationContext'
+import type { NoteToolContext } from '../modules/noteTools'
+import { createUsageRecord, getBudgetWarning, getMonthStart } from '../modules/usage'
+import { getMessageVersions, switchToVersion } from '../modules/chatTree'
+import { mergePrompts } from '../modules/prompts'
+import type { PromptTemplate } from '../types/settings'
+import type { AttachmentFile } from '../modules/attachments'
+import { chatMatchesQuery, getChatDisplayTitle, getChatPreview, hasChatTitle, MAX_CHAT_TITLE_LENGTH } from '../modules/chatSummaries'
 
-type ChatContextMode = 'quick' | 'selected' | 'picked' | 'all'
+type ChatContextMode = 'quick' | 'selected' | 'picked' | 'all' | 'tag' | 'relevant'
+
+/** Number of passages retrieved for each message in 'relevant' mode */
+const RELEVANT_PASSAGE_LIMIT = 8
 
 interface BoardChatSystemProps {
   /** The data store instance */
@@ -25,12 +41,16 @@ interface BoardChatSystemProps {
   className?: string
   /** The cards on the board */
   cards: Card[]
+  /** Image cards on the board, which can be picked to send to vision models */
+  imageCards?: ImageCard[]
   /** The function to set a card */
   setCard: (card: Card) => void
   /** Currently selected card */
   selectedCard: Card | null
   /** Board-level custom instructions for chat */
   boardInstructions?: string
+  /** Prompts that can be sent from chat on this board only */
+  boardPrompts?: PromptTemplate[]
 }
 
 /**
@@ -44,9 +64,11 @@ export function BoardChatSystem({
   boardId,
   className = '',
   cards,
+  imageCards = [],
   setCard,
   selectedCard,
-  boardInstructions
+  boardInstructions,
+  boardPrompts
 }: BoardChatSystemProps) {
   const { settings: userSettings, loading: userSettingsLoading } = useUserSettings(store)
   const { chats, setChat: storeSetChat, removeChat } = useChats(store, boardId)
@@ -57,16 +79,29 @@ export function BoardChatSystem({
   const [isHistoryMode, setIsHistoryMode] = useState(false)
   const [contextMode, setContextMode] = usePersist<ChatContextMode>(`board_${boardId}_chatContext`, 'quick')
   const [pickedCardIds, setPickedCardIds] = usePersist<string[]>(`board_${boardId}_pickedCardIds`, [])
+  const [contextTag, setContextTag] = usePersist<string | null>(`board_${boardId}_contextTag`, null)
   const [isEphemeral, setIsEphemeral] = useState(true)
+  const [noteToolsEnabled, setNoteToolsEnabled] = usePersist<boolean>('chatNoteTools', false)
+  const [isCompareMode, setIsCompareMode] = usePersist<boolean>('chatCompareMode', false)
+  const [compareModels, setCompareModels] = usePersist<ModelId[]>('chatCompareModels', [])
+  const [isSummarizing, setIsSummarizing] = useState(false)
+  const [generatedTitle, setGeneratedTitle] = useState<{ chatId: string, title: string } | null>(null)
+  const { addFiles, saveFiles, loadAttachment } = useChatAttachments(store, boardId)
+
+  // The chat shown, for turns that finish after it may have been renamed
+  const chatRef = useRef<Chat | null>(null)
+  useEffect(() => {
+    chatRef.current = chat
+  }, [chat])
 
   // Prune picked IDs that no longer exist on the board
   useEffect(() => {
-    const cardIdSet = new Set(cards.map(c => c.id))
+    const cardIdSet = new Set([...cards, ...imageCards].map(c => c.id))
     const pruned = pickedCardIds.filter(id => cardIdSet.has(id))
     if (pruned.length !== pickedCardIds.length) {
       setPickedCardIds(pruned)
     }
-  }, [cards, pickedCardIds, setPickedCardIds])
+  }, [cards, imageCards, pickedCardIds, setPickedCardIds])
 
   // Filter cards based on context mode
   const contextCards = useMemo(() => {
@@ -78,11 +113,70 @@ export function BoardChatSystem({
       case 'picked':
         return cards.filter((c): c is RichTextCard => c.type === 'richtext' && pickedCardIds.includes(c.id))
       case 'all':
+      case 'relevant':
         return cards.filter((c): c is RichTextCard => c.type === 'richtext')
+      case 'tag':
+        return contextTag
+          ? cards.filter((c): c is RichTextCard => c.type === 'richtext' && cardMatchesTagFilter(c, contextTag))
+          : []
       default:
         return []
     }
-  }, [contextMode, selectedCard, cards, pickedCardIds])
+  }, [contextMode, selectedCard, cards, pickedCardIds, contextTag])
+
+  // Picked images are sent along with the latest message to models that accept images
+  const contextImages = useMemo(
+    () => contextMode === 'picked' ? imageCards.filter(c => pickedCardIds.includes(c.id)) : [],
+    [contextMode, imageCards, pickedCardIds]
+  )
+
+  // In 'relevant' mode only the passages closest to each message are sent
+  const relevantContext = useRelevantContext(store, boardId, cards, userSettings.llm, contextMode === 'relevant')
+  const { retrieve } = relevantContext
+  const retrievePassages = useMemo(
+    () => contextMode === 'relevant'
+      ? (query: string, signal: AbortSignal) => retrieve(query, RELEVANT_PASSAGE_LIMIT, signal)
+      : undefined,
+    [contextMode, retrieve]
+  )
+
+  /** Creates a note on the board for the assistant's create_note tool */
+  const createNote = useCallback(async (title: string, markdown: string): Promise<RichTextCard> => {
+    const newCard: RichTextCard = {
+      id: uuidv4(),
+      boardId,
+      type: 'richtext',
+      title,
+      content: {
+        markdown
+      },
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }
+    await setCard(newCard)
+    return newCard
+  }, [boardId, setCard])
+
+  const noteTools = useMemo((): NoteToolContext | undefined => noteToolsEnabled
+    ? { notes: cards.filter((c): c is RichTextCard => c.type === 'richtext'), createNote }
+    : undefined,
+    [noteToolsEnabled, cards, createNote]
+  )
+
+  /** Records the tokens used by each response so spend can be tracked */
+  const recordUsage = useCallback((usage: TokenUsage, modelId: ModelId) => {
+    store.addUsageRecord(createUsageRecord(usage, modelId, 'chat', boardId)).catch(err => {
+      console.error('Failed to record usage:', err)
+    })
+  }, [store, boardId])
+
+  // Warn once most of the monthly budget has been spent
+  const monthStart = useMemo(() => getMonthStart(new Date()), [])
+  const { records: monthUsage } = useUsageRecords(store, monthStart)
+  const budgetWarning = useMemo(
+    () => getBudgetWarning(monthUsage.reduce((sum, record) => sum + (record.cost ?? 0), 0), userSettings.monthlyBudget),
+    [monthUsage, userSettings.monthlyBudget]
+  )
 
   // Validate selected model on settings change
   useEffect(() => {
@@ -98,22 +192,65 @@ export function BoardChatSystem({
     setError(null)  // Clear any existing errors
   }, [])
 
-  const { sendMessage, editMessage, stopStreaming, isLoading, error: chatError, streamingContent, isStreaming } = useChat({
+  const { sendMessage, editMessage, regenerateMessage, compareMessage, stopStreaming, isLoading, error: chatError, streamingContent, streamingReasoning, isStreaming, comparisonStreams, summarizeChat, estimateContextUsage } = useChat({
     cards: contextCards,
-    onChatUpdate: (updatedChat) => {
+    onChatUpdate: (turnChat) => {
+      // Titles are written and renamed apart from turns, so the latest one is kept
+      const current = chatRef.current
+      const updatedChat = current?.id === turnChat.id ? { ...turnChat, title: current.title } : turnChat
+
       // useChat now only calls this at turn boundaries (after the user message
       // is added and after the assistant response completes or is aborted),
       // so writing to the persistent store here is at most a couple of writes
       // per turn instead of one per streamed token.
       if (!isEphemeral) {
+        saveFiles(updatedChat).catch(err => console.error('Failed to save attachments:', err))
         storeSetChat(updatedChat)
       }
       setChat(updatedChat)
     },
     userSettings,
-    boardInstructions
+    boardInstructions,
+    retrievePassages,
+    noteTools,
+    onUsage: recordUsage,
+    onChatTitle: (chatId, title) => setGeneratedTitle({ chatId, title }),
+    loadAttachment,
+    contextImages
   })
 
+  // Give a chat the title written for it, unless it was renamed meanwhile. If the
+  // chat is no longer shown, only a saved one can still be titled
+  useEffect(() => {
+    if (!generatedTitle) return
+    setGeneratedTitle(null)
+
+    const { chatId, title } = generatedTitle
+    if (chat?.id === chatId) {
+      if (hasChatTitle(chat)) return
+      const updatedChat = { ...chat, title }
+      if (!isEphemeral) {
+        storeSetChat(updatedChat)
+      }
+      setChat(updatedChat)
+    } else {
+      const savedChat = chats.find(c => c.id === chatId)
+      if (savedChat && !hasChatTitle(savedChat)) {
+        storeSetChat({ ...savedChat, title })
+      }
+    }
+  }, [generatedTitle, chat, chats, isEphemeral, storeSetChat])
+
+  const prompts = useMemo(
+    () => mergePrompts(boardPrompts, userSettings.prompts),
+    [boardPrompts, userSettings.prompts]
+  )
+
+  const contextUsage = useMemo(
+    () => estimateContextUsage(chat, selectedModel),
+    [estimateContextUsage, chat, selectedModel]
+  )
+
   // Add chat selection handler
   const handleChatSelect = useCallback((selectedChat: Chat) => {
     setChat(selectedChat)
@@ -122,8 +259,24 @@ export function BoardChatSystem({
     setIsHistoryMode(false) // Exit history mode when a chat is selected
   }, [])
 
-  const handleSendMessage = useCallback(async (content: string, modelId: ModelId) => {
+  // Open a chat requested from elsewhere, such as global search
+  const navigation = useNoteNavigation()
+  const pendingChat = navigation?.pendingChat
+  useEffect(() => {
+    if (!pendingChat || pendingChat.boardId !== boardId) return
+    const pending = chats.find(c => c.id === pendingChat.chatId)
+    if (pending) {
+      handleChatSelect(pending)
+      navigation?.clearPendingChat?.()
+    }
+  }, [pendingChat, boardId, chats, handleChatSelect])
+
+  const handleSendMessage = useCallback(async (content: string, modelId: ModelId, files?: AttachmentFile[]) => {
     setError(null)
+    if (files?.length) {
+      addFiles(files)
+    }
+    const attachments = files?.map(file => file.attachment)
 
     try {
       // If no chat exists, create one first
@@ -132,7 +285,7 @@ export function BoardChatSystem({
         activeChat = {
           id: uuidv4(),
           boardId,
-          title: 'Chat',
+          title: '',
           messages: [],
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString()
@@ -145,11 +298,16 @@ export function BoardChatSystem({
       }
 
       // Now let useChat handle adding the message and getting the response
-      await sendMessage(activeChat, content, modelId)
+      const modelsToCompare = compareModels.filter(id => isModelAvailable(id, userSettings.llm)).slice(0, MAX_COMPARE_MODELS)
+      if (isCompareMode && modelsToCompare.length >= MIN_COMPARE_MODELS) {
+        await compareMessage(activeChat, content, modelsToCompare, attachments)
+      } else {
+        await sendMessage(activeChat, content, modelId, attachments)
+      }
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to send message'))
     }
-  }, [chat, sendMessage, boardId, storeSetChat, isEphemeral])
+  }, [chat, sendMessage, compareMessage, isCompareMode, compareModels, userSettings.llm, boardId, storeSetChat, isEphemeral, addFiles])
 
   const handleDeleteChat = useCallback(async (chatId: string) => {
     try {
@@ -183,6 +341,30 @@ export function BoardChatSystem({
     }
   }, [chat, editMessage, selectedModel])
 
+  const handleRegenerateMessage = useCallback(async (messageIndex: number, modelId: ModelId) => {
+    if (!chat) return
+    setError(null)
+
+    try {
+      await regenerateMessage(chat, messageIndex, modelId)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to regenerate message'))
+    }
+  }, [chat, regenerateMessage])
+
+  /** Shows another version of a message, saving which branch is shown */
+  const handleSwitchVersion = useCallback((messageIndex: number, versionIndex: number) => {
+    if (!chat) return
+    const messageId = getMessageVersions(chat, messageIndex).ids[versionIndex]
+    if (!messageId) return
+
+    const updatedChat = { ...switchToVersion(chat, messageIndex, messageId), updatedAt: new Date().toISOString() }
+    if (!isEphemeral) {
+      storeSetChat(updatedChat)
+    }
+    setChat(updatedChat)
+  }, [chat, isEphemeral, storeSetChat])
+
   const handleSaveToNotes = useCallback(async (content: string) => {
     try {
       const newCard: RichTextCard = {
@@ -202,134 +384,95 @@ export function BoardChatSystem({
     }
   }, [boardId, setCard])
 
+  /** Applies or discards an edit to a note proposed by the assistant, recording the decision in the chat */
+  const handleResolveEdit = useCallback(async (messageIndex: number, editId: string, accepted: boolean) => {
+    const edit = chat?.messages[messageIndex]?.proposedEdits?.find(e => e.id === editId)
+    if (!chat || !edit || edit.status !== 'pending') return
+
+    try {
+      if (accepted) {
+        const card = cards.find((c): c is RichTextCard => c.id === edit.cardId && c.type === 'richtext')
+        if (!card) {
+          throw new Error('The note no longer exists')
+        }
+        // Changes made after the edit was proposed would be lost, so they are only overwritten if the user agrees
+        if (card.content.markdown !== edit.originalMarkdown
+          && !window.confirm('The note has changed since this edit was proposed. Replace its current content with the proposed edit?')) {
+          return
+        }
+        // The note is rewritten in full, so it can be restored from its history
+        await snapshotCard(store, card)
+        await setCard({
+          ...card,
+          content: { ...card.content, markdown: edit.markdown },
+          updatedAt: new Date().toISOString()
+        })
+      }
+
+      const status: ProposedNoteEdit['status'] = accepted ? 'accepted' : 'rejected'
+      const updatedChat: Chat = {
+        ...chat,
+        messages: chat.messages.map((message, i): ChatMessage => i === messageIndex
+          ? { ...message, proposedEdits: message.proposedEdits!.map(e => e.id === editId ? { ...e, status } : e) }
+          : message
+        ),
+        updatedAt: new Date().toISOString()
+      }
+      if (!isEphemeral) {
+        await storeSetChat(updatedChat)
+      }
+      setChat(updatedChat)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to apply edit'))
+    }
+  }, [chat, cards, store, setCard, isEphemeral, storeSetChat])
+
   /** Save an ephemeral chat to history */
   const handleSaveChat = useCallback(async () => {
     if (chat && isEphemeral) {
+      await saveFiles(chat)
       await storeSetChat(chat)
       setIsEphemeral(false)
     }
-  }, [chat, isEphemeral, storeSetChat])
+  }, [chat, isEphemeral, storeSetChat, saveFiles])
 
-  /** Get a preview title from chat messages */
-  const getChatPreview = (chat: Chat): string => {
-    const firstMessage = chat.messages[0]
-    if (!firstMessage) return 'Empty chat'
-    return firstMessage.content.slice(0, 60) + (firstMessage.content.length > 60 ? '...' : '')
-  }
-
-  function ChatHistoryView() {
-    const [searchQuery, setSearchQuery] = useState('')
-    
-    const sortedChats = [...chats].sort((a, b) => 
-      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    )
-
-    const filteredChats = useMemo(() => {
-      if (!searchQuery.trim()) return sortedChats
-      const query = searchQuery.toLowerCase()
-      return sortedChats.filter(chat => 
-        // Search in messages
-        chat.messages.some(msg => msg.content.toLowerCase().includes(query)) ||
-        // Search in preview
-        getChatPreview(chat).toLowerCase().includes(query)
-      )
-    }, [sortedChats, searchQuery])
-
-    if (sortedChats.length === 0) {
-      return (
-        <div className="flex flex-col items-center justify-center h-full p-8 text-center">
-          <div className="text-gray-500 dark:text-gray-400 mb-4">No chat history yet</div>
-          <button
-            onClick={() => {
-              handleNewChat()
-              setIsHistoryMode(false)
-            }}
-            className="px-4 py-2 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 
-                     dark:bg-blue-600 dark:hover:bg-blue-700 transition-colors"
-          >
-            Start New Chat
-          </button>
-        </div>
-      )
+  /** Renames a chat. Clearing the title lets one be written again after the next answer */
+  const handleRenameChat = useCallback(async (chatId: string, title: string) => {
+    const newTitle = title.trim().slice(0, MAX_CHAT_TITLE_LENGTH)
+    try {
+      if (chat?.id === chatId) {
+        const updatedChat = { ...chat, title: newTitle }
+        if (!isEphemeral) {
+          await storeSetChat(updatedChat)
+        }
+        setChat(updatedChat)
+      } else {
+        const savedChat = chats.find(c => c.id === chatId)
+        if (savedChat) {
+          await storeSetChat({ ...savedChat, title: newTitle })
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to rename chat'))
     }
+  }, [chat, chats, isEphemeral, storeSetChat])
 
-    return (
-      <div className="flex-1 overflow-hidden flex flex-col">
-        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
-          <div className="relative">
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search chats..."
-              className="w-full px-4 py-2 pl-10 text-sm rounded-lg border border-gray-200 
-                       dark:border-gray-700 bg-white dark:bg-gray-800 
-                       text-gray-900 dark:text-gray-100
-                       placeholder-gray-500 dark:placeholder-gray-400
-                       focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
-                       focus:border-transparent"
-            />
-            <svg 
-              className="absolute left-3 top-2.5 h-4 w-4 text-gray-400 dark:text-gray-500" 
-              fill="none" 
-              stroke="currentColor" 
-              viewBox="0 0 24 24"
-            >
-              <path 
-                strokeLinecap="round" 
-                strokeLinejoin="round" 
-                strokeWidth={2} 
-                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" 
-              />
-            </svg>
-          </div>
-        </div>
+  /** Summarizes the chat into a new note with the selected model, then opens the note */
+  const handleSummarizeChat = useCallback(async () => {
+    if (!chat || chat.messages.length === 0) return
+    setError(null)
+    setIsSummarizing(true)
 
-        <div className="flex-1 overflow-y-auto p-4">
-          <div className="grid gap-3">
-            {filteredChats.length === 0 ? (
-              <div className="text-center text-gray-500 dark:text-gray-400 py-8">
-                No chats match your search
-              </div>
-            ) : (
-              filteredChats.map((historyChat) => (
-                <div
-                  key={historyChat.id}
-                  className="group flex items-start gap-3 p-3 rounded-lg cursor-pointer
-                           bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700
-                           hover:border-blue-500 dark:hover:border-blue-500 transition-colors"
-                  onClick={() => handleChatSelect(historyChat)}
-                >
-                  <div className="flex-1 min-w-0">
-                    <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
-                      {new Date(historyChat.updatedAt).toLocaleDateString()} {new Date(historyChat.updatedAt).toLocaleTimeString()}
-                    </div>
-                    <div className="text-sm text-gray-900 dark:text-gray-100 break-words">
-                      {getChatPreview(historyChat)}
-                    </div>
-                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                      {historyChat.messages.length} message{historyChat.messages.length === 1 ? '' : 's'}
-                    </div>
-                  </div>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      handleDeleteChat(historyChat.id)
-                    }}
-                    className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 
-                             dark:text-gray-500 dark:hover:text-red-400 transition-opacity"
-                    title="Delete chat"
-                  >
-                    <FaTrash size={12} />
-                  </button>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
-      </div>
-    )
-  }
+    try {
+      const markdown = await summarizeChat(chat, selectedModel)
+      const note = await createNote(hasChatTitle(chat) ? chat.title : 'Chat summary', markdown)
+      navigation?.openCard(note)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to summarize chat'))
+    } finally {
+      setIsSummarizing(false)
+    }
+  }, [chat, selectedModel, summarizeChat, createNote, navigation])
 
   return (
     <>
@@ -350,19 +493,42 @@ export function BoardChatSystem({
           onContextModeChange={setContextMode}
           selectedCard={selectedCard}
           cards={cards}
+          imageCards={imageCards}
           pickedCardIds={pickedCardIds}
           onPickedCardIdsChange={setPickedCardIds}
+          contextTag={contextTag}
+          onContextTagChange={setContextTag}
           isEphemeral={isEphemeral}
           onSaveChat={handleSaveChat}
+          onSummarizeChat={handleSummarizeChat}
+          isSummarizing={isSummarizing}
+          noteToolsEnabled={noteToolsEnabled}
+          onNoteToolsEnabledChange={setNoteToolsEnabled}
+          isCompareMode={isCompareMode}
+          onCompareModeChange={setIsCompareMode}
+          compareModels={compareModels}
+          onCompareModelsChange={setCompareModels}
         />
         {isHistoryMode ? (
-          <ChatHistoryView />
+          <ChatHistoryView
+            chats={chats}
+            onChatSelect={handleChatSelect}
+            onChatDelete={handleDeleteChat}
+            onChatRename={handleRenameChat}
+            onNewChat={() => {
+              handleNewChat()
+              setIsHistoryMode(false)
+            }}
+          />
         ) : (
           <ChatInterface
             chat={chat}
             onSendMessage={handleSendMessage}
             onEditMessage={handleEditMessage}
+            onRegenerateMessage={handleRegenerateMessage}
+            onSwitchVersion={handleSwitchVersion}
             onSaveToNotes={handleSaveToNotes}
+            onResolveEdit={handleResolveEdit}
             onStopStreaming={stopStreaming}
             className="flex-1"
             isLoading={isLoading}
@@ -371,8 +537,18 @@ export function BoardChatSystem({
             userSettings={userSettings}
             contextMode={contextMode}
             contextCards={contextCards}
+            contextTag={contextTag}
+            relevantPendingCount={relevantContext.pendingCount}
+            relevantError={relevantContext.error}
+            contextUsage={contextUsage}
+            budgetWarning={budgetWarning}
             streamingContent={streamingContent}
+            streamingReasoning={streamingReasoning}
             isStreaming={isStreaming}
+            comparisonStreams={comparisonStreams}
+            prompts={prompts}
+            selectedCard={selectedCard}
+            loadAttachment={loadAttachment}
           />
         )}
       </div>
@@ -416,14 +592,36 @@ interface ChatHeaderProps {
   selectedCard: Card | null
   /** All cards on the board */
   cards: Card[]
+  /** Image cards on the board, which can be picked for context */
+  imageCards: ImageCard[]
   /** IDs of cards manually picked for context */
   pickedCardIds: string[]
   /** Callback when picked card IDs change */
   onPickedCardIdsChange: (ids: string[]) => void
+  /** Tag whose notes are used as context in 'tag' mode */
+  contextTag: string | null
+  /** Callback when the context tag changes */
+  onContextTagChange: (tag: string | null) => void
   /** Whether the current chat is ephemeral (not saved to history) */
   isEphemeral: boolean
   /** Callback to save an ephemeral chat to history */
   onSaveChat: () => void
+  /** Callback to summarize the current chat into a note */
+  onSummarizeChat: () => void
+  /** Whether the current chat is being summarized */
+  isSummarizing: boolean
+  /** Whether the assistant can use tools to search, create and edit notes */
+  noteToolsEnabled: boolean
+  /** Callback when note tools are turned on or off */
+  onNoteToolsEnabledChange: (enabled: boolean) => void
+  /** Whether messages are sent to several models to compare their answers */
+  isCompareMode: boolean
+  /** Callback when compare mode is turned on or off */
+  onCompareModeChange: (isCompareMode: boolean) => void
+  /** IDs of the models to compare */
+  compareModels: ModelId[]
+  /** Callback when the models to compare change */
+  onCompareModelsChange: (modelIds: ModelId[]) => void
 }
 
 function ChatHeader({ 
@@ -442,10 +640,21 @@ function ChatHeader({
   onContextModeChange,
   selectedCard,
   cards,
+  imageCards,
   pickedCardIds,
   onPickedCardIdsChange,
+  contextTag,
+  onContextTagChange,
   isEphemeral,
-  onSaveChat
+  onSaveChat,
+  onSummarizeChat,
+  isSummarizing,
+  noteToolsEnabled,
+  onNoteToolsEnabledChange,
+  isCompareMode,
+  onCompareModeChange,
+  compareModels,
+  onCompareModelsChange
 }: ChatHeaderProps) {
   return (
     <div className="h-8 px-2 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
@@ -480,12 +689,37 @@ function ChatHeader({
 
         <PickedNotesPopover
           cards={cards}
+          imageCards={imageCards}
           pickedCardIds={pickedCardIds}
           onPickedCardIdsChange={onPickedCardIdsChange}
           isActive={contextMode === 'picked'}
           onActivate={() => onContextModeChange('picked')}
         />
 
+        <TagContextPopover
+          cards={cards}
+          contextTag={contextTag}
+          onContextTagChange={onContextTagChange}
+          isActive={contextMode === 'tag'}
+          onActivate={() => onContextModeChange('tag')}
+        />
+
+        <button
+          onClick={() => onContextModeChange('relevant')}
+          className={`p-1 rounded transition-colors text-xs
+            ${contextMode === 'relevant'
+              ? 'bg-blue-50 text-blue-500 dark:bg-blue-900/50 dark:text-blue-400' 
+              : 'text-gray-400 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+          title="Use the most relevant passages from all notes as context"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                  d="M9 12h3m-3 4h2m6 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V11" />
+            <circle cx="17" cy="16" r="2.5" strokeWidth={2} />
+            <path strokeLinecap="round" strokeWidth={2} d="M19 18l2 2" />
+          </svg>
+        </button>
+
         <button
           onClick={() => onContextModeChange('all')}
           className={`p-1 rounded transition-colors text-xs
@@ -527,6 +761,46 @@ function ChatHeader({
             </button>
           </div>
         )}
+        <button
+          onClick={onSummarizeChat}
+          disabled={!chat || chat.messages.length === 0 || isSummarizing}
+          className={`p-1 rounded transition-colors ${
+            isSummarizing
+              ? 'text-blue-500 dark:text-blue-400 animate-pulse'
+              : chat && chat.messages.length > 0
+                ? 'text-gray-400 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800 hover:text-blue-500 dark:hover:text-blue-400'
+                : 'text-gray-300 dark:text-gray-600 cursor-not-allowed'
+          }`}
+          title={isSummarizing ? 'Summarizing...' : 'Summarize this chat into a note'}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                  d="M4 6h16M4 10h16M4 14h10M4 18h6m9-3v6m-3-3h6" />
+          </svg>
+        </button>
+        <button
+          onClick={() => onNoteToolsEnabledChange(!noteToolsEnabled)}
+          className={`p-1 rounded transition-colors ${
+            noteToolsEnabled
+              ? 'bg-blue-50 text-blue-500 dark:bg-blue-900/50 dark:text-blue-400'
+              : 'text-gray-400 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800'
+          }`}
+          title={noteToolsEnabled
+            ? 'The assistant can search, create and propose edits to notes. Click to turn off'
+            : 'Let the assistant search, create and propose edits to notes'}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                  d="M14.7 6.3a1 1 0 000 1.4l1.6 1.6a1 1 0 001.4 0l3.77-3.77a6 6 0 01-7.94 7.94l-6.91 6.91a2.12 2.12 0 01-3-3l6.91-6.91a6 6 0 017.94-7.94l-3.76 3.76z" />
+          </svg>
+        </button>
+        <CompareModelSelector
+          value={compareModels}
+          onChange={onCompareModelsChange}
+          isCompareMode={isCompareMode}
+          onCompareModeChange={onCompareModeChange}
+          store={store}
+        />
         <ModelSelector
           value={selectedModel}
           onChange={onModelChange}
@@ -562,9 +836,186 @@ function ChatHeader({
   )
 }
 
+interface ChatHistoryViewProps {
+  /** Saved chats of the board */
+  chats: Chat[]
+  /** Callback when a chat is selected */
+  onChatSelect: (chat: Chat) => void
+  /** Callback when a chat is deleted */
+  onChatDelete: (chatId: string) => void
+  /** Callback when a chat is renamed */
+  onChatRename: (chatId: string, title: string) => void
+  /** Callback to start a new chat */
+  onNewChat: () => void
+}
+
+/** Saved chats of the board, newest first, searchable by title and content */
+function ChatHistoryView({ chats, onChatSelect, onChatDelete, onChatRename, onNewChat }: ChatHistoryViewProps) {
+  const [searchQuery, setSearchQuery] = useState('')
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = useState('')
+
+  const sortedChats = useMemo(
+    () => [...chats].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()),
+    [chats]
+  )
+
+  const filteredChats = useMemo(
+    () => sortedChats.filter(chat => chatMatchesQuery(chat, searchQuery)),
+    [sortedChats, searchQuery]
+  )
+
+  /** Starts renaming a chat */
+  const startRename = (chat: Chat) => {
+    setRenamingChatId(chat.id)
+    setDraftTitle(hasChatTitle(chat) ? chat.title : '')
+  }
+
+  /** Saves the title being edited, if it changed */
+  const finishRename = (chat: Chat) => {
+    setRenamingChatId(null)
+    if (draftTitle.trim() !== (hasChatTitle(chat) ? chat.title : '')) {
+      onChatRename(chat.id, draftTitle)
+    }
+  }
+
+  if (sortedChats.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-8 text-center">
+        <div className="text-gray-500 dark:text-gray-400 mb-4">No chat history yet</div>
+        <button
+          onClick={onNewChat}
+          className="px-4 py-2 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 
+                   dark:bg-blue-600 dark:hover:bg-blue-700 transition-colors"
+        >
+          Start New Chat
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 overflow-hidden flex flex-col">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="relative">
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search chats by title or content..."
+            className="w-full px-4 py-2 pl-10 text-sm rounded-lg border border-gray-200 
+                     dark:border-gray-700 bg-white dark:bg-gray-800 
+                     text-gray-900 dark:text-gray-100
+                     placeholder-gray-500 dark:placeholder-gray-400
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                     focus:border-transparent"
+          />
+          <svg 
+            className="absolute left-3 top-2.5 h-4 w-4 text-gray-400 dark:text-gray-500" 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path 
+              strokeLinecap="round" 
+              strokeLinejoin="round" 
+              strokeWidth={2} 
+              d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" 
+            />
+          </svg>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        <div className="grid gap-3">
+          {filteredChats.length === 0 ? (
+            <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+              No chats match your search
+            </div>
+          ) : (
+            filteredChats.map((historyChat) => (
+              <div
+                key={historyChat.id}
+                className="group flex items-start gap-3 p-3 rounded-lg cursor-pointer
+                         bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700
+                         hover:border-blue-500 dark:hover:border-blue-500 transition-colors"
+                onClick={() => renamingChatId !== historyChat.id && onChatSelect(historyChat)}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    {new Date(historyChat.updatedAt).toLocaleDateString()} {new Date(historyChat.updatedAt).toLocaleTimeString()}
+                  </div>
+                  {renamingChatId === historyChat.id ? (
+                    <input
+                      type="text"
+                      value={draftTitle}
+                      autoFocus
+                      maxLength={MAX_CHAT_TITLE_LENGTH}
+                      placeholder={getChatPreview(historyChat)}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onClick={(e) => e.stopPropagation()}
+                      onBlur={() => finishRename(historyChat)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          finishRename(historyChat)
+                        } else if (e.key === 'Escape') {
+                          setRenamingChatId(null)
+                        }
+                      }}
+                      className="w-full px-2 py-1 text-sm rounded border border-blue-500 dark:border-blue-400
+                               bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+                               placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none"
+                    />
+                  ) : (
+                    <div className={`text-sm text-gray-900 dark:text-gray-100 break-words ${hasChatTitle(historyChat) ? 'font-medium' : ''}`}>
+                      {getChatDisplayTitle(historyChat)}
+                    </div>
+                  )}
+                  {hasChatTitle(historyChat) && (
+                    <div className="text-xs text-gray-600 dark:text-gray-300 mt-0.5 truncate">
+                      {getChatPreview(historyChat)}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {historyChat.messages.length} message{historyChat.messages.length === 1 ? '' : 's'}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      startRename(historyChat)
+                    }}
+                    className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                    title="Rename chat"
+                  >
+                    <FaPen size={11} />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onChatDelete(historyChat.id)
+                    }}
+                    className="p-1 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400"
+                    title="Delete chat"
+                  >
+                    <FaTrash size={12} />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
 interface PickedNotesPopoverProps {
   /** All cards on the board */
   cards: Card[]
+  /** Image cards on the board, which are sent to models that accept images */
+  imageCards: ImageCard[]
   /** IDs of cards currently picked for context */
   pickedCardIds: string[]
   /** Callback when picked card IDs change */
@@ -578,6 +1029,7 @@ interface PickedNotesPopoverProps {
 /** Popover button that lets the user pick specific notes to include in chat context */
 function PickedNotesPopover({
   cards,
+  imageCards,
   pickedCardIds,
   onPickedCardIdsChange,
   isActive,
@@ -589,6 +1041,11 @@ function PickedNotesPopover({
       .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()),
     [cards]
   )
+  const sortedImageCards = useMemo(
+    () => [...imageCards].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()),
+    [imageCards]
+  )
+  const pickableCards: Card[] = [...richtextCards, ...sortedImageCards]
 
   const toggleCard = (cardId: string) => {
     if (!isActive) onActivate()
@@ -599,11 +1056,11 @@ function PickedNotesPopover({
     )
   }
 
-  const allSelected = richtextCards.length > 0 && richtextCards.every(c => pickedCardIds.includes(c.id))
+  const allSelected = pickableCards.length > 0 && pickableCards.every(c => pickedCardIds.includes(c.id))
 
   const toggleAll = () => {
     if (!isActive) onActivate()
-    onPickedCardIdsChange(allSelected ? [] : richtextCards.map(c => c.id))
+    onPickedCardIdsChange(allSelected ? [] : pickableCards.map(c => c.id))
   }
 
   return (
@@ -639,12 +1096,12 @@ function PickedNotesPopover({
           </button>
         </div>
         <div className="max-h-72 overflow-y-auto p-1">
-          {richtextCards.length === 0 ? (
+          {pickableCards.length === 0 ? (
             <div className="px-2 py-3 text-xs text-gray-400 dark:text-gray-500 text-center">
               No notes on this board
             </div>
           ) : (
-            richtextCards.map(card => {
+            pickableCards.map(card => {
               const checked = pickedCardIds.includes(card.id)
               return (
                 <label
@@ -667,6 +1124,9 @@ function PickedNotesPopover({
                   }`}>
                     {getCardTitle(card, 40)}
                   </span>
+                  {card.type === 'image' && (
+                    <span className="ml-auto shrink-0 text-[10px] text-gray-400 dark:text-gray-500">Image</span>
+                  )}
                 </label>
               )
             })
@@ -676,3 +1136,85 @@ function PickedNotesPopover({
     </Popover>
   )
 }
+
+interface TagContextPopoverProps {
+  /** All cards on the board */
+  cards: Card[]
+  /** Tag whose notes are used as context */
+  contextTag: string | null
+  /** Callback when the context tag changes */
+  onContextTagChange: (tag: string | null) => void
+  /** Whether this context mode is currently active */
+  isActive: boolean
+  /** Callback to activate this context mode */
+  onActivate: () => void
+}
+
+/** Popover button that lets the user use all notes with a tag as chat context */
+function TagContextPopover({
+  cards,
+  contextTag,
+  onContextTagChange,
+  isActive,
+  onActivate
+}: TagContextPopoverProps) {
+  const tags = useMemo(() => getAllTags(cards), [cards])
+
+  return (
+    <Popover className="relative flex items-center">
+      <PopoverButton
+        className={`p-1 rounded transition-colors text-xs
+          ${isActive
+            ? 'bg-blue-50 text-blue-500 dark:bg-blue-900/50 dark:text-blue-400'
+            : 'text-gray-400 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+        title={contextTag ? `Use notes tagged #${contextTag} as context` : 'Use notes with a tag as context'}
+      >
+        <svg className="w-4 h-4 block" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+        </svg>
+      </PopoverButton>
+
+      <PopoverPanel
+        anchor="bottom start"
+        className="z-50 mt-1 w-56 rounded-lg border border-gray-200 dark:border-gray-700 
+                   bg-white dark:bg-gray-800 shadow-lg"
+      >
+        {({ close }) => (
+          <>
+            <div className="p-2 border-b border-gray-100 dark:border-gray-700">
+              <span className="text-xs font-medium text-gray-500 dark:text-gray-400">Notes with tag</span>
+            </div>
+            <div className="max-h-72 overflow-y-auto p-1">
+              {tags.length === 0 ? (
+                <div className="px-2 py-3 text-xs text-gray-400 dark:text-gray-500 text-center">
+                  No tagged notes on this board
+                </div>
+              ) : (
+                tags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => {
+                      onContextTagChange(tag)
+                      if (!isActive) onActivate()
+                      close()
+                    }}
+                    className={`w-full flex items-center justify-between px-2 py-1.5 rounded text-xs text-left transition-colors
+                      ${isActive && tag === contextTag
+                        ? 'bg-blue-50 text-blue-600 dark:bg-blue-900/50 dark:text-blue-400'
+                        : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                  >
+                    <span className="truncate">#{tag}</span>
+                    <span className="text-gray-400 dark:text-gray-500">
+                      {cards.filter(c => cardMatchesTagFilter(c, tag)).length}
+                    </span>
+                  </button>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </PopoverPanel>
+    </Popover>
+  )
+}
@@ -1,12 +1,14 @@
 import React, { useEffect } from 'react'
 import type { Store } from '../Store'
 import { useBoard, useCards } from '../Store'
-import type { RichTextCard, ViewMode } from '../types'
+import type { Card, ImageCard, RichTextCard, ViewMode } from '../types'
 import { v4 as uuidv4 } from 'uuid'
 import { usePersist } from '../hooks/usePersist'
+import { recordCardRevision } from '../modules/revisions'
 import { useIsMobile } from '../hooks/useIsMobile'
 import { DesktopBoardView } from './board/DesktopBoardView'
 import { MobileBoardView } from './board/MobileBoardView'
+import { NoteNavigationProvider, useNoteNavigation } from './notes/NoteNavigationContext'
 
 /**
  * Displays a board with a sidebar for notes and a chat system.
@@ -38,6 +40,7 @@ export function BoardView(props: {
     (stored) => cards.length > 50 ? false : stored
   )
   const isMobile = useIsMobile()
+  const navigation = useNoteNavigation()
 
   // Store selected card in local storage per board
   const [selectedCardId, setSelectedCardId] = usePersist<string | null>(`board_${boardId}_selectedCard`, null)
@@ -49,6 +52,14 @@ export function BoardView(props: {
     }
   }, [isMobile, viewMode])
 
+  // Show the chat panel when a chat on this board is opened from elsewhere
+  const pendingChatBoardId = navigation?.pendingChat?.boardId
+  useEffect(() => {
+    if (pendingChatBoardId === boardId && viewMode === 'notes') {
+      setViewMode(isMobile ? 'chat' : 'split')
+    }
+  }, [pendingChatBoardId, boardId, viewMode, isMobile])
+
   // Select first card if none selected
   useEffect(() => {
     if (!selectedCardId && cards.length > 0) {
@@ -109,6 +120,8 @@ export function BoardView(props: {
         },
         updatedAt: new Date().toISOString()
       }
+      recordCardRevision(store, card, updatedCard)
+        .catch(err => console.error('Failed to record card revision:', err))
       await setCard(updatedCard)
     }
   }
@@ -121,12 +134,25 @@ export function BoardView(props: {
         title,
         updatedAt: new Date().toISOString()
       }
+      recordCardRevision(store, card, updatedCard)
+        .catch(err => console.error('Failed to record card revision:', err))
       await setCard(updatedCard)
     }
   }
 
+  const handleUpdateCardTags = async (cardId: string, tags: string[]) => {
+    const card = cards.find(c => c.id === cardId)
+    if (card) {
+      await setCard({
+        ...card,
+        tags,
+        updatedAt: new Date().toISOString()
+      })
+    }
+  }
+
   const handleDeleteCard = async (cardId: string) => {
-    if (!window.confirm('Are you sure you want to delete this note?')) return
+    if (!window.confirm('Move this note to the trash?')) return
 
     await removeCard(cardId)
     if (selectedCardId === cardId) {
@@ -135,6 +161,15 @@ export function BoardView(props: {
     }
   }
 
+  /** Opens a linked card, delegating cards on other boards to the tabs view */
+  const handleOpenCard = (card: Card) => {
+    if (card.boardId === boardId) {
+      handleCardSelect(card.id)
+    } else {
+      navigation?.openCard(card)
+    }
+  }
+
   const selectedCard = cards.find(c => c.id === selectedCardId) as RichTextCard | null
   const richTextCards = cards.filter((c): c is RichTextCard => c.type === 'richtext')
 
@@ -142,6 +177,7 @@ export function BoardView(props: {
     store,
     boardId,
     cards: richTextCards,
+    imageCards: cards.filter((c): c is ImageCard => c.type === 'image'),
     selectedCard,
     viewMode,
     onViewModeChange: setViewMode,
@@ -151,14 +187,25 @@ export function BoardView(props: {
     onCardSelect: handleCardSelect,
     onUpdateCard: handleUpdateCard,
     onUpdateCardTitle: handleUpdateCardTitle,
+    onUpdateCardTags: handleUpdateCardTags,
     onDeleteCard: handleDeleteCard,
     setCard,
-    boardInstructions: board.customInstructions
+    boardInstructions: board.customInstructions,
+    boardPrompts: board.prompts
   }
 
-  return isMobile ? (
-    <MobileBoardView {...sharedProps} />
-  ) : (
-    <DesktopBoardView {...sharedProps} />
+  return (
+    <NoteNavigationProvider
+      cards={navigation?.cards ?? cards}
+      openCard={handleOpenCard}
+      pendingChat={navigation?.pendingChat}
+      clearPendingChat={navigation?.clearPendingChat}
+    >
+      {isMobile ? (
+        <MobileBoardView {...sharedProps} />
+      ) : (
+        <DesktopBoardView {...sharedProps} />
+      )}
+    </NoteNavigationProvider>
   )
 } 
\ No newline at end of file
@@ -1,33 +1,68 @@
-import React, { useState, useRef, useEffect } from 'react'
-import type { Card, Chat, ChatMessage, RichTextCard } from '../types'
-import type { ModelId } from '../api/llm'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
+import type { Card, Chat, ChatAttachment, ChatMessage, ChatMessageSource, ChatToolActivity, ProposedNoteEdit, RichTextCard, TokenUsage } from '../types'
+import { getModelById, type ModelId } from '../api/llm'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
-import { UserSettings } from '../types/settings'
+import type { PromptTemplate, UserSettings } from '../types/settings'
 import { getCardTitle } from '../modules/cards'
 import { VoiceInput } from './voice/VoiceInput'
+import { useNoteNavigation } from './notes/NoteNavigationContext'
+import type { ContextUsage } from '../modules/contextBudget'
+import { formatTokenCount } from '../modules/tokens'
+import { diffLines } from '../modules/diff'
+import { formatCost } from '../modules/usage'
+import { getComparisonAnswers, getMessageVersions } from '../modules/chatTree'
+import type { ComparisonStream } from '../hooks/useChat'
+import { fillTemplate, findPrompts, getCommandQuery, getTemplateVariables, parseSlashCommand, type PromptValues } from '../modules/prompts'
+import { ATTACHMENT_TYPES, formatFileSize, getUnsupportedAttachments, isImageAttachment, readAttachmentFile, type AttachmentFile } from '../modules/attachments'
 
 interface ChatInterfaceProps {
   chat: Chat | null
-  onSendMessage: (content: string, modelConfig: ModelId) => Promise<void>
+  onSendMessage: (content: string, modelConfig: ModelId, files?: AttachmentFile[]) => Promise<void>
   onEditMessage: (messageIndex: number, newContent: string) => Promise<void>
+  /** Writes a new version of an answer with the given model, keeping the earlier one */
+  onRegenerateMessage?: (messageIndex: number, modelId: ModelId) => Promise<void>
+  /** Shows another version of a message, given its position among the versions */
+  onSwitchVersion?: (messageIndex: number, versionIndex: number) => void
   onSaveToNotes?: (content: string) => Promise<void>
+  /** Accepts or rejects an edit to a note proposed in a message */
+  onResolveEdit?: (messageIndex: number, editId: string, accepted: boolean) => Promise<void>
   onStopStreaming?: () => void
   className?: string
   isLoading?: boolean
   selectedModel: ModelId
   error?: Error | null
   userSettings: UserSettings
-  contextMode: 'quick' | 'selected' | 'picked' | 'all'
+  contextMode: 'quick' | 'selected' | 'picked' | 'all' | 'tag' | 'relevant'
   contextCards: Card[]
+  /** The tag whose notes are used as context in 'tag' mode */
+  contextTag?: string | null
+  /** Number of notes still to be indexed for 'relevant' mode */
+  relevantPendingCount?: number
+  /** Error from indexing notes for 'relevant' mode */
+  relevantError?: Error | null
+  /** Estimated share of the model's context window the next message would use */
+  contextUsage?: ContextUsage
+  /** Warning shown above the input when the monthly budget has been spent */
+  budgetWarning?: string | null
   /**
    * The in-flight streamed assistant content. While {@link isStreaming} is true
    * this is rendered as a separate plain-text bubble after the persisted
    * messages so that the chat list itself does not re-render per token.
    */
   streamingContent?: string
+  /** The in-flight streamed reasoning of the assistant, shown above its answer */
+  streamingReasoning?: string
   /** Whether the assistant is currently streaming a response */
   isStreaming?: boolean
+  /** The answers of a comparison being written, shown side by side. Null when none is */
+  comparisonStreams?: ComparisonStream[] | null
+  /** Prompts that can be sent by typing their slash command */
+  prompts?: PromptTemplate[]
+  /** The note selected on the board, for prompts that use {{selected_note}} */
+  selectedCard?: Card | null
+  /** Loads the content of a file attached to a message, to show it */
+  loadAttachment?: (attachment: ChatAttachment) => Promise<string | null>
 }
 
 /**
@@ -41,7 +76,10 @@ export function ChatInterface({
   chat,
   onSendMessage,
   onEditMessage,
+  onRegenerateMessage,
+  onSwitchVersion,
   onSaveToNotes,
+  onResolveEdit,
   onStopStreaming,
   className = '',
   isLoading = false,
@@ -50,10 +88,21 @@ export function ChatInterface({
   userSettings,
   contextMode,
   contextCards,
+  contextTag,
+  relevantPendingCount = 0,
+  relevantError,
+  contextUsage,
+  budgetWarning,
   streamingContent = '',
-  isStreaming = false
+  streamingReasoning = '',
+  isStreaming = false,
+  comparisonStreams = null,
+  prompts = [],
+  selectedCard = null,
+  loadAttachment
 }: ChatInterfaceProps) {
   const [message, setMessage] = useState('')
+  const [files, setFiles] = useState<AttachmentFile[]>([])
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const messagesContainerRef = useRef<HTMLDivElement>(null)
   const [showScrollButton, setShowScrollButton] = useState(false)
@@ -85,27 +134,72 @@ export function ChatInterface({
   const handleSubmit = async (e: React.FormEvent) => {
     e?.preventDefault()
     const messageToSend = message.trim()
-    if (!messageToSend || isLoading) return
+    if ((!messageToSend && files.length === 0) || isLoading) return
 
+    // A saved prompt is sent in place of its slash command
+    let content = messageToSend
+    const slashCommand = parseSlashCommand(messageToSend)
+    const prompt = slashCommand && prompts.find(p => p.command === slashCommand.command)
+    if (slashCommand && prompt) {
+      try {
+        content = await expandPrompt(prompt, slashCommand.input, selectedCard)
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'Failed to fill in the prompt')
+        return
+      }
+    }
+
+    const filesToSend = files
     try {
       setMessage('')
-      await onSendMessage(messageToSend, selectedModel)
+      setFiles([])
+      await onSendMessage(content, selectedModel, filesToSend.length > 0 ? filesToSend : undefined)
     } catch (err) {
       // Error will be handled by parent component
       console.error('Failed to send message:', err)
       // Put the message back in the input if it failed
       setMessage(messageToSend)
+      setFiles(filesToSend)
+    }
+  }
+
+  /** Reads pasted, dropped or chosen files to send with the next message */
+  const handleAddFiles = async (added: File[]) => {
+    const read: AttachmentFile[] = []
+    const errors: string[] = []
+    for (const file of added) {
+      try {
+        read.push(await readAttachmentFile(file))
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : `Failed to read ${file.name}`)
+      }
+    }
+    if (read.length > 0) {
+      setFiles(current => [...current, ...read])
+    }
+    if (errors.length > 0) {
+      alert(errors.join('\n'))
     }
   }
 
+  // Files the selected model cannot read are still sent, with a note to the model in their place
+  const unsupportedFileIds = useMemo(() => {
+    const model = getModelById(selectedModel, userSettings.llm)
+    const attachments = files.map(file => file.attachment)
+    return new Set((model ? getUnsupportedAttachments(model, attachments) : []).map(attachment => attachment.id))
+  }, [files, selectedModel, userSettings.llm])
+
   function ContextIndicator() {
-    if (contextMode === 'quick') return null
+    const hasMessages = !!chat && chat.messages.length > 0
+    if (contextMode === 'quick' && !hasMessages) return null
 
     return (
       <div className="px-4 py-1.5 text-[10px] text-gray-400 dark:text-gray-500 border-b border-gray-100 dark:border-gray-800 flex items-center gap-1">
-        <svg className="w-2.5 h-2.5 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-        </svg>
+        {contextMode !== 'quick' && (
+          <svg className="w-2.5 h-2.5 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        )}
 
         {contextMode === 'selected' && contextCards[0] && (
           <span className="truncate">{getCardTitle(contextCards[0])}</span>
@@ -118,6 +212,24 @@ export function ChatInterface({
         {contextMode === 'all' && (
           <span>{contextCards.length} note{contextCards.length === 1 ? '' : 's'} as context</span>
         )}
+        {contextMode === 'tag' && (
+          <span className="truncate">
+            {contextTag
+              ? `${contextCards.length} note${contextCards.length === 1 ? '' : 's'} tagged #${contextTag}`
+              : 'No tag chosen'}
+          </span>
+        )}
+        {contextMode === 'relevant' && (
+          <span className="truncate">
+            Most relevant passages from {contextCards.length} note{contextCards.length === 1 ? '' : 's'}
+            {relevantError
+              ? <span className="text-red-500 dark:text-red-400"> · indexing failed: {relevantError.message}</span>
+              : relevantPendingCount > 0 && ` · indexing ${relevantPendingCount} note${relevantPendingCount === 1 ? '' : 's'}...`}
+          </span>
+        )}
+        {contextUsage && (
+          <ContextUsageMeter usage={contextUsage} />
+        )}
       </div>
     )
   }
@@ -138,17 +250,58 @@ export function ChatInterface({
                     dark:[::-webkit-scrollbar-thumb]:bg-slate-500/20
                     dark:hover:[::-webkit-scrollbar-thumb]:bg-slate-500/30
                     [::-webkit-scrollbar-track]:bg-transparent">
-        {chat?.messages.map((msg, i) => (
-          <ChatMessage
-            key={`${msg.createdAt ?? ''}-${msg.role}-${i}`}
-            message={msg}
-            index={i}
-            onEdit={onEditMessage}
-            onSaveToNotes={!msg.role || msg.role === 'assistant' ? onSaveToNotes : undefined}
-          />
-        ))}
+        {chat?.messages.map((msg, i) => {
+          const versions = getMessageVersions(chat, i)
+          const comparisonAnswers = getComparisonAnswers(chat, i)
+          if (comparisonAnswers.length > 1) {
+            return (
+              <ComparisonMessage
+                key={msg.id}
+                answers={comparisonAnswers}
+                shownId={msg.id!}
+                onContinueWith={onSwitchVersion && !isLoading
+                  ? (messageId) => onSwitchVersion(i, versions.ids.indexOf(messageId))
+                  : undefined}
+              />
+            )
+          }
+          return (
+            <ChatMessage
+              key={msg.id ?? `${msg.createdAt ?? ''}-${msg.role}-${i}`}
+              message={msg}
+              index={i}
+              onEdit={onEditMessage}
+              onSaveToNotes={!msg.role || msg.role === 'assistant' ? onSaveToNotes : undefined}
+              onResolveEdit={onResolveEdit}
+              versionIndex={versions.index}
+              versionCount={versions.ids.length}
+              onSwitchVersion={isLoading ? undefined : onSwitchVersion}
+              onRegenerate={msg.role === 'assistant' && !isLoading ? onRegenerateMessage : undefined}
+              selectedModel={selectedModel}
+              loadAttachment={loadAttachment}
+            />
+          )
+        })}
         {isStreaming && (
-          <StreamingChatMessage content={streamingContent} />
+          <StreamingChatMessage content={streamingContent} reasoning={streamingReasoning} />
+        )}
+        {comparisonStreams && (
+          <ComparisonColumns>
+            {comparisonStreams.map(stream => (
+              <div key={stream.modelId} className="min-w-0">
+                <ComparisonColumnHeader modelId={stream.modelId} />
+                {stream.error ? (
+                  <div className="text-sm text-red-600 dark:text-red-400">{stream.error}</div>
+                ) : stream.done ? (
+                  <div className="prose dark:prose-invert max-w-none text-sm text-gray-900 dark:text-gray-100">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{stream.content}</ReactMarkdown>
+                  </div>
+                ) : (
+                  <StreamingChatMessage content={stream.content} reasoning={stream.reasoning} />
+                )}
+              </div>
+            ))}
+          </ComparisonColumns>
         )}
         {error && (
           <div className="flex flex-col items-center gap-2 mb-4">
@@ -158,6 +311,12 @@ export function ChatInterface({
           </div>
         )}
         
+        {budgetWarning && (
+          <div className="mb-2 rounded-md bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 px-3 py-2 text-xs">
+            {budgetWarning}
+          </div>
+        )}
+
         {/* Inline chat input */}
         <div className="mt-2">
           <ChatInput
@@ -167,6 +326,11 @@ export function ChatInterface({
             onStopStreaming={onStopStreaming}
             isLoading={isLoading}
             userSettings={userSettings}
+            prompts={prompts}
+            files={files}
+            unsupportedFileIds={unsupportedFileIds}
+            onAddFiles={handleAddFiles}
+            onRemoveFile={(id) => setFiles(current => current.filter(file => file.attachment.id !== id))}
           />
         </div>
         
@@ -224,6 +388,465 @@ function PickedCardsTitleList({ cards }: { cards: Card[] }) {
   return <>{titles.join(', ')}</>
 }
 
+/** Usage above this share of the context window is highlighted */
+const CONTEXT_USAGE_WARNING = 0.8
+
+/** Shows how much of the model's context window the next message would use, and what was left out to fit */
+function ContextUsageMeter({ usage }: { usage: ContextUsage }) {
+  const share = usage.contextWindow > 0 ? Math.min(1, usage.usedTokens / usage.contextWindow) : 0
+  const isHigh = share > CONTEXT_USAGE_WARNING
+  const isTrimmed = usage.omittedMessageCount > 0 || usage.omittedNoteCount > 0 || usage.truncatedNote
+
+  const details = [`About ${usage.usedTokens.toLocaleString()} of ${usage.contextWindow.toLocaleString()} tokens`]
+  if (usage.omittedMessageCount > 0) {
+    details.push(`${usage.omittedMessageCount} earlier message${usage.omittedMessageCount === 1 ? '' : 's'} summarized`)
+  }
+  if (usage.omittedNoteCount > 0) {
+    details.push(`${usage.omittedNoteCount} note${usage.omittedNoteCount === 1 ? '' : 's'} left out`)
+  }
+  if (usage.truncatedNote) {
+    details.push('1 note shortened')
+  }
+
+  return (
+    <span
+      className={`ml-auto pl-2 shrink-0 flex items-center gap-1.5 ${isHigh ? 'text-amber-600 dark:text-amber-400' : ''}`}
+      title={details.join('\n')}
+    >
+      <span className="w-12 h-1 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+        <span
+          className={`block h-full rounded-full ${isHigh ? 'bg-amber-500' : 'bg-gray-400 dark:bg-gray-500'}`}
+          style={{ width: `${Math.max(share * 100, 2)}%` }}
+        />
+      </span>
+      ~{formatTokenCount(usage.usedTokens)} / {formatTokenCount(usage.contextWindow)} ({Math.round(share * 100)}%)
+      {isTrimmed && <span>· trimmed</span>}
+    </span>
+  )
+}
+
+/** Lists the notes used to answer a message, opening them when clicked */
+function MessageSources({ sources }: { sources: ChatMessageSource[] }) {
+  const navigation = useNoteNavigation()
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+      <span>Sources:</span>
+      {sources.map(source => {
+        const card = navigation?.cards.find(c => c.id === source.cardId)
+        return card ? (
+          <button
+            key={source.cardId}
+            onClick={() => navigation!.openCard(card)}
+            className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-blue-600 dark:text-blue-400 hover:underline truncate max-w-[12rem]"
+            title={`Open "${source.title}"`}
+          >
+            {source.title}
+          </button>
+        ) : (
+          <span
+            key={source.cardId}
+            className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 line-through truncate max-w-[12rem]"
+            title="This note no longer exists"
+          >
+            {source.title}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
+
+/** Lays out the answers of a comparison side by side, scrolling sideways if they do not fit */
+function ComparisonColumns({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="mb-6 grid grid-flow-col auto-cols-[minmax(16rem,1fr)] gap-4 overflow-x-auto pb-2">
+      {children}
+    </div>
+  )
+}
+
+/** Name of the model that wrote an answer of a comparison */
+function ComparisonColumnHeader({ modelId }: { modelId: ModelId }) {
+  return (
+    <div className="mb-2 pb-1 text-xs font-medium text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700 truncate">
+      {getModelById(modelId)?.name ?? modelId}
+    </div>
+  )
+}
+
+/** Props for the ComparisonMessage component */
+interface ComparisonMessageProps {
+  /** The answers of the comparison, in the order of their versions */
+  answers: ChatMessage[]
+  /** ID of the answer the conversation continues from */
+  shownId: string
+  /** Continues the conversation from another answer. Unset while a response is being written */
+  onContinueWith?: (messageId: string) => void
+}
+
+/** The answers of several models to the same message, side by side, any of which can be continued from */
+function ComparisonMessage({ answers, shownId, onContinueWith }: ComparisonMessageProps) {
+  return (
+    <ComparisonColumns>
+      {answers.map(answer => {
+        const isShown = answer.id === shownId
+        return (
+          <div
+            key={answer.id}
+            className={`group min-w-0 rounded-lg p-3 border ${isShown
+              ? 'border-blue-300 dark:border-blue-700'
+              : 'border-gray-200 dark:border-gray-700'}`}
+          >
+            <ComparisonColumnHeader modelId={answer.llm ?? ''} />
+            {answer.reasoning && (
+              <ReasoningSection reasoning={answer.reasoning} />
+            )}
+            <div className="prose dark:prose-invert max-w-none text-sm text-gray-900 dark:text-gray-100">
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{answer.content}</ReactMarkdown>
+            </div>
+            {answer.usage && (
+              <MessageUsage usage={answer.usage} />
+            )}
+            <div className="mt-2 text-xs">
+              {isShown ? (
+                <span className="text-blue-600 dark:text-blue-400">Continuing with this answer</span>
+              ) : (
+                <button
+                  onClick={() => onContinueWith?.(answer.id!)}
+                  disabled={!onContinueWith}
+                  className="px-2 py-0.5 rounded border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300
+                           hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Continue with this
+                </button>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </ComparisonColumns>
+  )
+}
+
+/** Props for the VersionNavigator component */
+interface VersionNavigatorProps {
+  /** Position of the version being shown */
+  versionIndex: number
+  /** Number of versions */
+  versionCount: number
+  /** Shows the version at a position. Unset to disable switching */
+  onSwitch?: (versionIndex: number) => void
+}
+
+/** Arrows to step through the versions of a message, such as ‹ 2/3 › */
+function VersionNavigator({ versionIndex, versionCount, onSwitch }: VersionNavigatorProps) {
+  const buttonClass = 'px-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent'
+
+  return (
+    <div className="flex items-center gap-0.5 select-none">
+      <button
+        onClick={() => onSwitch?.(versionIndex - 1)}
+        disabled={!onSwitch || versionIndex === 0}
+        className={buttonClass}
+        title="Previous version"
+      >
+        ‹
+      </button>
+      <span className="tabular-nums">{versionIndex + 1}/{versionCount}</span>
+      <button
+        onClick={() => onSwitch?.(versionIndex + 1)}
+        disabled={!onSwitch || versionIndex === versionCount - 1}
+        className={buttonClass}
+        title="Next version"
+      >
+        ›
+      </button>
+    </div>
+  )
+}
+
+/** Props for the RegenerateMenu component */
+interface RegenerateMenuProps {
+  /** Model that wrote the answer, if known */
+  messageModelId?: ModelId
+  /** The model chosen in the model selector */
+  selectedModel: ModelId
+  /** Writes a new version of the answer with a model */
+  onRegenerate: (modelId: ModelId) => Promise<void>
+}
+
+/**
+ * Button to write a new version of an answer. When the model selector is set to
+ * another model than the one that wrote the answer, either can be chosen
+ */
+function RegenerateMenu({ messageModelId, selectedModel, onRegenerate }: RegenerateMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const modelIds = messageModelId && messageModelId !== selectedModel ? [messageModelId, selectedModel] : [selectedModel]
+
+  /** Regenerates with a model, logging failures as the chat shows the error */
+  const regenerate = (modelId: ModelId) => {
+    setIsOpen(false)
+    onRegenerate(modelId).catch(err => console.error('Failed to regenerate message:', err))
+  }
+
+  return (
+    <div className="relative opacity-0 group-hover:opacity-100 transition-opacity">
+      <button
+        onClick={() => modelIds.length > 1 ? setIsOpen(!isOpen) : regenerate(modelIds[0])}
+        className="px-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-700 dark:hover:text-gray-200"
+        title="Write a new version of this answer"
+      >
+        ↻ Regenerate
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 z-10 min-w-[12rem] py-1 rounded-md shadow-lg
+                      bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          {modelIds.map(modelId => (
+            <button
+              key={modelId}
+              onClick={() => regenerate(modelId)}
+              className="block w-full px-3 py-1.5 text-left text-xs text-gray-700 dark:text-gray-200
+                       hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              With {getModelById(modelId)?.name ?? modelId}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Notes that a message was answered by the backup model because the chosen one failed */
+function FallbackNotice({ failedModelId, answerModelId }: { failedModelId: string, answerModelId: string }) {
+  const getName = (modelId: string) => getModelById(modelId)?.name ?? modelId
+
+  return (
+    <div className="mb-2 text-xs text-amber-600 dark:text-amber-400">
+      Answered by {getName(answerModelId)} because {getName(failedModelId)} was unavailable
+    </div>
+  )
+}
+
+/** Shows the tokens used to write a message and their cost, when the message is hovered */
+function MessageUsage({ usage }: { usage: TokenUsage }) {
+  const details = [
+    `${usage.inputTokens.toLocaleString()} input tokens`,
+    `${usage.outputTokens.toLocaleString()} output tokens`
+  ]
+  if (usage.reasoningTokens > 0) {
+    details.push(`${usage.reasoningTokens.toLocaleString()} of them reasoning`)
+  }
+
+  return (
+    <div
+      className="mt-1 text-[10px] text-gray-400 dark:text-gray-500 opacity-0 group-hover:opacity-100 transition-opacity"
+      title={details.join('\n')}
+    >
+      {formatTokenCount(usage.inputTokens)} in · {formatTokenCount(usage.outputTokens)} out
+      {usage.cost !== null && ` · ${formatCost(usage.cost)}`}
+    </div>
+  )
+}
+
+/** Props for the {@link ReasoningSection} component */
+interface ReasoningSectionProps {
+  /** The reasoning the model did before answering */
+  reasoning: string
+  /** Whether the model is still reasoning, in which case the section starts open */
+  isThinking?: boolean
+}
+
+/**
+ * Collapsible section showing the reasoning the model did before answering.
+ * Rendered as plain text, as it is only for reading along
+ */
+function ReasoningSection({ reasoning, isThinking = false }: ReasoningSectionProps) {
+  const [isOpen, setIsOpen] = useState(isThinking)
+
+  return (
+    <div className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 hover:text-gray-700 dark:hover:text-gray-200"
+        aria-expanded={isOpen}
+      >
+        <svg
+          className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <span className={isThinking ? 'animate-pulse' : ''}>{isThinking ? 'Thinking...' : 'Thought process'}</span>
+      </button>
+      {isOpen && (
+        <div className="mt-1 pl-3 border-l-2 border-gray-200 dark:border-gray-700 whitespace-pre-wrap break-words max-h-80 overflow-y-auto">
+          {reasoning}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Files attached to a user message, with images shown once loaded */
+function MessageAttachments({ attachments, loadAttachment }: { attachments: ChatAttachment[], loadAttachment?: (attachment: ChatAttachment) => Promise<string | null> }) {
+  return (
+    <div className="mb-2 flex flex-wrap gap-2">
+      {attachments.map(attachment => (
+        <AttachmentPreview key={attachment.id} attachment={attachment} loadAttachment={loadAttachment} />
+      ))}
+    </div>
+  )
+}
+
+/** An attached image as a thumbnail, or another file as its name and size */
+function AttachmentPreview({ attachment, loadAttachment }: { attachment: ChatAttachment, loadAttachment?: (attachment: ChatAttachment) => Promise<string | null> }) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null)
+  const isImage = isImageAttachment(attachment)
+
+  useEffect(() => {
+    if (!isImage || !loadAttachment) return
+    let cancelled = false
+    loadAttachment(attachment)
+      .then(url => { if (!cancelled) setDataUrl(url) })
+      .catch(err => console.error('Failed to load attachment:', err))
+    return () => { cancelled = true }
+  }, [attachment, isImage, loadAttachment])
+
+  if (isImage && dataUrl) {
+    return (
+      <a href={dataUrl} target="_blank" rel="noopener noreferrer" title={attachment.name}>
+        <img
+          src={dataUrl}
+          alt={attachment.name}
+          className="h-24 max-w-[12rem] rounded-md object-cover border border-gray-200 dark:border-gray-700"
+        />
+      </a>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs
+                    bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700
+                    text-gray-600 dark:text-gray-300">
+      <span className="truncate max-w-[12rem]">{attachment.name}</span>
+      <span className="text-gray-400 dark:text-gray-500">{formatFileSize(attachment.size)}</span>
+    </div>
+  )
+}
+
+/** Lists the tools the assistant used while writing a message */
+function ToolActivityList({ activity }: { activity: ChatToolActivity[] }) {
+  return (
+    <ul className="mb-2 space-y-0.5 text-xs text-gray-500 dark:text-gray-400">
+      {activity.map((item, index) => (
+        <li key={index} className="flex items-center gap-1.5">
+          <svg className="w-3 h-3 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                  d="M14.7 6.3a1 1 0 000 1.4l1.6 1.6a1 1 0 001.4 0l3.77-3.77a6 6 0 01-7.94 7.94l-6.91 6.91a2.12 2.12 0 01-3-3l6.91-6.91a6 6 0 017.94-7.94l-3.76 3.76z" />
+          </svg>
+          <span className="truncate">{item.description}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/** Props for the {@link ProposedEditView} component */
+interface ProposedEditViewProps {
+  /** The proposed edit */
+  edit: ProposedNoteEdit
+  /** Accepts or rejects the edit. Buttons are hidden when not given */
+  onResolve?: (accepted: boolean) => Promise<void>
+}
+
+/** Shows an edit to a note proposed by the assistant as a diff, with buttons to accept or reject it */
+function ProposedEditView({ edit, onResolve }: ProposedEditViewProps) {
+  const navigation = useNoteNavigation()
+  const [isResolving, setIsResolving] = useState(false)
+  const diff = useMemo(() => diffLines(edit.originalMarkdown, edit.markdown), [edit.originalMarkdown, edit.markdown])
+
+  const card = navigation?.cards.find(c => c.id === edit.cardId)
+  const currentMarkdown = card?.type === 'richtext' ? card.content.markdown : null
+  const isPending = edit.status === 'pending'
+
+  const resolve = async (accepted: boolean) => {
+    if (!onResolve) return
+    setIsResolving(true)
+    try {
+      await onResolve(accepted)
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  return (
+    <div className="mt-3 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="px-3 py-2 flex items-center gap-2 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+            Edit to "{edit.title}"
+          </div>
+          {edit.summary && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">{edit.summary}</div>
+          )}
+        </div>
+        {isPending && onResolve ? (
+          <>
+            <button
+              onClick={() => resolve(false)}
+              disabled={isResolving}
+              className="px-2 py-1 text-xs rounded-md text-gray-600 dark:text-gray-300 
+                       hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => resolve(true)}
+              disabled={isResolving || currentMarkdown === null}
+              className="px-2 py-1 text-xs rounded-md bg-blue-500 text-white 
+                       hover:bg-blue-600 dark:hover:bg-blue-400 disabled:opacity-50"
+              title={currentMarkdown === null ? 'This note no longer exists' : 'Apply this edit to the note'}
+            >
+              Accept
+            </button>
+          </>
+        ) : (
+          <span className={`text-xs ${
+            edit.status === 'accepted' ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'
+          }`}>
+            {edit.status === 'accepted' ? 'Applied' : edit.status === 'rejected' ? 'Rejected' : 'Pending'}
+          </span>
+        )}
+      </div>
+      {isPending && currentMarkdown !== null && currentMarkdown !== edit.originalMarkdown && (
+        <div className="px-3 py-1.5 text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30">
+          The note has changed since this edit was proposed. Accepting asks before replacing the current content.
+        </div>
+      )}
+      <div className="max-h-64 overflow-auto font-mono text-xs py-2">
+        {diff.map((line, index) => (
+          <div
+            key={index}
+            className={`px-3 whitespace-pre-wrap break-words ${
+              line.type === 'added'
+                ? 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+                : line.type === 'removed'
+                  ? 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-300'
+                  : 'text-gray-700 dark:text-gray-300'
+            }`}
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
 /**
  * Props for the ChatMessage component.
  */
@@ -236,9 +859,23 @@ interface ChatMessageItemProps {
   onEdit: (index: number, content: string) => Promise<void>
   /** Optional callback to save this message's content to notes */
   onSaveToNotes?: (content: string) => Promise<void>
+  /** Accepts or rejects an edit to a note proposed in this message */
+  onResolveEdit?: (messageIndex: number, editId: string, accepted: boolean) => Promise<void>
+  /** Position of this message among its versions */
+  versionIndex: number
+  /** Number of versions of this message, including itself */
+  versionCount: number
+  /** Shows another version of this message. Unset while a response is being written */
+  onSwitchVersion?: (messageIndex: number, versionIndex: number) => void
+  /** Writes a new version of this answer. Unset for user messages and while a response is being written */
+  onRegenerate?: (messageIndex: number, modelId: ModelId) => Promise<void>
+  /** The model chosen in the model selector, offered for regenerating */
+  selectedModel: ModelId
+  /** Loads the content of a file attached to this message, to show it */
+  loadAttachment?: (attachment: ChatAttachment) => Promise<string | null>
 }
 
-const ChatMessage = React.memo(function ChatMessage({ message, index, onEdit, onSaveToNotes }: ChatMessageItemProps) {
+const ChatMessage = React.memo(function ChatMessage({ message, index, onEdit, onSaveToNotes, onResolveEdit, versionIndex, versionCount, onSwitchVersion, onRegenerate, selectedModel, loadAttachment }: ChatMessageItemProps) {
   const isUser = message.role === 'user'
   const [isEditing, setIsEditing] = useState(false)
   const [editContent, setEditContent] = useState(message.content)
@@ -347,12 +984,55 @@ const ChatMessage = React.memo(function ChatMessage({ message, index, onEdit, on
           </div>
         ) : (
           <div>
+            {!isUser && message.fallbackFrom && message.llm && (
+              <FallbackNotice failedModelId={message.fallbackFrom} answerModelId={message.llm} />
+            )}
+            {!isUser && message.reasoning && (
+              <ReasoningSection reasoning={message.reasoning} />
+            )}
+            {!isUser && message.toolActivity && message.toolActivity.length > 0 && (
+              <ToolActivityList activity={message.toolActivity} />
+            )}
+            {isUser && message.attachments && message.attachments.length > 0 && (
+              <MessageAttachments attachments={message.attachments} loadAttachment={loadAttachment} />
+            )}
             <div className={`prose dark:prose-invert max-w-none text-base
                           ${isUser ? 'text-gray-900 dark:text-gray-100' : 'text-gray-900 dark:text-gray-100'}`}>
               <ReactMarkdown remarkPlugins={[remarkGfm]}>
                 {message.content}
               </ReactMarkdown>
             </div>
+            {!isUser && message.sources && message.sources.length > 0 && (
+              <MessageSources sources={message.sources} />
+            )}
+            {!isUser && message.usage && (
+              <MessageUsage usage={message.usage} />
+            )}
+            {(versionCount > 1 || onRegenerate) && (
+              <div className="mt-1 flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                {versionCount > 1 && (
+                  <VersionNavigator
+                    versionIndex={versionIndex}
+                    versionCount={versionCount}
+                    onSwitch={onSwitchVersion ? (version) => onSwitchVersion(index, version) : undefined}
+                  />
+                )}
+                {onRegenerate && (
+                  <RegenerateMenu
+                    messageModelId={message.llm}
+                    selectedModel={selectedModel}
+                    onRegenerate={(modelId) => onRegenerate(index, modelId)}
+                  />
+                )}
+              </div>
+            )}
+            {!isUser && message.proposedEdits?.map(edit => (
+              <ProposedEditView
+                key={edit.id}
+                edit={edit}
+                onResolve={onResolveEdit ? (accepted) => onResolveEdit(index, edit.id, accepted) : undefined}
+              />
+            ))}
             {!isUser && onSaveToNotes && (
               <button
                 onClick={async () => {
@@ -412,6 +1092,8 @@ const ChatMessage = React.memo(function ChatMessage({ message, index, onEdit, on
 interface StreamingChatMessageProps {
   /** The current in-flight streamed text */
   content: string
+  /** The current in-flight streamed reasoning, if the model reasons */
+  reasoning?: string
 }
 
 /**
@@ -423,10 +1105,13 @@ interface StreamingChatMessageProps {
  * markdown-aware {@link ChatMessage} path.
  */
 function StreamingChatMessage(props: StreamingChatMessageProps) {
-  const { content } = props
+  const { content, reasoning } = props
   return (
     <div className="group mb-6">
       <div className="relative">
+        {reasoning && (
+          <ReasoningSection reasoning={reasoning} isThinking={!content} />
+        )}
         <div
           className="max-w-none text-base whitespace-pre-wrap break-words
                      text-gray-900 dark:text-gray-100"
@@ -443,6 +1128,39 @@ function StreamingChatMessage(props: StreamingChatMessageProps) {
   )
 }
 
+/**
+ * Fills in a prompt template with the selected note, today's date, the clipboard
+ * and the text typed after its command. The clipboard is only read if the template uses it
+ * @throws If the template uses the selected note and none is selected, or the clipboard cannot be read
+ */
+async function expandPrompt(prompt: PromptTemplate, input: string, selectedCard: Card | null): Promise<string> {
+  const variables = getTemplateVariables(prompt.template)
+  const values: PromptValues = {
+    input,
+    date: new Date().toLocaleDateString(undefined, { dateStyle: 'full' })
+  }
+
+  if (variables.includes('selected_note')) {
+    if (selectedCard?.type !== 'richtext') {
+      throw new Error(`Select a note to use /${prompt.command}`)
+    }
+    values.selected_note = `# ${getCardTitle(selectedCard)}\n\n${selectedCard.content.markdown}`
+  }
+
+  if (variables.includes('clipboard')) {
+    try {
+      values.clipboard = await navigator.clipboard.readText()
+    } catch {
+      throw new Error(`Could not read the clipboard for /${prompt.command}. Allow clipboard access and try again`)
+    }
+  }
+
+  return fillTemplate(prompt.template, values)
+}
+
+/** Most prompts suggested at once while a slash command is typed */
+const MAX_PROMPT_SUGGESTIONS = 8
+
 /** Props for the ChatInput component */
 interface ChatInputProps {
     /** The current message text */
@@ -457,13 +1175,46 @@ interface ChatInputProps {
     isLoading?: boolean
     /** User settings */
     userSettings: UserSettings
+    /** Prompts suggested when a slash command is typed */
+    prompts?: PromptTemplate[]
+    /** Files to send with the message */
+    files: AttachmentFile[]
+    /** IDs of the attached files that the selected model cannot read */
+    unsupportedFileIds: Set<string>
+    /** Called when files are pasted, dropped or chosen */
+    onAddFiles: (files: File[]) => void
+    /** Called when an attached file is removed */
+    onRemoveFile: (attachmentId: string) => void
 }
 
 /**
- * Text input area for the chat interface with auto-resizing textarea
+ * Text input area for the chat interface with auto-resizing textarea. Typing a
+ * slash suggests saved prompts by their command. Images and PDFs can be pasted,
+ * dropped or chosen to send with the message
  */
-function ChatInput({ message, onMessageChange, onSendMessage, onStopStreaming, isLoading = false, userSettings }: ChatInputProps) {
+function ChatInput({ message, onMessageChange, onSendMessage, onStopStreaming, isLoading = false, userSettings, prompts = [], files, unsupportedFileIds, onAddFiles, onRemoveFile }: ChatInputProps) {
     const textareaRef = useRef<HTMLTextAreaElement>(null)
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const [isDraggingFile, setIsDraggingFile] = useState(false)
+    const [highlightedIndex, setHighlightedIndex] = useState(0)
+    const [dismissedQuery, setDismissedQuery] = useState<string | null>(null)
+
+    const commandQuery = getCommandQuery(message)
+    const suggestions = useMemo(
+        () => commandQuery === null || commandQuery === dismissedQuery ? [] : findPrompts(prompts, commandQuery).slice(0, MAX_PROMPT_SUGGESTIONS),
+        [prompts, commandQuery, dismissedQuery]
+    )
+
+    // Start from the best match each time the command changes
+    useEffect(() => {
+        setHighlightedIndex(0)
+    }, [commandQuery])
+
+    /** Puts the command of a prompt in the input, ready for any text to go with it */
+    const selectPrompt = (prompt: PromptTemplate) => {
+        onMessageChange(`/${prompt.command} `)
+        textareaRef.current?.focus()
+    }
 
     useEffect(() => {
         const textarea = textareaRef.current
@@ -482,6 +1233,27 @@ function ChatInput({ message, onMessageChange, onSendMessage, onStopStreaming, i
     }, [message])
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (suggestions.length > 0) {
+            const highlighted = suggestions[Math.min(highlightedIndex, suggestions.length - 1)]
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault()
+                const step = e.key === 'ArrowDown' ? 1 : -1
+                setHighlightedIndex((highlightedIndex + step + suggestions.length) % suggestions.length)
+                return
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault()
+                setDismissedQuery(commandQuery)
+                return
+            }
+            // A command typed in full is sent rather than completed
+            if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && highlighted.command !== commandQuery)) {
+                e.preventDefault()
+                selectPrompt(highlighted)
+                return
+            }
+        }
+
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault()
             onSendMessage(e)
@@ -499,18 +1271,54 @@ function ChatInput({ message, onMessageChange, onSendMessage, onStopStreaming, i
         alert(error)
     }
 
+    /** Attaches pasted files, such as screenshots, leaving pasted text to the textarea */
+    const handlePaste = (e: React.ClipboardEvent) => {
+        if (e.clipboardData.files.length === 0) return
+        e.preventDefault()
+        onAddFiles(Array.from(e.clipboardData.files))
+    }
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault()
+        setIsDraggingFile(false)
+        if (!isLoading && e.dataTransfer.files.length > 0) {
+            onAddFiles(Array.from(e.dataTransfer.files))
+        }
+    }
+
     return (
-        <form onSubmit={onSendMessage}>
-            <div className="relative">
+        <form
+            onSubmit={onSendMessage}
+            onDragOver={e => {
+                if (!e.dataTransfer.types.includes('Files')) return
+                e.preventDefault()
+                setIsDraggingFile(true)
+            }}
+            onDragLeave={() => setIsDraggingFile(false)}
+            onDrop={handleDrop}
+        >
+            {files.length > 0 && (
+                <AttachedFiles files={files} unsupportedFileIds={unsupportedFileIds} onRemove={onRemoveFile} />
+            )}
+            <div className={`relative rounded-lg ${isDraggingFile ? 'ring-2 ring-blue-400 dark:ring-blue-500' : ''}`}>
+                {suggestions.length > 0 && (
+                    <PromptSuggestions
+                        prompts={suggestions}
+                        highlightedIndex={highlightedIndex}
+                        onSelect={selectPrompt}
+                        onHighlight={setHighlightedIndex}
+                    />
+                )}
                 <textarea
                     ref={textareaRef}
                     value={message}
                     onChange={e => onMessageChange(e.target.value)}
                     onKeyDown={handleKeyDown}
-                    placeholder="Type your message"
+                    onPaste={handlePaste}
+                    placeholder={prompts.length > 0 ? 'Type your message, or / for a saved prompt' : 'Type your message'}
                     className="w-full resize-none rounded-lg border-0
                              bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 
-                             p-3 pr-24 text-sm overflow-y-hidden
+                             p-3 pr-32 text-sm overflow-y-hidden
                              focus:outline-none focus:ring-2 focus:ring-blue-500
                              disabled:opacity-50 disabled:cursor-not-allowed
                              placeholder:text-gray-400/60 dark:placeholder:text-gray-500/60"
@@ -518,6 +1326,39 @@ function ChatInput({ message, onMessageChange, onSendMessage, onStopStreaming, i
                     disabled={isLoading}
                 />
                 <div className="absolute right-4 bottom-3 flex gap-2">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={ATTACHMENT_TYPES.join(',')}
+                        multiple
+                        className="hidden"
+                        onChange={e => {
+                            onAddFiles(Array.from(e.target.files ?? []))
+                            // Allows choosing the same file again
+                            e.target.value = ''
+                        }}
+                    />
+                    <button
+                        type="button"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isLoading}
+                        className="p-1.5 opacity-60 hover:opacity-100 disabled:opacity-30 disabled:cursor-not-allowed
+                                 text-gray-600 dark:text-gray-300"
+                        title="Attach images or PDFs"
+                    >
+                        <svg
+                            width="16"
+                            height="16"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                        >
+                            <path d="M21.44 11.05l-9.19 9.19a6 6 0 01-8.49-8.49l9.19-9.19a4 4 0 015.66 5.66l-9.2 9.19a2 2 0 01-2.83-2.83l8.49-8.48" />
+                        </svg>
+                    </button>
                     <VoiceInput
                         userSettings={userSettings}
                         onTranscription={handleVoiceTranscription}
@@ -548,7 +1389,7 @@ function ChatInput({ message, onMessageChange, onSendMessage, onStopStreaming, i
                     ) : (
                         <button
                             type="submit"
-                            disabled={isLoading || !message.trim()}
+                            disabled={isLoading || (!message.trim() && files.length === 0)}
                             className="p-1.5 opacity-60 hover:opacity-100 disabled:opacity-30 disabled:cursor-not-allowed
                                      text-gray-600 dark:text-gray-300"
                             title="Send message (Enter)"
@@ -572,3 +1413,98 @@ function ChatInput({ message, onMessageChange, onSendMessage, onStopStreaming, i
         </form>
     )
 }
+
+interface AttachedFilesProps {
+    /** Files to send with the message */
+    files: AttachmentFile[]
+    /** IDs of the files that the selected model cannot read */
+    unsupportedFileIds: Set<string>
+    /** Called when a file is removed */
+    onRemove: (attachmentId: string) => void
+}
+
+/**
+ * Files attached to the message being written. Files the selected model cannot
+ * read are highlighted, since the model is only told they were attached
+ */
+function AttachedFiles({ files, unsupportedFileIds, onRemove }: AttachedFilesProps) {
+    return (
+        <div className="mb-2">
+            <div className="flex flex-wrap gap-2">
+                {files.map(({ attachment, dataUrl }) => {
+                    const isUnsupported = unsupportedFileIds.has(attachment.id)
+                    return (
+                        <div
+                            key={attachment.id}
+                            className={`flex items-center gap-1.5 pl-1 pr-1.5 py-1 rounded-md text-xs border
+                                ${isUnsupported
+                                    ? 'bg-amber-50 dark:bg-amber-900/30 border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-300'
+                                    : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300'}`}
+                            title={isUnsupported ? 'The selected model cannot read this file' : attachment.name}
+                        >
+                            {isImageAttachment(attachment) ? (
+                                <img src={dataUrl} alt="" className="h-8 w-8 rounded object-cover" />
+                            ) : (
+                                <span className="px-1 font-medium">PDF</span>
+                            )}
+                            <span className="truncate max-w-[8rem]">{attachment.name}</span>
+                            <span className="opacity-60">{formatFileSize(attachment.size)}</span>
+                            <button
+                                type="button"
+                                onClick={() => onRemove(attachment.id)}
+                                className="ml-0.5 opacity-60 hover:opacity-100"
+                                title="Remove file"
+                            >
+                                ×
+                            </button>
+                        </div>
+                    )
+                })}
+            </div>
+            {unsupportedFileIds.size > 0 && (
+                <p className="mt-1 text-[11px] text-amber-600 dark:text-amber-400">
+                    The selected model cannot read the highlighted files. Choose a model that accepts them, or they are only mentioned by name
+                </p>
+            )}
+        </div>
+    )
+}
+
+interface PromptSuggestionsProps {
+    /** Prompts matching the command typed so far */
+    prompts: PromptTemplate[]
+    /** Index of the prompt that Enter or Tab picks */
+    highlightedIndex: number
+    /** Called when a prompt is picked */
+    onSelect: (prompt: PromptTemplate) => void
+    /** Called when the pointer moves over a prompt */
+    onHighlight: (index: number) => void
+}
+
+/** List of saved prompts shown above the chat input while a slash command is typed */
+function PromptSuggestions({ prompts, highlightedIndex, onSelect, onHighlight }: PromptSuggestionsProps) {
+    return (
+        <div className="absolute bottom-full left-0 right-0 mb-1 z-20 rounded-lg border border-gray-200 dark:border-gray-700
+                        bg-white dark:bg-gray-800 shadow-lg overflow-hidden">
+            {prompts.map((prompt, index) => (
+                <button
+                    key={prompt.id}
+                    type="button"
+                    // Keep the focus in the textarea
+                    onMouseDown={e => e.preventDefault()}
+                    onClick={() => onSelect(prompt)}
+                    onMouseEnter={() => onHighlight(index)}
+                    className={`w-full px-3 py-1.5 text-left flex items-baseline gap-2 text-xs
+                        ${index === highlightedIndex
+                            ? 'bg-blue-50 dark:bg-blue-900/40'
+                            : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                >
+                    <span className="font-mono text-blue-600 dark:text-blue-400 shrink-0">/{prompt.command}</span>
+                    <span className="text-gray-500 dark:text-gray-400 truncate">
+                        {prompt.description || prompt.template}
+                    </span>
+                </button>
+            ))}
+        </div>
+    )
+}
@@ -21,7 +21,7 @@ interface DeleteBoardModalProps {
 
 /**
  * Modal that shows a confirmation dialog for deleting a board,
- * including the number of cards and chats that will be deleted
+ * including the number of cards and chats that will be moved to the trash
  */
 export function DeleteBoardModal(props: DeleteBoardModalProps) {
   const { isOpen, onClose, onConfirm, store, boardId, boardTitle } = props
@@ -49,12 +49,15 @@ export function DeleteBoardModal(props: DeleteBoardModalProps) {
 
           <div className="mb-6">
             <p className="text-gray-600 dark:text-gray-400 mb-4">
-              Are you sure you want to delete "{boardTitle}"? This will permanently delete:
+              Are you sure you want to delete "{boardTitle}"? This will move the board to the trash along with:
             </p>
             <ul className="list-disc list-inside text-gray-700 dark:text-gray-300 space-y-1">
               <li>{cards.length} note{cards.length === 1 ? '' : 's'}</li>
               <li>{chats.length} chat{chats.length === 1 ? '' : 's'}</li>
             </ul>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">
+              You can restore it from Settings &rarr; Trash until it is purged.
+            </p>
           </div>
 
           <div className="mb-6">
@@ -1,5 +1,6 @@
 import type { Store } from '../../Store'
-import type { Card, RichTextCard, ViewMode } from '../../types'
+import type { Card, ImageCard, RichTextCard, ViewMode } from '../../types'
+import type { PromptTemplate } from '../../types/settings'
 
 /** State for panel expansion and width */
 export interface PanelState {
@@ -19,6 +20,8 @@ export interface BoardViewProps {
   boardId: string
   /** The list of cards in the board */
   cards: Card[]
+  /** Image cards on the board, which can be picked as chat context */
+  imageCards?: ImageCard[]
   /** The currently selected card */
   selectedCard: Card | null
   /** The current view mode */
@@ -37,10 +40,14 @@ export interface BoardViewProps {
   onUpdateCard: (cardId: string, content: string) => void
   /** Callback to update a card's title */
   onUpdateCardTitle: (cardId: string, title: string) => void
+  /** Callback to update a card's assigned tags */
+  onUpdateCardTags: (cardId: string, tags: string[]) => void
   /** Callback to delete a card */
   onDeleteCard: (cardId: string) => void
   /** Function to set a card's data */
   setCard: (card: Card) => void
   /** Board-level custom instructions for chat */
   boardInstructions?: string
+  /** Prompts that can be sent from chat on this board only */
+  boardPrompts?: PromptTemplate[]
 } 
\ No newline at end of file
@@ -16,6 +16,7 @@ export function DesktopBoardView(props: BoardViewProps) {
     store,
     boardId,
     cards,
+    imageCards,
     selectedCard,
     viewMode,
     onViewModeChange,
@@ -25,9 +26,11 @@ export function DesktopBoardView(props: BoardViewProps) {
     onCardSelect,
     onUpdateCard,
     onUpdateCardTitle,
+    onUpdateCardTags,
     onDeleteCard,
     setCard,
-    boardInstructions
+    boardInstructions,
+    boardPrompts
   } = props
 
   const [isDragging, setIsDragging] = useState(false)
@@ -137,6 +140,7 @@ export function DesktopBoardView(props: BoardViewProps) {
           onViewModeChange={onViewModeChange}
           showAllNotes={showAllNotes}
           onShowAllNotesChange={onShowAllNotesChange}
+          store={store}
         />
 
         {/* Notes Panel - Show in split mode or when notes mode is active */}
@@ -148,6 +152,7 @@ export function DesktopBoardView(props: BoardViewProps) {
               onCardSelect={onCardSelect}
               onUpdateCard={onUpdateCard}
               onUpdateCardTitle={onUpdateCardTitle}
+              onUpdateCardTags={onUpdateCardTags}
               onDelete={onDeleteCard}
               showAllNotes={showAllNotes}
               onShowAllNotesChange={onShowAllNotesChange}
@@ -177,9 +182,11 @@ export function DesktopBoardView(props: BoardViewProps) {
               boardId={boardId}
               className="flex-1 min-h-0 overflow-hidden"
               cards={cards}
+              imageCards={imageCards}
               setCard={setCard}
               selectedCard={selectedCard}
               boardInstructions={boardInstructions}
+              boardPrompts={boardPrompts}
             />
           </div>
         )}
@@ -14,6 +14,7 @@ export function MobileBoardView(props: BoardViewProps) {
     store,
     boardId,
     cards,
+    imageCards,
     selectedCard,
     viewMode,
     onViewModeChange,
@@ -23,9 +24,11 @@ export function MobileBoardView(props: BoardViewProps) {
     onCardSelect,
     onUpdateCard,
     onUpdateCardTitle,
+    onUpdateCardTags,
     onDeleteCard,
     setCard,
-    boardInstructions
+    boardInstructions,
+    boardPrompts
   } = props
 
   return (
@@ -40,6 +43,7 @@ export function MobileBoardView(props: BoardViewProps) {
               onCardSelect={onCardSelect}
               onUpdateCard={onUpdateCard}
               onUpdateCardTitle={onUpdateCardTitle}
+              onUpdateCardTags={onUpdateCardTags}
               onDelete={onDeleteCard}
               showAllNotes={showAllNotes}
               onShowAllNotesChange={onShowAllNotesChange}
@@ -58,9 +62,11 @@ export function MobileBoardView(props: BoardViewProps) {
               boardId={boardId}
               className="flex-1 min-h-0 overflow-hidden"
               cards={cards}
+              imageCards={imageCards}
               setCard={setCard}
               selectedCard={selectedCard}
               boardInstructions={boardInstructions}
+              boardPrompts={boardPrompts}
             />
           </div>
         )}
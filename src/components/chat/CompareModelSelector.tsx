@@ -0,0 +1,111 @@
+import React from 'react'
+import { Popover, PopoverButton, PopoverPanel } from '@headlessui/react'
+import { type ModelId, getAvailableModels } from '../../api/llm'
+import { useUserSettings } from '../../hooks/useSettings'
+import { Store } from '../../Store'
+
+/** Fewest models that can be compared */
+export const MIN_COMPARE_MODELS = 2
+
+/** Most models that can be compared at once */
+export const MAX_COMPARE_MODELS = 4
+
+interface CompareModelSelectorProps {
+    /** IDs of the models to compare */
+    value: ModelId[]
+    /** Callback when models are added or removed */
+    onChange: (modelIds: ModelId[]) => void
+    /** Whether messages are sent to all the models to compare their answers */
+    isCompareMode: boolean
+    /** Callback when compare mode is turned on or off */
+    onCompareModeChange: (isCompareMode: boolean) => void
+    /** Store instance */
+    store: Store
+}
+
+/**
+ * Button to turn compare mode on and off and pick the models whose answers are
+ * compared side by side
+ */
+export function CompareModelSelector({ value, onChange, isCompareMode, onCompareModeChange, store }: CompareModelSelectorProps) {
+    const { settings: userSettings } = useUserSettings(store)
+    const availableModels = getAvailableModels(userSettings)
+    const selectedCount = availableModels.filter(model => value.includes(model.id)).length
+
+    /** Adds a model to the comparison, or removes it */
+    const toggleModel = (modelId: ModelId) => {
+        onChange(value.includes(modelId)
+            ? value.filter(id => id !== modelId)
+            : [...value, modelId])
+    }
+
+    if (availableModels.length < MIN_COMPARE_MODELS) return null
+
+    return (
+        <Popover className="relative flex items-center">
+            <PopoverButton
+                className={`p-1 rounded transition-colors text-[10px] flex items-center gap-1
+                    ${isCompareMode
+                        ? 'bg-blue-50 text-blue-500 dark:bg-blue-900/50 dark:text-blue-400'
+                        : 'text-gray-400 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+                title="Compare the answers of several models"
+            >
+                <svg className="w-3.5 h-3.5 block" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                          d="M4 5h6v14H4zM14 5h6v14h-6z" />
+                </svg>
+                {isCompareMode && <span>{selectedCount}</span>}
+            </PopoverButton>
+
+            <PopoverPanel
+                anchor="bottom end"
+                className="z-50 mt-1 w-64 rounded-lg border border-gray-200 dark:border-gray-700
+                           bg-white dark:bg-gray-800 shadow-lg"
+            >
+                <label className="p-2 border-b border-gray-100 dark:border-gray-700 flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={isCompareMode}
+                        onChange={e => onCompareModeChange(e.target.checked)}
+                        className="rounded border-gray-300 dark:border-gray-600 text-blue-500
+                                   focus:ring-blue-500 dark:focus:ring-blue-400
+                                   dark:bg-gray-700 h-3.5 w-3.5"
+                    />
+                    <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Compare models</span>
+                </label>
+                <div className="px-2 pt-1.5 text-[10px] text-gray-500 dark:text-gray-400">
+                    Each message goes to {MIN_COMPARE_MODELS} to {MAX_COMPARE_MODELS} models at once.
+                    {isCompareMode && selectedCount < MIN_COMPARE_MODELS && ` Pick at least ${MIN_COMPARE_MODELS}.`}
+                </div>
+                <div className="max-h-72 overflow-y-auto p-1">
+                    {availableModels.map(model => {
+                        const checked = value.includes(model.id)
+                        const disabled = !checked && selectedCount >= MAX_COMPARE_MODELS
+                        return (
+                            <label
+                                key={model.id}
+                                className={`flex items-center gap-2 px-2 py-1.5 rounded transition-colors
+                                    ${disabled ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={checked}
+                                    disabled={disabled}
+                                    onChange={() => toggleModel(model.id)}
+                                    className="rounded border-gray-300 dark:border-gray-600 text-blue-500
+                                               focus:ring-blue-500 dark:focus:ring-blue-400
+                                               dark:bg-gray-700 h-3.5 w-3.5"
+                                />
+                                <span className={`text-xs truncate ${checked
+                                    ? 'text-gray-900 dark:text-gray-100'
+                                    : 'text-gray-500 dark:text-gray-400'}`}>
+                                    {model.name}
+                                </span>
+                            </label>
+                        )
+                    })}
+                </div>
+            </PopoverPanel>
+        </Popover>
+    )
+}
@@ -2,6 +2,7 @@ import React from 'react'
 import { type ModelId, type LLMProviderType, getAvailableModels } from '../../api/llm'
 import { useUserSettings } from '../../hooks/useSettings'
 import { Store } from '../../Store'
+import { useModelCatalog } from '../../hooks/useModelCatalog'
 
 interface ModelSelectorProps {
     /** Currently selected model ID */
@@ -24,6 +25,9 @@ type LLMSettingsKey = `${LLMProviderType}Key`
 export function ModelSelector({ value, onChange, className = '', onOpenSettings, store }: ModelSelectorProps) {
     const { settings: userSettings } = useUserSettings(store)
 
+    // Keeps the catalog up to date, so favorites have current prices and flags
+    useModelCatalog(!!userSettings.llm.openrouterKey && (userSettings.llm.favoriteModels?.length ?? 0) > 0)
+
     // Get available models based on API keys
     const availableModels = getAvailableModels(userSettings)
 
@@ -4,6 +4,8 @@ import { FaPlus, FaMicrophone, FaCamera, FaImage, FaSpinner } from 'react-icons/
 import { VoiceInput } from '../voice/VoiceInput'
 import { imageToMarkdown, isImageToMarkdownAvailable } from '../../api/imageToMarkdown'
 import { UserSettings } from '../../types/settings'
+import type { TokenUsage } from '../../types'
+import type { ModelId } from '../../api/llm'
 import { useIsMobile } from '../../hooks/useIsMobile'
 
 /** Props for the AddContentButton component */
@@ -14,6 +16,8 @@ interface AddContentButtonProps {
     onTranscription: (text: string) => void
     /** Callback when markdown is extracted from an image */
     onImageMarkdown: (markdown: string) => void
+    /** Called with the tokens used to convert an image to markdown */
+    onImageUsage?: (usage: TokenUsage, modelId: ModelId) => void
     /** Optional callback for errors */
     onError?: (error: string) => void
     /** Optional class name for the button */
@@ -37,6 +41,7 @@ export function AddContentButton({
     userSettings,
     onTranscription,
     onImageMarkdown,
+    onImageUsage,
     onError,
     className = '',
     iconSize = 16
@@ -86,7 +91,7 @@ export function AddContentButton({
         setIsProcessingImage(true)
         try {
             const base64 = await fileToBase64(file)
-            const markdown = await imageToMarkdown(base64, userSettings)
+            const markdown = await imageToMarkdown(base64, userSettings, onImageUsage)
             onImageMarkdown(markdown)
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Failed to process image'
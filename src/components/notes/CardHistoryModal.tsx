@@ -0,0 +1,197 @@
+import React, { useState, useMemo, MouseEvent } from 'react'
+import { FaTimes, FaUndo } from 'react-icons/fa'
+import type { Store } from '../../Store'
+import { useCardRevisions } from '../../Store'
+import type { CardRevision, RichTextCard } from '../../types'
+import { diffLines } from '../../modules/diff'
+import { snapshotCard } from '../../modules/revisions'
+
+/** Id used to refer to the card's current state in the version pickers */
+const CURRENT_VERSION = 'current'
+
+/** Props for the CardHistoryModal component */
+interface CardHistoryModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean
+  /** Callback when the modal is closed */
+  onClose: () => void
+  /** The data store instance */
+  store: Store
+  /** The card whose history is shown */
+  card: RichTextCard
+}
+
+/**
+ * Modal listing the saved revisions of a note. Any two versions can be diffed
+ * and an older revision can be restored over the current content.
+ */
+export function CardHistoryModal({ isOpen, onClose, store, card }: CardHistoryModalProps) {
+  if (!isOpen) return null
+
+  return <CardHistoryContent onClose={onClose} store={store} card={card} />
+}
+
+/** Props for the CardHistoryContent component */
+interface CardHistoryContentProps {
+  /** Callback when the modal is closed */
+  onClose: () => void
+  /** The data store instance */
+  store: Store
+  /** The card whose history is shown */
+  card: RichTextCard
+}
+
+/** Contents of the history modal, mounted only while open so revisions load lazily */
+function CardHistoryContent({ onClose, store, card }: CardHistoryContentProps) {
+  const { revisions, loading, error } = useCardRevisions(store, card.id)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string>(CURRENT_VERSION)
+  const [restoring, setRestoring] = useState(false)
+
+  const selectedRevision = revisions.find(r => r.id === selectedId) ?? revisions[0] ?? null
+
+  /** Gets the markdown of a version by id */
+  const getVersionText = (id: string): string => {
+    if (id === CURRENT_VERSION) return card.content.markdown
+    const revision = revisions.find(r => r.id === id)
+    return revision && 'markdown' in revision.content ? revision.content.markdown : ''
+  }
+
+  const diff = useMemo(() => {
+    if (!selectedRevision) return []
+    return diffLines(getVersionText(selectedRevision.id), getVersionText(compareId))
+  }, [selectedRevision, compareId, revisions, card.content.markdown])
+
+  const handleBackdropClick = (e: MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose()
+    }
+  }
+
+  const handleRestore = async (revision: CardRevision) => {
+    if (!window.confirm('Restore this version? The current content will be saved to history first.')) return
+    setRestoring(true)
+    try {
+      await snapshotCard(store, card)
+      await store.setCard({
+        ...card,
+        title: revision.title,
+        content: {
+          markdown: 'markdown' in revision.content ? revision.content.markdown : ''
+        },
+        updatedAt: new Date().toISOString()
+      })
+      onClose()
+    } catch (err) {
+      console.error('Failed to restore revision:', err)
+      alert('Failed to restore this version')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const formatTime = (iso: string) => new Date(iso).toLocaleString()
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Version History</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{card.title || 'Untitled Note'}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <FaTimes size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-56 flex-none border-r border-gray-200 dark:border-gray-700 overflow-y-auto">
+            {loading ? (
+              <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+            ) : error ? (
+              <p className="p-4 text-sm text-red-600 dark:text-red-400">Failed to load history</p>
+            ) : revisions.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500 dark:text-gray-400">
+                No earlier versions yet. Versions are saved automatically as you edit.
+              </p>
+            ) : (
+              revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-3 py-2 text-sm border-b border-gray-100 dark:border-gray-700/50 ${
+                    selectedRevision?.id === revision.id
+                      ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <div>{formatTime(revision.createdAt)}</div>
+                  {revision.title && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{revision.title}</div>
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0">
+            {selectedRevision && (
+              <>
+                <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300">
+                  <span>Compare with</span>
+                  <select
+                    value={compareId}
+                    onChange={(e) => setCompareId(e.target.value)}
+                    className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+                  >
+                    <option value={CURRENT_VERSION}>Current version</option>
+                    {revisions.filter(r => r.id !== selectedRevision.id).map(r => (
+                      <option key={r.id} value={r.id}>{formatTime(r.createdAt)}</option>
+                    ))}
+                  </select>
+                  <div className="flex-1" />
+                  <button
+                    onClick={() => handleRestore(selectedRevision)}
+                    disabled={restoring}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors duration-150 disabled:opacity-50"
+                  >
+                    <FaUndo size={12} />
+                    Restore this version
+                  </button>
+                </div>
+                <div className="flex-1 overflow-auto font-mono text-xs py-2">
+                  {diff.length === 0 ? (
+                    <p className="px-4 text-gray-500 dark:text-gray-400">Both versions are empty</p>
+                  ) : (
+                    diff.map((line, index) => (
+                      <div
+                        key={index}
+                        className={`px-4 whitespace-pre-wrap break-words ${
+                          line.type === 'added'
+                            ? 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+                            : line.type === 'removed'
+                              ? 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-300'
+                              : 'text-gray-700 dark:text-gray-300'
+                        }`}
+                      >
+                        {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
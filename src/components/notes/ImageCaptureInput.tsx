@@ -2,6 +2,8 @@ import React, { useRef, useState } from 'react'
 import { FaCamera, FaSpinner } from 'react-icons/fa'
 import { imageToMarkdown } from '../../api/imageToMarkdown'
 import { UserSettings } from '../../types/settings'
+import type { TokenUsage } from '../../types'
+import type { ModelId } from '../../api/llm'
 import { useIsMobile } from '../../hooks/useIsMobile'
 
 /** Props for the ImageCaptureInput component */
@@ -10,6 +12,8 @@ interface ImageCaptureInputProps {
     userSettings: UserSettings
     /** Callback when markdown is extracted from an image */
     onMarkdownExtracted: (markdown: string) => void
+    /** Called with the tokens used to convert the image to markdown */
+    onUsage?: (usage: TokenUsage, modelId: ModelId) => void
     /** Optional callback for errors */
     onError?: (error: string) => void
     /** Optional class name for the button */
@@ -25,6 +29,7 @@ interface ImageCaptureInputProps {
 export function ImageCaptureInput({
     userSettings,
     onMarkdownExtracted,
+    onUsage,
     onError,
     className = '',
     iconSize = 16
@@ -64,7 +69,7 @@ export function ImageCaptureInput({
         setIsProcessing(true)
         try {
             const base64 = await fileToBase64(file)
-            const markdown = await imageToMarkdown(base64, userSettings)
+            const markdown = await imageToMarkdown(base64, userSettings, onUsage)
             onMarkdownExtracted(markdown)
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Failed to process image'
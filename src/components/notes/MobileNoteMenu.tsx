@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
 import { Card, RichTextCard } from '../../types'
+import type { Store } from '../../Store'
 import { SearchModal } from '../search/SearchModal'
 import { getCardTitle } from '../../modules/cards'
 
@@ -17,10 +18,12 @@ interface MobileNoteMenuProps {
   onCardSelect: (cardId: string) => void
   /** Callback to create a new card */
   onCreateCard: () => void
+  /** The data store instance */
+  store: Store
 }
 
 /** Mobile slide-out menu for note navigation */
-export function MobileNoteMenu({ isOpen, onClose, cards, selectedCardId, onCardSelect, onCreateCard }: MobileNoteMenuProps) {
+export function MobileNoteMenu({ isOpen, onClose, cards, selectedCardId, onCardSelect, onCreateCard, store }: MobileNoteMenuProps) {
   const [isSearchOpen, setIsSearchOpen] = useState(false)
   
   // Sort cards by updated date, newest first
@@ -109,6 +112,7 @@ export function MobileNoteMenu({ isOpen, onClose, cards, selectedCardId, onCardS
         onClose={() => setIsSearchOpen(false)}
         cards={cards}
         onCardSelect={handleCardSelect}
+        store={store}
       />
     </>
   )
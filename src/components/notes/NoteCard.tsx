@@ -1,12 +1,20 @@
-import React, { useState, useRef, useEffect, forwardRef } from 'react'
+import React, { useState, useRef, useEffect, useMemo, useCallback, forwardRef } from 'react'
 import { RichTextEditor } from '../../RichTextEditor'
-import { Card, RichTextCard } from '../../types'
+import { Card, RichTextCard, TokenUsage } from '../../types'
 import MarkdownIt from 'markdown-it'
-import { FaTrash, FaExpandAlt, FaCompressAlt, FaEllipsisV, FaMarkdown, FaCopy, FaFileAlt } from 'react-icons/fa'
+import { FaTrash, FaExpandAlt, FaCompressAlt, FaEllipsisV, FaMarkdown, FaCopy, FaFileAlt, FaHistory, FaTag, FaTimes } from 'react-icons/fa'
 import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react'
 import { UserSettings } from '../../types/settings'
 import { useIsMobile } from '../../hooks/useIsMobile'
 import { AddContentButton } from './AddContentButton'
+import { CardHistoryModal } from './CardHistoryModal'
+import type { Store } from '../../Store'
+import { useNoteNavigation } from './NoteNavigationContext'
+import { findCardByTitle, getBacklinks, getLinkTitle } from '../../modules/wikilinks'
+import { getCardTitle } from '../../modules/cards'
+import { normalizeTag } from '../../modules/tags'
+import { createUsageRecord } from '../../modules/usage'
+import type { ModelId } from '../../api/llm'
 
 /** Props for the NoteCardHeader component */
 interface NoteCardHeaderProps {
@@ -14,8 +22,12 @@ interface NoteCardHeaderProps {
   card: RichTextCard
   /** Callback when the title is updated */
   onUpdateTitle: (title: string) => void
+  /** Callback when the assigned tags are updated */
+  onUpdateTags: (tags: string[]) => void
   /** Callback when the card is deleted */
   onDelete: () => void
+  /** Callback to open the card's version history */
+  onShowHistory: () => void
   /** Whether markdown mode is enabled */
   isMarkdownMode: boolean
   /** Callback when markdown mode is toggled */
@@ -30,6 +42,8 @@ interface NoteCardHeaderProps {
   extraControls?: React.ReactNode
   /** User settings */
   userSettings: UserSettings
+  /** Called with the tokens used to convert an image to markdown */
+  onImageUsage?: (usage: TokenUsage, modelId: ModelId) => void
   /** Whether to show voice input in header */
   showVoiceInHeader?: boolean
   /** Callback when voice input provides transcription */
@@ -44,7 +58,9 @@ interface NoteCardHeaderProps {
 function NoteCardHeader({ 
   card, 
   onUpdateTitle, 
+  onUpdateTags,
   onDelete, 
+  onShowHistory,
   isMarkdownMode, 
   onMarkdownModeChange, 
   alwaysShowActions,
@@ -52,6 +68,7 @@ function NoteCardHeader({
   extraStartControls,
   extraControls,
   userSettings,
+  onImageUsage,
   showVoiceInHeader,
   onVoiceTranscription,
   showAllNotes,
@@ -170,11 +187,17 @@ function NoteCardHeader({
           </h3>
         )}
       </div>
+      <NoteTagEditor
+        tags={card.tags ?? []}
+        onChange={onUpdateTags}
+        className="mx-2"
+      />
       <div className={`flex items-center gap-2 ${!alwaysShowActions ? 'opacity-0 group-hover:opacity-100 transition-opacity duration-150' : ''}`}>
         {extraControls}
         {showVoiceInHeader && onVoiceTranscription && (
           <AddContentButton
             userSettings={userSettings}
+            onImageUsage={onImageUsage}
             onTranscription={onVoiceTranscription}
             onImageMarkdown={onVoiceTranscription}
             iconSize={16}
@@ -225,6 +248,15 @@ function NoteCardHeader({
                 Copy as formatted text
               </button>
             </MenuItem>
+            <MenuItem>
+              <button
+                onClick={onShowHistory}
+                className="w-full px-2 py-1 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap data-[focus]:bg-gray-100 dark:data-[focus]:bg-gray-700"
+              >
+                <FaHistory size={14} />
+                Version history
+              </button>
+            </MenuItem>
             <MenuItem>
               <button
                 onClick={onDelete}
@@ -253,8 +285,14 @@ interface NoteCardBodyProps {
   className?: string
   /** User settings */
   userSettings: UserSettings
+  /** Called with the tokens used to convert an image to markdown */
+  onImageUsage?: (usage: TokenUsage, modelId: ModelId) => void
   /** Whether this is single view mode */
   isSingleView: boolean
+  /** Note titles offered when typing a [[wikilink]] */
+  wikiLinkTitles?: string[]
+  /** Called when a [[wikilink]] is clicked */
+  onWikiLinkClick?: (title: string) => void
 }
 
 /** Body component for a note card containing the rich text editor */
@@ -264,7 +302,10 @@ function NoteCardBody({
   isMarkdownMode, 
   className = '', 
   userSettings,
-  isSingleView
+  onImageUsage,
+  isSingleView,
+  wikiLinkTitles,
+  onWikiLinkClick
 }: NoteCardBodyProps) {
   const isMobile = useIsMobile()
   const showVoiceInEditor = !isMobile || !isSingleView
@@ -291,8 +332,11 @@ function NoteCardBody({
           onChange={onChange}
           placeholder="Start typing..."
           userSettings={userSettings}
+          onImageUsage={onImageUsage}
           showVoiceInput={showVoiceInEditor}
           onVoiceTranscription={handleVoiceTranscription}
+          wikiLinkTitles={wikiLinkTitles}
+          onWikiLinkClick={onWikiLinkClick}
         />
       )}
     </div>
@@ -309,6 +353,8 @@ interface NoteCardProps {
   onUpdateCard: (content: string) => void
   /** Callback when the card title is updated */
   onUpdateCardTitle: (title: string) => void
+  /** Callback when the card's assigned tags are updated */
+  onUpdateCardTags: (tags: string[]) => void
   /** Callback when the card is deleted */
   onDelete: () => void
   /** Optional class name for styling */
@@ -329,6 +375,8 @@ interface NoteCardProps {
   onCreateCard?: () => void
   /** Callback when a different card is selected */
   onCardSelect?: (cardId: string) => void
+  /** The data store instance */
+  store: Store
 }
 
 /** A component that renders a note card in either single or multi view mode */
@@ -337,6 +385,7 @@ export const NoteCard = forwardRef<HTMLDivElement, NoteCardProps>(({
   isSingleView = false, 
   onUpdateCard, 
   onUpdateCardTitle, 
+  onUpdateCardTags,
   onDelete, 
   className = '',
   extraStartControls,
@@ -344,10 +393,37 @@ export const NoteCard = forwardRef<HTMLDivElement, NoteCardProps>(({
   userSettings,
   showAllNotes,
   onShowAllNotesChange,
+  store,
 }, ref) => {
   const [isMarkdownMode, setIsMarkdownMode] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
   const isMobile = useIsMobile()
   const showVoiceInHeader = isMobile && isSingleView
+  const navigation = useNoteNavigation()
+  const linkableCards = navigation?.cards ?? []
+
+  // Empty notes have no title worth linking to
+  const wikiLinkTitles = useMemo(() => linkableCards
+    .filter(c => c.id !== card.id && c.type === 'richtext' && (c.title || c.content.markdown.trim()))
+    .map(getLinkTitle), [linkableCards, card.id])
+
+  const backlinks = useMemo(() => getBacklinks(linkableCards, card), [linkableCards, card])
+
+  const handleWikiLinkClick = (title: string) => {
+    const target = findCardByTitle(linkableCards, title, card.boardId)
+    if (target) {
+      navigation?.openCard(target)
+    } else {
+      alert(`No note titled "${title}"`)
+    }
+  }
+
+  /** Records the tokens used to convert images to markdown so spend can be tracked */
+  const recordImageUsage = useCallback((usage: TokenUsage, modelId: ModelId) => {
+    store.addUsageRecord(createUsageRecord(usage, modelId, 'image', card.boardId)).catch(err => {
+      console.error('Failed to record usage:', err)
+    })
+  }, [store, card.boardId])
 
   const handleVoiceTranscription = (text: string) => {
     const newContent = card.content.markdown.trim() 
@@ -366,13 +442,16 @@ export const NoteCard = forwardRef<HTMLDivElement, NoteCardProps>(({
           <NoteCardHeader
             card={card}
             onUpdateTitle={onUpdateCardTitle}
+            onUpdateTags={onUpdateCardTags}
             onDelete={onDelete}
+            onShowHistory={() => setIsHistoryOpen(true)}
             isMarkdownMode={isMarkdownMode}
             onMarkdownModeChange={setIsMarkdownMode}
             alwaysShowActions={true}
             extraStartControls={extraStartControls}
             extraControls={extraControls}
             userSettings={userSettings}
+            onImageUsage={recordImageUsage}
             showVoiceInHeader={showVoiceInHeader}
             onVoiceTranscription={handleVoiceTranscription}
             showAllNotes={showAllNotes}
@@ -395,9 +474,22 @@ export const NoteCard = forwardRef<HTMLDivElement, NoteCardProps>(({
             onChange={onUpdateCard}
             isMarkdownMode={isMarkdownMode}
             userSettings={userSettings}
+            onImageUsage={recordImageUsage}
             isSingleView={isSingleView}
+            wikiLinkTitles={wikiLinkTitles}
+            onWikiLinkClick={handleWikiLinkClick}
+          />
+          <NoteBacklinks
+            backlinks={backlinks}
+            onOpen={target => navigation?.openCard(target)}
           />
         </div>
+        <CardHistoryModal
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          store={store}
+          card={card}
+        />
       </div>
     )
   }
@@ -412,13 +504,16 @@ export const NoteCard = forwardRef<HTMLDivElement, NoteCardProps>(({
           <NoteCardHeader
             card={card}
             onUpdateTitle={onUpdateCardTitle}
+            onUpdateTags={onUpdateCardTags}
             onDelete={onDelete}
+            onShowHistory={() => setIsHistoryOpen(true)}
             isMarkdownMode={isMarkdownMode}
             onMarkdownModeChange={setIsMarkdownMode}
             alwaysShowActions={false}
             extraStartControls={extraStartControls}
             extraControls={extraControls}
             userSettings={userSettings}
+            onImageUsage={recordImageUsage}
             showVoiceInHeader={showVoiceInHeader}
             onVoiceTranscription={handleVoiceTranscription}
             showAllNotes={showAllNotes}
@@ -431,13 +526,140 @@ export const NoteCard = forwardRef<HTMLDivElement, NoteCardProps>(({
           isMarkdownMode={isMarkdownMode}
           className="px-4 py-3 flex-1"
           userSettings={userSettings}
+          onImageUsage={recordImageUsage}
           isSingleView={isSingleView}
+          wikiLinkTitles={wikiLinkTitles}
+          onWikiLinkClick={handleWikiLinkClick}
+        />
+        <NoteBacklinks
+          backlinks={backlinks}
+          onOpen={target => navigation?.openCard(target)}
+          className="px-4 pb-3"
         />
       </div>
+      <CardHistoryModal
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        store={store}
+        card={card}
+      />
     </div>
   )
 }) 
 
+/** Props for the NoteTagEditor component */
+interface NoteTagEditorProps {
+  /** Tags assigned to the card */
+  tags: string[]
+  /** Callback when tags are added or removed */
+  onChange: (tags: string[]) => void
+  /** Optional class name for styling */
+  className?: string
+}
+
+/** Chips for a card's assigned tags with an input to add more */
+function NoteTagEditor({ tags, onChange, className = '' }: NoteTagEditorProps) {
+  const [isAdding, setIsAdding] = useState(false)
+  const [newTag, setNewTag] = useState('')
+
+  const handleAdd = () => {
+    const tag = normalizeTag(newTag)
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag])
+    }
+    setNewTag('')
+    setIsAdding(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleAdd()
+    } else if (e.key === 'Escape') {
+      setNewTag('')
+      setIsAdding(false)
+    }
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 ${className}`}>
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded
+                   bg-purple-50 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300"
+        >
+          #{tag}
+          <button
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            className="text-purple-400 hover:text-purple-700 dark:text-purple-500 dark:hover:text-purple-200"
+            title={`Remove #${tag}`}
+          >
+            <FaTimes size={8} />
+          </button>
+        </span>
+      ))}
+      {isAdding ? (
+        <input
+          autoFocus
+          type="text"
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onBlur={handleAdd}
+          onKeyDown={handleKeyDown}
+          placeholder="tag"
+          className="w-20 px-1 py-0.5 text-xs bg-white dark:bg-gray-800 border border-purple-400 rounded
+                   text-gray-900 dark:text-gray-100 focus:outline-none"
+        />
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="p-1 rounded text-gray-400 hover:text-purple-500 dark:text-gray-500 dark:hover:text-purple-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="Add tag"
+        >
+          <FaTag size={10} />
+        </button>
+      )}
+    </div>
+  )
+}
+
+/** Props for the NoteBacklinks component */
+interface NoteBacklinksProps {
+  /** Cards that link to the note */
+  backlinks: Card[]
+  /** Callback when a linking card is clicked */
+  onOpen: (card: Card) => void
+  /** Optional class name for styling */
+  className?: string
+}
+
+/** Lists the notes that link to a note with [[wikilinks]] */
+function NoteBacklinks({ backlinks, onOpen, className = '' }: NoteBacklinksProps) {
+  if (backlinks.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={`mt-2 pt-2 border-t border-gray-100 dark:border-gray-700 ${className}`}>
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+        Linked from
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {backlinks.map(backlink => (
+          <button
+            key={backlink.id}
+            onClick={() => onOpen(backlink)}
+            className="px-2 py-0.5 text-xs rounded bg-gray-100 text-blue-600 hover:bg-blue-50
+                     dark:bg-gray-700 dark:text-blue-400 dark:hover:bg-blue-900/30"
+          >
+            {getCardTitle(backlink)}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
 /** Simple markdown editor component */
 function MarkdownEditor({ content, onChange, placeholder }: { 
   content: string
@@ -1,8 +1,10 @@
-import React, { useState, useCallback, KeyboardEvent } from 'react'
+import React, { useState, useCallback, useMemo, KeyboardEvent } from 'react'
 import type { RichTextCard, ViewMode } from '../../types'
+import type { Store } from '../../Store'
 import { DesktopViewControls } from '../view-controls/DesktopViewControls'
 import { SearchModal } from '../search/SearchModal'
 import { getCardTitle } from '../../modules/cards'
+import { getAllTags, getCardTags, cardMatchesTagFilter, UNTAGGED_FILTER } from '../../modules/tags'
 
 /** Props for the ListPanel component */
 interface ListPanelProps {
@@ -28,6 +30,8 @@ interface ListPanelProps {
   showAllNotes: boolean
   /** Callback when show all notes changes */
   onShowAllNotesChange: (show: boolean) => void
+  /** The data store instance */
+  store: Store
 }
 
 /** A panel component that displays a list of cards with controls */
@@ -42,14 +46,23 @@ export function ListPanel({
   viewMode,
   onViewModeChange,
   showAllNotes,
-  onShowAllNotesChange
+  onShowAllNotesChange,
+  store
 }: ListPanelProps) {
   const [isSearchOpen, setIsSearchOpen] = useState(false)
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+
+  const allTags = useMemo(() => getAllTags(cards), [cards])
+
+  // Clear the filter when its tag is no longer used
+  const activeTagFilter = tagFilter && tagFilter !== UNTAGGED_FILTER && !allTags.includes(tagFilter) ? null : tagFilter
   
   // Sort cards by creation date, newest first
-  const sortedCards = [...cards].sort((a, b) => 
-    new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-  )
+  const sortedCards = cards
+    .filter(card => cardMatchesTagFilter(card, activeTagFilter))
+    .sort((a, b) => 
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    )
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (!isExpanded) return
@@ -145,6 +158,13 @@ export function ListPanel({
           </div>
         )}
       </div>
+      {isExpanded && allTags.length > 0 && (
+        <TagFilterSelect
+          tags={allTags}
+          value={activeTagFilter}
+          onChange={setTagFilter}
+        />
+      )}
       {isExpanded && (
         <div 
           className="flex-1 overflow-auto outline-none
@@ -179,11 +199,44 @@ export function ListPanel({
         onClose={() => setIsSearchOpen(false)}
         cards={cards}
         onCardSelect={onCardSelect}
+        store={store}
       />
     </div>
   )
 } 
 
+/** Props for the TagFilterSelect component */
+interface TagFilterSelectProps {
+  /** Tags used on the board */
+  tags: string[]
+  /** The active filter: a tag, UNTAGGED_FILTER, or null for all notes */
+  value: string | null
+  /** Callback when the filter changes */
+  onChange: (value: string | null) => void
+}
+
+/** Dropdown to filter the note list by tag */
+function TagFilterSelect({ tags, value, onChange }: TagFilterSelectProps) {
+  return (
+    <div className="px-2 py-1.5 border-b border-gray-200 dark:border-gray-700">
+      <select
+        value={value ?? ''}
+        onChange={e => onChange(e.target.value || null)}
+        className="w-full px-1.5 py-1 text-xs rounded border border-gray-200 dark:border-gray-600
+                 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300
+                 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        aria-label="Filter notes by tag"
+      >
+        <option value="">All notes</option>
+        <option value={UNTAGGED_FILTER}>Untagged</option>
+        {tags.map(tag => (
+          <option key={tag} value={tag}>#{tag}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
 interface CardListItemProps {
   /** The card to display */
   card: RichTextCard
@@ -197,6 +250,8 @@ interface CardListItemProps {
 function CardListItem({ card, isSelected, onClick }: CardListItemProps) {
   if (card.type !== 'richtext') return null
 
+  const tags = getCardTags(card)
+
   return (
     <div
       onClick={onClick}
@@ -208,6 +263,18 @@ function CardListItem({ card, isSelected, onClick }: CardListItemProps) {
       <div className="text-sm text-gray-800 dark:text-gray-200 line-clamp-2 overflow-hidden">
         {getCardTitle(card) || <span className="text-gray-400 dark:text-gray-500">—</span>}
       </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {tags.map(tag => (
+            <span
+              key={tag}
+              className="px-1 text-[10px] rounded bg-purple-50 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300"
+            >
+              #{tag}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
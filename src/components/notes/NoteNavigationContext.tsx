@@ -0,0 +1,49 @@
+import React, { createContext, useContext } from 'react'
+import type { Card } from '../../types'
+
+/** A saved chat that has been requested to open, such as from search */
+export interface PendingChat {
+  /** ID of the chat */
+  chatId: string
+  /** Board the chat belongs to */
+  boardId: string
+}
+
+/** Lets notes link to and open other notes, including ones on other boards */
+export interface NoteNavigation {
+  /** Cards across all boards that can be linked to */
+  cards: Card[]
+  /** Opens a card, switching boards if needed */
+  openCard: (card: Card) => void
+  /** Chat waiting to be opened by its board's chat system */
+  pendingChat?: PendingChat | null
+  /** Called by the chat system once it has opened the pending chat */
+  clearPendingChat?: () => void
+}
+
+const NoteNavigationContext = createContext<NoteNavigation | null>(null)
+
+/**
+ * Hook to access note navigation
+ * @returns The navigation, or null when rendered outside a NoteNavigationProvider
+ */
+export function useNoteNavigation(): NoteNavigation | null {
+  return useContext(NoteNavigationContext)
+}
+
+/** Props for the NoteNavigationProvider component */
+interface NoteNavigationProviderProps extends NoteNavigation {
+  children: React.ReactNode
+}
+
+/**
+ * Provides note navigation to wikilinks, backlinks and search. Providers can be
+ * nested, such as a board handling its own cards and delegating others to the tabs view.
+ */
+export function NoteNavigationProvider({ children, ...navigation }: NoteNavigationProviderProps) {
+  return (
+    <NoteNavigationContext.Provider value={navigation}>
+      {children}
+    </NoteNavigationContext.Provider>
+  )
+}
@@ -17,6 +17,8 @@ interface NotesPanelProps {
   onUpdateCard: (cardId: string, content: string) => void
   /** Callback when a card's title is updated */
   onUpdateCardTitle: (cardId: string, title: string) => void
+  /** Callback when a card's assigned tags are updated */
+  onUpdateCardTags: (cardId: string, tags: string[]) => void
   /** Callback when a card is deleted */
   onDelete: (cardId: string) => void
   /** Whether to show all notes */
@@ -37,6 +39,7 @@ export function NotesPanel({
   selectedCard, 
   onUpdateCard, 
   onUpdateCardTitle, 
+  onUpdateCardTags,
   onDelete, 
   showAllNotes,
   onShowAllNotesChange,
@@ -113,6 +116,7 @@ export function NotesPanel({
           isSingleView={singleView}
           onUpdateCard={(content) => onUpdateCard(card.id, content)}
           onUpdateCardTitle={(title) => onUpdateCardTitle(card.id, title)}
+          onUpdateCardTags={(tags) => onUpdateCardTags(card.id, tags)}
           onDelete={() => onDelete(card.id)}
           ref={(el) => cardRefs.current[card.id] = el}
           userSettings={userSettings}
@@ -125,6 +129,7 @@ export function NotesPanel({
           allCards={cards}
           onCreateCard={onCreateCard}
           onCardSelect={onCardSelect}
+          store={store}
         />
       )
     }
@@ -140,6 +145,7 @@ export function NotesPanel({
           cards={cards}
           selectedCardId={selectedCard?.id ?? null}
           onCardSelect={onCardSelect}
+          store={store}
           onCreateCard={onCreateCard}
         />
       )}
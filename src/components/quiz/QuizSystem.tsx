@@ -1,6 +1,6 @@
-import React from 'react'
+import React, { useCallback } from 'react'
 import type { Store } from '../../Store'
-import type { Card, RichTextCard, ViewMode } from '../../types'
+import type { Card, RichTextCard, TokenUsage, ViewMode } from '../../types'
 import { useQuiz } from '../../hooks/useQuiz'
 import { useUserSettings } from '../../hooks/useSettings'
 import type { ModelId } from '../../api/llm'
@@ -8,6 +8,7 @@ import { QuizSetup } from './QuizSetup'
 import { QuizActive } from './QuizActive'
 import { QuizFeedback } from './QuizFeedback'
 import { QuizSummary } from './QuizSummary'
+import { createUsageRecord } from '../../modules/usage'
 
 /**
  * Props for the QuizSystem component
@@ -46,6 +47,13 @@ export function QuizSystem({
 
   const richTextCards = cards.filter((c): c is RichTextCard => c.type === 'richtext')
 
+  /** Records the tokens used by each quiz request so spend can be tracked */
+  const recordUsage = useCallback((usage: TokenUsage, modelId: ModelId) => {
+    store.addUsageRecord(createUsageRecord(usage, modelId, 'quiz', boardId)).catch(err => {
+      console.error('Failed to record usage:', err)
+    })
+  }, [store, boardId])
+
   const {
     state,
     startQuiz,
@@ -59,7 +67,8 @@ export function QuizSystem({
     cards: richTextCards,
     selectedCard,
     userSettings,
-    modelId: QUIZ_MODEL
+    modelId: QUIZ_MODEL,
+    onUsage: recordUsage
   })
 
   // Calculate stats for feedback view
@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react'
+import { FaTimes, FaFileAlt, FaComments } from 'react-icons/fa'
+import type { Board } from '../../types'
+import type { SearchIndex, SearchResult } from '../../modules/search/SearchIndex'
+
+/** Maximum number of results shown */
+const MAX_RESULTS = 50
+
+/** Props for the GlobalSearchModal component */
+interface GlobalSearchModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean
+  /** Callback when the modal is closed */
+  onClose: () => void
+  /** Index of every board's cards and chats. Null while it is being created */
+  index: SearchIndex | null
+  /** Changes whenever the index is updated, so results stay current */
+  indexVersion: number
+  /** All boards, for showing where each result lives */
+  boards: Board[]
+  /** Callback when a result is chosen */
+  onSelectResult: (result: SearchResult) => void
+}
+
+/**
+ * A modal for searching notes and saved chats across every board.
+ * Supports prefix matching and "quoted phrases".
+ */
+export function GlobalSearchModal({ isOpen, onClose, index, indexVersion, boards, onSelectResult }: GlobalSearchModalProps) {
+  const [searchQuery, setSearchQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // Focus input when modal opens
+  useEffect(() => {
+    if (isOpen && inputRef.current) {
+      inputRef.current.focus()
+      inputRef.current.select()
+    }
+  }, [isOpen])
+
+  const results = useMemo(
+    () => index && searchQuery.trim() ? index.search(searchQuery, { limit: MAX_RESULTS }) : [],
+    [index, indexVersion, searchQuery]
+  )
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [searchQuery])
+
+  if (!isOpen) return null
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose()
+    }
+  }
+
+  const handleSelect = (result: SearchResult) => {
+    onSelectResult(result)
+    onClose()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose()
+    } else if (e.key === 'ArrowDown' && results.length > 0) {
+      e.preventDefault()
+      setActiveIndex((activeIndex + 1) % results.length)
+    } else if (e.key === 'ArrowUp' && results.length > 0) {
+      e.preventDefault()
+      setActiveIndex((activeIndex - 1 + results.length) % results.length)
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      handleSelect(results[activeIndex])
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-start justify-center pt-[10vh] z-50"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-[640px] max-w-[95vw]">
+        {/* Header with search input */}
+        <div className="flex items-center p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex-1 flex items-center">
+            <svg
+              className="w-5 h-5 text-gray-400 dark:text-gray-500 mr-3"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+              />
+            </svg>
+            <input
+              ref={inputRef}
+              type="text"
+              value={searchQuery}
+              onChange={e => setSearchQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder='Search all boards... use "quotes" for phrases'
+              className="w-full bg-transparent border-none outline-none focus:outline-none focus:ring-0 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500"
+            />
+          </div>
+          <button
+            onClick={onClose}
+            className="ml-4 text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <FaTimes size={20} />
+          </button>
+        </div>
+
+        {/* Results */}
+        <div className="max-h-[60vh] overflow-y-auto
+                       [scrollbar-width:thin]
+                       [scrollbar-color:rgba(148,163,184,0.2)_transparent]
+                       dark:[scrollbar-color:rgba(148,163,184,0.15)_transparent]
+                       [::-webkit-scrollbar]:w-1.5
+                       [::-webkit-scrollbar-thumb]:rounded-full
+                       [::-webkit-scrollbar-thumb]:bg-slate-300/50
+                       hover:[::-webkit-scrollbar-thumb]:bg-slate-400/50
+                       dark:[::-webkit-scrollbar-thumb]:bg-slate-500/25
+                       dark:hover:[::-webkit-scrollbar-thumb]:bg-slate-400/25
+                       [::-webkit-scrollbar-track]:bg-transparent">
+          {!index ? (
+            <div className="p-4 text-center text-gray-500 dark:text-gray-400">
+              Building search index...
+            </div>
+          ) : results.length > 0 ? (
+            results.map((result, i) => (
+              <SearchResultItem
+                key={`${result.document.kind}:${result.document.id}`}
+                result={result}
+                boardTitle={boards.find(b => b.id === result.document.boardId)?.title ?? 'Unknown board'}
+                isActive={i === activeIndex}
+                onClick={() => handleSelect(result)}
+                onMouseEnter={() => setActiveIndex(i)}
+              />
+            ))
+          ) : searchQuery.trim() ? (
+            <div className="p-4 text-center text-gray-500 dark:text-gray-400">
+              No results found
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/** Props for the SearchResultItem component */
+interface SearchResultItemProps {
+  /** The result to display */
+  result: SearchResult
+  /** Title of the board the result belongs to */
+  boardTitle: string
+  /** Whether the result is highlighted for keyboard selection */
+  isActive: boolean
+  /** Callback when the result is clicked */
+  onClick: () => void
+  /** Callback when the mouse moves over the result */
+  onMouseEnter: () => void
+}
+
+/** A single search result with highlighted matches */
+function SearchResultItem({ result, boardTitle, isActive, onClick, onMouseEnter }: SearchResultItemProps) {
+  const { document, titleHighlights, snippet } = result
+
+  return (
+    <button
+      onClick={onClick}
+      onMouseEnter={onMouseEnter}
+      className={`w-full text-left p-4 border-b border-gray-200 dark:border-gray-700
+        ${isActive ? 'bg-gray-50 dark:bg-gray-700' : ''}`}
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-gray-400 dark:text-gray-500">
+          {document.kind === 'card' ? <FaFileAlt size={12} /> : <FaComments size={12} />}
+        </span>
+        <span className="flex-1 text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+          <HighlightedText text={document.title} highlights={titleHighlights} />
+        </span>
+        <span className="text-xs text-gray-400 dark:text-gray-500 truncate max-w-[30%]">
+          {boardTitle}
+        </span>
+      </div>
+      {snippet.text && (
+        <div className="text-sm text-gray-500 dark:text-gray-400 line-clamp-2">
+          <HighlightedText text={snippet.text} highlights={snippet.highlights} />
+        </div>
+      )}
+    </button>
+  )
+}
+
+/** Renders text with some ranges marked */
+function HighlightedText({ text, highlights }: { text: string, highlights: { start: number, end: number }[] }) {
+  const parts: React.ReactNode[] = []
+  let position = 0
+  highlights.forEach(({ start, end }, i) => {
+    parts.push(text.slice(position, start))
+    parts.push(
+      <mark key={i} className="bg-yellow-200 text-gray-900 dark:bg-yellow-500/40 dark:text-gray-100 rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    )
+    position = end
+  })
+  parts.push(text.slice(position))
+  return <>{parts}</>
+}
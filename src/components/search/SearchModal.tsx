@@ -1,7 +1,21 @@
-import React, { useState, useEffect, useRef } from 'react'
-import { FaTimes } from 'react-icons/fa'
+import React, { useState, useEffect, useRef, useMemo } from 'react'
+import { FaTimes, FaStar, FaRegStar } from 'react-icons/fa'
+import { v4 as uuidv4 } from 'uuid'
 import type { Card } from '../../types'
+import type { Store } from '../../Store'
+import type { SavedSearch } from '../../types/settings'
+import { useBoards } from '../../Store'
+import { useUserSettings } from '../../hooks/useSettings'
 import { getCardSearchableContent } from '../../modules/cards'
+import {
+  parseCardQuery,
+  matchesCardQuery,
+  queryHasBoardFilter,
+  QueryParseError,
+  QUERY_SYNTAX_HELP,
+  type CardQuery
+} from '../../modules/search/query'
+import { useNoteNavigation } from '../notes/NoteNavigationContext'
 
 /** Props for the SearchModal component */
 interface SearchModalProps {
@@ -13,13 +27,22 @@ interface SearchModalProps {
   cards: Card[]
   /** Callback when a card is selected */
   onCardSelect: (cardId: string) => void
+  /** The data store instance, for saved searches and board names */
+  store: Store
 }
 
-/** A modal component for searching through notes */
-export function SearchModal({ isOpen, onClose, cards, onCardSelect }: SearchModalProps) {
+/**
+ * A modal component for searching through notes. Understands filters such as
+ * title:, tag:, updated:>2026-01-01, -exclude and "exact phrase". Searches the
+ * current board unless the query has a board: filter.
+ */
+export function SearchModal({ isOpen, onClose, cards, onCardSelect, store }: SearchModalProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const inputRef = useRef<HTMLInputElement>(null)
-  const [results, setResults] = useState<Card[]>([])
+  const { boards } = useBoards(store)
+  const { settings: userSettings, setField: setUserField } = useUserSettings(store)
+  const navigation = useNoteNavigation()
+  const savedSearches = userSettings.savedSearches ?? []
 
   // Focus input when modal opens
   useEffect(() => {
@@ -28,22 +51,24 @@ export function SearchModal({ isOpen, onClose, cards, onCardSelect }: SearchModa
     }
   }, [isOpen])
 
-  // Search through cards as user types
-  useEffect(() => {
-    if (!searchQuery.trim()) {
-      setResults([])
-      return
+  const parsed = useMemo((): { query: CardQuery | null, error: QueryParseError | null } => {
+    try {
+      return { query: parseCardQuery(searchQuery), error: null }
+    } catch (err) {
+      if (err instanceof QueryParseError) {
+        return { query: null, error: err }
+      }
+      throw err
     }
+  }, [searchQuery])
 
-    const query = searchQuery.toLowerCase()
-    const matchingCards = cards.filter(card => {
-      const title = card.title?.toLowerCase() || ''
-      const content = getCardSearchableContent(card).toLowerCase()
-      return title.includes(query) || content.includes(query)
-    })
+  const isCrossBoard = !!parsed.query && queryHasBoardFilter(parsed.query)
 
-    setResults(matchingCards)
-  }, [searchQuery, cards])
+  const results = useMemo(() => {
+    if (!parsed.query || parsed.query.clauses.length === 0) return []
+    const scope = isCrossBoard && navigation ? navigation.cards : cards
+    return scope.filter(card => matchesCardQuery(card, parsed.query!, { boards }))
+  }, [parsed.query, isCrossBoard, navigation, cards, boards])
 
   if (!isOpen) return null
 
@@ -53,11 +78,27 @@ export function SearchModal({ isOpen, onClose, cards, onCardSelect }: SearchModa
     }
   }
 
-  const handleCardClick = (cardId: string) => {
-    onCardSelect(cardId)
+  const handleCardClick = (card: Card) => {
+    if (cards.some(c => c.id === card.id)) {
+      onCardSelect(card.id)
+    } else {
+      navigation?.openCard(card)
+    }
     onClose()
   }
 
+  const savedSearch = savedSearches.find(s => s.query === searchQuery.trim())
+
+  const handleToggleSaved = () => {
+    if (savedSearch) {
+      setUserField('savedSearches', savedSearches.filter(s => s.id !== savedSearch.id))
+      return
+    }
+    const name = window.prompt('Name for this search', searchQuery.trim())
+    if (!name?.trim()) return
+    setUserField('savedSearches', [...savedSearches, { id: uuidv4(), name: name.trim(), query: searchQuery.trim() }])
+  }
+
   return (
     <div
       className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50"
@@ -67,17 +108,17 @@ export function SearchModal({ isOpen, onClose, cards, onCardSelect }: SearchModa
         {/* Header with search input */}
         <div className="flex items-center p-4 border-b border-gray-200 dark:border-gray-700">
           <div className="flex-1 flex items-center">
-            <svg 
-              className="w-5 h-5 text-gray-400 dark:text-gray-500 mr-3" 
-              fill="none" 
-              stroke="currentColor" 
+            <svg
+              className="w-5 h-5 text-gray-400 dark:text-gray-500 mr-3"
+              fill="none"
+              stroke="currentColor"
               viewBox="0 0 24 24"
             >
-              <path 
-                strokeLinecap="round" 
-                strokeLinejoin="round" 
-                strokeWidth={2} 
-                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" 
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
               />
             </svg>
             <input
@@ -85,10 +126,19 @@ export function SearchModal({ isOpen, onClose, cards, onCardSelect }: SearchModa
               type="text"
               value={searchQuery}
               onChange={e => setSearchQuery(e.target.value)}
-              placeholder="Search notes..."
+              placeholder="Search notes... e.g. tag:q3 updated:>2026-01-01"
               className="w-full bg-transparent border-none outline-none focus:outline-none focus:ring-0 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500"
             />
           </div>
+          {searchQuery.trim() && !parsed.error && (
+            <button
+              onClick={handleToggleSaved}
+              className="ml-4 text-gray-400 hover:text-yellow-500 dark:hover:text-yellow-400"
+              title={savedSearch ? `Remove saved search "${savedSearch.name}"` : 'Save this search'}
+            >
+              {savedSearch ? <FaStar size={18} className="text-yellow-500 dark:text-yellow-400" /> : <FaRegStar size={18} />}
+            </button>
+          )}
           <button
             onClick={onClose}
             className="ml-4 text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
@@ -97,10 +147,21 @@ export function SearchModal({ isOpen, onClose, cards, onCardSelect }: SearchModa
           </button>
         </div>
 
+        {parsed.error && (
+          <div className="px-4 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border-b border-red-100 dark:border-red-900/50">
+            {parsed.error.message}
+            {parsed.error.position < searchQuery.length && (
+              <span className="text-red-400 dark:text-red-500">
+                {' '}near <code className="font-mono">{searchQuery.slice(parsed.error.position, parsed.error.position + 20)}</code>
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Results */}
         <div className="h-[400px] overflow-y-auto
-                       [scrollbar-width:thin] 
-                       [scrollbar-color:rgba(148,163,184,0.2)_transparent] 
+                       [scrollbar-width:thin]
+                       [scrollbar-color:rgba(148,163,184,0.2)_transparent]
                        dark:[scrollbar-color:rgba(148,163,184,0.15)_transparent]
                        [::-webkit-scrollbar]:w-1.5
                        [::-webkit-scrollbar-thumb]:rounded-full
@@ -113,12 +174,17 @@ export function SearchModal({ isOpen, onClose, cards, onCardSelect }: SearchModa
             results.map(card => (
               <button
                 key={card.id}
-                onClick={() => handleCardClick(card.id)}
+                onClick={() => handleCardClick(card)}
                 className="w-full text-left p-4 hover:bg-gray-50 dark:hover:bg-gray-700 border-b border-gray-200 dark:border-gray-700"
               >
-                {card.title && (
-                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-1">
-                    {card.title}
+                {(card.title || isCrossBoard) && (
+                  <div className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100 mb-1">
+                    <span className="flex-1 truncate">{card.title}</span>
+                    {isCrossBoard && (
+                      <span className="text-xs font-normal text-gray-400 dark:text-gray-500">
+                        {boards.find(b => b.id === card.boardId)?.title}
+                      </span>
+                    )}
                   </div>
                 )}
                 <div className={`text-sm text-gray-500 dark:text-gray-400 line-clamp-2 ${!card.title ? 'text-gray-900 dark:text-gray-100' : ''}`}>
@@ -126,13 +192,63 @@ export function SearchModal({ isOpen, onClose, cards, onCardSelect }: SearchModa
                 </div>
               </button>
             ))
-          ) : searchQuery ? (
+          ) : searchQuery.trim() && !parsed.error ? (
             <div className="p-4 text-center text-gray-500 dark:text-gray-400">
               No results found
             </div>
+          ) : !searchQuery.trim() ? (
+            <SavedSearchList
+              savedSearches={savedSearches}
+              onSelect={setSearchQuery}
+              onRemove={id => setUserField('savedSearches', savedSearches.filter(s => s.id !== id))}
+            />
           ) : null}
         </div>
       </div>
     </div>
   )
-} 
\ No newline at end of file
+}
+
+/** Props for the SavedSearchList component */
+interface SavedSearchListProps {
+  /** The user's saved searches */
+  savedSearches: SavedSearch[]
+  /** Callback when a saved search is chosen, with its query */
+  onSelect: (query: string) => void
+  /** Callback to delete a saved search */
+  onRemove: (id: string) => void
+}
+
+/** Lists saved searches along with a reminder of the query syntax */
+function SavedSearchList({ savedSearches, onSelect, onRemove }: SavedSearchListProps) {
+  return (
+    <div className="p-4 space-y-4">
+      {savedSearches.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">Saved searches</div>
+          <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+            {savedSearches.map(saved => (
+              <div key={saved.id} className="flex items-center gap-2 px-3 py-2 group">
+                <button onClick={() => onSelect(saved.query)} className="flex-1 min-w-0 text-left">
+                  <div className="text-sm text-gray-900 dark:text-gray-100 truncate">{saved.name}</div>
+                  <div className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">{saved.query}</div>
+                </button>
+                <button
+                  onClick={() => onRemove(saved.id)}
+                  className="p-1 rounded text-gray-400 hover:text-red-600 dark:text-gray-500 dark:hover:text-red-400 opacity-0 group-hover:opacity-100"
+                  title="Delete saved search"
+                >
+                  <FaTimes size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="text-xs text-gray-400 dark:text-gray-500">
+        <div className="mb-1">Filters:</div>
+        <code className="font-mono whitespace-pre-wrap">{QUERY_SYNTAX_HELP}</code>
+      </div>
+    </div>
+  )
+}
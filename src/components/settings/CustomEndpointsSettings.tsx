@@ -0,0 +1,159 @@
+import React, { useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { FaSync, FaTrash } from 'react-icons/fa'
+import { fetchEndpointModels, normalizeBaseURL } from '../../api/customEndpoints'
+import type { CustomEndpoint } from '../../types/settings'
+
+/** Props for the CustomEndpointsSettings component */
+interface CustomEndpointsSettingsProps {
+  /** The configured endpoints */
+  endpoints: CustomEndpoint[]
+  /** Callback when endpoints are added, removed or their models refreshed */
+  onChange: (endpoints: CustomEndpoint[]) => void
+}
+
+/**
+ * Settings for OpenAI-compatible servers such as Ollama, llama.cpp or vLLM.
+ * The models of each server are discovered from its models list and can then
+ * be chosen in chat like any other model
+ */
+export function CustomEndpointsSettings({ endpoints, onChange }: CustomEndpointsSettingsProps) {
+  const [name, setName] = useState('')
+  const [baseURL, setBaseURL] = useState('')
+  const [apiKey, setApiKey] = useState('')
+  const [adding, setAdding] = useState(false)
+  const [refreshingId, setRefreshingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /** Adds the endpoint typed by the user, once its models have been discovered */
+  const handleAdd = async () => {
+    const url = normalizeBaseURL(baseURL)
+    if (!url) return
+
+    setAdding(true)
+    setError(null)
+    try {
+      const models = await fetchEndpointModels(url, apiKey.trim())
+      onChange([...endpoints, {
+        id: uuidv4(),
+        name: name.trim() || new URL(url).host,
+        baseURL: url,
+        apiKey: apiKey.trim(),
+        models
+      }])
+      setName('')
+      setBaseURL('')
+      setApiKey('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reach the server')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  /** Discovers the models of an endpoint again */
+  const handleRefresh = async (endpoint: CustomEndpoint) => {
+    setRefreshingId(endpoint.id)
+    setError(null)
+    try {
+      const models = await fetchEndpointModels(endpoint.baseURL, endpoint.apiKey)
+      onChange(endpoints.map(e => e.id === endpoint.id ? { ...e, models } : e))
+    } catch (err) {
+      setError(`${endpoint.name}: ${err instanceof Error ? err.message : 'Could not reach the server'}`)
+    } finally {
+      setRefreshingId(null)
+    }
+  }
+
+  /** Removes an endpoint after confirmation */
+  const handleRemove = (endpoint: CustomEndpoint) => {
+    if (!window.confirm(`Remove ${endpoint.name}? Its models will no longer be available in chat.`)) return
+    onChange(endpoints.filter(e => e.id !== endpoint.id))
+  }
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+      <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Custom Endpoints</h4>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Use local or self-hosted models through any OpenAI-compatible server, such as Ollama, llama.cpp or vLLM.
+        The server must allow requests from this site (CORS).
+      </p>
+
+      {endpoints.length > 0 && (
+        <ul className="mb-3 divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+          {endpoints.map(endpoint => (
+            <li key={endpoint.id} className="px-3 py-2">
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-gray-900 dark:text-gray-100 truncate">{endpoint.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{endpoint.baseURL}</div>
+                </div>
+                <button
+                  onClick={() => handleRefresh(endpoint)}
+                  disabled={refreshingId === endpoint.id}
+                  className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+                  title="Refresh models"
+                >
+                  <FaSync size={12} className={refreshingId === endpoint.id ? 'animate-spin' : ''} />
+                </button>
+                <button
+                  onClick={() => handleRemove(endpoint)}
+                  className="p-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                  title="Remove endpoint"
+                >
+                  <FaTrash size={12} />
+                </button>
+              </div>
+              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {endpoint.models.length > 0
+                  ? endpoint.models.join(', ')
+                  : 'No models found'}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                   bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Name, e.g. Ollama"
+        />
+        <input
+          type="text"
+          value={baseURL}
+          onChange={e => setBaseURL(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                   bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Base URL, e.g. http://localhost:11434/v1"
+        />
+        <input
+          type="text"
+          value={apiKey}
+          onChange={e => setApiKey(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                   bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="API key (optional)"
+        />
+        {error && (
+          <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+        )}
+        <button
+          onClick={handleAdd}
+          disabled={adding || !baseURL.trim()}
+          className="px-3 py-1.5 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700
+                   disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {adding ? 'Finding models...' : 'Add endpoint'}
+        </button>
+      </div>
+    </div>
+  )
+}
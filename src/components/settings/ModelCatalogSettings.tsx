@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react'
+import { FaStar, FaRegStar, FaSync } from 'react-icons/fa'
+import { getCatalogFetchedAt, type CatalogModel } from '../../api/modelCatalog'
+import { useModelCatalog } from '../../hooks/useModelCatalog'
+import { formatTokenCount } from '../../modules/tokens'
+
+/** Props for the ModelCatalogSettings component */
+interface ModelCatalogSettingsProps {
+  /** OpenRouter model IDs shown in the model selector */
+  favoriteModels: string[]
+  /** Callback when a model is added to or removed from the favorites */
+  onFavoriteModelsChange: (favoriteModels: string[]) => void
+  /** Whether an OpenRouter API key has been entered, which the favorites need */
+  hasOpenRouterKey: boolean
+}
+
+/** Maximum number of models listed at once */
+const MAX_LISTED_MODELS = 50
+
+/**
+ * Browser for OpenRouter's model catalog, in which models can be favorited
+ * to show them in the model selector
+ */
+export function ModelCatalogSettings({ favoriteModels, onFavoriteModelsChange, hasOpenRouterKey }: ModelCatalogSettingsProps) {
+  const [query, setQuery] = useState('')
+  const { models, loading, error, refresh } = useModelCatalog()
+  const fetchedAt = getCatalogFetchedAt()
+
+  // Favorites first, then the models matching the search
+  const listedModels = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+    const matches = models.filter(model => {
+      const text = `${model.name} ${model.id}`.toLowerCase()
+      return words.every(word => text.includes(word))
+    })
+    const favorites = matches.filter(model => favoriteModels.includes(model.id))
+    const others = words.length > 0 ? matches.filter(model => !favoriteModels.includes(model.id)) : []
+    return [...favorites, ...others].slice(0, MAX_LISTED_MODELS)
+  }, [models, query, favoriteModels])
+
+  /** Adds a model to the favorites, or removes it */
+  const toggleFavorite = (modelId: string) => {
+    onFavoriteModelsChange(favoriteModels.includes(modelId)
+      ? favoriteModels.filter(id => id !== modelId)
+      : [...favoriteModels, modelId])
+  }
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">OpenRouter Models</h4>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+          title="Fetch the model list again"
+        >
+          <FaSync size={10} className={loading ? 'animate-spin' : ''} />
+          {fetchedAt ? `Updated ${new Date(fetchedAt).toLocaleDateString()}` : 'Refresh'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Star models to add them to the model selector.
+        {!hasOpenRouterKey && ' Favorites need an OpenRouter API key.'}
+      </p>
+
+      <input
+        type="text"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        placeholder={`Search ${models.length > 0 ? models.length : ''} models...`}
+      />
+      {error && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {listedModels.length > 0 && (
+        <ul className="mt-2 max-h-72 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+          {listedModels.map(model => (
+            <CatalogModelRow
+              key={model.id}
+              model={model}
+              favorite={favoriteModels.includes(model.id)}
+              onToggleFavorite={() => toggleFavorite(model.id)}
+            />
+          ))}
+        </ul>
+      )}
+      {query && listedModels.length === 0 && !loading && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">No models match.</p>
+      )}
+    </div>
+  )
+}
+
+/** Props for the CatalogModelRow component */
+interface CatalogModelRowProps {
+  /** The model */
+  model: CatalogModel
+  /** Whether the model is a favorite */
+  favorite: boolean
+  /** Callback to add the model to the favorites or remove it */
+  onToggleFavorite: () => void
+}
+
+/** A model in the catalog, with its context length, price and capabilities */
+function CatalogModelRow({ model, favorite, onToggleFavorite }: CatalogModelRowProps) {
+  const capabilities = [
+    model.supportsReasoning && 'reasoning',
+    model.inputModalities.includes('image') && 'vision',
+    model.inputModalities.includes('audio') && 'audio'
+  ].filter((capability): capability is string => !!capability)
+
+  return (
+    <li className="flex items-center gap-2 px-3 py-2">
+      <button
+        onClick={onToggleFavorite}
+        className={favorite ? 'text-amber-500' : 'text-gray-400 hover:text-amber-500 dark:text-gray-500'}
+        title={favorite ? 'Remove from the model selector' : 'Add to the model selector'}
+      >
+        {favorite ? <FaStar size={12} /> : <FaRegStar size={12} />}
+      </button>
+      <div className="flex-1 min-w-0">
+        <div className="text-sm text-gray-900 dark:text-gray-100 truncate">{model.name}</div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+          {model.id}
+          {model.contextLength ? ` · ${formatTokenCount(model.contextLength)} context` : ''}
+          {model.pricing ? ` · $${model.pricing.input} / $${model.pricing.output} per M` : ''}
+        </div>
+      </div>
+      {capabilities.map(capability => (
+        <span
+          key={capability}
+          className="px-1.5 py-0.5 text-[10px] rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+        >
+          {capability}
+        </span>
+      ))}
+    </li>
+  )
+}
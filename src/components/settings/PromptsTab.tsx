@@ -0,0 +1,256 @@
+import React, { useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { FaPen, FaTrash } from 'react-icons/fa'
+import type { Store } from '../../Store'
+import { useBoards } from '../../Store'
+import type { PromptTemplate } from '../../types/settings'
+import { normalizeCommand, PROMPT_VARIABLES } from '../../modules/prompts'
+
+/** Props for the PromptsTab component */
+interface PromptsTabProps {
+  /** The data store instance */
+  store: Store
+  /** Prompts available on every board */
+  prompts: PromptTemplate[]
+  /** Callback when prompts available on every board are added, changed or removed */
+  onPromptsChange: (prompts: PromptTemplate[]) => void
+}
+
+/** A prompt being written or edited */
+interface PromptDraft {
+  /** ID of the prompt being edited, or null for a new one */
+  id: string | null
+  command: string
+  description: string
+  template: string
+}
+
+/**
+ * Prompt library tab for the settings modal. Prompts are saved for every board
+ * or for one board, and sent from chat by typing their slash command
+ */
+export function PromptsTab({ store, prompts, onPromptsChange }: PromptsTabProps) {
+  const { boards, setBoard } = useBoards(store)
+  const [scope, setScope] = useState<string>('all')
+  const [draft, setDraft] = useState<PromptDraft | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const board = scope === 'all' ? null : boards.find(b => b.id === scope) ?? null
+  const scopePrompts = board ? board.prompts ?? [] : prompts
+
+  /** Saves the prompts of the chosen scope */
+  const savePrompts = (updated: PromptTemplate[]) => {
+    if (board) {
+      setBoard({ ...board, prompts: updated, updatedAt: new Date().toISOString() })
+    } else {
+      onPromptsChange(updated)
+    }
+  }
+
+  /** Saves the prompt being edited, if its command is free */
+  const handleSave = () => {
+    if (!draft) return
+    const command = normalizeCommand(draft.command)
+    if (!command || !draft.template.trim()) {
+      setError('A prompt needs a command and a text')
+      return
+    }
+    if (scopePrompts.some(p => p.command === command && p.id !== draft.id)) {
+      setError(`There is already a /${command} prompt`)
+      return
+    }
+
+    const prompt: PromptTemplate = {
+      id: draft.id ?? uuidv4(),
+      command,
+      template: draft.template.trim(),
+      ...(draft.description.trim() ? { description: draft.description.trim() } : {})
+    }
+    savePrompts(draft.id
+      ? scopePrompts.map(p => p.id === draft.id ? prompt : p)
+      : [...scopePrompts, prompt])
+    setDraft(null)
+    setError(null)
+  }
+
+  const handleDelete = (prompt: PromptTemplate) => {
+    if (!window.confirm(`Delete the /${prompt.command} prompt?`)) return
+    savePrompts(scopePrompts.filter(p => p.id !== prompt.id))
+  }
+
+  /** Adds a variable at the end of the prompt being edited */
+  const insertVariable = (name: string) => {
+    if (!draft) return
+    setDraft({ ...draft, template: `${draft.template}{{${name}}}` })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Prompts</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Save prompts you use often and send them from chat by typing / followed by their command.
+          Text typed after the command is added to the prompt. Board prompts replace prompts with the
+          same command on that board.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Available on
+        </label>
+        <select
+          value={scope}
+          onChange={e => {
+            setScope(e.target.value)
+            setDraft(null)
+            setError(null)
+          }}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                   bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="all">All boards</option>
+          {boards.map(b => (
+            <option key={b.id} value={b.id}>{b.title || 'Untitled Board'} only</option>
+          ))}
+        </select>
+      </div>
+
+      {draft ? (
+        <div className="space-y-3 p-3 rounded-md border border-gray-200 dark:border-gray-700">
+          <div className="flex gap-2">
+            <div className="w-40">
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Command</label>
+              <div className="flex items-center">
+                <span className="text-sm text-gray-400 dark:text-gray-500 mr-1">/</span>
+                <input
+                  type="text"
+                  value={draft.command}
+                  onChange={e => setDraft({ ...draft, command: e.target.value })}
+                  onBlur={() => setDraft({ ...draft, command: normalizeCommand(draft.command) })}
+                  placeholder="critique"
+                  autoFocus
+                  className="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md
+                           bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-mono text-sm
+                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={e => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Critique the selected note"
+                className="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md
+                         bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm
+                         focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Prompt</label>
+            <textarea
+              value={draft.template}
+              onChange={e => setDraft({ ...draft, template: e.target.value })}
+              placeholder={'Critique this note. Point out gaps and unclear reasoning.\n\n{{selected_note}}'}
+              className="w-full h-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                       focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y text-sm"
+            />
+            <div className="flex flex-wrap gap-1 mt-1">
+              {PROMPT_VARIABLES.map(variable => (
+                <button
+                  key={variable.name}
+                  type="button"
+                  onClick={() => insertVariable(variable.name)}
+                  title={variable.description}
+                  className="px-1.5 py-0.5 rounded text-[11px] font-mono
+                           bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300
+                           hover:bg-blue-50 hover:text-blue-600 dark:hover:bg-blue-900/40 dark:hover:text-blue-300"
+                >
+                  {`{{${variable.name}}}`}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(null)
+                setError(null)
+              }}
+              className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300
+                       hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="px-3 py-1.5 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDraft({ id: null, command: '', description: '', template: '' })}
+          className="px-3 py-1.5 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+        >
+          New Prompt
+        </button>
+      )}
+
+      {scopePrompts.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {board ? 'This board has no prompts of its own.' : 'No prompts yet.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {[...scopePrompts].sort((a, b) => a.command.localeCompare(b.command)).map(prompt => (
+            <li key={prompt.id} className="py-2 flex items-start gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-baseline gap-2">
+                  <span className="font-mono text-sm text-blue-600 dark:text-blue-400">/{prompt.command}</span>
+                  {prompt.description && (
+                    <span className="text-sm text-gray-700 dark:text-gray-300 truncate">{prompt.description}</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{prompt.template}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  setDraft({ id: prompt.id, command: prompt.command, description: prompt.description ?? '', template: prompt.template })
+                  setError(null)
+                }}
+                className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                title="Edit prompt"
+              >
+                <FaPen size={11} />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(prompt)}
+                className="p-1 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400"
+                title="Delete prompt"
+              >
+                <FaTrash size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -4,10 +4,30 @@ import ChangePasswordForm from '../../modules/auth/components/ChangePasswordForm
 import { useAuth } from '../../modules/auth/AuthContext'
 import { AboutTab } from './AboutTab'
 import { ImportExportTab } from './ImportExportTab'
+import { TrashTab } from './TrashTab'
+import { PromptsTab } from './PromptsTab'
+import { UsageTab } from './UsageTab'
+import { CustomEndpointsSettings } from './CustomEndpointsSettings'
+import { ModelCatalogSettings } from './ModelCatalogSettings'
 import type { Store } from '../../Store'
 import type { TranscriptionProvider } from '../../types/settings'
+import { getAvailableModels } from '../../api/llm'
 import { FaTimes } from 'react-icons/fa'
-import { clearStoredPassword } from '../../modules/encrypted/passwordStorage'
+import { EncryptedStoreWrapper } from '../../modules/encrypted/EncryptedStoreWrapper'
+import { ChangeEncryptionPasswordForm } from '../../modules/encrypted/components/ChangeEncryptionPasswordForm'
+import { RecoveryCodeForm } from '../../modules/encrypted/components/RecoveryCodeForm'
+import { EncryptMetadataForm } from '../../modules/encrypted/components/EncryptMetadataForm'
+import { RememberedDevicesList } from '../../modules/encrypted/components/RememberedDevicesList'
+
+/** Choices of minutes without activity after which encrypted notes are locked */
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 0, label: 'Never' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+  { minutes: 240, label: 'After 4 hours' }
+]
 
 interface SettingsModalProps {
   /** Whether the modal is open */
@@ -18,7 +38,7 @@ interface SettingsModalProps {
   store: Store
 }
 
-type SettingsTab = 'appearance' | 'llm' | 'instructions' | 'account' | 'storage' | 'about' | 'import-export'
+type SettingsTab = 'appearance' | 'llm' | 'instructions' | 'prompts' | 'usage' | 'account' | 'storage' | 'about' | 'import-export' | 'trash'
 
 export function SettingsModal({ isOpen, onClose, store }: SettingsModalProps) {
   // Use device settings for appearance and storage type
@@ -108,6 +128,26 @@ export function SettingsModal({ isOpen, onClose, store }: SettingsModalProps) {
               >
                 Custom Instructions
               </button>
+              <button
+                onClick={() => setActiveTab('prompts')}
+                className={`w-full px-3 py-2 text-sm rounded-md text-left
+                  ${activeTab === 'prompts'
+                    ? 'bg-blue-50 text-blue-700 dark:bg-blue-900 dark:text-blue-200'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+              >
+                Prompts
+              </button>
+              <button
+                onClick={() => setActiveTab('usage')}
+                className={`w-full px-3 py-2 text-sm rounded-md text-left
+                  ${activeTab === 'usage'
+                    ? 'bg-blue-50 text-blue-700 dark:bg-blue-900 dark:text-blue-200'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+              >
+                Usage
+              </button>
               <button
                 onClick={() => setActiveTab('appearance')}
                 className={`w-full px-3 py-2 text-sm rounded-md text-left
@@ -150,6 +190,16 @@ export function SettingsModal({ isOpen, onClose, store }: SettingsModalProps) {
               >
                 Import/Export
               </button>
+              <button
+                onClick={() => setActiveTab('trash')}
+                className={`w-full px-3 py-2 text-sm rounded-md text-left
+                  ${activeTab === 'trash'
+                    ? 'bg-blue-50 text-blue-700 dark:bg-blue-900 dark:text-blue-200'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+              >
+                Trash
+              </button>
               <button
                 onClick={() => setActiveTab('about')}
                 className={`w-full px-3 py-2 text-sm rounded-md text-left
@@ -226,7 +276,7 @@ export function SettingsModal({ isOpen, onClose, store }: SettingsModalProps) {
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
                                bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
                                focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      placeholder="dsk-..."
+                      placeholder="sk-..."
                     />
                   </div>
                   <div>
@@ -259,6 +309,38 @@ export function SettingsModal({ isOpen, onClose, store }: SettingsModalProps) {
                   </div>
                 </div>
 
+                <ModelCatalogSettings
+                  favoriteModels={llmSettings.favoriteModels ?? []}
+                  onFavoriteModelsChange={favoriteModels => updateUserSettings('llm', { favoriteModels })}
+                  hasOpenRouterKey={!!llmSettings.openrouterKey}
+                />
+
+                <CustomEndpointsSettings
+                  endpoints={llmSettings.customEndpoints ?? []}
+                  onChange={customEndpoints => updateUserSettings('llm', { customEndpoints })}
+                />
+
+                <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Backup Model
+                  </label>
+                  <select
+                    value={llmSettings.fallbackModel || ''}
+                    onChange={e => updateUserSettings('llm', { fallbackModel: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                             bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                             focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">None</option>
+                    {getAvailableModels(userSettings).map(model => (
+                      <option key={model.id} value={model.id}>{model.name}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Answers in chat when the chosen model is still failing after retries, for example because its provider is overloaded. Best from another provider.
+                  </p>
+                </div>
+
                 <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
                   <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Voice Transcription</h4>
                   <div>
@@ -308,6 +390,12 @@ export function SettingsModal({ isOpen, onClose, store }: SettingsModalProps) {
                   {(userSettings.customInstructions || '').length} / 1500 characters
                 </p>
               </div>
+            ) : activeTab === 'prompts' ? (
+              <PromptsTab
+                store={store}
+                prompts={userSettings.prompts ?? []}
+                onPromptsChange={prompts => setUserField('prompts', prompts)}
+              />
             ) : activeTab === 'appearance' ? (
               <div className="space-y-6">
                 <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Appearance</h3>
@@ -393,24 +481,52 @@ export function SettingsModal({ isOpen, onClose, store }: SettingsModalProps) {
                 ) : user && (
                   <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-6">
                     <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-4">Security Options</h4>
-                    <button
-                      onClick={() => {
-                        clearStoredPassword(user.uid)
-                        window.alert('Encryption password has been forgotten. You will need to enter it again next time.')
-                        window.location.reload()
-                      }}
-                      className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                    >
-                      <svg className="mr-2 -ml-1 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-                      </svg>
-                      Forget Saved Password
-                    </button>
+                    <div className="max-w-md">
+                      <label htmlFor="autoLock" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Lock When Idle
+                      </label>
+                      <select
+                        id="autoLock"
+                        value={deviceSettings.security?.autoLockMinutes ?? 0}
+                        onChange={(e) => updateDeviceSettings('security', { autoLockMinutes: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                                 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                                 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      >
+                        {AUTO_LOCK_OPTIONS.map(option => (
+                          <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                        ))}
+                      </select>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                        Notes on this device are locked after no activity, until the encryption password is entered.
+                      </p>
+                    </div>
+                    {store instanceof EncryptedStoreWrapper && (
+                      <div className="mt-6 space-y-6">
+                        <RememberedDevicesList store={store} />
+                        <ChangeEncryptionPasswordForm store={store} />
+                        <RecoveryCodeForm store={store} />
+                        <EncryptMetadataForm store={store} />
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
             ) : activeTab === 'import-export' ? (
               <ImportExportTab store={store} />
+            ) : activeTab === 'trash' ? (
+              <TrashTab
+                store={store}
+                retentionDays={userSettings.trashRetentionDays}
+                onRetentionDaysChange={days => setUserField('trashRetentionDays', days)}
+              />
+            ) : activeTab === 'usage' ? (
+              <UsageTab
+                store={store}
+                monthlyBudget={userSettings.monthlyBudget}
+                llmSettings={userSettings.llm}
+                onMonthlyBudgetChange={budget => setUserField('monthlyBudget', budget)}
+              />
             ) : activeTab === 'about' ? (
               <AboutTab />
             ) : null}
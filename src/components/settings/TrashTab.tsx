@@ -0,0 +1,220 @@
+import React, { useState } from 'react'
+import { FaTrashRestore, FaTrash } from 'react-icons/fa'
+import type { Store } from '../../Store'
+import { useBoards, useTrash } from '../../Store'
+import { getCardTitle } from '../../modules/cards'
+import { getChatDisplayTitle } from '../../modules/chatSummaries'
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../../modules/trash'
+
+/** Props for the TrashTab component */
+interface TrashTabProps {
+  /** The data store instance */
+  store: Store
+  /** Days to keep items in the trash. 0 keeps them forever */
+  retentionDays?: number
+  /** Callback when the retention period is changed */
+  onRetentionDaysChange: (days: number) => void
+}
+
+/**
+ * Trash tab content for the settings modal. Lists deleted boards, notes and
+ * chats so they can be restored or permanently deleted.
+ */
+export function TrashTab({ store, retentionDays = DEFAULT_TRASH_RETENTION_DAYS, onRetentionDaysChange }: TrashTabProps) {
+  const { trash, loading, error } = useTrash(store)
+  const { boards } = useBoards(store)
+  const [busy, setBusy] = useState(false)
+
+  const isEmpty = trash.boards.length === 0 && trash.cards.length === 0 && trash.chats.length === 0
+
+  /** Runs a store action, reporting failures to the user */
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await action()
+    } catch (err) {
+      console.error('Trash action failed:', err)
+      alert('Failed to update the trash')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleEmptyTrash = () => {
+    if (!window.confirm('Permanently delete everything in the trash? This cannot be undone.')) return
+    run(async () => {
+      await Promise.all([
+        ...trash.boards.map(board => store.purgeBoard(board.id)),
+        ...trash.cards.map(card => store.purgeCard(card.id)),
+        ...trash.chats.map(chat => store.purgeChat(chat.id))
+      ])
+    })
+  }
+
+  const handlePurge = (purge: () => Promise<void>) => {
+    if (!window.confirm('Permanently delete this item? This cannot be undone.')) return
+    run(purge)
+  }
+
+  /** Gets the title of a live board for display next to a trashed item */
+  const getBoardTitle = (boardId: string) => boards.find(b => b.id === boardId)?.title ?? 'Unknown board'
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Trash</h3>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Delete items permanently after
+        </label>
+        <select
+          value={retentionDays}
+          onChange={e => onRetentionDaysChange(Number(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                   bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value={7}>7 days</option>
+          <option value={30}>30 days</option>
+          <option value={90}>90 days</option>
+          <option value={365}>1 year</option>
+          <option value={0}>Never</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load the trash</p>
+      ) : isEmpty ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">The trash is empty.</p>
+      ) : (
+        <>
+          {trash.boards.length > 0 && (
+            <TrashSection title="Boards">
+              {trash.boards.map(board => (
+                <TrashItem
+                  key={board.id}
+                  title={board.title || 'Untitled Board'}
+                  subtitle="Includes all of its notes and chats"
+                  deletedAt={board.deletedAt}
+                  disabled={busy}
+                  onRestore={() => run(() => store.restoreBoard(board.id))}
+                  onPurge={() => handlePurge(() => store.purgeBoard(board.id))}
+                />
+              ))}
+            </TrashSection>
+          )}
+          {trash.cards.length > 0 && (
+            <TrashSection title="Notes">
+              {trash.cards.map(card => (
+                <TrashItem
+                  key={card.id}
+                  title={getCardTitle(card)}
+                  subtitle={getBoardTitle(card.boardId)}
+                  deletedAt={card.deletedAt}
+                  disabled={busy}
+                  onRestore={() => run(() => store.restoreCard(card.id))}
+                  onPurge={() => handlePurge(() => store.purgeCard(card.id))}
+                />
+              ))}
+            </TrashSection>
+          )}
+          {trash.chats.length > 0 && (
+            <TrashSection title="Chats">
+              {trash.chats.map(chat => (
+                <TrashItem
+                  key={chat.id}
+                  title={getChatDisplayTitle(chat)}
+                  subtitle={getBoardTitle(chat.boardId)}
+                  deletedAt={chat.deletedAt}
+                  disabled={busy}
+                  onRestore={() => run(() => store.restoreChat(chat.id))}
+                  onPurge={() => handlePurge(() => store.purgeChat(chat.id))}
+                />
+              ))}
+            </TrashSection>
+          )}
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <button
+              onClick={handleEmptyTrash}
+              disabled={busy}
+              className="inline-flex justify-center rounded-md border border-red-300 bg-white px-4 py-2 text-sm font-medium text-red-700 shadow-sm hover:bg-red-50 disabled:opacity-50 dark:border-red-700 dark:bg-gray-800 dark:text-red-400 dark:hover:bg-red-900/50"
+            >
+              Empty Trash
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+/** Props for the TrashSection component */
+interface TrashSectionProps {
+  /** Heading for the section */
+  title: string
+  /** The trashed items */
+  children: React.ReactNode
+}
+
+/** A titled group of trashed items */
+function TrashSection({ title, children }: TrashSectionProps) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{title}</h4>
+      <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+        {children}
+      </div>
+    </div>
+  )
+}
+
+/** Props for the TrashItem component */
+interface TrashItemProps {
+  /** Display title of the item */
+  title: string
+  /** Secondary line, such as the board the item belongs to */
+  subtitle: string
+  /** When the item was moved to the trash in ISO 8601 format */
+  deletedAt?: string
+  /** Whether the actions are disabled */
+  disabled: boolean
+  /** Callback to restore the item */
+  onRestore: () => void
+  /** Callback to permanently delete the item */
+  onPurge: () => void
+}
+
+/** A single trashed item with restore and delete actions */
+function TrashItem({ title, subtitle, deletedAt, disabled, onRestore, onPurge }: TrashItemProps) {
+  return (
+    <div className="flex items-center gap-2 px-3 py-2">
+      <div className="flex-1 min-w-0">
+        <div className="text-sm text-gray-900 dark:text-gray-100 truncate">{title}</div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+          {subtitle}{deletedAt && ` · Deleted ${new Date(deletedAt).toLocaleDateString()}`}
+        </div>
+      </div>
+      <button
+        onClick={onRestore}
+        disabled={disabled}
+        className="p-1.5 rounded text-gray-500 hover:text-blue-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-blue-400 dark:hover:bg-gray-700 disabled:opacity-50"
+        title="Restore"
+      >
+        <FaTrashRestore size={14} />
+      </button>
+      <button
+        onClick={onPurge}
+        disabled={disabled}
+        className="p-1.5 rounded text-gray-500 hover:text-red-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-red-400 dark:hover:bg-gray-700 disabled:opacity-50"
+        title="Delete permanently"
+      >
+        <FaTrash size={14} />
+      </button>
+    </div>
+  )
+}
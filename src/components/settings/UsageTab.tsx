@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import type { Store } from '../../Store'
+import { useBoards, useUsageRecords } from '../../Store'
+import { getModelById, type LLMSettings } from '../../api/llm'
+import { formatTokenCount } from '../../modules/tokens'
+import { formatCost, getBudgetWarning, getMonthKey, getMonthStart, summarizeUsage, type UsageSummary } from '../../modules/usage'
+
+/** Props for the UsageTab component */
+interface UsageTabProps {
+  /** The data store instance */
+  store: Store
+  /** Monthly budget in US dollars. 0 or unset for no budget */
+  monthlyBudget?: number
+  /** Callback when the monthly budget is changed */
+  onMonthlyBudgetChange: (budget: number) => void
+  /** LLM settings, used to name custom endpoint and favorite models */
+  llmSettings?: LLMSettings
+}
+
+/** Periods the usage can be shown for, in months including the current one */
+const PERIOD_OPTIONS = [
+  { months: 1, label: 'This month' },
+  { months: 3, label: 'Last 3 months' },
+  { months: 12, label: 'Last 12 months' }
+]
+
+/**
+ * Usage tab content for the settings modal. Shows what has been spent on
+ * models by model, board and month, and lets the user set a monthly budget.
+ */
+export function UsageTab({ store, monthlyBudget = 0, onMonthlyBudgetChange, llmSettings }: UsageTabProps) {
+  const [periodMonths, setPeriodMonths] = useState(1)
+  const since = useMemo(() => getMonthStart(new Date(), periodMonths - 1), [periodMonths])
+  const { records, loading } = useUsageRecords(store, since)
+  const { boards } = useBoards(store)
+  const [budgetDraft, setBudgetDraft] = useState(monthlyBudget > 0 ? String(monthlyBudget) : '')
+
+  useEffect(() => {
+    setBudgetDraft(monthlyBudget > 0 ? String(monthlyBudget) : '')
+  }, [monthlyBudget])
+
+  const currentMonth = getMonthKey(new Date().toISOString())
+  const monthSpend = records
+    .filter(record => getMonthKey(record.createdAt) === currentMonth)
+    .reduce((sum, record) => sum + (record.cost ?? 0), 0)
+  const budgetWarning = getBudgetWarning(monthSpend, monthlyBudget)
+
+  const byModel = useMemo(() => summarizeUsage(records, record => record.modelId), [records])
+  const byBoard = useMemo(() => summarizeUsage(records, record => record.boardId ?? ''), [records])
+  const byMonth = useMemo(
+    () => summarizeUsage(records, record => getMonthKey(record.createdAt)).sort((a, b) => b.key.localeCompare(a.key)),
+    [records]
+  )
+  const total = byMonth.reduce((sum, summary) => sum + summary.cost, 0)
+
+  /** Saves the budget typed by the user. Anything that is not a positive amount removes the budget */
+  const handleBudgetCommit = () => {
+    const budget = parseFloat(budgetDraft)
+    onMonthlyBudgetChange(Number.isFinite(budget) && budget > 0 ? budget : 0)
+  }
+
+  /** Gets the title of a board for display */
+  const getBoardLabel = (boardId: string) => {
+    if (!boardId) return 'No board'
+    return boards.find(b => b.id === boardId)?.title || 'Deleted board'
+  }
+
+  /** Formats a month key such as 2026-03 for display */
+  const getMonthLabel = (month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number)
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { year: 'numeric', month: 'long' })
+  }
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Usage</h3>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Monthly budget (USD)
+        </label>
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={budgetDraft}
+          onChange={e => setBudgetDraft(e.target.value)}
+          onBlur={handleBudgetCommit}
+          onKeyDown={e => e.key === 'Enter' && handleBudgetCommit()}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                   bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="No budget"
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          You are warned in chat once most of the budget has been spent. Costs are reported by the provider or estimated from the model's price.
+        </p>
+        {monthlyBudget > 0 && (
+          <BudgetMeter spent={monthSpend} budget={monthlyBudget} warning={budgetWarning} />
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Show
+        </label>
+        <select
+          value={periodMonths}
+          onChange={e => setPeriodMonths(Number(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                   bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                   focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {PERIOD_OPTIONS.map(option => (
+            <option key={option.months} value={option.months}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      ) : records.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No usage recorded in this period.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {formatCost(total)} across {records.length} request{records.length === 1 ? '' : 's'}
+          </p>
+          <UsageTable
+            title="By model"
+            summaries={byModel}
+            getLabel={modelId => getModelById(modelId, llmSettings)?.name ?? modelId}
+          />
+          <UsageTable title="By board" summaries={byBoard} getLabel={getBoardLabel} />
+          <UsageTable title="By month" summaries={byMonth} getLabel={getMonthLabel} />
+        </>
+      )}
+    </div>
+  )
+}
+
+/** Props for the BudgetMeter component */
+interface BudgetMeterProps {
+  /** Spend this month in US dollars */
+  spent: number
+  /** Monthly budget in US dollars */
+  budget: number
+  /** Warning to show, if the budget is nearly or fully spent */
+  warning: string | null
+}
+
+/** Bar showing how much of the monthly budget has been spent */
+function BudgetMeter({ spent, budget, warning }: BudgetMeterProps) {
+  const share = Math.min(1, spent / budget)
+
+  return (
+    <div className="mt-3">
+      <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+        <div
+          className={`h-full rounded-full ${warning ? 'bg-amber-500' : 'bg-blue-500'}`}
+          style={{ width: `${Math.max(share * 100, 1)}%` }}
+        />
+      </div>
+      <p className={`mt-1 text-xs ${warning ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}`}>
+        {warning ?? `${formatCost(spent)} of ${formatCost(budget)} spent this month`}
+      </p>
+    </div>
+  )
+}
+
+/** Props for the UsageTable component */
+interface UsageTableProps {
+  /** Heading for the table */
+  title: string
+  /** Spend of each group */
+  summaries: UsageSummary[]
+  /** Gets the display name of a group from its key */
+  getLabel: (key: string) => string
+}
+
+/** Table of spend grouped by model, board or month */
+function UsageTable({ title, summaries, getLabel }: UsageTableProps) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{title}</h4>
+      <table className="w-full text-sm border border-gray-200 dark:border-gray-700 rounded-md">
+        <thead>
+          <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <th className="px-3 py-1.5 text-left font-normal"></th>
+            <th className="px-3 py-1.5 text-right font-normal">Requests</th>
+            <th className="px-3 py-1.5 text-right font-normal">Tokens in / out</th>
+            <th className="px-3 py-1.5 text-right font-normal">Cost</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {summaries.map(summary => (
+            <tr key={summary.key} className="text-gray-900 dark:text-gray-100">
+              <td className="px-3 py-1.5 truncate max-w-[10rem]">{getLabel(summary.key)}</td>
+              <td className="px-3 py-1.5 text-right">{summary.requests}</td>
+              <td
+                className="px-3 py-1.5 text-right text-gray-500 dark:text-gray-400"
+                title={summary.reasoningTokens > 0 ? `${summary.reasoningTokens.toLocaleString()} reasoning tokens` : undefined}
+              >
+                {formatTokenCount(summary.inputTokens)} / {formatTokenCount(summary.outputTokens)}
+              </td>
+              <td
+                className="px-3 py-1.5 text-right"
+                title={summary.unpricedRequests > 0 ? `The cost of ${summary.unpricedRequests} request${summary.unpricedRequests === 1 ? ' is' : 's is'} unknown` : undefined}
+              >
+                {formatCost(summary.cost)}{summary.unpricedRequests > 0 && '*'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
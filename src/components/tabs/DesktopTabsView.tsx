@@ -1,7 +1,7 @@
 import React, { useState, useMemo, useEffect, useRef } from "react"
 import { v4 as uuidv4 } from "uuid"
-import { FaPlus, FaTimes, FaFolder, FaSearch, FaTrash } from 'react-icons/fa'
-import type { Board } from "../../types"
+import { FaPlus, FaTimes, FaFolder, FaSearch, FaTrash, FaLock } from 'react-icons/fa'
+import type { Board, Card } from "../../types"
 import type { Store } from "../../Store"
 import { useBoards } from "../../Store"
 import { BoardView } from "../BoardView"
@@ -10,15 +10,25 @@ import { SettingsModal } from "../settings/SettingsModal"
 import { BoardNameModal } from "../BoardNameModal"
 import { DeleteBoardModal } from "../DeleteBoardModal"
 import { BoardInstructionsModal } from "../BoardInstructionsModal"
+import { NoteNavigationProvider, type PendingChat } from "../notes/NoteNavigationContext"
+import { GlobalSearchModal } from "../search/GlobalSearchModal"
+import { useSearchIndex } from "../../hooks/useSearchIndex"
+import type { SearchResult } from "../../modules/search/SearchIndex"
 
 export function DesktopTabsView(props: {
   store: Store
+  /** Locks encrypted notes until the password is entered again */
+  onLock?: () => void
 }) {
   const { store } = props
   const [pages, setPages] = usePersist<string[]>("tabIds", [])
   const [activeTabIndex, setActiveTabIndex] = usePersist<number>("activeTabIndex", -1)
   const { boards, loading, error, setBoard, removeBoard } = useBoards(store)
+  // The search index loads the cards of every board, so they are taken from it rather than loaded again
+  const { index: searchIndex, cards: allCards, version: searchIndexVersion } = useSearchIndex(store)
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+  const [pendingChat, setPendingChat] = useState<PendingChat | null>(null)
   const [boardNameModal, setBoardNameModal] = useState<{
     isOpen: boolean
     type: 'create' | 'edit'
@@ -152,6 +162,47 @@ export function DesktopTabsView(props: {
     }
   }
 
+  // Open global search with Ctrl/Cmd+K
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setIsSearchOpen(true)
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  /** Shows a board, opening it in a tab if needed */
+  function openBoardTab(boardId: string) {
+    const index = validPages.indexOf(boardId)
+    if (index < 0) {
+      setPages([...validPages, boardId])
+      setActiveTabIndex(validPages.length)
+    } else {
+      setActiveTabIndex(index)
+    }
+  }
+
+  /** Opens a card from a link, opening its board in a tab if needed */
+  function handleOpenCard(card: Pick<Card, 'id' | 'boardId'>) {
+    // Select the card before the board view mounts so it reads the new selection
+    window.localStorage.setItem(`board_${card.boardId}_selectedCard`, JSON.stringify(card.id))
+    openBoardTab(card.boardId)
+  }
+
+  /** Opens a global search result in its board's tab */
+  function handleSelectSearchResult(result: SearchResult) {
+    const { document } = result
+    if (document.kind === 'card') {
+      handleOpenCard(document)
+    } else {
+      setPendingChat({ chatId: document.id, boardId: document.boardId })
+      openBoardTab(document.boardId)
+    }
+  }
+
   function renderContents() {
     if (loading) {
       return <div className="text-center py-12">
@@ -182,6 +233,7 @@ export function DesktopTabsView(props: {
     } else {
       return (
         <BoardView 
+          key={validPages[currentTabIndex]}
           store={store}
           boardId={validPages[currentTabIndex]}
         />
@@ -216,6 +268,26 @@ export function DesktopTabsView(props: {
           </Tab>
         </div>
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsSearchOpen(true)}
+            className="p-2 rounded-md text-gray-500 hover:text-gray-600 dark:text-gray-400 dark:hover:text-gray-300
+                     hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Search all boards"
+            title="Search all boards (Ctrl+K)"
+          >
+            <FaSearch size={16} />
+          </button>
+          {props.onLock && (
+            <button
+              onClick={props.onLock}
+              className="p-2 rounded-md text-gray-500 hover:text-gray-600 dark:text-gray-400 dark:hover:text-gray-300
+                       hover:bg-gray-100 dark:hover:bg-gray-800"
+              aria-label="Lock notes"
+              title="Lock notes"
+            >
+              <FaLock size={15} />
+            </button>
+          )}
           <button
             onClick={() => setIsSettingsOpen(true)}
             className="p-2 rounded-md text-gray-500 hover:text-gray-600 dark:text-gray-400 dark:hover:text-gray-300
@@ -233,9 +305,25 @@ export function DesktopTabsView(props: {
       </div>
       
       <div className="h-full overflow-auto">
-        { renderContents() }
+        <NoteNavigationProvider
+          cards={allCards}
+          openCard={handleOpenCard}
+          pendingChat={pendingChat}
+          clearPendingChat={() => setPendingChat(null)}
+        >
+          { renderContents() }
+        </NoteNavigationProvider>
       </div>
 
+      <GlobalSearchModal
+        isOpen={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+        index={searchIndex}
+        indexVersion={searchIndexVersion}
+        boards={boards}
+        onSelectResult={handleSelectSearchResult}
+      />
+
       <SettingsModal
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
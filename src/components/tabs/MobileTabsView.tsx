@@ -1,15 +1,16 @@
 import React, { useState } from 'react'
 import { v4 as uuidv4 } from 'uuid'
-import { FaChevronLeft, FaEllipsisV, FaSearch, FaTrash } from 'react-icons/fa'
-import type { Board } from '../../types'
+import { FaChevronLeft, FaEllipsisV, FaSearch, FaTrash, FaLock } from 'react-icons/fa'
+import type { Board, Card } from '../../types'
 import type { Store } from '../../Store'
-import { useBoards } from '../../Store'
+import { useBoards, useAllCards } from '../../Store'
 import { BoardView } from '../BoardView'
 import { BoardNameModal } from '../BoardNameModal'
 import { BoardInstructionsModal } from '../BoardInstructionsModal'
 import { SettingsModal } from '../settings/SettingsModal'
 import { DeleteBoardModal } from '../DeleteBoardModal'
 import { usePersist } from '../../hooks/usePersist'
+import { NoteNavigationProvider } from '../notes/NoteNavigationContext'
 
 interface BoardListViewProps {
   store: Store
@@ -181,7 +182,7 @@ function SingleBoardView({ store, boardId, onBack }: SingleBoardViewProps) {
 
       {/* Board Content */}
       <div className="flex-1 overflow-hidden">
-        <BoardView store={store} boardId={boardId} />
+        <BoardView key={boardId} store={store} boardId={boardId} />
       </div>
 
       <BoardNameModal
@@ -229,15 +230,18 @@ function SingleBoardView({ store, boardId, onBack }: SingleBoardViewProps) {
 
 interface MobileTabsViewProps {
   store: Store
+  /** Locks encrypted notes until the password is entered again */
+  onLock?: () => void
 }
 
 /**
  * Mobile-optimized view that switches between board list and single board view
  */
-export function MobileTabsView({ store }: MobileTabsViewProps) {
+export function MobileTabsView({ store, onLock }: MobileTabsViewProps) {
   const [currentBoardId, setCurrentBoardId] = usePersist<string | null>('currentBoardId', null)
   const [showNewBoardModal, setShowNewBoardModal] = useState(false)
   const { boards, setBoard } = useBoards(store)
+  const { cards: allCards } = useAllCards(store)
   const [showSettingsModal, setShowSettingsModal] = useState(false)
 
   function handleCreateBoard(name: string) {
@@ -254,16 +258,25 @@ export function MobileTabsView({ store }: MobileTabsViewProps) {
     setShowNewBoardModal(false)
   }
 
+  /** Opens a card from a link, switching to its board if needed */
+  function handleOpenCard(card: Card) {
+    // Select the card before the board view mounts so it reads the new selection
+    window.localStorage.setItem(`board_${card.boardId}_selectedCard`, JSON.stringify(card.id))
+    setCurrentBoardId(card.boardId)
+  }
+
   const currentBoard = boards.find((b: Board) => b.id === currentBoardId)
 
   return (
     <div className="h-full flex flex-col bg-white dark:bg-gray-900">
       {currentBoard ? (
-        <SingleBoardView
-          store={store}
-          boardId={currentBoard.id}
-          onBack={() => setCurrentBoardId(null)}
-        />
+        <NoteNavigationProvider cards={allCards} openCard={handleOpenCard}>
+          <SingleBoardView
+            store={store}
+            boardId={currentBoard.id}
+            onBack={() => setCurrentBoardId(null)}
+          />
+        </NoteNavigationProvider>
       ) : (
         <>
           <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between">
@@ -271,6 +284,16 @@ export function MobileTabsView({ store }: MobileTabsViewProps) {
               Boards
             </h1>
             <div className="flex items-center gap-2">
+              {onLock && (
+                <button
+                  onClick={onLock}
+                  className="p-2 rounded-md text-gray-500 hover:text-gray-600 dark:text-gray-400 dark:hover:text-gray-300
+                           hover:bg-gray-100 dark:hover:bg-gray-800"
+                  aria-label="Lock notes"
+                >
+                  <FaLock size={16} />
+                </button>
+              )}
               <button
                 onClick={() => setShowSettingsModal(true)}
                 className="p-2 rounded-md text-gray-500 hover:text-gray-600 dark:text-gray-400 dark:hover:text-gray-300
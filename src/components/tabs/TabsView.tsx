@@ -1,11 +1,15 @@
-import React, { type JSX } from 'react'
+import React, { type JSX, useEffect } from 'react'
 import { useIsMobile } from '../../hooks/useIsMobile'
+import { useUserSettings } from '../../hooks/useSettings'
+import { DEFAULT_TRASH_RETENTION_DAYS, purgeExpiredTrash } from '../../modules/trash'
 import type { Store } from '../../Store'
 import { DesktopTabsView } from './DesktopTabsView'
 import { MobileTabsView } from './MobileTabsView'
 
 interface TabsViewProps {
   store: Store
+  /** Locks encrypted notes until the password is entered again. Not given for unencrypted stores */
+  onLock?: () => void
 }
 
 /**
@@ -14,6 +18,15 @@ interface TabsViewProps {
  */
 export function TabsView(props: TabsViewProps): JSX.Element {
   const isMobile = useIsMobile()
+  const { settings: userSettings, loading: userSettingsLoading } = useUserSettings(props.store)
+  const retentionDays = userSettings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS
+
+  // Purge items that have been in the trash longer than the retention period
+  useEffect(() => {
+    if (userSettingsLoading) return
+    purgeExpiredTrash(props.store, retentionDays)
+      .catch(err => console.error('Failed to purge trash:', err))
+  }, [props.store, userSettingsLoading, retentionDays])
   
   if (isMobile) {
     return <MobileTabsView {...props} />
@@ -1,8 +1,24 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
-import type { Chat, ChatMessage, Card, RichTextCard } from '../types'
-import { LLMFactory, type ModelId, type LLMProvider, getProviderForModel, getModelById } from '../api/llm'
+import { v4 as uuidv4 } from 'uuid'
+import type { Chat, ChatAttachment, ChatMessage, ChatMessageSource, ChatToolActivity, ProposedNoteEdit, Card, ImageCard, RichTextCard, TokenUsage } from '../types'
+import { LLMFactory, type ModelId, type ModelInfo, type LLMProvider, type LLMFile, type LLMMessage, type LLMOptions, type ModelPricing, type ToolConversationMessage, type FinishReason, getApiKeyForModel, getCheapestModel, getModelById, isModelAvailable, modelAcceptsFile, DEFAULT_CONTEXT_WINDOW } from '../api/llm'
 import { useDeviceSettings, useUserSettings } from './useSettings'
 import { UserSettings } from '../types/settings'
+import type { RetrievedPassage } from './useRelevantContext'
+import { getCardTitle } from '../modules/cards'
+import { budgetContext, RESERVED_OUTPUT_TOKENS, type ContextUsage } from '../modules/contextBudget'
+import { NOTE_TOOLS, runNoteTool, type NoteToolContext } from '../modules/noteTools'
+import { addTokenUsage, toTokenUsage } from '../modules/usage'
+import { ResilientProvider } from '../api/resilientProvider'
+import { branchChat } from '../modules/chatTree'
+import { generateChatTitle, hasChatTitle, writeChatSummary } from '../modules/chatSummaries'
+import { loadImageCardFile, toLLMFile } from '../modules/attachments'
+
+/** Most rounds of tool calls before the assistant must answer */
+const MAX_TOOL_ROUNDS = 8
+
+/** Longest summary of a chat, in tokens */
+const SUMMARY_MAX_TOKENS = 4096
 
 /**
  * Options for the {@link useChat} hook.
@@ -21,16 +37,88 @@ interface UseChatOptions {
     userSettings: UserSettings
     /** Board-level custom instructions to inject into the system prompt */
     boardInstructions?: string
+    /**
+     * Retrieves the note passages relevant to a message. When given, these are
+     * used as context instead of {@link cards}, and the notes they come from
+     * are recorded as the sources of the reply
+     */
+    retrievePassages?: (query: string, signal: AbortSignal) => Promise<RetrievedPassage[]>
+    /**
+     * Notes the assistant can search, read, create and propose edits to with tools.
+     * When given, responses are not streamed, as the assistant may call tools before answering
+     */
+    noteTools?: NoteToolContext
+    /** Called with the tokens used by each response, so spend can be recorded */
+    onUsage?: (usage: TokenUsage, modelId: ModelId) => void
+    /**
+     * Called with a title written for a chat that had none, once a question in it
+     * is answered. Titles are only written when this is given. The chat may no
+     * longer be the one shown, or may have been renamed meanwhile
+     */
+    onChatTitle?: (chatId: string, title: string) => void
+    /**
+     * Loads the content of a file attached to a message as a data URL, or null if
+     * it cannot be found. Attached files are only sent to models when this is given
+     */
+    loadAttachment?: (attachment: ChatAttachment) => Promise<string | null>
+    /** Image cards to include as context. They are sent with the latest message to models that take images */
+    contextImages?: ImageCard[]
+}
+
+/** A note, or passages of one, to include as context */
+interface ContextNote {
+    /** The note */
+    card: RichTextCard
+    /** Content to include */
+    text: string
+}
+
+/** Called with the answer and reasoning written so far, as an answer streams */
+type AnswerProgress = (content: string, reasoning: string) => void
+
+/** An answer written by a model, before it is added to the chat */
+interface Answer {
+    /** The answer */
+    content: string
+    /** Reasoning the model did before answering */
+    reasoning: string
+    /** Tools the model used */
+    toolActivity: ChatToolActivity[]
+    /** Edits to notes the model proposed */
+    proposedEdits: ProposedNoteEdit[]
+    /** Tokens used, if reported */
+    usage: TokenUsage | null
+}
+
+/** The answer of one model in a comparison, as it streams */
+export interface ComparisonStream {
+    /** The model writing the answer */
+    modelId: ModelId
+    /** The answer so far */
+    content: string
+    /** The reasoning so far */
+    reasoning: string
+    /** Whether the model has finished */
+    done: boolean
+    /** Why the model failed, if it did */
+    error?: string
 }
 
 /**
  * Result of the {@link useChat} hook.
  */
 interface UseChatResult {
-    /** Send a message to the LLM */
-    sendMessage: (chat: Chat, content: string, modelId: ModelId) => Promise<void>
+    /** Send a message to the LLM, with any files attached to it */
+    sendMessage: (chat: Chat, content: string, modelId: ModelId, attachments?: ChatAttachment[]) => Promise<void>
     /** Edit an existing message and regenerate responses */
     editMessage: (chat: Chat, messageIndex: number, newContent: string, modelId: ModelId) => Promise<void>
+    /** Write a new version of an answer, keeping the earlier one */
+    regenerateMessage: (chat: Chat, messageIndex: number, modelId: ModelId) => Promise<void>
+    /**
+     * Send a message to several models at once. Their answers are kept as versions of
+     * the reply, the first of which is shown until another is chosen
+     */
+    compareMessage: (chat: Chat, content: string, modelIds: ModelId[], attachments?: ChatAttachment[]) => Promise<void>
     /** Stop the current streaming response */
     stopStreaming: () => void
     /** Whether a message is currently being sent */
@@ -43,16 +131,30 @@ interface UseChatResult {
      * not re-render on every token. Empty string when no stream is active.
      */
     streamingContent: string
+    /**
+     * The in-flight streamed reasoning for the current assistant turn, flushed
+     * together with {@link streamingContent}. Empty string when there is none.
+     */
+    streamingReasoning: string
     /** Whether the assistant is currently streaming a response */
     isStreaming: boolean
     /** The model id of the currently streaming assistant response */
     streamingModelId: ModelId | null
+    /** The answers of a comparison being written, flushed together with {@link streamingContent}. Null when none is */
+    comparisonStreams: ComparisonStream[] | null
+    /** Summarizes a chat into markdown to keep as a note */
+    summarizeChat: (chat: Chat, modelId: ModelId) => Promise<string>
+    /**
+     * Estimates how much of the model's context window sending the next message
+     * would use, and what would be left out to fit
+     */
+    estimateContextUsage: (chat: Chat | null, modelId: ModelId) => ContextUsage
 }
 
 /**
  * Hook to manage chat state and API interactions
  */
-export function useChat({ cards, onChatUpdate, userSettings, boardInstructions }: UseChatOptions): UseChatResult {
+export function useChat({ cards, onChatUpdate, userSettings, boardInstructions, retrievePassages, noteTools, onUsage, onChatTitle, loadAttachment, contextImages }: UseChatOptions): UseChatResult {
     const [isLoading, setIsLoading] = useState(false)
     const [error, setError] = useState<Error | null>(null)
     const [providerCache] = useState<Map<string, LLMProvider>>(new Map())
@@ -63,8 +165,12 @@ export function useChat({ cards, onChatUpdate, userSettings, boardInstructions }
     // a single rAF-coalesced flush propagates the value to React state.
     const streamingContentRef = useRef('')
     const [streamingContent, setStreamingContent] = useState('')
+    const streamingReasoningRef = useRef('')
+    const [streamingReasoning, setStreamingReasoning] = useState('')
     const [isStreaming, setIsStreaming] = useState(false)
     const [streamingModelId, setStreamingModelId] = useState<ModelId | null>(null)
+    const comparisonStreamsRef = useRef<ComparisonStream[] | null>(null)
+    const [comparisonStreams, setComparisonStreams] = useState<ComparisonStream[] | null>(null)
     const rafIdRef = useRef<number | null>(null)
 
     /**
@@ -78,14 +184,17 @@ export function useChat({ cards, onChatUpdate, userSettings, boardInstructions }
     }, [])
 
     /**
-     * Schedules a single rAF flush that copies the latest streamed text from
-     * the ref into React state. Repeated calls within a frame are coalesced.
+     * Schedules a single rAF flush that copies the latest streamed text,
+     * reasoning and comparison answers from the refs into React state.
+     * Repeated calls within a frame are coalesced.
      */
     const scheduleStreamingFlush = useCallback(() => {
         if (rafIdRef.current !== null) return
         rafIdRef.current = requestAnimationFrame(() => {
             rafIdRef.current = null
             setStreamingContent(streamingContentRef.current)
+            setStreamingReasoning(streamingReasoningRef.current)
+            setComparisonStreams(comparisonStreamsRef.current)
         })
     }, [])
 
@@ -117,47 +226,364 @@ export function useChat({ cards, onChatUpdate, userSettings, boardInstructions }
     }
 
     /**
-     * Builds context from cards for the LLM
+     * Gets the notes to use as context from cards, most recently updated first
+     * so that the oldest are the first left out when the context window is full
      */
-    const buildContext = useCallback((cards: Card[]): string => {
-        const contextParts: string[] = []
-
-        cards.forEach(card => {
-            if (card.type === 'richtext') {
-                const richTextCard = card as RichTextCard
-                const createdDate = formatDate(card.createdAt)
-                const updatedDate = formatDate(card.updatedAt)
-                contextParts.push(`<note title="${card.title}" created="${createdDate}" updated="${updatedDate}">\n${richTextCard.content.markdown}\n</note>`)
-            }
-        })
+    const getCardNotes = useCallback((cards: Card[]): ContextNote[] => {
+        return cards
+            .filter((card): card is RichTextCard => card.type === 'richtext')
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+            .map(card => ({ card, text: card.content.markdown }))
+    }, [])
 
-        return contextParts.join('\n\n')
+    /**
+     * Gets the notes to use as context from retrieved passages, grouped by the
+     * note they come from, best match first
+     */
+    const getPassageNotes = useCallback((passages: RetrievedPassage[]): ContextNote[] => {
+        const byCard = new Map<string, { card: RichTextCard, texts: string[] }>()
+        passages.forEach(({ card, text }) => {
+            const group = byCard.get(card.id) ?? { card, texts: [] }
+            group.texts.push(text)
+            byCard.set(card.id, group)
+        })
+        return [...byCard.values()].map(({ card, texts }) => ({ card, text: texts.join('\n\n...\n\n') }))
     }, [])
 
+    /**
+     * Builds the system prompt
+     * @param context The notes, formatted for the prompt
+     * @param omittedMessageSummary Summary of earlier messages left out of the request
+     * @param isExcerpt Whether the notes are retrieved excerpts rather than whole notes
+     * @param useTools Whether the assistant can use the note tools
+     */
+    const buildSystemPrompt = useCallback((context: string, omittedMessageSummary: string | null, isExcerpt: boolean, useTools: boolean): string => {
+        const currentDate = formatDate(new Date().toISOString())
+        const userInstructions = userSettings.customInstructions?.trim()
+        const boardInstructionsTrimmed = boardInstructions?.trim()
+
+        return `You are a helpful AI assistant. Today's date is ${currentDate}. Treat the user as an expert - avoid unnecessary disclaimers, warnings, or over-explanation unless specifically asked. Provide direct, sophisticated answers assuming deep domain knowledge.
+${userInstructions ? `\nThe user has provided the following instructions for all conversations:\n\n${userInstructions}\n` : ''}${boardInstructionsTrimmed ? `\nThe user has provided the following instructions specific to this board:\n\n${boardInstructionsTrimmed}\n` : ''}${context ? `You have access to the following ${isExcerpt ? 'excerpts from notes, chosen as the most relevant to the latest message,' : 'notes'} that may provide helpful context:
+
+${context}
+
+Feel free to reference this information when relevant, but don't feel constrained to only discuss the notes.` : ''}
+${omittedMessageSummary ? `\n${omittedMessageSummary}\n` : ''}${useTools ? `\nYou can use tools to search and read the user's notes, create notes when asked, and propose edits to notes. Proposed edits are only applied once the user accepts them.\n` : ''}
+Be concise and direct in conversation${context ? ', drawing on both your general knowledge and any relevant context from the notes when appropriate' : ''}.
+Use markdown formatting in your responses.`
+    }, [userSettings.customInstructions, boardInstructions])
+
+    /**
+     * Fits the notes and conversation into the model's context window, leaving out
+     * the oldest messages and lowest priority notes if needed, and builds the system prompt
+     * @param messages The conversation, oldest first
+     * @param notes The notes to include, highest priority first
+     * @param modelId The model the request is for
+     * @param isExcerpt Whether the notes are retrieved excerpts rather than whole notes
+     * @param useTools Whether the assistant can use the note tools
+     */
+    const planRequest = useCallback((messages: ChatMessage[], notes: ContextNote[], modelId: ModelId, isExcerpt: boolean, useTools: boolean) => {
+        const model = getModelById(modelId, userSettings.llm)
+        const budget = budgetContext({
+            systemPrompt: buildSystemPrompt(notes.length > 0 ? ' ' : '', null, isExcerpt, useTools),
+            notes: notes.map(({ card, text }) => ({ id: card.id, text })),
+            messages,
+            contextWindow: model?.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+            reservedOutputTokens: RESERVED_OUTPUT_TOKENS + (model?.thinkingTokens ?? model?.reasoningMaxTokens ?? 0)
+        })
+
+        const cardsById = new Map(notes.map(({ card }) => [card.id, card]))
+        const context = budget.notes.map(({ id, text }) => {
+            const card = cardsById.get(id)!
+            const createdDate = formatDate(card.createdAt)
+            const updatedDate = formatDate(card.updatedAt)
+            return `<note id="${card.id}" title="${card.title}" created="${createdDate}" updated="${updatedDate}"${isExcerpt ? ' excerpt="true"' : ''}>\n${text}\n</note>`
+        }).join('\n\n')
+
+        return {
+            system: buildSystemPrompt(context, budget.omittedMessageSummary, isExcerpt, useTools),
+            messages: budget.messages,
+            usage: budget.usage
+        }
+    }, [buildSystemPrompt, userSettings.llm])
+
+    /**
+     * Estimates how much of the model's context window the chat and notes would use
+     * if a message were sent now. In retrieval mode the notes are not known until a
+     * message is sent, so only the conversation is counted
+     */
+    const estimateContextUsage = useCallback((chat: Chat | null, modelId: ModelId): ContextUsage => {
+        const notes = retrievePassages ? [] : getCardNotes(cards)
+        return planRequest(chat?.messages ?? [], notes, modelId, !!retrievePassages, !!noteTools).usage
+    }, [cards, retrievePassages, noteTools, getCardNotes, planRequest])
+
     /**
      * Gets or creates an LLM provider
      */
     const getProvider = useCallback(async (modelId: ModelId): Promise<LLMProvider> => {
-        const provider = getProviderForModel(modelId)
-        if (!provider) {
+        const model = getModelById(modelId, userSettings.llm)
+        if (!model) {
             throw new Error(`Unknown model: ${modelId}`)
         }
 
-        const apiKey = userSettings.llm[`${provider}Key` as keyof typeof userSettings.llm]
-        if (!apiKey) {
-            throw new Error(`Missing API key for ${provider}`)
+        const apiKey = getApiKeyForModel(model, userSettings.llm)
+        if (apiKey === undefined) {
+            throw new Error(`Missing API key for ${model.provider}`)
         }
 
-        const cacheKey = `${provider}-${apiKey}`
+        // Custom endpoints share a provider type, so they are told apart by their URL
+        const cacheKey = `${model.provider}-${model.baseURL ?? ''}-${apiKey}`
         if (providerCache.has(cacheKey)) {
             return providerCache.get(cacheKey)!
         }
 
-        const newProvider = await LLMFactory.createProvider(modelId, apiKey)
+        // Overloaded and rate-limited providers are retried rather than failing the turn
+        const newProvider = new ResilientProvider(await LLMFactory.createProvider(modelId, apiKey, userSettings.llm))
         providerCache.set(cacheKey, newProvider)
         return newProvider
     }, [userSettings.llm, providerCache])
 
+    /**
+     * Gets a response in which the assistant may use the note tools, running the
+     * tools it calls until it answers. What it has done so far is reported as the
+     * answer in progress
+     */
+    const getToolResponse = useCallback(async (
+        provider: LLMProvider,
+        messages: LLMMessage[],
+        options: LLMOptions,
+        tools: NoteToolContext,
+        pricing: ModelPricing | undefined,
+        signal: AbortSignal,
+        onProgress: AnswerProgress
+    ): Promise<Answer> => {
+        const conversation: ToolConversationMessage[] = messages.map(m => ({ role: m.role, content: m.content, ...(m.files ? { files: m.files } : {}) }))
+        const toolActivity: ChatToolActivity[] = []
+        const proposedEdits: ProposedNoteEdit[] = []
+        const usages: (TokenUsage | null)[] = []
+        const reasoning: string[] = []
+        let notes = tools.notes
+        let content = ''
+
+        try {
+            for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+                const response = await provider.createToolCompletion(conversation, NOTE_TOOLS, options, signal)
+                content = response.content
+                usages.push(toTokenUsage(response.usage, pricing))
+                if (response.reasoning) {
+                    reasoning.push(response.reasoning)
+                }
+                if (response.toolCalls.length === 0) {
+                    return { content, toolActivity, proposedEdits, usage: addTokenUsage(usages), reasoning: reasoning.join('\n\n') }
+                }
+
+                conversation.push({ role: 'assistant', content, toolCalls: response.toolCalls, providerData: response.providerData })
+                for (const call of response.toolCalls) {
+                    const result = await runNoteTool(call, { ...tools, notes })
+                    if (result.createdNote) {
+                        notes = [...notes, result.createdNote]
+                    }
+                    if (result.proposedEdit) {
+                        proposedEdits.push(result.proposedEdit)
+                    }
+                    toolActivity.push(result.activity)
+                    conversation.push({ role: 'tool', content: result.content, toolCallId: call.id, toolName: call.name })
+
+                    onProgress(toolActivity.map(a => a.description).join('\n'), '')
+                }
+            }
+        } catch (error: any) {
+            // Keep what was done before generation was stopped
+            if (error.name === 'AbortError' || signal.aborted) {
+                return { content: `${content}\n\n*Generation stopped.*`.trim(), toolActivity, proposedEdits, usage: addTokenUsage(usages), reasoning: reasoning.join('\n\n') }
+            }
+            // Tools that have run are not run again by another attempt, so what they did is kept
+            if (toolActivity.length > 0) {
+                console.error('Tool completion failed after retries:', error)
+                return { content: `${content}\n\n*The response was interrupted by an error.*`.trim(), toolActivity, proposedEdits, usage: addTokenUsage(usages), reasoning: reasoning.join('\n\n') }
+            }
+            throw error
+        }
+
+        return {
+            content: `${content}\n\n*Stopped after ${MAX_TOOL_ROUNDS} rounds of tool use.*`.trim(),
+            toolActivity,
+            proposedEdits,
+            usage: addTokenUsage(usages),
+            reasoning: reasoning.join('\n\n')
+        }
+    }, [])
+
+    /**
+     * Gets the notes to use as context for the latest message of a chat, and the
+     * notes to record as the sources of the reply when they were retrieved
+     */
+    const getContextNotes = useCallback(async (currentChat: Chat, signal: AbortSignal) => {
+        if (!retrievePassages) {
+            return { notes: getCardNotes(cards), sources: undefined }
+        }
+
+        const lastUserMessage = [...currentChat.messages].reverse().find(m => m.role === 'user')
+        const passages = await retrievePassages(lastUserMessage?.content ?? '', signal)
+        const notes = getPassageNotes(passages)
+        const sources: ChatMessageSource[] = notes.map(({ card }) => ({ cardId: card.id, title: getCardTitle(card) }))
+        return { notes, sources }
+    }, [cards, retrievePassages, getCardNotes, getPassageNotes])
+
+    /**
+     * Adds the files attached to messages, and the image cards used as context, to
+     * the messages sent to a model. Files the model does not take, or that cannot
+     * be loaded, are named in the message instead so the model knows of them
+     */
+    const attachFiles = useCallback(async (messages: ChatMessage[], model: ModelInfo): Promise<LLMMessage[]> => {
+        const withFiles: LLMMessage[] = await Promise.all(messages.map(async message => {
+            if (!message.attachments?.length) return message
+
+            const files: LLMFile[] = []
+            const missing: string[] = []
+            for (const attachment of message.attachments) {
+                const dataUrl = modelAcceptsFile(model, attachment.mimeType) && loadAttachment ? await loadAttachment(attachment) : null
+                const file = dataUrl ? toLLMFile(attachment, dataUrl) : null
+                if (file) {
+                    files.push(file)
+                } else {
+                    missing.push(attachment.name)
+                }
+            }
+
+            const note = missing.length > 0 ? `\n\n[Attached but not available to you: ${missing.join(', ')}]` : ''
+            return { ...message, content: `${message.content}${note}`, ...(files.length > 0 ? { files } : {}) }
+        }))
+
+        const lastIndex = withFiles.map(message => message.role).lastIndexOf('user')
+        if (!contextImages?.length || lastIndex < 0 || !modelAcceptsFile(model, 'image/*')) return withFiles
+
+        const images = (await Promise.all(contextImages.map(loadImageCardFile))).filter((file): file is LLMFile => file !== null)
+        if (images.length === 0) return withFiles
+        return withFiles.map((message, index) => index === lastIndex
+            ? { ...message, files: [...images, ...(message.files ?? [])] }
+            : message)
+    }, [loadAttachment, contextImages])
+
+    /**
+     * Gets the answer of one model. A stream that fails partway through keeps
+     * what has arrived, so this only throws if the model gave no answer
+     * @param notes The notes to use as context
+     * @param useTools Whether the model may use the note tools, if they are available
+     * @param onProgress Called with the answer so far as it is written
+     */
+    const writeAnswer = useCallback(async (
+        currentChat: Chat,
+        notes: ContextNote[],
+        modelId: ModelId,
+        useTools: boolean,
+        signal: AbortSignal,
+        onProgress: AnswerProgress
+    ): Promise<Answer> => {
+        const model = getModelById(modelId, userSettings.llm)
+        if (!model) {
+            throw new Error(`Unknown model: ${modelId}`)
+        }
+        const provider = await getProvider(modelId)
+        const tools = useTools ? noteTools : undefined
+
+        // Only what fits in the context window is sent. The persisted chat keeps every message
+        const request = planRequest(currentChat.messages, notes, modelId, !!retrievePassages, !!tools)
+        const messages = await attachFiles(request.messages, model)
+
+        const options: LLMOptions = {
+            modelId: model.modelId,
+            system: request.system,
+            temperature: model.noTemperature ? undefined : 0.7,
+            thinkingTokens: model.thinkingTokens,
+            reasoningEnabled: model.reasoningEnabled,
+            reasoningEffort: model.reasoningEffort,
+            reasoningMaxTokens: model.reasoningMaxTokens,
+            verbosity: model.verbosity
+        }
+
+        if (tools) {
+            return getToolResponse(provider, messages, options, tools, model.pricing, signal, onProgress)
+        }
+
+        // Use streaming API. Reasoning is kept apart from the answer
+        let content = ''
+        let reasoning = ''
+        let usage: TokenUsage | null = null
+        let finishReason: FinishReason | null = null
+        try {
+            for await (const event of provider.createStreamingChatCompletion(messages, options, signal)) {
+                switch (event.type) {
+                    case 'text':
+                        content += event.text
+                        onProgress(content, reasoning)
+                        break
+                    case 'reasoning':
+                        reasoning += event.text
+                        onProgress(content, reasoning)
+                        break
+                    case 'usage':
+                        // A stream that was continued after failing reports the usage of each part
+                        usage = addTokenUsage([usage, toTokenUsage(event.usage, model.pricing)])
+                        break
+                    case 'finish':
+                        finishReason = event.reason
+                        break
+                    case 'reset':
+                        reasoning = ''
+                        onProgress(content, reasoning)
+                        break
+                }
+            }
+            if (finishReason === 'length') {
+                content += "\n\n*Stopped at the length limit.*"
+            }
+        } catch (error: any) {
+            // If this is an AbortError, append a note that generation was stopped
+            if (error.name === 'AbortError' || signal.aborted) {
+                content += "\n\n*Generation stopped.*"
+            } else if (content) {
+                // Keep the partial answer rather than losing it to the error
+                console.error('Stream failed after retries:', error)
+                content += "\n\n*The response was interrupted by an error.*"
+            } else {
+                throw error
+            }
+        }
+
+        return { content, reasoning, toolActivity: [], proposedEdits: [], usage }
+    }, [getProvider, planRequest, attachFiles, retrievePassages, noteTools, getToolResponse, userSettings.llm])
+
+    /**
+     * Writes a title for a chat that has none with the cheapest model, or the model
+     * that answered if none is priced. Failures are only logged, as an untitled chat
+     * is shown by its first message
+     */
+    const titleChat = useCallback(async (chat: Chat, modelId: ModelId) => {
+        if (!onChatTitle || hasChatTitle(chat)) return
+
+        const model = getCheapestModel(userSettings) ?? getModelById(modelId, userSettings.llm)
+        if (!model) return
+
+        try {
+            const provider = await getProvider(model.id)
+            const { title, usage } = await generateChatTitle(provider, {
+                modelId: model.modelId,
+                temperature: model.noTemperature ? undefined : 0.3
+            }, chat.messages)
+
+            const tokenUsage = toTokenUsage(usage, model.pricing)
+            if (tokenUsage) {
+                onUsage?.(tokenUsage, model.id)
+            }
+            if (title) {
+                onChatTitle(chat.id, title)
+            }
+        } catch (error) {
+            console.warn('Failed to write a chat title:', error)
+        }
+    }, [onChatTitle, onUsage, userSettings, getProvider])
+
     /**
      * Gets an assistant response for the given chat using the specified model
      */
@@ -174,67 +600,42 @@ export function useChat({ cards, onChatUpdate, userSettings, boardInstructions }
         // without us touching the persisted `chat.messages` array.
         streamingContentRef.current = ''
         setStreamingContent('')
+        streamingReasoningRef.current = ''
+        setStreamingReasoning('')
         setIsStreaming(true)
         setStreamingModelId(modelId)
 
         const startedAt = new Date().toISOString()
 
-        try {
-            // Get response from LLM
-            const model = getModelById(modelId)
-            if (!model) {
-                throw new Error(`Unknown model: ${modelId}`)
-            }
-            const provider = await getProvider(modelId)
-            const context = buildContext(cards)
-            
-            const currentDate = formatDate(new Date().toISOString())
-            const userInstructions = userSettings.customInstructions?.trim()
-            const boardInstructionsTrimmed = boardInstructions?.trim()
-
-            const systemPrompt = `You are a helpful AI assistant. Today's date is ${currentDate}. Treat the user as an expert - avoid unnecessary disclaimers, warnings, or over-explanation unless specifically asked. Provide direct, sophisticated answers assuming deep domain knowledge.
-${userInstructions ? `\nThe user has provided the following instructions for all conversations:\n\n${userInstructions}\n` : ''}${boardInstructionsTrimmed ? `\nThe user has provided the following instructions specific to this board:\n\n${boardInstructionsTrimmed}\n` : ''}${context ? `You have access to the following notes that may provide helpful context:
-
-${context}
-
-Feel free to reference this information when relevant, but don't feel constrained to only discuss the notes.` : ''}
+        /** Shows the answer so far in the streaming bubble */
+        const showProgress: AnswerProgress = (content, reasoning) => {
+            streamingContentRef.current = content
+            streamingReasoningRef.current = reasoning
+            scheduleStreamingFlush()
+        }
 
-Be concise and direct in conversation${context ? ', drawing on both your general knowledge and any relevant context from the notes when appropriate' : ''}.
-Use markdown formatting in your responses.`
+        try {
+            const { notes, sources } = await getContextNotes(currentChat, signal)
 
-            // Use streaming API
-            const stream = provider.createStreamingChatCompletion(
-                currentChat.messages,
-                {
-                    modelId: model.modelId,
-                    system: systemPrompt,
-                    temperature: model.noTemperature ? undefined : 0.7,
-                    thinkingTokens: model.thinkingTokens,
-                    reasoningEnabled: model.reasoningEnabled,
-                    reasoningEffort: model.reasoningEffort,
-                    reasoningMaxTokens: model.reasoningMaxTokens,
-                    verbosity: model.verbosity
-                },
-                signal
-            )
-
-            let streamedContent = ''
-            let aborted = false
+            let answerModelId = modelId
+            let answer: Answer
             try {
-                for await (const chunk of stream) {
-                    streamedContent += chunk
-                    streamingContentRef.current = streamedContent
-                    scheduleStreamingFlush()
-                }
+                answer = await writeAnswer(currentChat, notes, modelId, true, signal, showProgress)
             } catch (error: any) {
-                // If this is an AbortError, append a note that generation was stopped
-                if (error.name === 'AbortError' || signal.aborted) {
-                    aborted = true
-                    streamedContent += "\n\n*Generation stopped.*"
-                } else {
+                // Answer with the backup model when the chosen one keeps failing
+                const fallbackModelId = userSettings.llm.fallbackModel
+                if (error.name === 'AbortError' || signal.aborted || !fallbackModelId || fallbackModelId === modelId
+                    || !isModelAvailable(fallbackModelId, userSettings.llm)) {
                     throw error
                 }
+                console.warn(`${modelId} failed, answering with ${fallbackModelId}:`, error)
+
+                answerModelId = fallbackModelId
+                showProgress('', '')
+                setStreamingModelId(fallbackModelId)
+                answer = await writeAnswer(currentChat, notes, fallbackModelId, true, signal, showProgress)
             }
+            const { content, reasoning, toolActivity, proposedEdits, usage } = answer
 
             // Stream is done (or aborted). Cancel any pending flush so the React
             // state doesn't briefly snap back to a stale partial value, then
@@ -243,17 +644,28 @@ Use markdown formatting in your responses.`
             cancelStreamingFlush()
 
             const assistantMessage: ChatMessage = {
+                id: uuidv4(),
                 role: 'assistant',
-                content: streamedContent,
-                llm: modelId,
+                content,
+                llm: answerModelId,
+                ...(answerModelId !== modelId ? { fallbackFrom: modelId } : {}),
+                ...(sources && sources.length > 0 ? { sources } : {}),
+                ...(toolActivity.length > 0 ? { toolActivity } : {}),
+                ...(proposedEdits.length > 0 ? { proposedEdits } : {}),
+                ...(usage ? { usage } : {}),
+                ...(reasoning ? { reasoning } : {}),
                 createdAt: startedAt
             }
+            if (usage) {
+                onUsage?.(usage, answerModelId)
+            }
             const finalChat: Chat = {
                 ...currentChat,
                 messages: [...currentChat.messages, assistantMessage],
                 updatedAt: new Date().toISOString()
             }
             onChatUpdate(finalChat)
+            void titleChat(finalChat, answerModelId)
 
         } catch (error: any) {
             // Don't set error state for aborted requests
@@ -265,22 +677,26 @@ Use markdown formatting in your responses.`
             cancelStreamingFlush()
             streamingContentRef.current = ''
             setStreamingContent('')
+            streamingReasoningRef.current = ''
+            setStreamingReasoning('')
             setIsStreaming(false)
             setStreamingModelId(null)
             setIsLoading(false)
             abortControllerRef.current = null
         }
-    }, [cards, getProvider, onChatUpdate, buildContext, userSettings.customInstructions, boardInstructions, scheduleStreamingFlush, cancelStreamingFlush])
+    }, [getContextNotes, writeAnswer, onChatUpdate, onUsage, titleChat, userSettings.llm, scheduleStreamingFlush, cancelStreamingFlush])
 
     /**
      * Sends a message to the LLM
      */
-    const sendMessage = useCallback(async (chat: Chat, content: string, modelId: ModelId) => {
+    const sendMessage = useCallback(async (chat: Chat, content: string, modelId: ModelId, attachments?: ChatAttachment[]) => {
         try {
             // Add user message
             const userMessage: ChatMessage = {
+                id: uuidv4(),
                 role: 'user',
                 content,
+                ...(attachments?.length ? { attachments } : {}),
                 createdAt: new Date().toISOString()
             }
 
@@ -301,7 +717,8 @@ Use markdown formatting in your responses.`
     }, [onChatUpdate, getAssistantResponse])
 
     /**
-     * Edits a message and regenerates all subsequent responses
+     * Edits a message and regenerates all subsequent responses. The earlier version
+     * and the messages after it are kept as another branch
      */
     const editMessage = useCallback(async (chat: Chat, messageIndex: number, newContent: string, modelId: ModelId) => {
         if (messageIndex < 0 || messageIndex >= chat.messages.length) {
@@ -318,15 +735,17 @@ Use markdown formatting in your responses.`
         try {
             // Create new chat with history up to the edited message
             const truncatedChat: Chat = {
-                ...chat,
-                messages: chat.messages.slice(0, messageIndex),
+                ...branchChat(chat, messageIndex),
                 updatedAt: new Date().toISOString()
             }
 
-            // Add the edited message
+            // Add the edited message, which keeps the files attached to the original
+            const { attachments } = chat.messages[messageIndex]
             const editedMessage: ChatMessage = {
+                id: uuidv4(),
                 role: 'user',
                 content: newContent,
+                ...(attachments?.length ? { attachments } : {}),
                 createdAt: new Date().toISOString()
             }
 
@@ -346,14 +765,175 @@ Use markdown formatting in your responses.`
         }
     }, [onChatUpdate, getAssistantResponse])
 
+    /**
+     * Writes a new version of an answer, keeping the earlier one as another branch
+     * @param messageIndex Index of the assistant message to replace
+     * @param modelId Model to answer with, which may differ from the one that wrote the earlier answer
+     */
+    const regenerateMessage = useCallback(async (chat: Chat, messageIndex: number, modelId: ModelId) => {
+        if (chat.messages[messageIndex]?.role !== 'assistant') {
+            setError(new Error('Can only regenerate answers'))
+            return
+        }
+
+        const branchedChat: Chat = {
+            ...branchChat(chat, messageIndex),
+            updatedAt: new Date().toISOString()
+        }
+        onChatUpdate(branchedChat)
+
+        try {
+            await getAssistantResponse(branchedChat, modelId)
+        } catch (err) {
+            // Show the earlier answer again rather than leaving the question unanswered
+            onChatUpdate(chat)
+            setError(err instanceof Error ? err : new Error('Unknown error occurred'))
+            throw err
+        }
+    }, [onChatUpdate, getAssistantResponse])
+
+    /**
+     * Sends a message to several models at once, each answer streaming separately.
+     * The note tools are not offered, as each model would run them. The answers are
+     * kept as versions of the reply, so that any of them can be continued from
+     */
+    const compareMessage = useCallback(async (chat: Chat, content: string, modelIds: ModelId[], attachments?: ChatAttachment[]) => {
+        abortControllerRef.current = new AbortController()
+        const signal = abortControllerRef.current.signal
+
+        setIsLoading(true)
+        setError(null)
+
+        const userMessage: ChatMessage = {
+            id: uuidv4(),
+            role: 'user',
+            content,
+            ...(attachments?.length ? { attachments } : {}),
+            createdAt: new Date().toISOString()
+        }
+        const currentChat: Chat = {
+            ...chat,
+            messages: [...chat.messages, userMessage],
+            updatedAt: new Date().toISOString()
+        }
+        onChatUpdate(currentChat)
+
+        comparisonStreamsRef.current = modelIds.map(modelId => ({ modelId, content: '', reasoning: '', done: false }))
+        setComparisonStreams(comparisonStreamsRef.current)
+
+        /** Updates the answer of one model as it streams */
+        const updateStream = (index: number, changes: Partial<ComparisonStream>) => {
+            comparisonStreamsRef.current = (comparisonStreamsRef.current ?? []).map((stream, i) => i === index ? { ...stream, ...changes } : stream)
+            scheduleStreamingFlush()
+        }
+
+        try {
+            const { notes, sources } = await getContextNotes(currentChat, signal)
+
+            const results = await Promise.allSettled(modelIds.map(async (modelId, index) => {
+                try {
+                    const answer = await writeAnswer(currentChat, notes, modelId, false, signal, (content, reasoning) => updateStream(index, { content, reasoning }))
+                    updateStream(index, { done: true })
+                    // Versions are ordered by when they were written, so the answers are in the order they finished
+                    return { modelId, answer, finishedAt: new Date().toISOString() }
+                } catch (error: any) {
+                    updateStream(index, { done: true, error: error.message ?? 'Failed' })
+                    throw error
+                }
+            }))
+            cancelStreamingFlush()
+
+            const failures = results.flatMap((result, index) => result.status === 'rejected'
+                ? [`${getModelById(modelIds[index], userSettings.llm)?.name ?? modelIds[index]}: ${result.reason?.message ?? 'failed'}`]
+                : [])
+            const comparisonId = uuidv4()
+            const answers: ChatMessage[] = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : [])
+                .map(({ modelId, answer, finishedAt }) => {
+                    if (answer.usage) {
+                        onUsage?.(answer.usage, modelId)
+                    }
+                    return {
+                        id: uuidv4(),
+                        role: 'assistant',
+                        content: answer.content,
+                        llm: modelId,
+                        comparisonId,
+                        ...(sources && sources.length > 0 ? { sources } : {}),
+                        ...(answer.usage ? { usage: answer.usage } : {}),
+                        ...(answer.reasoning ? { reasoning: answer.reasoning } : {}),
+                        createdAt: finishedAt
+                    }
+                })
+
+            if (answers.length === 0) {
+                if (signal.aborted) return
+                throw new Error(`No model answered. ${failures.join('. ')}`)
+            }
+
+            // The first model's answer is shown, and the others are kept as its other versions
+            const [shown, ...others] = answers
+            const finalChat: Chat = {
+                ...currentChat,
+                messages: [...currentChat.messages, shown],
+                branchMessages: [...(currentChat.branchMessages ?? []), ...others.map(message => ({ parentId: userMessage.id!, message }))],
+                updatedAt: new Date().toISOString()
+            }
+            onChatUpdate(finalChat)
+            void titleChat(finalChat, shown.llm!)
+            if (failures.length > 0) {
+                setError(new Error(`Some models did not answer. ${failures.join('. ')}`))
+            }
+        } catch (error: any) {
+            if (error.name !== 'AbortError' && !signal.aborted) {
+                setError(error instanceof Error ? error : new Error('Unknown error occurred'))
+                throw error
+            }
+        } finally {
+            cancelStreamingFlush()
+            comparisonStreamsRef.current = null
+            setComparisonStreams(null)
+            setIsLoading(false)
+            abortControllerRef.current = null
+        }
+    }, [getContextNotes, writeAnswer, onChatUpdate, onUsage, titleChat, userSettings.llm, scheduleStreamingFlush, cancelStreamingFlush])
+
+    /**
+     * Summarizes a chat into markdown to keep as a note
+     */
+    const summarizeChat = useCallback(async (chat: Chat, modelId: ModelId): Promise<string> => {
+        const model = getModelById(modelId, userSettings.llm)
+        if (!model) {
+            throw new Error(`Unknown model: ${modelId}`)
+        }
+        const provider = await getProvider(modelId)
+
+        const { markdown, usage } = await writeChatSummary(provider, {
+            modelId: model.modelId,
+            temperature: model.noTemperature ? undefined : 0.3,
+            maxTokens: SUMMARY_MAX_TOKENS
+        }, chat.messages)
+
+        const tokenUsage = toTokenUsage(usage, model.pricing)
+        if (tokenUsage) {
+            onUsage?.(tokenUsage, modelId)
+        }
+        return markdown
+    }, [getProvider, onUsage, userSettings.llm])
+
     return {
         sendMessage,
         editMessage,
+        regenerateMessage,
+        compareMessage,
         stopStreaming,
         isLoading,
         error,
         streamingContent,
+        streamingReasoning,
         isStreaming,
-        streamingModelId
+        streamingModelId,
+        comparisonStreams,
+        summarizeChat,
+        estimateContextUsage
     }
 }
@@ -0,0 +1,84 @@
+import { useCallback, useRef } from 'react'
+import type { Store } from '../Store'
+import type { Chat, ChatAttachment } from '../types'
+import type { AttachmentFile } from '../modules/attachments'
+
+/** Result of the {@link useChatAttachments} hook */
+export interface ChatAttachments {
+    /** Keeps the content of files attached to a message, until the chat is saved */
+    addFiles: (files: AttachmentFile[]) => void
+    /**
+     * Saves the content of the files attached to a chat's messages that have not
+     * been saved yet. Chats that are not saved to history never store their files
+     */
+    saveFiles: (chat: Chat) => Promise<void>
+    /** Loads the content of an attached file as a data URL, or null if it cannot be found */
+    loadAttachment: (attachment: ChatAttachment) => Promise<string | null>
+}
+
+/**
+ * Hook that keeps the content of files attached to chat messages. Content is held
+ * in memory from when a file is attached, and stored apart from the chat once the
+ * chat is saved, so that loading chats does not load every file
+ * @param store The store to save and load attachments
+ * @param boardId The board the chats belong to
+ */
+export function useChatAttachments(store: Store, boardId: string): ChatAttachments {
+    // Content by attachment ID, both of files not yet saved and of files loaded
+    const contentRef = useRef<Map<string, string>>(new Map())
+    const savedRef = useRef<Set<string>>(new Set())
+
+    const addFiles = useCallback((files: AttachmentFile[]) => {
+        files.forEach(({ attachment, dataUrl }) => contentRef.current.set(attachment.id, dataUrl))
+    }, [])
+
+    const saveFiles = useCallback(async (chat: Chat) => {
+        const messages = [...chat.messages, ...(chat.branchMessages ?? []).map(branch => branch.message)]
+        const unsaved = messages
+            .flatMap(message => message.attachments ?? [])
+            .filter(attachment => contentRef.current.has(attachment.id) && !savedRef.current.has(attachment.id))
+
+        await Promise.all(unsaved.map(async attachment => {
+            // Marked first so that a save started before this one finishes does not repeat it
+            savedRef.current.add(attachment.id)
+            try {
+                await store.setChatAttachment({
+                    id: attachment.id,
+                    chatId: chat.id,
+                    boardId,
+                    dataUrl: contentRef.current.get(attachment.id)!,
+                    createdAt: new Date().toISOString()
+                })
+            } catch (error) {
+                savedRef.current.delete(attachment.id)
+                throw error
+            }
+        }))
+    }, [store, boardId])
+
+    const loadAttachment = useCallback((attachment: ChatAttachment): Promise<string | null> => {
+        const cached = contentRef.current.get(attachment.id)
+        if (cached) return Promise.resolve(cached)
+
+        return new Promise(resolve => {
+            let unsubscribe: (() => void) | null = null
+            let done = false
+            unsubscribe = store.getChatAttachment(attachment.id, data => {
+                if (done) return
+                done = true
+                if (data) {
+                    contentRef.current.set(attachment.id, data.dataUrl)
+                    savedRef.current.add(attachment.id)
+                }
+                resolve(data?.dataUrl ?? null)
+                // The callback may run before the subscription is returned
+                unsubscribe?.()
+            })
+            if (done) {
+                unsubscribe()
+            }
+        })
+    }, [store])
+
+    return { addFiles, saveFiles, loadAttachment }
+}
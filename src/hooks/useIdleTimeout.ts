@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react'
+
+/** Events that count as the user being active */
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const
+
+/** How often to check whether the user has been idle long enough, in milliseconds */
+const CHECK_INTERVAL = 15 * 1000
+
+/**
+ * Hook that calls a function once the user has been inactive for a number of
+ * minutes. Time spent asleep or in a hidden tab counts as inactive
+ * @param minutes Minutes of inactivity before calling the function. 0 never calls it
+ * @param onIdle Function to call
+ */
+export function useIdleTimeout(minutes: number, onIdle: () => void): void {
+    const onIdleRef = useRef(onIdle)
+    onIdleRef.current = onIdle
+
+    useEffect(() => {
+        if (minutes <= 0) return
+
+        // Activity is only recorded, as it happens far more often than checks
+        let lastActivity = Date.now()
+        const handleActivity = () => {
+            lastActivity = Date.now()
+        }
+
+        const checkIdle = () => {
+            if (Date.now() - lastActivity >= minutes * 60 * 1000) {
+                lastActivity = Date.now()
+                onIdleRef.current()
+            }
+        }
+
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }))
+        // Timers are paused while a device sleeps, so the time is checked again when the page is shown
+        document.addEventListener('visibilitychange', checkIdle)
+        const interval = setInterval(checkIdle, CHECK_INTERVAL)
+        return () => {
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity))
+            document.removeEventListener('visibilitychange', checkIdle)
+            clearInterval(interval)
+        }
+    }, [minutes])
+}
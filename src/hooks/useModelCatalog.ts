@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react'
+import { getCachedCatalog, loadModelCatalog, type CatalogModel } from '../api/modelCatalog'
+
+/**
+ * Hook that provides OpenRouter's model catalog. The cached copy is used right
+ * away and fetched again in the background once it is out of date
+ * @param enabled Whether to fetch the catalog. The cached copy is always returned
+ * @returns The models, whether they are being fetched, the last error and a function to fetch them again
+ */
+export function useModelCatalog(enabled: boolean = true) {
+  const [models, setModels] = useState<CatalogModel[]>(getCachedCatalog)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async (force: boolean) => {
+    setLoading(true)
+    setError(null)
+    try {
+      setModels(await loadModelCatalog(force))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the model catalog')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (enabled) load(false)
+  }, [enabled, load])
+
+  /** Fetches the catalog even if the cached copy is recent */
+  const refresh = useCallback(() => load(true), [load])
+
+  return { models, loading, error, refresh }
+}
@@ -1,4 +1,7 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+
+/** Event sent when a persisted value changes, so that other users of its key update */
+const PERSIST_EVENT = 'persist-change'
 
 /**
  * Hook for persisting state in localStorage
@@ -18,10 +21,23 @@ export function usePersist<T>(
   
   const [stored, setStored] = useState<T>(initialValue)
   
+  // Keep other components using the same key up to date
+  useEffect(() => {
+    function handleChange(e: Event) {
+      const { key: changedKey, value } = (e as CustomEvent<{ key: string, value: T }>).detail
+      if (changedKey === key) {
+        setStored(value)
+      }
+    }
+    window.addEventListener(PERSIST_EVENT, handleChange)
+    return () => window.removeEventListener(PERSIST_EVENT, handleChange)
+  }, [key])
+
   const setValue = (value: T | ((prev: T) => T)) => {
     const newValue = value instanceof Function ? value(stored) : value
     setStored(newValue)
     window.localStorage.setItem(key, JSON.stringify(newValue))
+    window.dispatchEvent(new CustomEvent(PERSIST_EVENT, { detail: { key, value: newValue } }))
   }
 
   return [stored, setValue]
@@ -1,6 +1,6 @@
 import { useState, useCallback, useRef } from 'react'
 import { v4 as uuidv4 } from 'uuid'
-import type { Card, RichTextCard, ChatMessage } from '../types'
+import type { Card, RichTextCard, ChatMessage, TokenUsage } from '../types'
 import type {
   QuizConfig,
   QuizQuestion,
@@ -10,8 +10,10 @@ import type {
   QuizState,
   ClarificationMessage
 } from '../types/quiz'
-import { LLMFactory, type ModelId, type LLMProvider, getProviderForModel, getModelById } from '../api/llm'
+import { LLMFactory, type ModelId, type LLMProvider, getApiKeyForModel, getModelById } from '../api/llm'
 import { UserSettings } from '../types/settings'
+import { toTokenUsage } from '../modules/usage'
+import { ResilientProvider } from '../api/resilientProvider'
 
 /**
  * Options for the useQuiz hook
@@ -25,6 +27,8 @@ interface UseQuizOptions {
   userSettings: UserSettings
   /** Selected model to use for quiz */
   modelId: ModelId
+  /** Called with the tokens used by each request, so spend can be recorded */
+  onUsage?: (usage: TokenUsage, modelId: ModelId) => void
 }
 
 /**
@@ -69,7 +73,7 @@ const initialState: QuizState = {
 /**
  * Hook to manage quiz state and LLM interactions
  */
-export function useQuiz({ cards, selectedCard, userSettings, modelId }: UseQuizOptions): UseQuizResult {
+export function useQuiz({ cards, selectedCard, userSettings, modelId, onUsage }: UseQuizOptions): UseQuizResult {
   const [state, setState] = useState<QuizState>(initialState)
   const [providerCache] = useState<Map<string, LLMProvider>>(new Map())
   const abortControllerRef = useRef<AbortController | null>(null)
@@ -106,22 +110,23 @@ export function useQuiz({ cards, selectedCard, userSettings, modelId }: UseQuizO
    * Gets or creates an LLM provider
    */
   const getProvider = useCallback(async (): Promise<LLMProvider> => {
-    const provider = getProviderForModel(modelId)
-    if (!provider) {
+    const model = getModelById(modelId, userSettings.llm)
+    if (!model) {
       throw new Error(`Unknown model: ${modelId}`)
     }
 
-    const apiKey = userSettings.llm[`${provider}Key` as keyof typeof userSettings.llm]
-    if (!apiKey) {
-      throw new Error(`Missing API key for ${provider}`)
+    const apiKey = getApiKeyForModel(model, userSettings.llm)
+    if (apiKey === undefined) {
+      throw new Error(`Missing API key for ${model.provider}`)
     }
 
-    const cacheKey = `${provider}-${apiKey}`
+    // Custom endpoints share a provider type, so they are told apart by their URL
+    const cacheKey = `${model.provider}-${model.baseURL ?? ''}-${apiKey}`
     if (providerCache.has(cacheKey)) {
       return providerCache.get(cacheKey)!
     }
 
-    const newProvider = await LLMFactory.createProvider(modelId, apiKey)
+    const newProvider = new ResilientProvider(await LLMFactory.createProvider(modelId, apiKey, userSettings.llm))
     providerCache.set(cacheKey, newProvider)
     return newProvider
   }, [userSettings.llm, providerCache, modelId])
@@ -137,7 +142,7 @@ export function useQuiz({ cards, selectedCard, userSettings, modelId }: UseQuizO
     const signal = abortControllerRef.current.signal
 
     const provider = await getProvider()
-    const model = getModelById(modelId)
+    const model = getModelById(modelId, userSettings.llm)
     if (!model) {
       throw new Error(`Unknown model: ${modelId}`)
     }
@@ -161,8 +166,13 @@ export function useQuiz({ cards, selectedCard, userSettings, modelId }: UseQuizO
       signal
     )
 
+    const usage = toTokenUsage(response.usage, model.pricing)
+    if (usage) {
+      onUsage?.(usage, modelId)
+    }
+
     return response.content
-  }, [getProvider, modelId])
+  }, [getProvider, modelId, onUsage, userSettings.llm])
 
   /**
    * Parses JSON from LLM response, handling markdown code blocks
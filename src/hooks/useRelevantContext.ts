@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { Store } from '../Store'
+import { useCardEmbeddings } from '../Store'
+import type { Card, CardEmbedding, RichTextCard } from '../types'
+import { LLMFactory, type EmbeddingProvider, type LLMSettings } from '../api/llm'
+import { embedCard, findRelevantChunks, isEmbeddingCurrent } from '../modules/embeddings/embeddings'
+
+/** Delay after the last card change before out of date notes are embedded in the background */
+const INDEX_DEBOUNCE_MS = 2000
+
+/** A passage of a note retrieved as context for a chat message */
+export interface RetrievedPassage {
+  /** The note the passage comes from */
+  card: RichTextCard
+  /** Text of the passage */
+  text: string
+  /** Similarity to the message. Higher is better */
+  score: number
+}
+
+/** Result of the {@link useRelevantContext} hook */
+export interface RelevantContext {
+  /**
+   * Finds the passages most relevant to a message, first embedding any notes
+   * that are out of date
+   */
+  retrieve: (query: string, limit: number, signal?: AbortSignal) => Promise<RetrievedPassage[]>
+  /** Number of notes whose embeddings are missing or out of date */
+  pendingCount: number
+  /** Whether notes are being embedded */
+  isIndexing: boolean
+  /** Error from background indexing, if any */
+  error: Error | null
+}
+
+/**
+ * Hook that keeps embeddings of a board's notes up to date and retrieves the
+ * passages most relevant to a chat message
+ * @param store The store to read and write embeddings
+ * @param boardId The board whose notes to embed
+ * @param cards The cards on the board
+ * @param llmSettings API keys, which choose the embedding provider
+ * @param enabled Whether to embed notes. Nothing is loaded or embedded while disabled
+ */
+export function useRelevantContext(
+  store: Store,
+  boardId: string,
+  cards: Card[],
+  llmSettings: LLMSettings,
+  enabled: boolean
+): RelevantContext {
+  const { embeddings } = useCardEmbeddings(store, boardId, enabled)
+  const [provider, setProvider] = useState<EmbeddingProvider | null>(null)
+  const [isIndexing, setIsIndexing] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  // Embeddings computed here are kept until the store reports them back
+  const [computed, setComputed] = useState<Map<string, CardEmbedding>>(new Map())
+  const queueRef = useRef<Promise<void>>(Promise.resolve())
+
+  const { openaiKey, openrouterKey, geminiKey } = llmSettings
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    LLMFactory.createEmbeddingProvider({ openaiKey, openrouterKey, geminiKey }).then(created => {
+      if (!cancelled) setProvider(created)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, openaiKey, openrouterKey, geminiKey])
+
+  const embeddingsByCard = useMemo(() => {
+    const byCard = new Map(computed)
+    embeddings.forEach(embedding => {
+      const existing = byCard.get(embedding.cardId)
+      if (!existing || existing.updatedAt <= embedding.updatedAt) {
+        byCard.set(embedding.cardId, embedding)
+      }
+    })
+    return byCard
+  }, [embeddings, computed])
+
+  const notes = useMemo(
+    () => cards.filter((c): c is RichTextCard => c.type === 'richtext' && c.content.markdown.trim().length > 0),
+    [cards]
+  )
+
+  const staleNotes = useMemo(
+    () => provider ? notes.filter(card => !isEmbeddingCurrent(card, embeddingsByCard.get(card.id), provider.model)) : notes,
+    [provider, notes, embeddingsByCard]
+  )
+
+  // Refs so queued work sees the latest state rather than what it was when queued
+  const staleNotesRef = useRef(staleNotes)
+  staleNotesRef.current = staleNotes
+  const embeddingsByCardRef = useRef(embeddingsByCard)
+  embeddingsByCardRef.current = embeddingsByCard
+
+  /**
+   * Embeds every out of date note. Runs are queued so the same note is never embedded twice at once
+   */
+  const indexNotes = useCallback((signal?: AbortSignal): Promise<void> => {
+    const run = async () => {
+      if (!provider) return
+      const stale = staleNotesRef.current.filter(card =>
+        !isEmbeddingCurrent(card, embeddingsByCardRef.current.get(card.id), provider.model)
+      )
+      if (stale.length === 0) return
+
+      setIsIndexing(true)
+      try {
+        for (const card of stale) {
+          const embedding = await embedCard(card, provider, signal)
+          embeddingsByCardRef.current = new Map(embeddingsByCardRef.current).set(card.id, embedding)
+          setComputed(previous => new Map(previous).set(card.id, embedding))
+          await store.setCardEmbedding(embedding)
+        }
+      } finally {
+        setIsIndexing(false)
+      }
+    }
+
+    const next = queueRef.current.catch(() => {}).then(run)
+    queueRef.current = next
+    return next
+  }, [provider, store])
+
+  // Embed changed notes in the background once editing pauses
+  useEffect(() => {
+    if (!enabled || !provider || staleNotes.length === 0) return
+    const timeout = setTimeout(() => {
+      indexNotes().then(() => setError(null)).catch(err => {
+        console.error('Failed to embed notes:', err)
+        setError(err instanceof Error ? err : new Error('Failed to embed notes'))
+      })
+    }, INDEX_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [enabled, provider, staleNotes, indexNotes])
+
+  const retrieve = useCallback(async (query: string, limit: number, signal?: AbortSignal): Promise<RetrievedPassage[]> => {
+    if (!provider) {
+      throw new Error('Notes are not ready to search yet')
+    }
+    await indexNotes(signal)
+
+    const notesById = new Map(notes.map(card => [card.id, card]))
+    const candidates = [...embeddingsByCardRef.current.values()]
+      .filter(embedding => embedding.model === provider.model && notesById.has(embedding.cardId))
+
+    const [queryVector] = await provider.embed([query], signal)
+    return findRelevantChunks(queryVector, candidates, { limit }).map(chunk => ({
+      card: notesById.get(chunk.cardId)!,
+      text: chunk.text,
+      score: chunk.score
+    }))
+  }, [provider, notes, indexNotes])
+
+  return {
+    retrieve,
+    pendingCount: enabled ? staleNotes.length : 0,
+    isIndexing,
+    error
+  }
+}
@@ -0,0 +1,31 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { Store } from '../Store'
+import { StoreSearchIndex } from '../modules/search/StoreSearchIndex'
+import type { SearchIndex } from '../modules/search/SearchIndex'
+import type { Card } from '../types'
+
+/**
+ * Hook that indexes every board's cards and chats for full-text search and
+ * keeps the index up to date as they change
+ * @param store The store to index
+ * @returns The index, once created, the cards of every board, so that they are
+ * not loaded separately, and a version that changes whenever the index is updated
+ */
+export function useSearchIndex(store: Store): { index: SearchIndex | null, cards: Card[], version: number } {
+  const [storeIndex, setStoreIndex] = useState<StoreSearchIndex | null>(null)
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    const searchIndex = new StoreSearchIndex(store)
+    const unsubscribe = searchIndex.subscribe(() => setVersion(v => v + 1))
+    setStoreIndex(searchIndex)
+    return () => {
+      unsubscribe()
+      searchIndex.dispose()
+    }
+  }, [store])
+
+  const cards = useMemo(() => storeIndex?.getCards() ?? [], [storeIndex, version])
+
+  return { index: storeIndex?.index ?? null, cards, version }
+}
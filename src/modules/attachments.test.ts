@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { formatFileSize, getDataUrlSize, getUnsupportedAttachments, isAttachmentType, parseDataUrl, toLLMFile } from './attachments'
+import type { ModelInfo } from '../api/llm'
+import type { ChatAttachment } from '../types'
+
+function makeModel(provider: ModelInfo['provider'], inputModalities?: ModelInfo['inputModalities']): ModelInfo {
+    return { id: provider, provider, modelId: provider, name: provider, ...(inputModalities ? { inputModalities } : {}) }
+}
+
+function makeAttachment(id: string, mimeType: string): ChatAttachment {
+    return { id, name: id, mimeType, size: 100 }
+}
+
+describe('attachments', () => {
+    it('should only accept images and PDFs', () => {
+        expect(isAttachmentType('image/png')).toBe(true)
+        expect(isAttachmentType('application/pdf')).toBe(true)
+        expect(isAttachmentType('text/plain')).toBe(false)
+        expect(isAttachmentType('')).toBe(false)
+    })
+
+    it('should split data URLs into their type and content', () => {
+        expect(parseDataUrl('data:image/png;base64,iVBORw0KGgo=')).toEqual({ mimeType: 'image/png', data: 'iVBORw0KGgo=' })
+        expect(parseDataUrl('data:application/pdf;name=a.pdf;base64,JVBERi0=')).toEqual({ mimeType: 'application/pdf', data: 'JVBERi0=' })
+        expect(parseDataUrl('data:text/plain,hello')).toBeNull()
+        expect(parseDataUrl('https://example.com/a.png')).toBeNull()
+    })
+
+    it('should measure the decoded size of data URLs', () => {
+        expect(getDataUrlSize(`data:text/plain;base64,${btoa('abc')}`)).toBe(3)
+        expect(getDataUrlSize(`data:text/plain;base64,${btoa('abcd')}`)).toBe(4)
+        expect(getDataUrlSize(`data:text/plain;base64,${btoa('abcde')}`)).toBe(5)
+        expect(getDataUrlSize('not a data URL')).toBe(0)
+    })
+
+    it('should format sizes for display', () => {
+        expect(formatFileSize(512)).toBe('512 B')
+        expect(formatFileSize(300 * 1024)).toBe('300 KB')
+        expect(formatFileSize(1.5 * 1024 * 1024)).toBe('1.5 MB')
+    })
+
+    it('should turn attachments into files for models', () => {
+        expect(toLLMFile({ name: 'a.png', mimeType: 'image/png' }, 'data:image/png;base64,AAAA')).toEqual({ name: 'a.png', mimeType: 'image/png', data: 'AAAA' })
+        expect(toLLMFile({ name: 'a.png', mimeType: 'image/png' }, 'blob:abc')).toBeNull()
+    })
+
+    it('should find the attachments a model cannot read', () => {
+        const attachments = [makeAttachment('image', 'image/jpeg'), makeAttachment('pdf', 'application/pdf')]
+        const ids = (model: ModelInfo) => getUnsupportedAttachments(model, attachments).map(attachment => attachment.id)
+
+        expect(ids(makeModel('anthropic'))).toEqual([])
+        expect(ids(makeModel('custom'))).toEqual(['pdf'])
+        expect(ids(makeModel('deepseek'))).toEqual(['image', 'pdf'])
+        // Models from the catalog say what they accept
+        expect(ids(makeModel('openrouter'))).toEqual(['image', 'pdf'])
+        expect(ids(makeModel('openrouter', ['text', 'image']))).toEqual(['pdf'])
+    })
+})
@@ -0,0 +1,176 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { ChatAttachment, ImageCard } from '../types'
+import type { LLMFile, ModelInfo } from '../api/llm'
+import { modelAcceptsFile } from '../api/llm'
+
+/**
+ * Largest a file attached to a chat message may be once images are shrunk, in
+ * bytes. Stored documents are limited to 1 MB, and encoding and encryption add a
+ * good third to the size
+ */
+export const MAX_ATTACHMENT_SIZE = 512 * 1024
+
+/** Longest side of attached images, in pixels. Models shrink larger images anyway */
+const MAX_IMAGE_DIMENSION = 1568
+
+/** Quality of images that are shrunk, which are saved as JPEG */
+const JPEG_QUALITY = 0.85
+
+/** Types of files that can be attached to a chat message */
+export const ATTACHMENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']
+
+/** A file read to be attached to a chat message */
+export interface AttachmentFile {
+    /** Description of the file, stored with the message */
+    attachment: ChatAttachment
+    /** Content of the file as a data URL */
+    dataUrl: string
+}
+
+/** Checks whether a file of a type can be attached to a chat message */
+export function isAttachmentType(mimeType: string): boolean {
+    return ATTACHMENT_TYPES.includes(mimeType)
+}
+
+/** Checks whether an attachment is an image, which is shown as a picture */
+export function isImageAttachment(attachment: Pick<ChatAttachment, 'mimeType'>): boolean {
+    return attachment.mimeType.startsWith('image/')
+}
+
+/** Formats a size in bytes for display, e.g. 1.2 MB */
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Splits a base64 data URL into its type and content
+ * @returns Null if the text is not a base64 data URL
+ */
+export function parseDataUrl(dataUrl: string): { mimeType: string, data: string } | null {
+    const match = dataUrl.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/s)
+    return match ? { mimeType: match[1], data: match[2] } : null
+}
+
+/** Gets the size in bytes of the content of a base64 data URL */
+export function getDataUrlSize(dataUrl: string): number {
+    const data = parseDataUrl(dataUrl)?.data ?? ''
+    const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0
+    return Math.floor(data.length * 3 / 4) - padding
+}
+
+/**
+ * Converts an attachment to a file for a model
+ * @returns Null if the content is not a base64 data URL
+ */
+export function toLLMFile(attachment: Pick<ChatAttachment, 'name' | 'mimeType'>, dataUrl: string): LLMFile | null {
+    const parsed = parseDataUrl(dataUrl)
+    return parsed ? { name: attachment.name, mimeType: attachment.mimeType, data: parsed.data } : null
+}
+
+/** Gets the attachments that a model cannot be sent */
+export function getUnsupportedAttachments(model: ModelInfo, attachments: ChatAttachment[]): ChatAttachment[] {
+    return attachments.filter(attachment => !modelAcceptsFile(model, attachment.mimeType))
+}
+
+/**
+ * Reads a pasted, dropped or chosen file to attach to a chat message. Large images
+ * are shrunk so they fit within the size limit
+ * @throws Error with a message for the user if the file cannot be attached
+ */
+export async function readAttachmentFile(file: File): Promise<AttachmentFile> {
+    if (!isAttachmentType(file.type)) {
+        throw new Error(`${file.name || 'This file'} cannot be attached. Attach images or PDFs`)
+    }
+
+    let dataUrl = await readFileAsDataUrl(file)
+    let mimeType = file.type
+    // GIFs would lose their animation, so they are kept as they are
+    if (file.type.startsWith('image/') && file.type !== 'image/gif') {
+        const shrunk = await shrinkImage(dataUrl, getDataUrlSize(dataUrl) > MAX_ATTACHMENT_SIZE)
+        if (shrunk && getDataUrlSize(shrunk) < getDataUrlSize(dataUrl)) {
+            dataUrl = shrunk
+            mimeType = 'image/jpeg'
+        }
+    }
+
+    const size = getDataUrlSize(dataUrl)
+    if (size > MAX_ATTACHMENT_SIZE) {
+        throw new Error(`${file.name || 'This file'} is ${formatFileSize(size)}. Files can be at most ${formatFileSize(MAX_ATTACHMENT_SIZE)}`)
+    }
+
+    return {
+        attachment: { id: uuidv4(), name: file.name || 'Pasted image', mimeType, size },
+        dataUrl
+    }
+}
+
+/**
+ * Loads the picture of an image card as a file for a model. Pictures stored
+ * elsewhere are downloaded, which their server may not allow
+ * @returns Null if the picture could not be loaded
+ */
+export async function loadImageCardFile(card: ImageCard): Promise<LLMFile | null> {
+    const name = card.title || card.content.alt || 'Image'
+    try {
+        const dataUrl = card.content.url.startsWith('data:')
+            ? card.content.url
+            : await readFileAsDataUrl(await (await fetch(card.content.url)).blob())
+        const parsed = parseDataUrl(dataUrl)
+        return parsed?.mimeType.startsWith('image/') ? { name, ...parsed } : null
+    } catch (error) {
+        console.error('Failed to load image card:', error)
+        return null
+    }
+}
+
+/** Reads a file or blob as a data URL */
+function readFileAsDataUrl(file: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => {
+            if (typeof reader.result === 'string') {
+                resolve(reader.result)
+            } else {
+                reject(new Error('Failed to read file'))
+            }
+        }
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(file)
+    })
+}
+
+/**
+ * Shrinks an image so that its longest side is at most the largest dimension,
+ * saving it as JPEG
+ * @param force Whether to save an image that is small enough as JPEG anyway, to make the file smaller
+ * @returns The shrunk image as a data URL, or null if it is small enough or cannot be drawn
+ */
+function shrinkImage(dataUrl: string, force: boolean): Promise<string | null> {
+    return new Promise(resolve => {
+        const image = new Image()
+        image.onload = () => {
+            const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.width, image.height))
+            if (scale === 1 && !force) {
+                resolve(null)
+                return
+            }
+            const canvas = document.createElement('canvas')
+            canvas.width = Math.round(image.width * scale)
+            canvas.height = Math.round(image.height * scale)
+            const context = canvas.getContext('2d')
+            if (!context) {
+                resolve(null)
+                return
+            }
+            // JPEG has no transparency, so transparent areas become white rather than black
+            context.fillStyle = '#ffffff'
+            context.fillRect(0, 0, canvas.width, canvas.height)
+            context.drawImage(image, 0, 0, canvas.width, canvas.height)
+            resolve(canvas.toDataURL('image/jpeg', JPEG_QUALITY))
+        }
+        image.onerror = () => resolve(null)
+        image.src = dataUrl
+    })
+}
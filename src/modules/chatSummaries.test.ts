@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest'
+import { chatMatchesQuery, cleanTitle, formatTranscript, generateChatTitle, getChatDisplayTitle, hasChatTitle, MAX_CHAT_TITLE_LENGTH } from './chatSummaries'
+import type { LLMProvider } from '../api/llm'
+import type { ChatMessage } from '../types'
+import { makeChat } from '../test/fixtures'
+
+const messages: ChatMessage[] = [
+    { role: 'user', content: 'How do I prune tomato plants?', createdAt: '2026-05-01T00:00:00.000Z' },
+    { role: 'assistant', content: 'Remove the suckers between the stem and the branches.', createdAt: '2026-05-01T00:01:00.000Z' }
+]
+
+describe('chatSummaries', () => {
+    it('should treat the old placeholder title as no title', () => {
+        expect(hasChatTitle(makeChat({ title: '', messages }))).toBe(false)
+        expect(hasChatTitle(makeChat({ title: 'Chat', messages }))).toBe(false)
+        expect(getChatDisplayTitle(makeChat({ title: 'Chat', messages }))).toBe('How do I prune tomato plants?')
+        expect(getChatDisplayTitle(makeChat({ title: 'Pruning tomatoes', messages }))).toBe('Pruning tomatoes')
+    })
+
+    it('should search titles and messages for every word', () => {
+        const chat = makeChat({ title: 'Garden planning', messages })
+        expect(chatMatchesQuery(chat, 'garden')).toBe(true)
+        expect(chatMatchesQuery(chat, 'SUCKERS tomato')).toBe(true)
+        expect(chatMatchesQuery(chat, 'garden roses')).toBe(false)
+        expect(chatMatchesQuery(chat, '  ')).toBe(true)
+    })
+
+    it('should tidy titles written by a model', () => {
+        expect(cleanTitle('"Pruning Tomato Plants."')).toBe('Pruning Tomato Plants')
+        expect(cleanTitle('Title: **Tomato care**\nThis conversation is about tomatoes')).toBe('Tomato care')
+        expect(cleanTitle('# Tomatoes')).toBe('Tomatoes')
+        expect(cleanTitle('word '.repeat(40)).length).toBe(MAX_CHAT_TITLE_LENGTH)
+    })
+
+    it('should leave out the end of long conversations', () => {
+        expect(formatTranscript(messages, 1000)).toBe(
+            'User: How do I prune tomato plants?\n\nAssistant: Remove the suckers between the stem and the branches.'
+        )
+        expect(formatTranscript(messages, 10)).toBe('User: How \n\n[...]')
+    })
+
+    it('should ask for a title with its own instructions', async () => {
+        const createChatCompletion = vi.fn().mockResolvedValue({ content: '"Pruning tomatoes"', model: 'test', usage: { inputTokens: 50, outputTokens: 4 } })
+        const provider = { createChatCompletion } as unknown as LLMProvider
+
+        const result = await generateChatTitle(provider, { modelId: 'test', system: 'Answer questions' }, messages)
+
+        expect(result).toEqual({ title: 'Pruning tomatoes', usage: { inputTokens: 50, outputTokens: 4 } })
+        const [request, options] = createChatCompletion.mock.calls[0]
+        expect(request).toHaveLength(1)
+        expect(request[0].content).toContain('How do I prune tomato plants?')
+        expect(options.system).not.toBe('Answer questions')
+    })
+})
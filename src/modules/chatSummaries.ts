@@ -0,0 +1,120 @@
+import type { Chat, ChatMessage } from '../types'
+import type { LLMOptions, LLMProvider, LLMUsage } from '../api/llm'
+
+/** Longest a chat title may be, in characters */
+export const MAX_CHAT_TITLE_LENGTH = 80
+
+/** Title chats were created with before titles were written, which counts as no title */
+const PLACEHOLDER_CHAT_TITLE = 'Chat'
+
+/** Characters of the conversation sent to write a title */
+const TITLE_TRANSCRIPT_CHARS = 4000
+
+/** Characters of the conversation sent to summarize it */
+const SUMMARY_TRANSCRIPT_CHARS = 200_000
+
+/** Instructions for writing a chat title */
+const TITLE_PROMPT = `Write a title for the conversation below, as it would appear in a list of chats.
+Use at most six words, in the language of the conversation. Name the topic rather than describing the conversation.
+Reply with the title only, without quotes or punctuation at the end.`
+
+/** Instructions for summarizing a chat into a note */
+const SUMMARY_PROMPT = `Summarize the conversation below into a note the user can keep and come back to.
+Capture the facts, conclusions, decisions and open questions, not the back and forth of the conversation.
+Use markdown with short sections and lists where they help. Do not add a title, a preamble or a closing remark.`
+
+/** Checks whether a chat has been given a title */
+export function hasChatTitle(chat: Chat): boolean {
+    const title = chat.title?.trim()
+    return !!title && title !== PLACEHOLDER_CHAT_TITLE
+}
+
+/** Gets the start of the first message of a chat, to show in place of a title */
+export function getChatPreview(chat: Chat): string {
+    const firstMessage = chat.messages[0]
+    if (!firstMessage) return 'Empty chat'
+    return firstMessage.content.slice(0, 60) + (firstMessage.content.length > 60 ? '...' : '')
+}
+
+/** Gets the title of a chat for display, or the start of its first message if it has none */
+export function getChatDisplayTitle(chat: Chat): string {
+    return hasChatTitle(chat) ? chat.title.trim() : getChatPreview(chat)
+}
+
+/**
+ * Checks whether a chat matches a search of its title and messages
+ * @param query Words that must all appear, in any order and case
+ */
+export function chatMatchesQuery(chat: Chat, query: string): boolean {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+    if (words.length === 0) return true
+
+    const text = [hasChatTitle(chat) ? chat.title : '', ...chat.messages.map(message => message.content)].join('\n').toLowerCase()
+    return words.every(word => text.includes(word))
+}
+
+/**
+ * Formats a conversation as plain text to send to a model
+ * @param maxChars Characters after which the rest of the conversation is left out
+ */
+export function formatTranscript(messages: ChatMessage[], maxChars: number): string {
+    const transcript = messages
+        .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content.trim()}`)
+        .join('\n\n')
+    return transcript.length > maxChars ? `${transcript.slice(0, maxChars)}\n\n[...]` : transcript
+}
+
+/**
+ * Tidies a title written by a model: the first line only, without quotes, a
+ * "Title:" label, markdown or a period at the end, and no longer than the limit
+ */
+export function cleanTitle(text: string): string {
+    const firstLine = text.trim().split('\n')[0] ?? ''
+    const title = firstLine
+        .replace(/^#+\s*/, '')
+        .replace(/^title:\s*/i, '')
+        .replace(/^["'“”*_]+|["'“”*_]+$/g, '')
+        .replace(/\.$/, '')
+        .trim()
+    return title.length > MAX_CHAT_TITLE_LENGTH ? `${title.slice(0, MAX_CHAT_TITLE_LENGTH - 3).trimEnd()}...` : title
+}
+
+/**
+ * Writes a title for a chat from the start of its conversation
+ * @param options Options for the request. The system prompt is replaced
+ * @returns The title, empty if the model gave none, and the tokens used
+ */
+export async function generateChatTitle(
+    provider: LLMProvider,
+    options: LLMOptions,
+    messages: ChatMessage[],
+    signal?: AbortSignal
+): Promise<{ title: string, usage?: LLMUsage }> {
+    const response = await provider.createChatCompletion([{
+        role: 'user',
+        content: formatTranscript(messages, TITLE_TRANSCRIPT_CHARS),
+        createdAt: new Date().toISOString()
+    }], { ...options, system: TITLE_PROMPT, maxTokens: 60 }, signal)
+
+    return { title: cleanTitle(response.content), usage: response.usage }
+}
+
+/**
+ * Summarizes a chat into markdown to keep as a note
+ * @param options Options for the request. The system prompt is replaced
+ * @returns The summary and the tokens used
+ */
+export async function writeChatSummary(
+    provider: LLMProvider,
+    options: LLMOptions,
+    messages: ChatMessage[],
+    signal?: AbortSignal
+): Promise<{ markdown: string, usage?: LLMUsage }> {
+    const response = await provider.createChatCompletion([{
+        role: 'user',
+        content: formatTranscript(messages, SUMMARY_TRANSCRIPT_CHARS),
+        createdAt: new Date().toISOString()
+    }], { ...options, system: SUMMARY_PROMPT }, signal)
+
+    return { markdown: response.content.trim(), usage: response.usage }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { branchChat, getComparisonAnswers, getMessageVersions, switchToVersion } from './chatTree'
+import type { Chat, ChatMessage } from '../types'
+import { makeChat } from '../test/fixtures'
+
+function makeMessage(id: string, role: ChatMessage['role'], minute: number): ChatMessage {
+    return { id, role, content: id, createdAt: `2026-05-01T00:${String(minute).padStart(2, '0')}:00.000Z` }
+}
+
+/** Replaces a message and those after it with new messages, as editing and regenerating do */
+function replaceFrom(chat: Chat, messageIndex: number, messages: ChatMessage[]): Chat {
+    const branched = branchChat(chat, messageIndex)
+    return { ...branched, messages: [...branched.messages, ...messages] }
+}
+
+describe('chatTree', () => {
+    const question = makeMessage('q1', 'user', 1)
+    const answer = makeMessage('a1', 'assistant', 2)
+    const followUp = makeMessage('q2', 'user', 3)
+    const followUpAnswer = makeMessage('a2', 'assistant', 4)
+
+    it('should have a single version for chats that have never branched', () => {
+        const chat = makeChat({ messages: [question, answer] })
+        expect(getMessageVersions(chat, 1)).toEqual({ ids: ['a1'], index: 0 })
+    })
+
+    it('should give IDs to older messages when branching', () => {
+        const chat = makeChat({ messages: [{ role: 'user', content: 'Hi', createdAt: '2026-05-01T00:01:00.000Z' }, answer] })
+        const branched = branchChat(chat, 1)
+        expect(branched.messages[0].id).toBeTruthy()
+        expect(branched.branchMessages).toEqual([{ parentId: branched.messages[0].id, message: answer }])
+    })
+
+    it('should keep a regenerated answer as another version', () => {
+        const regenerated = replaceFrom(makeChat({ messages: [question, answer, followUp, followUpAnswer] }), 1, [makeMessage('a1b', 'assistant', 5)])
+
+        expect(regenerated.messages.map(m => m.id)).toEqual(['q1', 'a1b'])
+        expect(getMessageVersions(regenerated, 1)).toEqual({ ids: ['a1', 'a1b'], index: 1 })
+    })
+
+    it('should show an earlier version with the messages that followed it', () => {
+        const regenerated = replaceFrom(makeChat({ messages: [question, answer, followUp, followUpAnswer] }), 1, [makeMessage('a1b', 'assistant', 5)])
+        const switched = switchToVersion(regenerated, 1, 'a1')
+
+        expect(switched.messages.map(m => m.id)).toEqual(['q1', 'a1', 'q2', 'a2'])
+        expect(switched.branchMessages?.map(b => b.message.id)).toEqual(['a1b'])
+        expect(getMessageVersions(switched, 1)).toEqual({ ids: ['a1', 'a1b'], index: 0 })
+
+        // Switching back returns to the newer answer
+        expect(switchToVersion(switched, 1, 'a1b').messages.map(m => m.id)).toEqual(['q1', 'a1b'])
+    })
+
+    it('should keep edited questions as versions of the first message', () => {
+        const edited = replaceFrom(makeChat({ messages: [question, answer] }), 0, [makeMessage('q1b', 'user', 5), makeMessage('a1c', 'assistant', 6)])
+
+        expect(getMessageVersions(edited, 0)).toEqual({ ids: ['q1', 'q1b'], index: 1 })
+        expect(switchToVersion(edited, 0, 'q1').messages.map(m => m.id)).toEqual(['q1', 'a1'])
+    })
+
+    it('should return to the branch shown most recently below a version', () => {
+        let chat = makeChat({ messages: [question, answer, followUp, followUpAnswer] })
+        chat = replaceFrom(chat, 3, [makeMessage('a2b', 'assistant', 5)])
+        chat = replaceFrom(chat, 1, [makeMessage('a1b', 'assistant', 6)])
+
+        expect(switchToVersion(chat, 1, 'a1').messages.map(m => m.id)).toEqual(['q1', 'a1', 'q2', 'a2b'])
+    })
+
+    it('should group the answers of a comparison apart from regenerated versions', () => {
+        const compared = (id: string, minute: number): ChatMessage => ({ ...makeMessage(id, 'assistant', minute), comparisonId: 'comparison' })
+        let chat: Chat = {
+            ...makeChat({ messages: [question, compared('a1', 2)] }),
+            branchMessages: [{ parentId: 'q1', message: compared('a1b', 3) }]
+        }
+        expect(getComparisonAnswers(chat, 1).map(m => m.id)).toEqual(['a1', 'a1b'])
+
+        chat = replaceFrom(chat, 1, [makeMessage('a1c', 'assistant', 5)])
+        expect(getComparisonAnswers(chat, 1)).toEqual([])
+        expect(getComparisonAnswers(switchToVersion(chat, 1, 'a1b'), 1).map(m => m.id)).toEqual(['a1', 'a1b'])
+    })
+
+    it('should ignore unknown versions', () => {
+        const chat = makeChat({ messages: [question, answer] })
+        expect(switchToVersion(chat, 1, 'missing')).toBe(chat)
+    })
+})
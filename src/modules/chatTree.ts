@@ -0,0 +1,108 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { Chat, ChatBranchMessage, ChatMessage } from '../types'
+
+/**
+ * The versions of a message of the branch being shown, which are the messages
+ * in any branch that follow the same message
+ */
+export interface MessageVersions {
+    /** IDs of the versions, oldest first */
+    ids: string[]
+    /** Position among them of the version being shown */
+    index: number
+}
+
+/** Gives an ID to each message that lacks one */
+export function withMessageIds(messages: ChatMessage[]): ChatMessage[] {
+    return messages.map(message => message.id ? message : { ...message, id: uuidv4() })
+}
+
+/** Gets the ID of the message that a message of the branch being shown follows */
+function getParentId(messages: ChatMessage[], index: number): string | null {
+    return index > 0 ? messages[index - 1].id ?? null : null
+}
+
+/**
+ * Gets the versions of a message of the branch being shown
+ * @param messageIndex Index of the message in chat.messages
+ */
+export function getMessageVersions(chat: Chat, messageIndex: number): MessageVersions {
+    const message = chat.messages[messageIndex]
+    if (!message?.id) return { ids: [], index: 0 }
+
+    const versions = getVersions(chat, messageIndex)
+    return { ids: versions.map(version => version.id!), index: versions.indexOf(message) }
+}
+
+/** Gets the versions of a message of the branch being shown, oldest first */
+function getVersions(chat: Chat, messageIndex: number): ChatMessage[] {
+    const parentId = getParentId(chat.messages, messageIndex)
+    return [
+        chat.messages[messageIndex],
+        ...(chat.branchMessages ?? []).filter(branch => branch.parentId === parentId).map(branch => branch.message)
+    ].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/**
+ * Gets the answers of a comparison that a message of the branch being shown belongs to
+ * @param messageIndex Index of the message in chat.messages
+ * @returns The answers in the order of their versions, or an empty list if the message is not part of a comparison
+ */
+export function getComparisonAnswers(chat: Chat, messageIndex: number): ChatMessage[] {
+    const message = chat.messages[messageIndex]
+    if (!message?.id || !message.comparisonId) return []
+
+    return getVersions(chat, messageIndex).filter(version => version.comparisonId === message.comparisonId)
+}
+
+/**
+ * Moves a message of the branch being shown and those after it to the other branches,
+ * so that a new version of the message can take its place
+ * @param messageIndex Index of the first message to move
+ * @returns The chat, showing only the messages before it
+ */
+export function branchChat(chat: Chat, messageIndex: number): Chat {
+    const messages = withMessageIds(chat.messages)
+    const hidden: ChatBranchMessage[] = messages.slice(messageIndex).map((message, i) => ({
+        parentId: getParentId(messages, messageIndex + i),
+        message
+    }))
+
+    return {
+        ...chat,
+        messages: messages.slice(0, messageIndex),
+        branchMessages: [...(chat.branchMessages ?? []), ...hidden]
+    }
+}
+
+/**
+ * Shows another version of a message of the branch being shown, followed by the
+ * messages that were shown after it last time
+ * @param messageIndex Index of the message in chat.messages
+ * @param messageId ID of the version to show
+ * @returns The chat, unchanged if there is no such version
+ */
+export function switchToVersion(chat: Chat, messageIndex: number, messageId: string): Chat {
+    if (chat.messages[messageIndex]?.id === messageId) return chat
+    if (!getMessageVersions(chat, messageIndex).ids.includes(messageId)) return chat
+
+    const branched = branchChat(chat, messageIndex)
+    const branchMessages = branched.branchMessages ?? []
+
+    // Messages are added to the other branches as they are hidden, so the last child
+    // of a message is the one that was shown after it most recently
+    const path: ChatMessage[] = []
+    let current = branchMessages.find(branch => branch.message.id === messageId)
+    while (current) {
+        path.push(current.message)
+        const parentId = current.message.id
+        current = branchMessages.filter(branch => branch.parentId === parentId).pop()
+    }
+
+    const shownIds = new Set(path.map(message => message.id))
+    return {
+        ...branched,
+        messages: [...branched.messages, ...path],
+        branchMessages: branchMessages.filter(branch => !shownIds.has(branch.message.id))
+    }
+}
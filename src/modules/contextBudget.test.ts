@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { budgetContext } from './contextBudget'
+import type { ChatMessage } from '../types'
+
+/** Makes a message of roughly the given number of tokens */
+function message(role: ChatMessage['role'], label: string, tokens: number): ChatMessage {
+    return { role, content: `${label} ${'x'.repeat(tokens * 4)}`, createdAt: '' }
+}
+
+/** A conversation of alternating messages, oldest first */
+function conversation(count: number, tokens: number): ChatMessage[] {
+    return Array.from({ length: count }, (_, i) => message(i % 2 === 0 ? 'user' : 'assistant', `m${i}`, tokens))
+}
+
+describe('contextBudget', () => {
+    describe('budgetContext', () => {
+        it('should keep everything when it fits', () => {
+            const messages = conversation(3, 10)
+            const notes = [{ id: 'a', text: 'note a' }, { id: 'b', text: 'note b' }]
+            const budget = budgetContext({ systemPrompt: 'system', notes, messages, contextWindow: 10000, reservedOutputTokens: 1000 })
+
+            expect(budget.messages).toEqual(messages)
+            expect(budget.notes).toEqual(notes)
+            expect(budget.omittedMessageSummary).toBeNull()
+            expect(budget.usage.omittedMessageCount).toBe(0)
+            expect(budget.usage.omittedNoteCount).toBe(0)
+            expect(budget.usage.usedTokens).toBeGreaterThan(0)
+            expect(budget.usage.usedTokens).toBeLessThan(9000)
+        })
+
+        it('should drop the oldest messages and summarize them', () => {
+            const messages = conversation(21, 500)
+            const budget = budgetContext({ systemPrompt: 'system', notes: [], messages, contextWindow: 6000, reservedOutputTokens: 1000 })
+
+            expect(budget.messages[budget.messages.length - 1]).toBe(messages[20])
+            expect(budget.messages[0].role).toBe('user')
+            expect(budget.usage.omittedMessageCount).toBe(21 - budget.messages.length)
+            expect(budget.usage.omittedMessageCount).toBeGreaterThan(0)
+            expect(budget.omittedMessageSummary).toContain('left out to fit the context window')
+            expect(budget.omittedMessageSummary).toContain('- m0 ')
+            expect(budget.usage.usedTokens).toBeLessThanOrEqual(5000)
+        })
+
+        it('should drop the lowest priority notes and truncate the first that does not fit', () => {
+            const notes = [
+                { id: 'a', text: 'a'.repeat(4 * 1000) },
+                { id: 'b', text: 'b'.repeat(4 * 3000) },
+                { id: 'c', text: 'c'.repeat(4 * 100) }
+            ]
+            const budget = budgetContext({ systemPrompt: 'system', notes, messages: conversation(1, 10), contextWindow: 4000, reservedOutputTokens: 1000 })
+
+            expect(budget.notes.map(n => n.id)).toEqual(['a', 'b'])
+            expect(budget.notes[1].text).toContain('[...truncated]')
+            expect(budget.usage.truncatedNote).toBe(true)
+            expect(budget.usage.omittedNoteCount).toBe(1)
+            expect(budget.usage.usedTokens).toBeLessThanOrEqual(3000)
+        })
+
+        it('should always keep the latest message', () => {
+            const messages = [message('user', 'huge', 5000)]
+            const budget = budgetContext({ systemPrompt: 'system', notes: [{ id: 'a', text: 'note' }], messages, contextWindow: 1000, reservedOutputTokens: 100 })
+
+            expect(budget.messages).toEqual(messages)
+            expect(budget.notes).toEqual([])
+            expect(budget.usage.usedTokens).toBeGreaterThan(1000)
+        })
+    })
+})
@@ -0,0 +1,171 @@
+import type { ChatMessage } from '../types'
+import { estimateTokens, estimateMessageTokens } from './tokens'
+
+/** A note, or passages of one, that can be included in the system prompt */
+export interface BudgetNote {
+    /** ID of the card */
+    id: string
+    /** Content to include */
+    text: string
+}
+
+/** What to fit into a model's context window */
+export interface ContextBudgetInput {
+    /** System prompt without any notes */
+    systemPrompt: string
+    /** Notes to include, highest priority first */
+    notes: BudgetNote[]
+    /** The conversation, oldest first. The last message is always kept */
+    messages: ChatMessage[]
+    /** The model's context window in tokens */
+    contextWindow: number
+    /** Tokens kept free for the response */
+    reservedOutputTokens: number
+}
+
+/** How much of a context window a request uses */
+export interface ContextUsage {
+    /** Estimated tokens used by the prompt */
+    usedTokens: number
+    /** The model's context window in tokens */
+    contextWindow: number
+    /** Number of older messages left out */
+    omittedMessageCount: number
+    /** Number of notes left out */
+    omittedNoteCount: number
+    /** Whether the last included note was cut short */
+    truncatedNote: boolean
+}
+
+/** The parts of a request that fit in the context window */
+export interface ContextBudget {
+    /** Notes to include, in priority order. The last may be truncated */
+    notes: BudgetNote[]
+    /** Messages to send, oldest first. Always starts with a user message */
+    messages: ChatMessage[]
+    /** Summary of the messages that were left out, for the system prompt, or null if none were */
+    omittedMessageSummary: string | null
+    /** How much of the window is used */
+    usage: ContextUsage
+}
+
+/** Tokens kept free for the response by default */
+export const RESERVED_OUTPUT_TOKENS = 8192
+
+/** Share of the available space that older messages may use before notes are added */
+const HISTORY_SHARE = 0.4
+/** Tokens for the tags wrapped around each note */
+const NOTE_OVERHEAD_TOKENS = 30
+/** Most tokens spent summarizing omitted messages */
+const SUMMARY_MAX_TOKENS = 500
+/** Smallest excerpt worth including when a note has to be truncated */
+const MIN_TRUNCATED_NOTE_TOKENS = 200
+/** Appended to a note that was cut short */
+const TRUNCATION_MARKER = '\n\n[...truncated]'
+/** Characters kept from each omitted question in the summary */
+const SUMMARY_LINE_CHARS = 120
+
+/**
+ * Summarizes omitted messages by listing the user's questions
+ */
+function summarizeOmittedMessages(omitted: ChatMessage[]): string {
+    const header = `${omitted.length} earlier message${omitted.length === 1 ? ' was' : 's were'} left out to fit the context window.`
+    const lines: string[] = []
+    let tokens = estimateTokens(header)
+
+    for (const message of omitted) {
+        if (message.role !== 'user') continue
+        const firstLine = message.content.trim().split('\n')[0]
+        const line = `- ${firstLine.length > SUMMARY_LINE_CHARS ? `${firstLine.slice(0, SUMMARY_LINE_CHARS)}...` : firstLine}`
+        tokens += estimateTokens(line) + 1
+        if (tokens > SUMMARY_MAX_TOKENS) break
+        lines.push(line)
+    }
+
+    return lines.length > 0 ? `${header} The user had asked:\n${lines.join('\n')}` : header
+}
+
+/**
+ * Fits a request into a model's context window. The system prompt and latest message
+ * are always kept. Older messages get a share of the remaining space, newest first,
+ * then notes are added in priority order, truncating the first one that does not fit.
+ * Space the notes do not need goes back to older messages. Messages that are left out
+ * are replaced by a short summary
+ * @param input The request to fit
+ * @returns The notes and messages to send, and how much of the window they use
+ */
+export function budgetContext(input: ContextBudgetInput): ContextBudget {
+    const { systemPrompt, notes, messages, contextWindow, reservedOutputTokens } = input
+
+    const latest = messages.length > 0 ? messages[messages.length - 1] : null
+    const older = messages.slice(0, -1)
+    const fixedTokens = estimateTokens(systemPrompt) + (latest ? estimateMessageTokens(latest) : 0)
+    let available = Math.max(0, contextWindow - reservedOutputTokens - fixedTokens)
+
+    // Leave room for a summary if not all of the history will fit
+    const olderTokens = older.reduce((sum, message) => sum + estimateMessageTokens(message), 0)
+    if (olderTokens > available * HISTORY_SHARE) {
+        available = Math.max(0, available - SUMMARY_MAX_TOKENS)
+    }
+
+    // Older messages, newest first, up to a limit
+    let firstKept = older.length
+    let historyTokens = 0
+    const takeHistory = (limit: number) => {
+        while (firstKept > 0) {
+            const tokens = estimateMessageTokens(older[firstKept - 1])
+            if (historyTokens + tokens > limit) break
+            historyTokens += tokens
+            firstKept--
+        }
+    }
+    takeHistory(available * HISTORY_SHARE)
+
+    // Notes in priority order
+    const includedNotes: BudgetNote[] = []
+    let notesTokens = 0
+    let truncatedNote = false
+    for (const note of notes) {
+        const remaining = available - historyTokens - notesTokens
+        const tokens = estimateTokens(note.text) + NOTE_OVERHEAD_TOKENS
+        if (tokens <= remaining) {
+            includedNotes.push(note)
+            notesTokens += tokens
+            continue
+        }
+        const excerptTokens = remaining - NOTE_OVERHEAD_TOKENS - estimateTokens(TRUNCATION_MARKER)
+        if (excerptTokens >= MIN_TRUNCATED_NOTE_TOKENS) {
+            // Estimate is roughly four characters per token
+            const text = note.text.slice(0, excerptTokens * 4) + TRUNCATION_MARKER
+            includedNotes.push({ ...note, text })
+            notesTokens += estimateTokens(text) + NOTE_OVERHEAD_TOKENS
+            truncatedNote = true
+        }
+        break
+    }
+
+    // Whatever the notes did not use goes back to the history
+    takeHistory(available - notesTokens)
+
+    // Providers expect the conversation to start with a user message
+    while (firstKept > 0 && firstKept < older.length && older[firstKept].role !== 'user') {
+        historyTokens -= estimateMessageTokens(older[firstKept])
+        firstKept++
+    }
+
+    const omitted = older.slice(0, firstKept)
+    const omittedMessageSummary = omitted.length > 0 ? summarizeOmittedMessages(omitted) : null
+
+    return {
+        notes: includedNotes,
+        messages: [...older.slice(firstKept), ...(latest ? [latest] : [])],
+        omittedMessageSummary,
+        usage: {
+            usedTokens: fixedTokens + historyTokens + notesTokens + (omittedMessageSummary ? estimateTokens(omittedMessageSummary) : 0),
+            contextWindow,
+            omittedMessageCount: omitted.length,
+            omittedNoteCount: notes.length - includedNotes.length,
+            truncatedNote
+        }
+    }
+}
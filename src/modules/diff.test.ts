@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines } from './diff'
+
+describe('diffLines', () => {
+    it('should mark identical texts as equal', () => {
+        expect(diffLines('a\nb', 'a\nb')).toEqual([
+            { type: 'equal', text: 'a' },
+            { type: 'equal', text: 'b' }
+        ])
+    })
+
+    it('should detect added and removed lines', () => {
+        expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+            { type: 'equal', text: 'a' },
+            { type: 'removed', text: 'b' },
+            { type: 'added', text: 'x' },
+            { type: 'equal', text: 'c' },
+            { type: 'added', text: 'd' }
+        ])
+    })
+
+    it('should treat empty text as having no lines', () => {
+        expect(diffLines('', 'a')).toEqual([{ type: 'added', text: 'a' }])
+        expect(diffLines('a', '')).toEqual([{ type: 'removed', text: 'a' }])
+        expect(diffLines('', '')).toEqual([])
+    })
+
+    it('should keep common lines when content is moved', () => {
+        const result = diffLines('a\nb\nc\nd', 'b\nc\na\nd')
+        expect(result.filter(line => line.type === 'equal').map(line => line.text)).toEqual(['b', 'c', 'd'])
+        expect(result.filter(line => line.type !== 'equal')).toEqual([
+            { type: 'removed', text: 'a' },
+            { type: 'added', text: 'a' }
+        ])
+    })
+})
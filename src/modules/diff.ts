@@ -0,0 +1,76 @@
+/**
+ * A single line in a line-based diff
+ */
+export interface DiffLine {
+    /** Whether the line is unchanged, only in the new text, or only in the old text */
+    type: 'equal' | 'added' | 'removed'
+    /** The text of the line (without trailing newline) */
+    text: string
+}
+
+/**
+ * Computes a line-based diff between two texts using the longest common subsequence.
+ * Removed lines are emitted before added lines within a changed region.
+ * @param oldText The original text
+ * @param newText The changed text
+ * @returns The lines of both texts annotated with how they changed
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const a = oldText === '' ? [] : oldText.split('\n')
+    const b = newText === '' ? [] : newText.split('\n')
+
+    // Strip common prefix and suffix so the LCS table only covers the changed region
+    let start = 0
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++
+    }
+    let endA = a.length
+    let endB = b.length
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--
+        endB--
+    }
+
+    const midA = a.slice(start, endA)
+    const midB = b.slice(start, endB)
+
+    // lcs[i][j] is the LCS length of midA[i..] and midB[j..]
+    const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0))
+    for (let i = midA.length - 1; i >= 0; i--) {
+        for (let j = midB.length - 1; j >= 0; j--) {
+            lcs[i][j] = midA[i] === midB[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+        }
+    }
+
+    const result: DiffLine[] = a.slice(0, start).map(text => ({ type: 'equal', text }))
+
+    let i = 0
+    let j = 0
+    while (i < midA.length && j < midB.length) {
+        if (midA[i] === midB[j]) {
+            result.push({ type: 'equal', text: midA[i] })
+            i++
+            j++
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            result.push({ type: 'removed', text: midA[i] })
+            i++
+        } else {
+            result.push({ type: 'added', text: midB[j] })
+            j++
+        }
+    }
+    while (i < midA.length) {
+        result.push({ type: 'removed', text: midA[i++] })
+    }
+    while (j < midB.length) {
+        result.push({ type: 'added', text: midB[j++] })
+    }
+
+    for (const text of a.slice(endA)) {
+        result.push({ type: 'equal', text })
+    }
+
+    return result
+}
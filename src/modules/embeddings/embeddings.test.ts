@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import {
+    chunkMarkdown,
+    hashContent,
+    cosineSimilarity,
+    findRelevantChunks,
+    embedCard,
+    isEmbeddingCurrent,
+    LocalEmbeddingProvider,
+    LOCAL_EMBEDDING_MODEL
+} from './embeddings'
+import type { CardEmbedding } from '../../types'
+import { makeCard } from '../../test/fixtures'
+
+describe('embeddings', () => {
+    describe('chunkMarkdown', () => {
+        it('should keep short notes in one passage', () => {
+            expect(chunkMarkdown('First paragraph.\n\nSecond paragraph.')).toEqual(['First paragraph.\n\nSecond paragraph.'])
+        })
+
+        it('should split between paragraphs and repeat the heading', () => {
+            const paragraph = 'x'.repeat(60)
+            const chunks = chunkMarkdown(`## Setup\n\n${paragraph}\n\n${paragraph}`, 100)
+            expect(chunks).toEqual([`## Setup\n\n${paragraph}`, `## Setup\n\n${paragraph}`])
+        })
+
+        it('should split long paragraphs at sentence ends', () => {
+            const sentence = `${'word '.repeat(15).trim()}.`
+            const chunks = chunkMarkdown(`${sentence} ${sentence} ${sentence}`, 100)
+            expect(chunks).toEqual([sentence, sentence, sentence])
+        })
+
+        it('should return nothing for empty markdown', () => {
+            expect(chunkMarkdown('  \n\n ')).toEqual([])
+        })
+    })
+
+    describe('hashContent', () => {
+        it('should be deterministic and change with the text', () => {
+            expect(hashContent('hello')).toBe(hashContent('hello'))
+            expect(hashContent('hello')).not.toBe(hashContent('hello!'))
+            expect(hashContent('hello')).toMatch(/^[0-9a-f]{16}$/)
+        })
+    })
+
+    describe('cosineSimilarity', () => {
+        it('should compare directions', () => {
+            expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1)
+            expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0)
+            expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1)
+        })
+
+        it('should return 0 for empty or mismatched vectors', () => {
+            expect(cosineSimilarity([0, 0], [1, 0])).toBe(0)
+            expect(cosineSimilarity([1], [1, 0])).toBe(0)
+        })
+    })
+
+    describe('LocalEmbeddingProvider', () => {
+        const provider = new LocalEmbeddingProvider()
+
+        it('should produce deterministic unit vectors', async () => {
+            const [a, b] = await provider.embed(['Tomatoes need sun', 'Tomatoes need sun'])
+            expect(a).toEqual(b)
+            expect(Math.hypot(...a)).toBeCloseTo(1)
+        })
+
+        it('should score texts sharing words higher', async () => {
+            const [query, related, unrelated] = await provider.embed([
+                'how much sun do tomatoes need',
+                'Tomatoes need full sun and regular watering',
+                'Quarterly budget review meeting notes'
+            ])
+            expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated))
+        })
+    })
+
+    describe('embedCard', () => {
+        it('should embed each passage and record the model and content hash', async () => {
+            const provider = new LocalEmbeddingProvider()
+            const card = makeCard({ title: 'Garden', markdown: 'Tomatoes need full sun and regular watering.' })
+            const embedding = await embedCard(card, provider)
+
+            expect(embedding.cardId).toBe('card')
+            expect(embedding.boardId).toBe('board')
+            expect(embedding.model).toBe(LOCAL_EMBEDDING_MODEL)
+            expect(embedding.chunks.map(c => c.text)).toEqual(['Garden\n\nTomatoes need full sun and regular watering.'])
+            expect(isEmbeddingCurrent(card, embedding, LOCAL_EMBEDDING_MODEL)).toBe(true)
+            expect(isEmbeddingCurrent(card, embedding, 'other-model')).toBe(false)
+            expect(isEmbeddingCurrent({ ...card, title: 'Vegetables' }, embedding, LOCAL_EMBEDDING_MODEL)).toBe(false)
+            expect(isEmbeddingCurrent(card, undefined, LOCAL_EMBEDDING_MODEL)).toBe(false)
+        })
+    })
+
+    describe('findRelevantChunks', () => {
+        const embeddings: CardEmbedding[] = [
+            {
+                cardId: 'a',
+                boardId: 'board-1',
+                model: 'test',
+                contentHash: '',
+                chunks: [{ text: 'a1', vector: [1, 0] }, { text: 'a2', vector: [0, 1] }],
+                updatedAt: ''
+            },
+            {
+                cardId: 'b',
+                boardId: 'board-1',
+                model: 'test',
+                contentHash: '',
+                chunks: [{ text: 'b1', vector: [0.8, 0.6] }],
+                updatedAt: ''
+            }
+        ]
+
+        it('should return the best passages first', () => {
+            expect(findRelevantChunks([1, 0], embeddings).map(c => c.text)).toEqual(['a1', 'b1'])
+        })
+
+        it('should apply the limit and minimum score', () => {
+            expect(findRelevantChunks([1, 0], embeddings, { limit: 1 }).map(c => c.text)).toEqual(['a1'])
+            expect(findRelevantChunks([0, 1], embeddings, { minScore: 0.7 }).map(c => c.cardId)).toEqual(['a'])
+        })
+    })
+})
@@ -0,0 +1,234 @@
+import type { CardEmbedding, RichTextCard } from '../../types'
+import type { EmbeddingProvider } from '../../api/llm'
+import { tokenize } from '../search/SearchIndex'
+
+/** A passage of a card that matched a query */
+export interface RelevantChunk {
+    /** Card the passage belongs to */
+    cardId: string
+    /** Text of the passage */
+    text: string
+    /** Cosine similarity to the query. Higher is better */
+    score: number
+}
+
+/** Options for {@link findRelevantChunks} */
+export interface FindRelevantChunksOptions {
+    /** Maximum number of passages to return. Defaults to 8 */
+    limit?: number
+    /** Passages scoring at or below this are left out. Defaults to 0 */
+    minScore?: number
+}
+
+/** Model name stored with embeddings from {@link LocalEmbeddingProvider} */
+export const LOCAL_EMBEDDING_MODEL = 'local/hashed-terms-256'
+
+/** Number of dimensions of local embeddings */
+const LOCAL_EMBEDDING_DIMENSIONS = 256
+/** Weight of word pairs relative to single words in local embeddings */
+const BIGRAM_WEIGHT = 0.5
+/** Default maximum length of a chunk in characters */
+const DEFAULT_MAX_CHUNK_CHARS = 1200
+/** Number of passages sent to the provider per request */
+const EMBEDDING_BATCH_SIZE = 32
+
+/**
+ * Hashes a string with 32-bit FNV-1a
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+/**
+ * Hashes text so that changes to it can be detected
+ * @returns A short hex string
+ */
+export function hashContent(text: string): string {
+    // Two passes with different seeds make accidental collisions vanishingly rare
+    return fnv1a(text).toString(16).padStart(8, '0') + fnv1a(`${text.length}:${text}`).toString(16).padStart(8, '0')
+}
+
+/**
+ * Splits a paragraph that is too long into pieces, at sentence ends where possible
+ */
+function splitLongBlock(block: string, maxChars: number): string[] {
+    const pieces: string[] = []
+    let current = ''
+    for (const sentence of block.split(/(?<=[.!?])\s+/)) {
+        if (current && current.length + 1 + sentence.length > maxChars) {
+            pieces.push(current)
+            current = ''
+        }
+        if (sentence.length > maxChars) {
+            for (let i = 0; i < sentence.length; i += maxChars) {
+                pieces.push(sentence.slice(i, i + maxChars))
+            }
+            continue
+        }
+        current = current ? `${current} ${sentence}` : sentence
+    }
+    if (current) pieces.push(current)
+    return pieces
+}
+
+/**
+ * Splits markdown into passages for embedding. Passages break between paragraphs and
+ * each one repeats the heading it falls under, so it makes sense on its own
+ * @param markdown The markdown to split
+ * @param maxChars Target maximum length of a passage
+ * @returns The passages, in order
+ */
+export function chunkMarkdown(markdown: string, maxChars: number = DEFAULT_MAX_CHUNK_CHARS): string[] {
+    const blocks = markdown
+        .split(/\n\s*\n/)
+        .map(block => block.trim())
+        .filter(block => block.length > 0)
+        .flatMap(block => block.length > maxChars ? splitLongBlock(block, maxChars) : [block])
+
+    const chunks: string[] = []
+    let current = ''
+    let heading: string | null = null
+
+    for (const block of blocks) {
+        const isHeading = /^#{1,6}\s/.test(block)
+        if (current && current.length + 2 + block.length > maxChars) {
+            chunks.push(current)
+            current = heading && !isHeading ? heading : ''
+        }
+        current = current ? `${current}\n\n${block}` : block
+        if (isHeading) {
+            heading = block.split('\n')[0]
+        }
+    }
+    if (current) {
+        chunks.push(current)
+    }
+    return chunks
+}
+
+/**
+ * Gets the text of a card that is embedded
+ */
+export function getEmbeddingText(card: RichTextCard): string {
+    const markdown = card.content.markdown.trim()
+    return card.title ? `${card.title}\n\n${markdown}` : markdown
+}
+
+/**
+ * Checks whether a card's embedding matches its current content and the given model
+ * @param card The card
+ * @param embedding The card's stored embedding, if any
+ * @param model The embedding model in use
+ */
+export function isEmbeddingCurrent(card: RichTextCard, embedding: CardEmbedding | undefined, model: string): boolean {
+    return !!embedding && embedding.model === model && embedding.contentHash === hashContent(getEmbeddingText(card))
+}
+
+/**
+ * Splits a card into passages and embeds them
+ * @param card The card to embed
+ * @param provider The embedding provider
+ * @param signal Signal to abort the requests
+ * @returns The card's embedding, ready to store
+ */
+export async function embedCard(card: RichTextCard, provider: EmbeddingProvider, signal?: AbortSignal): Promise<CardEmbedding> {
+    const text = getEmbeddingText(card)
+    const passages = chunkMarkdown(text)
+
+    const vectors: number[][] = []
+    for (let i = 0; i < passages.length; i += EMBEDDING_BATCH_SIZE) {
+        vectors.push(...await provider.embed(passages.slice(i, i + EMBEDDING_BATCH_SIZE), signal))
+    }
+
+    return {
+        cardId: card.id,
+        boardId: card.boardId,
+        model: provider.model,
+        contentHash: hashContent(text),
+        chunks: passages.map((passage, i) => ({ text: passage, vector: vectors[i] })),
+        updatedAt: new Date().toISOString()
+    }
+}
+
+/**
+ * Computes the cosine similarity of two vectors
+ * @returns A value from -1 to 1, or 0 if either vector is empty or they differ in length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) return 0
+
+    let dot = 0
+    let normA = 0
+    let normB = 0
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i]
+        normA += a[i] * a[i]
+        normB += b[i] * b[i]
+    }
+    if (normA === 0 || normB === 0) return 0
+    return dot / Math.sqrt(normA * normB)
+}
+
+/**
+ * Finds the passages most similar to a query
+ * @param queryVector Embedding of the query
+ * @param embeddings Embeddings of the cards to search. They must come from the same model as the query
+ * @param options Limit and minimum score
+ * @returns The best passages, best first
+ */
+export function findRelevantChunks(queryVector: number[], embeddings: CardEmbedding[], options: FindRelevantChunksOptions = {}): RelevantChunk[] {
+    const { limit = 8, minScore = 0 } = options
+
+    const scored: RelevantChunk[] = []
+    for (const embedding of embeddings) {
+        for (const chunk of embedding.chunks) {
+            const score = cosineSimilarity(queryVector, chunk.vector)
+            if (score > minScore) {
+                scored.push({ cardId: embedding.cardId, text: chunk.text, score })
+            }
+        }
+    }
+
+    return scored.sort((a, b) => b.score - a.score).slice(0, limit)
+}
+
+/**
+ * Embeds text locally by hashing its words and word pairs into a fixed-size vector.
+ * Much weaker than a real embedding model, as it only matches shared words, but it is
+ * deterministic and needs no network or API key
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    readonly model = LOCAL_EMBEDDING_MODEL
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedText(text))
+    }
+
+    /**
+     * Embeds a single text
+     */
+    private embedText(text: string): number[] {
+        const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0)
+        const terms = tokenize(text).map(token => token.term)
+
+        const add = (feature: string, weight: number) => {
+            const hash = fnv1a(feature)
+            // The top bit picks a sign so that collisions tend to cancel out
+            vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight
+        }
+        terms.forEach((term, i) => {
+            add(term, 1)
+            if (i > 0) {
+                add(`${terms[i - 1]} ${term}`, BIGRAM_WEIGHT)
+            }
+        })
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+        return norm === 0 ? vector : vector.map(value => value / norm)
+    }
+}
@@ -1,17 +1,147 @@
 import { getAuth } from 'firebase/auth'
-import { collection, doc, setDoc, deleteDoc, onSnapshot, query, where, getDoc, writeBatch, getDocs } from 'firebase/firestore'
+import {
+    collection,
+    doc,
+    setDoc,
+    updateDoc,
+    deleteDoc,
+    deleteField,
+    onSnapshot,
+    query,
+    where,
+    getDoc,
+    writeBatch,
+    getDocs,
+    type CollectionReference,
+    type DocumentData,
+    type DocumentReference,
+    type DocumentSnapshot,
+    type Query,
+    type QueryConstraint,
+    type QuerySnapshot
+} from 'firebase/firestore'
 import { db } from '../firebase/config'
-import type { EncryptedStore, EncryptedBoard, EncryptedCard, EncryptedChat, EncryptedUserSettings, EncryptedBlob } from './EncryptedTypes'
-import { encrypt, decrypt, generateMasterSalt, deriveMasterKey } from './crypto'
+import { deleteInBatches } from '../firebase/batch'
+import type { EncryptedStore, EncryptedBoard, EncryptedCard, EncryptedCardRevision, EncryptedCardEmbedding, EncryptedUsageRecord, EncryptedChat, EncryptedChatAttachment, EncryptedTrash, EncryptedUserSettings, EncryptedBlob, EncryptionKeys, EncryptionProgress, RememberedDevice } from './EncryptedTypes'
+import {
+    encrypt,
+    decrypt,
+    generateMasterSalt,
+    encodeSalt,
+    decodeSalt,
+    deriveMasterKey,
+    generateDataKey,
+    importDataKey,
+    wrapDataKey,
+    unwrapDataKey,
+    normalizeRecoveryCode,
+    generateDeviceKey,
+    importIndexKey,
+    blindId
+} from './crypto'
+import { getDeviceKey, storeDeviceKey, clearDeviceKey } from './deviceStorage'
+import { TEST_DATA, isKeyValid, unwrapWithPassword, wrapWithPassword, upgradePasswordKey, type PasswordKeySettings } from './passwordKey'
+import { keepTrashed } from '../trash'
 
-// Known text that we'll encrypt to validate the password
-const TEST_DATA = 'test-encryption'
+/** Most documents updated in one batch. Firestore allows 500 writes per batch */
+const UPDATE_BATCH_SIZE = 100
+
+/** Most encrypted characters written in one batch, as attachments make documents large */
+const UPDATE_BATCH_CHARS = 4 * 1024 * 1024
+
+/**
+ * Relationships that documents are queried by, with the field holding their
+ * blinded identifier once metadata is encrypted
+ */
+const BLINDED_RELATIONS = {
+    boardId: { field: 'blindBoardId', purpose: 'board' },
+    cardId: { field: 'blindCardId', purpose: 'card' },
+    chatId: { field: 'blindChatId', purpose: 'chat' }
+} as const
+
+type Relation = keyof typeof BLINDED_RELATIONS
+
+/**
+ * Metadata that each collection keeps outside the encrypted data until metadata
+ * is encrypted, and the relationships among it that documents are queried by
+ */
+const METADATA_FIELDS = {
+    boards: { fields: ['createdAt', 'updatedAt', 'deletedAt'], relations: [] },
+    cards: { fields: ['boardId', 'createdAt', 'updatedAt', 'deletedAt'], relations: ['boardId'] },
+    chats: { fields: ['boardId', 'createdAt', 'updatedAt', 'deletedAt'], relations: ['boardId'] },
+    attachments: { fields: ['chatId', 'boardId', 'createdAt'], relations: ['chatId', 'boardId'] },
+    revisions: { fields: ['cardId', 'boardId', 'createdAt'], relations: ['cardId', 'boardId'] },
+    embeddings: { fields: ['boardId', 'updatedAt'], relations: ['boardId'] },
+    usage: { fields: ['boardId', 'createdAt'], relations: [] }
+} satisfies Record<string, { fields: string[], relations: Relation[] }>
+
+type MetadataCollection = keyof typeof METADATA_FIELDS
+
+/**
+ * Field holding the blinded month that a usage record was created in, so that
+ * records can be queried by time without revealing it
+ */
+const BLIND_MONTH_FIELD = 'blindMonth'
+
+/** Modes of metadata encryption in the order accounts move through them */
+const METADATA_MODES: EncryptionSettings['metadata'][] = [undefined, 'blinded', 'encrypted']
+
+/** Most months that usage records are queried by. Firestore allows 30 values in an 'in' filter */
+const MAX_USAGE_MONTHS = 30
+
+/**
+ * A document with its metadata decrypted, in the form it had before metadata was encrypted
+ */
+interface DecodedDocument {
+    id: string
+    data: EncryptedBlob
+    [field: string]: any
+}
+
+/**
+ * Encryption settings, stored in settings/encryption
+ */
+interface EncryptionSettings extends PasswordKeySettings {
+    /** Salt of the key derived from the recovery code, as base64 */
+    recoverySalt?: string
+    /** The data key, encrypted with the key derived from the recovery code */
+    recoveryKey?: EncryptedBlob
+    /** Key for blinded identifiers, encrypted with the data key */
+    indexKey?: EncryptedBlob
+    /**
+     * How far metadata is encrypted. Documents are queried by blinded identifiers
+     * from 'blinded' on, and no longer hold plaintext metadata once 'encrypted'.
+     * Missing while metadata is in plaintext
+     */
+    metadata?: 'blinded' | 'encrypted'
+}
+
+/**
+ * A remembered device, stored in devices
+ */
+interface DeviceRecord {
+    /** Description of the device, e.g. "Chrome on Windows" */
+    name: string
+    /** The data key, encrypted with the non-extractable key the device keeps */
+    wrappedKey: EncryptedBlob
+    /** Timestamp when the device was remembered in ISO 8601 format */
+    createdAt: string
+    /** Timestamp when the device last unlocked the data in ISO 8601 format */
+    lastUsedAt: string
+}
 
 /**
  * Implementation of EncryptedStore using Firebase Firestore
  */
 export class EncryptedFirestoreStore implements EncryptedStore {
     private masterKey: CryptoKey | null = null
+    /** Key for blinded identifiers, once metadata is being encrypted */
+    private indexKey: CryptoKey | null = null
+    private metadata: EncryptionSettings['metadata'] = undefined
+    /** Stops listening for other devices encrypting metadata */
+    private unsubscribeSettings: (() => void) | null = null
+    /** Subscriptions to start again when queries change to blinded identifiers */
+    private metadataListeners = new Set<() => void>()
 
     private getUserId(): string {
         const user = getAuth().currentUser
@@ -32,97 +162,628 @@ export class EncryptedFirestoreStore implements EncryptedStore {
         return snapshot.exists()
     }
 
-    async initialize(password: string): Promise<void> {
+    async initialize(password: string, recoveryCode: string): Promise<void> {
         if (await this.isInitialized()) {
             throw new Error('Encryption already initialized')
         }
 
-        // Generate a new master salt
-        const masterSalt = generateMasterSalt()
-        
-        // Derive the master key
-        this.masterKey = await deriveMasterKey(password, masterSalt)
+        // Data is encrypted with a random key, stored only wrapped by keys derived
+        // from the password and from the recovery code
+        const dataKey = generateDataKey()
+        this.masterKey = await importDataKey(dataKey)
+        // Random like the data key, which it is stored wrapped by
+        const indexKey = generateDataKey()
 
-        // Create test data to validate password later
-        const encrypted = await encrypt(TEST_DATA, this.masterKey)
-        
-        const userId = this.getUserId()
-        await setDoc(doc(db, `users/${userId}/settings/encryption`), {
-            test: encrypted,
-            salt: btoa(String.fromCharCode(...masterSalt)) // Store salt as base64
-        })
+        const settings: EncryptionSettings = {
+            // Create test data to validate the data key later
+            test: await encrypt(TEST_DATA, this.masterKey),
+            ...await wrapWithPassword(dataKey, password),
+            ...await wrapWithRecoveryCode(dataKey, recoveryCode),
+            indexKey: await wrapDataKey(indexKey, this.masterKey),
+            metadata: 'encrypted'
+        }
+        await setDoc(this.getEncryptionSettingsRef(), settings)
+        await this.loadIndexKey(settings)
     }
 
     async validatePassword(password: string): Promise<boolean> {
-        const userId = this.getUserId()
-        const docRef = doc(db, `users/${userId}/settings/encryption`)
-        const snapshot = await getDoc(docRef)
-        
-        if (!snapshot.exists()) {
+        const settings = await this.getEncryptionSettings()
+        if (!settings) {
             return false
         }
 
         try {
-            const data = snapshot.data()
-            // Convert stored salt from base64 back to Uint8Array
-            const masterSalt = Uint8Array.from(atob(data.salt), c => c.charCodeAt(0))
-            
-            // Derive the master key
-            const key = await deriveMasterKey(password, masterSalt)
-            
-            // Try to decrypt test data
-            const decrypted = await decrypt(data.test, key)
-            const isValid = decrypted === TEST_DATA
-            
-            // If valid, store the key
-            if (isValid) {
-                this.masterKey = key
+            const dataKey = await unwrapWithPassword(password, settings)
+            if (!dataKey) {
+                this.masterKey = null
+                return false
             }
-            
-            return isValid
+            this.masterKey = await importDataKey(dataKey)
+            await this.loadIndexKey(settings)
+
+            // Accounts set up before keys were wrapped keep their key as the data key, and
+            // it is wrapped before unlocking. Unlocking does not wait on upgrading key derivation
+            const upgrade = this.upgradePasswordKey(settings, dataKey, password)
+            if (!settings.wrappedKey) {
+                await upgrade
+            } else {
+                void upgrade.catch(error => console.error('Failed to upgrade key derivation:', error))
+            }
+            return true
         } catch {
             this.masterKey = null
             return false
         }
     }
 
+    async unlockWithRecoveryCode(recoveryCode: string, newPassword: string): Promise<boolean> {
+        const settings = await this.getEncryptionSettings()
+        if (!settings?.recoverySalt || !settings.recoveryKey) {
+            return false
+        }
+
+        let dataKey: Uint8Array<ArrayBuffer>
+        try {
+            const wrappingKey = await deriveMasterKey(normalizeRecoveryCode(recoveryCode), decodeSalt(settings.recoverySalt))
+            dataKey = await unwrapDataKey(settings.recoveryKey, wrappingKey)
+        } catch {
+            return false
+        }
+
+        this.masterKey = await importDataKey(dataKey)
+        await this.loadIndexKey(settings)
+
+        // The forgotten password is replaced, and the recovery code keeps working
+        await this.savePasswordKey(dataKey, newPassword)
+        return true
+    }
+
+    async hasRecoveryCode(): Promise<boolean> {
+        const settings = await this.getEncryptionSettings()
+        return !!settings?.recoveryKey
+    }
+
+    async unlockWithDevice(): Promise<boolean> {
+        const userId = this.getUserId()
+        const deviceKey = await getDeviceKey(userId)
+        if (!deviceKey) {
+            return false
+        }
+
+        const deviceRef = doc(db, `users/${userId}/devices/${deviceKey.deviceId}`)
+        const [deviceSnapshot, settings] = await Promise.all([getDoc(deviceRef), this.getEncryptionSettings()])
+        if (!deviceSnapshot.exists()) {
+            // The device was revoked
+            await clearDeviceKey(userId)
+            return false
+        }
+        if (!settings) {
+            return false
+        }
+
+        try {
+            const device = deviceSnapshot.data() as DeviceRecord
+            const key = await importDataKey(await unwrapDataKey(device.wrappedKey, deviceKey.key))
+            // A device record that does not hold this account's data key never unlocks it
+            if (!await isKeyValid(key, settings.test)) {
+                return false
+            }
+            this.masterKey = key
+            await this.loadIndexKey(settings)
+        } catch {
+            return false
+        }
+
+        await updateDoc(deviceRef, { lastUsedAt: new Date().toISOString() })
+        return true
+    }
+
+    rememberDevice = async (password: string, name: string): Promise<void> => {
+        this.assertKeyAvailable()
+        const dataKey = await this.unwrapForChange(password)
+
+        const userId = this.getUserId()
+        // Replaces the record of an earlier time this device was remembered
+        const previous = await getDeviceKey(userId)
+        if (previous) {
+            await deleteDoc(doc(db, `users/${userId}/devices/${previous.deviceId}`))
+        }
+
+        const key = await generateDeviceKey()
+        const deviceRef = doc(collection(db, `users/${userId}/devices`))
+        const now = new Date().toISOString()
+        const device: DeviceRecord = {
+            name,
+            wrappedKey: await wrapDataKey(dataKey, key),
+            createdAt: now,
+            lastUsedAt: now
+        }
+        await setDoc(deviceRef, device)
+        await storeDeviceKey({ userId, deviceId: deviceRef.id, key })
+    }
+
+    getDevices = async (): Promise<RememberedDevice[]> => {
+        const userId = this.getUserId()
+        const [snapshot, deviceKey] = await Promise.all([
+            getDocs(collection(db, `users/${userId}/devices`)),
+            getDeviceKey(userId)
+        ])
+        return snapshot.docs
+            .map(deviceDoc => {
+                const { name, createdAt, lastUsedAt } = deviceDoc.data() as DeviceRecord
+                return { id: deviceDoc.id, name, createdAt, lastUsedAt, isCurrent: deviceDoc.id === deviceKey?.deviceId }
+            })
+            .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+    }
+
+    revokeDevice = async (deviceId: string): Promise<void> => {
+        const userId = this.getUserId()
+        await deleteDoc(doc(db, `users/${userId}/devices/${deviceId}`))
+        const deviceKey = await getDeviceKey(userId)
+        if (deviceKey?.deviceId === deviceId) {
+            await clearDeviceKey(userId)
+        }
+    }
+
+    lock = (): void => {
+        this.masterKey = null
+        this.indexKey = null
+        this.metadata = undefined
+        this.unsubscribeSettings?.()
+        this.unsubscribeSettings = null
+    }
+
+    isMetadataEncrypted = (): boolean => {
+        return this.metadata === 'encrypted'
+    }
+
+    encryptMetadata = async (onProgress?: (progress: EncryptionProgress) => void): Promise<void> => {
+        this.assertKeyAvailable()
+
+        const settingsRef = this.getEncryptionSettingsRef()
+        if (!this.indexKey) {
+            // From now on documents are written with blinded identifiers and
+            // encrypted metadata, as well as plaintext metadata until they are queried by them
+            const indexKey = generateDataKey()
+            await updateDoc(settingsRef, { indexKey: await wrapDataKey(indexKey, this.masterKey!) })
+            this.indexKey = await importIndexKey(indexKey)
+        }
+
+        let documents = await this.getMetadataDocuments()
+        const total = documents.length * 2
+        let done = 0
+        onProgress?.({ done, total })
+        const report = (count: number) => {
+            done = Math.min(done + count, total)
+            onProgress?.({ done, total })
+        }
+
+        // Documents get blinded identifiers first, so that they can be queried by them
+        if (!this.isMetadataBlinded()) {
+            const updates = await Promise.all(documents
+                .filter(({ stored }) => !stored.meta)
+                .map(async ({ name, ref, stored }) => {
+                    const { data, ...encoded } = await this.encodeMetadata(name, stored)
+                    return { ref, data: encoded }
+                }))
+            report(documents.length - updates.length)
+            await updateInBatches(updates, report)
+
+            await updateDoc(settingsRef, { metadata: 'blinded' })
+            this.setMetadataMode('blinded')
+            documents = await this.getMetadataDocuments()
+        } else {
+            report(documents.length)
+        }
+
+        // Then plaintext metadata is removed, including from documents written
+        // meanwhile. Running this again after an interruption finishes the rest
+        const updates = (await Promise.all(documents.map(async ({ name, ref, stored }) => {
+            const removed = METADATA_FIELDS[name].fields.filter(field => field in stored)
+            if (stored.meta && removed.length === 0) {
+                return null
+            }
+            const { data, ...encoded } = stored.meta ? {} : await this.encodeMetadata(name, stored)
+            return { ref, data: { ...encoded, ...Object.fromEntries(removed.map(field => [field, deleteField()])) } }
+        }))).filter(update => update !== null)
+        report(documents.length - updates.length)
+        await updateInBatches(updates, report)
+
+        await updateDoc(settingsRef, { metadata: 'encrypted' })
+        this.setMetadataMode('encrypted')
+        onProgress?.({ done: total, total })
+    }
+
+    getKeys = (): EncryptionKeys => {
+        this.assertKeyAvailable()
+        return { key: this.masterKey! }
+    }
+
+    changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+        this.assertKeyAvailable()
+        const dataKey = await this.unwrapForChange(currentPassword)
+
+        // Only the wrapped data key changes, so no data needs to be re-encrypted
+        await this.savePasswordKey(dataKey, newPassword)
+    }
+
+    setRecoveryCode = async (password: string, recoveryCode: string): Promise<void> => {
+        this.assertKeyAvailable()
+        const dataKey = await this.unwrapForChange(password)
+
+        // Replaces any earlier recovery code, which no longer unlocks the data
+        await updateDoc(this.getEncryptionSettingsRef(), { ...await wrapWithRecoveryCode(dataKey, recoveryCode) })
+    }
+
+    private getEncryptionSettingsRef(): DocumentReference {
+        return doc(db, `users/${this.getUserId()}/settings/encryption`)
+    }
+
+    private async getEncryptionSettings(): Promise<EncryptionSettings | null> {
+        const snapshot = await getDoc(this.getEncryptionSettingsRef())
+        return snapshot.exists() ? snapshot.data() as EncryptionSettings : null
+    }
+
+    /**
+     * Wraps the data key with a new key derived from a password, with the
+     * parameters new keys get on this device
+     */
+    private async savePasswordKey(dataKey: Uint8Array<ArrayBuffer>, password: string): Promise<void> {
+        await updateDoc(this.getEncryptionSettingsRef(), {
+            ...await wrapWithPassword(dataKey, password),
+            salt: deleteField()
+        })
+    }
+
+    /**
+     * Upgrades how the data key is wrapped by the password, if it needs it
+     */
+    private async upgradePasswordKey(settings: EncryptionSettings, dataKey: Uint8Array<ArrayBuffer>, password: string): Promise<void> {
+        const upgraded = await upgradePasswordKey(settings, dataKey, password)
+        if (upgraded) {
+            await updateDoc(this.getEncryptionSettingsRef(), {
+                kdf: upgraded.kdf,
+                wrappedKey: upgraded.wrappedKey,
+                salt: deleteField()
+            })
+        }
+    }
+
+    /**
+     * Gets the data key to wrap again when the password or recovery code changes
+     * @throws Error if the password is wrong
+     */
+    private async unwrapForChange(password: string): Promise<Uint8Array<ArrayBuffer>> {
+        const settings = await this.getEncryptionSettings()
+        const dataKey = settings && await unwrapWithPassword(password, settings)
+        if (!dataKey) {
+            throw new Error('Current encryption password is incorrect')
+        }
+        return dataKey
+    }
+
+    /**
+     * Loads the key for blinded identifiers and the metadata mode, and follows
+     * them as another device encrypts metadata
+     */
+    private async loadIndexKey(settings: EncryptionSettings): Promise<void> {
+        this.indexKey = null
+        this.metadata = undefined
+        await this.applyMetadataSettings(settings)
+
+        if (!this.unsubscribeSettings) {
+            this.unsubscribeSettings = onSnapshot(this.getEncryptionSettingsRef(), (snapshot) => {
+                if (!snapshot.exists() || !this.masterKey) return
+                this.applyMetadataSettings(snapshot.data() as EncryptionSettings)
+                    .catch(error => console.error('Failed to update metadata encryption:', error))
+            })
+        }
+    }
+
+    /**
+     * Moves to the metadata mode of the stored settings if it is further along,
+     * never back, so that documents are not written in a form other devices no
+     * longer query by
+     */
+    private async applyMetadataSettings(settings: EncryptionSettings): Promise<void> {
+        if (settings.indexKey && !this.indexKey) {
+            this.indexKey = await importIndexKey(await unwrapDataKey(settings.indexKey, this.masterKey!))
+        }
+        if (METADATA_MODES.indexOf(settings.metadata) > METADATA_MODES.indexOf(this.metadata)) {
+            this.setMetadataMode(settings.metadata)
+        }
+    }
+
+    /**
+     * Changes the metadata mode, starting subscriptions again whose queries depend on it
+     */
+    private setMetadataMode(metadata: EncryptionSettings['metadata']): void {
+        this.metadata = metadata
+        this.metadataListeners.forEach(listener => listener())
+    }
+
+    /**
+     * Re-reads the metadata mode before a write until metadata is encrypted, as
+     * another device may have moved it further since it was last heard of
+     */
+    private async refreshMetadataMode(): Promise<void> {
+        if (this.metadata === 'encrypted') return
+        const settings = await this.getEncryptionSettings()
+        if (settings) {
+            await this.applyMetadataSettings(settings)
+        }
+    }
+
+    /**
+     * Converts a document to the form it is stored in, in the current metadata mode
+     */
+    private async encodeForWrite(name: MetadataCollection, record: DocumentData): Promise<DocumentData> {
+        await this.refreshMetadataMode()
+        return this.encodeMetadata(name, record)
+    }
+
+    /**
+     * Starts a subscription whose query depends on the metadata mode, starting it
+     * again with the new query whenever the mode moves on
+     */
+    private subscribeWithMetadata(subscribe: () => Promise<() => void>): () => void {
+        let unsubscribe = subscribeWhenReady(subscribe)
+        const resubscribe = () => {
+            unsubscribe()
+            unsubscribe = subscribeWhenReady(subscribe)
+        }
+        this.metadataListeners.add(resubscribe)
+        return () => {
+            this.metadataListeners.delete(resubscribe)
+            unsubscribe()
+        }
+    }
+
+    /**
+     * Whether documents are queried by blinded identifiers rather than by their
+     * plaintext metadata
+     */
+    private isMetadataBlinded(): boolean {
+        return this.metadata === 'blinded' || this.metadata === 'encrypted'
+    }
+
+    /**
+     * Gets the documents of every collection with metadata, to encrypt it
+     */
+    private async getMetadataDocuments(): Promise<{ name: MetadataCollection, ref: DocumentReference, stored: DocumentData }[]> {
+        const userId = this.getUserId()
+        const names = Object.keys(METADATA_FIELDS) as MetadataCollection[]
+        const snapshots = await Promise.all(names.map(name => getDocs(collection(db, `users/${userId}/${name}`))))
+        return snapshots.flatMap((snapshot, index) => snapshot.docs.map(document => ({
+            name: names[index],
+            ref: document.ref,
+            stored: document.data()
+        })))
+    }
+
+    /**
+     * Converts a document to the form it is stored in. Once there is a key for
+     * blinded identifiers, metadata is encrypted and relationships are blinded, and
+     * plaintext metadata is only kept until documents are queried by blinded identifiers
+     */
+    private async encodeMetadata(name: MetadataCollection, record: DocumentData): Promise<DocumentData> {
+        if (!this.indexKey) {
+            return record
+        }
+
+        const { fields, relations } = METADATA_FIELDS[name]
+        const metadata = Object.fromEntries(fields.filter(field => record[field] != null).map(field => [field, record[field]]))
+        const encoded: DocumentData = this.isMetadataBlinded()
+            ? Object.fromEntries(Object.entries(record).filter(([field]) => !(fields as string[]).includes(field)))
+            : { ...record }
+
+        for (const relation of relations as Relation[]) {
+            if (record[relation] != null) {
+                const { field, purpose } = BLINDED_RELATIONS[relation]
+                encoded[field] = await blindId(this.indexKey, purpose, record[relation])
+            }
+        }
+        if (name === 'usage' && record.createdAt) {
+            encoded[BLIND_MONTH_FIELD] = await blindId(this.indexKey, 'month', record.createdAt.slice(0, 7))
+        }
+        encoded.meta = await encrypt(JSON.stringify(metadata), this.masterKey!)
+        return encoded
+    }
+
+    /**
+     * Gets the metadata of a stored document, decrypting it if it is encrypted
+     */
+    private async decodeMetadata(name: MetadataCollection, stored: DocumentData): Promise<{ data: EncryptedBlob, [field: string]: any }> {
+        if (stored.meta) {
+            return { ...JSON.parse(await decrypt(stored.meta, this.masterKey!)), data: stored.data }
+        }
+        const { fields } = METADATA_FIELDS[name]
+        return {
+            ...Object.fromEntries(fields.filter(field => stored[field] !== undefined).map(field => [field, stored[field]])),
+            data: stored.data
+        }
+    }
+
+    /**
+     * Decodes a document, leaving it out if its metadata cannot be decrypted
+     */
+    private async decodeDocument(name: MetadataCollection, id: string, stored: DocumentData): Promise<DecodedDocument | null> {
+        try {
+            return { id, ...await this.decodeMetadata(name, stored) }
+        } catch (error) {
+            console.error(`Failed to decrypt metadata of ${name}/${id}:`, error)
+            return null
+        }
+    }
+
+    /**
+     * Makes a listener that decodes the documents of query snapshots before reporting
+     * them. A snapshot that finishes decoding after a newer one is not reported
+     */
+    private decodeSnapshots(name: MetadataCollection, callback: (documents: DecodedDocument[]) => void): (snapshot: QuerySnapshot) => void {
+        let latest = 0
+        return (snapshot) => {
+            const current = ++latest
+            Promise.all(snapshot.docs.map(document => this.decodeDocument(name, document.id, document.data())))
+                .then(documents => {
+                    if (current === latest) {
+                        callback(documents.filter((document): document is DecodedDocument => document !== null))
+                    }
+                })
+        }
+    }
+
+    /**
+     * Makes a listener that decodes document snapshots before reporting them
+     */
+    private decodeSnapshot(name: MetadataCollection, callback: (document: DecodedDocument | null) => void): (snapshot: DocumentSnapshot) => void {
+        let latest = 0
+        return (snapshot) => {
+            const current = ++latest
+            const decoded = snapshot.exists() ? this.decodeDocument(name, snapshot.id, snapshot.data()) : Promise.resolve(null)
+            decoded.then(document => {
+                if (current === latest) {
+                    callback(document)
+                }
+            })
+        }
+    }
+
+    /**
+     * Gets the filter for documents related to a board, card or chat
+     */
+    private async whereRelated(relation: Relation, id: string): Promise<QueryConstraint> {
+        if (!this.isMetadataBlinded()) {
+            return where(relation, '==', id)
+        }
+        const { field, purpose } = BLINDED_RELATIONS[relation]
+        return where(field, '==', await blindId(this.indexKey!, purpose, id))
+    }
+
+    /**
+     * Gets the query for usage records created since a time. With blinded months,
+     * records of the whole first month are included, and are filtered once decoded
+     */
+    private async queryUsageSince(usage: CollectionReference, since: string): Promise<Query> {
+        if (!this.isMetadataBlinded()) {
+            return query(usage, where('createdAt', '>=', since))
+        }
+        const months = getMonthsSince(since)
+        if (months.length > MAX_USAGE_MONTHS) {
+            return usage
+        }
+        return query(usage, where(BLIND_MONTH_FIELD, 'in', await Promise.all(months.map(month => blindId(this.indexKey!, 'month', month)))))
+    }
+
+    /**
+     * Keeps a card or chat in the trash when it is saved without a deletion time
+     * @param record The record being saved, without its ID
+     */
+    private async keepStoredDeletedAt<T extends { deletedAt?: string }>(name: 'cards' | 'chats', ref: DocumentReference, record: T): Promise<T> {
+        if (record.deletedAt) return record
+        const snapshot = await getDoc(ref)
+        const stored = snapshot.exists() ? await this.decodeMetadata(name, snapshot.data()) : null
+        return keepTrashed(record, stored as { deletedAt?: string } | null)
+    }
+
+    /**
+     * Moves a board, card or chat to or from the trash
+     * @param deletedAt When it was moved to the trash, or null to restore it
+     */
+    private async setDeletedAt(name: 'boards' | 'cards' | 'chats', id: string, deletedAt: string | null): Promise<void> {
+        this.assertKeyAvailable()
+        await this.refreshMetadataMode()
+        const ref = doc(db, `users/${this.getUserId()}/${name}/${id}`)
+        if (!this.indexKey) {
+            await updateDoc(ref, { deletedAt: deletedAt ?? deleteField() })
+            return
+        }
+
+        // The time it was trashed is kept with the rest of the encrypted metadata
+        const snapshot = await getDoc(ref)
+        if (!snapshot.exists()) {
+            throw new Error(`${ref.path} does not exist`)
+        }
+        const { deletedAt: _, ...decoded } = await this.decodeMetadata(name, snapshot.data())
+        const { data, ...encoded } = await this.encodeMetadata(name, deletedAt ? { ...decoded, deletedAt } : decoded)
+        await updateDoc(ref, deletedAt ? encoded : { ...encoded, deletedAt: deleteField() })
+    }
+
     setBoard = async (board: EncryptedBoard): Promise<void> => {
         this.assertKeyAvailable()
         const userId = this.getUserId()
         const { id, ...rest } = board
-        await setDoc(doc(db, `users/${userId}/boards/${id}`), rest)
+        await setDoc(doc(db, `users/${userId}/boards/${id}`), await this.encodeForWrite('boards', rest))
     }
 
     removeBoard = async (boardId: string): Promise<void> => {
+        await this.setDeletedAt('boards', boardId, new Date().toISOString())
+    }
+
+    restoreBoard = async (boardId: string): Promise<void> => {
+        await this.setDeletedAt('boards', boardId, null)
+    }
+
+    purgeBoard = async (boardId: string): Promise<void> => {
         this.assertKeyAvailable()
+        await this.refreshMetadataMode()
         const userId = this.getUserId()
-        const batch = writeBatch(db)
-
-        // Delete the board
-        batch.delete(doc(db, `users/${userId}/boards/${boardId}`))
+        const refs: DocumentReference[] = []
+        const byBoard = await this.whereRelated('boardId', boardId)
 
         // Get and delete all cards for this board
         const cardsQuery = query(
             collection(db, `users/${userId}/cards`),
-            where('boardId', '==', boardId)
+            byBoard
         )
         const cardDocs = await getDocs(cardsQuery)
         cardDocs.forEach(doc => {
-            batch.delete(doc.ref)
+            refs.push(doc.ref)
         })
 
         // Get and delete all chats for this board
         const chatsQuery = query(
             collection(db, `users/${userId}/chats`),
-            where('boardId', '==', boardId)
+            byBoard
         )
         const chatDocs = await getDocs(chatsQuery)
         chatDocs.forEach(doc => {
-            batch.delete(doc.ref)
+            refs.push(doc.ref)
         })
 
-        // Execute all deletions in a single batch
-        await batch.commit()
+        // Get and delete all card revisions for this board
+        const revisionsQuery = query(
+            collection(db, `users/${userId}/revisions`),
+            byBoard
+        )
+        const revisionDocs = await getDocs(revisionsQuery)
+        revisionDocs.forEach(doc => {
+            refs.push(doc.ref)
+        })
+
+        // Get and delete all card embeddings for this board
+        const embeddingsQuery = query(
+            collection(db, `users/${userId}/embeddings`),
+            byBoard
+        )
+        const embeddingDocs = await getDocs(embeddingsQuery)
+        embeddingDocs.forEach(doc => {
+            refs.push(doc.ref)
+        })
+
+        // Get and delete all chat attachments for this board
+        const attachmentsQuery = query(
+            collection(db, `users/${userId}/attachments`),
+            byBoard
+        )
+        const attachmentDocs = await getDocs(attachmentsQuery)
+        attachmentDocs.forEach(doc => {
+            refs.push(doc.ref)
+        })
+
+        // Delete the board last, so that an interrupted purge can be run again from the trash
+        refs.push(doc(db, `users/${userId}/boards/${boardId}`))
+        await deleteInBatches(refs)
     }
 
     getBoards = (callback: (boards: EncryptedBoard[]) => void): () => void => {
@@ -130,15 +791,15 @@ export class EncryptedFirestoreStore implements EncryptedStore {
         const userId = this.getUserId()
         const q = collection(db, `users/${userId}/boards`)
         
-        return onSnapshot(q, (snapshot) => {
-            const boards = snapshot.docs.map(doc => ({
+        return onSnapshot(q, this.decodeSnapshots('boards', (documents) => {
+            const boards = documents.filter(doc => !doc.deletedAt).map(doc => ({
                 id: doc.id,
-                createdAt: doc.data().createdAt,
-                updatedAt: doc.data().updatedAt,
-                data: doc.data().data
+                createdAt: doc.createdAt,
+                updatedAt: doc.updatedAt,
+                data: doc.data
             }))
             callback(boards)
-        })
+        }))
     }
 
     getBoard = (boardId: string, callback: (board: EncryptedBoard | null) => void): () => void => {
@@ -146,51 +807,80 @@ export class EncryptedFirestoreStore implements EncryptedStore {
         const userId = this.getUserId()
         const docRef = doc(db, `users/${userId}/boards/${boardId}`)
         
-        return onSnapshot(docRef, (doc) => {
-            if (!doc.exists()) {
+        return onSnapshot(docRef, this.decodeSnapshot('boards', (doc) => {
+            if (!doc || doc.deletedAt) {
                 callback(null)
                 return
             }
-            const data = doc.data()
             callback({
                 id: doc.id,
-                createdAt: data.createdAt,
-                updatedAt: data.updatedAt,
-                data: data.data
+                createdAt: doc.createdAt,
+                updatedAt: doc.updatedAt,
+                data: doc.data
             })
-        })
+        }))
     }
 
     setCard = async (card: EncryptedCard): Promise<void> => {
         this.assertKeyAvailable()
         const userId = this.getUserId()
         const { id, ...rest } = card
-        await setDoc(doc(db, `users/${userId}/cards/${id}`), rest)
+        const ref = doc(db, `users/${userId}/cards/${id}`)
+        await setDoc(ref, await this.encodeForWrite('cards', await this.keepStoredDeletedAt('cards', ref, rest)))
     }
 
     removeCard = async (cardId: string): Promise<void> => {
+        await this.setDeletedAt('cards', cardId, new Date().toISOString())
+    }
+
+    restoreCard = async (cardId: string): Promise<void> => {
+        await this.setDeletedAt('cards', cardId, null)
+    }
+
+    purgeCard = async (cardId: string): Promise<void> => {
         this.assertKeyAvailable()
+        await this.refreshMetadataMode()
         const userId = this.getUserId()
-        await deleteDoc(doc(db, `users/${userId}/cards/${cardId}`))
+        const refs: DocumentReference[] = []
+
+        // Get and delete the card's revision history
+        const revisionsQuery = query(
+            collection(db, `users/${userId}/revisions`),
+            await this.whereRelated('cardId', cardId)
+        )
+        const revisionDocs = await getDocs(revisionsQuery)
+        revisionDocs.forEach(doc => {
+            refs.push(doc.ref)
+        })
+
+        // Delete the card's embeddings
+        refs.push(doc(db, `users/${userId}/embeddings/${cardId}`))
+
+        // Delete the card last, so that an interrupted purge can be run again from the trash
+        refs.push(doc(db, `users/${userId}/cards/${cardId}`))
+        await deleteInBatches(refs)
     }
 
     getCardsByBoard = (boardId: string, callback: (cards: EncryptedCard[]) => void): () => void => {
         this.assertKeyAvailable()
         const userId = this.getUserId()
-        const q = query(
-            collection(db, `users/${userId}/cards`),
-            where('boardId', '==', boardId)
-        )
-        
-        return onSnapshot(q, (snapshot) => {
-            const cards = snapshot.docs.map(doc => ({
-                id: doc.id,
-                boardId: doc.data().boardId,
-                createdAt: doc.data().createdAt,
-                updatedAt: doc.data().updatedAt,
-                data: doc.data().data
+
+        return this.subscribeWithMetadata(async () => {
+            const q = query(
+                collection(db, `users/${userId}/cards`),
+                await this.whereRelated('boardId', boardId)
+            )
+
+            return onSnapshot(q, this.decodeSnapshots('cards', (documents) => {
+                const cards = documents.filter(doc => !doc.deletedAt).map(doc => ({
+                    id: doc.id,
+                    boardId: doc.boardId,
+                    createdAt: doc.createdAt,
+                    updatedAt: doc.updatedAt,
+                    data: doc.data
+                }))
+                callback(cards)
             }))
-            callback(cards)
         })
     }
 
@@ -199,19 +889,109 @@ export class EncryptedFirestoreStore implements EncryptedStore {
         const userId = this.getUserId()
         const docRef = doc(db, `users/${userId}/cards/${cardId}`)
         
-        return onSnapshot(docRef, (doc) => {
-            if (!doc.exists()) {
+        return onSnapshot(docRef, this.decodeSnapshot('cards', (doc) => {
+            if (!doc || doc.deletedAt) {
                 callback(null)
                 return
             }
-            const data = doc.data()
             callback({
                 id: doc.id,
-                boardId: data.boardId,
-                createdAt: data.createdAt,
-                updatedAt: data.updatedAt,
-                data: data.data
+                boardId: doc.boardId,
+                createdAt: doc.createdAt,
+                updatedAt: doc.updatedAt,
+                data: doc.data
             })
+        }))
+    }
+
+    addCardRevision = async (revision: EncryptedCardRevision): Promise<void> => {
+        this.assertKeyAvailable()
+        const userId = this.getUserId()
+        const { id, ...rest } = revision
+        await setDoc(doc(db, `users/${userId}/revisions/${id}`), await this.encodeForWrite('revisions', rest))
+    }
+
+    getCardRevisions = (cardId: string, callback: (revisions: EncryptedCardRevision[]) => void): () => void => {
+        this.assertKeyAvailable()
+        const userId = this.getUserId()
+
+        return this.subscribeWithMetadata(async () => {
+            const q = query(
+                collection(db, `users/${userId}/revisions`),
+                await this.whereRelated('cardId', cardId)
+            )
+
+            return onSnapshot(q, this.decodeSnapshots('revisions', (documents) => {
+                const revisions = documents.map(doc => ({
+                    id: doc.id,
+                    cardId: doc.cardId,
+                    boardId: doc.boardId,
+                    createdAt: doc.createdAt,
+                    data: doc.data
+                }))
+                callback(revisions)
+            }))
+        })
+    }
+
+    removeCardRevisions = async (cardId: string, revisionIds: string[]): Promise<void> => {
+        this.assertKeyAvailable()
+        const userId = this.getUserId()
+        await deleteInBatches(revisionIds.map(id => doc(db, `users/${userId}/revisions/${id}`)))
+    }
+
+    setCardEmbedding = async (embedding: EncryptedCardEmbedding): Promise<void> => {
+        this.assertKeyAvailable()
+        const userId = this.getUserId()
+        const { cardId, ...rest } = embedding
+        await setDoc(doc(db, `users/${userId}/embeddings/${cardId}`), await this.encodeForWrite('embeddings', rest))
+    }
+
+    getCardEmbeddingsByBoard = (boardId: string, callback: (embeddings: EncryptedCardEmbedding[]) => void): () => void => {
+        this.assertKeyAvailable()
+        const userId = this.getUserId()
+
+        return this.subscribeWithMetadata(async () => {
+            const q = query(
+                collection(db, `users/${userId}/embeddings`),
+                await this.whereRelated('boardId', boardId)
+            )
+
+            return onSnapshot(q, this.decodeSnapshots('embeddings', (documents) => {
+                const embeddings = documents.map(doc => ({
+                    cardId: doc.id,
+                    boardId: doc.boardId,
+                    updatedAt: doc.updatedAt,
+                    data: doc.data
+                }))
+                callback(embeddings)
+            }))
+        })
+    }
+
+    addUsageRecord = async (record: EncryptedUsageRecord): Promise<void> => {
+        this.assertKeyAvailable()
+        const userId = this.getUserId()
+        const { id, ...rest } = record
+        await setDoc(doc(db, `users/${userId}/usage/${id}`), await this.encodeForWrite('usage', rest))
+    }
+
+    getUsageRecords = (since: string, callback: (records: EncryptedUsageRecord[]) => void): () => void => {
+        this.assertKeyAvailable()
+        const userId = this.getUserId()
+
+        return this.subscribeWithMetadata(async () => {
+            const q = await this.queryUsageSince(collection(db, `users/${userId}/usage`), since)
+
+            return onSnapshot(q, this.decodeSnapshots('usage', (documents) => {
+                const records = documents.filter(doc => doc.createdAt >= since).map(doc => ({
+                    id: doc.id,
+                    boardId: doc.boardId,
+                    createdAt: doc.createdAt,
+                    data: doc.data
+                }))
+                callback(records)
+            }))
         })
     }
 
@@ -219,32 +999,59 @@ export class EncryptedFirestoreStore implements EncryptedStore {
         this.assertKeyAvailable()
         const userId = this.getUserId()
         const { id, ...rest } = chat
-        await setDoc(doc(db, `users/${userId}/chats/${id}`), rest)
+        const ref = doc(db, `users/${userId}/chats/${id}`)
+        await setDoc(ref, await this.encodeForWrite('chats', await this.keepStoredDeletedAt('chats', ref, rest)))
     }
 
     removeChat = async (chatId: string): Promise<void> => {
+        await this.setDeletedAt('chats', chatId, new Date().toISOString())
+    }
+
+    restoreChat = async (chatId: string): Promise<void> => {
+        await this.setDeletedAt('chats', chatId, null)
+    }
+
+    purgeChat = async (chatId: string): Promise<void> => {
         this.assertKeyAvailable()
+        await this.refreshMetadataMode()
         const userId = this.getUserId()
-        await deleteDoc(doc(db, `users/${userId}/chats/${chatId}`))
+        const refs: DocumentReference[] = []
+
+        // Get and delete the chat's attachments
+        const attachmentsQuery = query(
+            collection(db, `users/${userId}/attachments`),
+            await this.whereRelated('chatId', chatId)
+        )
+        const attachmentDocs = await getDocs(attachmentsQuery)
+        attachmentDocs.forEach(doc => {
+            refs.push(doc.ref)
+        })
+
+        // Delete the chat last, so that an interrupted purge can be run again from the trash
+        refs.push(doc(db, `users/${userId}/chats/${chatId}`))
+        await deleteInBatches(refs)
     }
 
     getChatsByBoard = (boardId: string, callback: (chats: EncryptedChat[]) => void): () => void => {
         this.assertKeyAvailable()
         const userId = this.getUserId()
-        const q = query(
-            collection(db, `users/${userId}/chats`),
-            where('boardId', '==', boardId)
-        )
-        
-        return onSnapshot(q, (snapshot) => {
-            const chats = snapshot.docs.map(doc => ({
-                id: doc.id,
-                boardId: doc.data().boardId,
-                createdAt: doc.data().createdAt,
-                updatedAt: doc.data().updatedAt,
-                data: doc.data().data
+
+        return this.subscribeWithMetadata(async () => {
+            const q = query(
+                collection(db, `users/${userId}/chats`),
+                await this.whereRelated('boardId', boardId)
+            )
+
+            return onSnapshot(q, this.decodeSnapshots('chats', (documents) => {
+                const chats = documents.filter(doc => !doc.deletedAt).map(doc => ({
+                    id: doc.id,
+                    boardId: doc.boardId,
+                    createdAt: doc.createdAt,
+                    updatedAt: doc.updatedAt,
+                    data: doc.data
+                }))
+                callback(chats)
             }))
-            callback(chats)
         })
     }
 
@@ -253,11 +1060,74 @@ export class EncryptedFirestoreStore implements EncryptedStore {
         const userId = this.getUserId()
         const docRef = doc(db, `users/${userId}/chats/${chatId}`)
         
-        return onSnapshot(docRef, (doc) => {
-            callback(doc.exists() ? {
-                id: doc.id,
-                ...doc.data()
-            } as EncryptedChat : null)
+        return onSnapshot(docRef, this.decodeSnapshot('chats', (doc) => {
+            callback(doc && !doc.deletedAt ? doc as EncryptedChat : null)
+        }))
+    }
+
+    setChatAttachment = async (attachment: EncryptedChatAttachment): Promise<void> => {
+        this.assertKeyAvailable()
+        const userId = this.getUserId()
+        const { id, ...rest } = attachment
+        await setDoc(doc(db, `users/${userId}/attachments/${id}`), await this.encodeForWrite('attachments', rest))
+    }
+
+    getChatAttachment = (attachmentId: string, callback: (attachment: EncryptedChatAttachment | null) => void): () => void => {
+        this.assertKeyAvailable()
+        const userId = this.getUserId()
+        const docRef = doc(db, `users/${userId}/attachments/${attachmentId}`)
+
+        return onSnapshot(docRef, this.decodeSnapshot('attachments', (doc) => {
+            callback(doc as EncryptedChatAttachment | null)
+        }))
+    }
+
+    getTrash = (callback: (trash: EncryptedTrash) => void): () => void => {
+        this.assertKeyAvailable()
+        const userId = this.getUserId()
+        let boards: EncryptedBoard[] | null = null
+        let cards: EncryptedCard[] | null = null
+        let chats: EncryptedChat[] | null = null
+
+        // Only report once all three collections have loaded
+        const notify = () => {
+            if (!boards || !cards || !chats) return
+            // Items on a trashed board are restored or purged with the board
+            const trashedBoardIds = new Set(boards.map(board => board.id))
+            callback({
+                boards,
+                cards: cards.filter(card => !trashedBoardIds.has(card.boardId)),
+                chats: chats.filter(chat => !trashedBoardIds.has(chat.boardId))
+            })
+        }
+
+        // Once metadata is encrypted, the server cannot tell which items are trashed,
+        // so every item is read and the trashed ones are picked out once decoded
+        const trashedQuery = (name: 'boards' | 'cards' | 'chats') => this.isMetadataBlinded()
+            ? collection(db, `users/${userId}/${name}`)
+            : query(collection(db, `users/${userId}/${name}`), where('deletedAt', '!=', null))
+        const trashed = (documents: DecodedDocument[]) => documents.filter(document => document.deletedAt)
+
+        return this.subscribeWithMetadata(async () => {
+            boards = cards = chats = null
+            const unsubscribeBoards = onSnapshot(trashedQuery('boards'), this.decodeSnapshots('boards', (documents) => {
+                boards = trashed(documents) as EncryptedBoard[]
+                notify()
+            }))
+            const unsubscribeCards = onSnapshot(trashedQuery('cards'), this.decodeSnapshots('cards', (documents) => {
+                cards = trashed(documents) as EncryptedCard[]
+                notify()
+            }))
+            const unsubscribeChats = onSnapshot(trashedQuery('chats'), this.decodeSnapshots('chats', (documents) => {
+                chats = trashed(documents) as EncryptedChat[]
+                notify()
+            }))
+
+            return () => {
+                unsubscribeBoards()
+                unsubscribeCards()
+                unsubscribeChats()
+            }
         })
     }
 
@@ -280,4 +1150,71 @@ export class EncryptedFirestoreStore implements EncryptedStore {
         const { id, ...rest } = settings
         await setDoc(doc(db, `users/${userId}/settings/user`), rest)
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * Wraps the data key with a key derived from a recovery code and a new salt. Recovery
+ * codes are random enough that more iterations would not make them harder to guess
+ */
+async function wrapWithRecoveryCode(dataKey: Uint8Array<ArrayBuffer>, recoveryCode: string): Promise<Pick<EncryptionSettings, 'recoverySalt' | 'recoveryKey'>> {
+    const salt = generateMasterSalt()
+    const wrappingKey = await deriveMasterKey(normalizeRecoveryCode(recoveryCode), salt)
+    return { recoverySalt: encodeSalt(salt), recoveryKey: await wrapDataKey(dataKey, wrappingKey) }
+}
+
+/**
+ * Writes updates in batches within Firestore's limits
+ * @param onBatch Called with the number of documents written after each batch
+ */
+async function updateInBatches(updates: { ref: DocumentReference, data: DocumentData }[], onBatch: (count: number) => void): Promise<void> {
+    for (let start = 0; start < updates.length;) {
+        const batch = writeBatch(db)
+        let writes = 0
+        let chars = 0
+        while (start < updates.length && writes < UPDATE_BATCH_SIZE && chars < UPDATE_BATCH_CHARS) {
+            const { ref, data } = updates[start++]
+            batch.update(ref, data)
+            writes++
+            chars += data.meta?.ciphertext.length ?? 0
+        }
+        await batch.commit()
+        onBatch(writes)
+    }
+}
+
+/**
+ * Gets the months from a time until now, as YYYY-MM in UTC like the times stored
+ */
+function getMonthsSince(since: string): string[] {
+    const months: string[] = []
+    const end = new Date().toISOString().slice(0, 7)
+    const date = new Date(since)
+    date.setUTCDate(1)
+    for (let month = date.toISOString().slice(0, 7); month <= end; month = date.toISOString().slice(0, 7)) {
+        months.push(month)
+        date.setUTCMonth(date.getUTCMonth() + 1)
+    }
+    return months
+}
+
+/**
+ * Starts a subscription that needs asynchronous work first, such as computing
+ * blinded identifiers, while returning its unsubscribe function right away
+ */
+function subscribeWhenReady(subscribe: () => Promise<() => void>): () => void {
+    let unsubscribe: (() => void) | null = null
+    let cancelled = false
+    subscribe()
+        .then(started => {
+            if (cancelled) {
+                started()
+            } else {
+                unsubscribe = started
+            }
+        })
+        .catch(error => console.error('Failed to subscribe:', error))
+    return () => {
+        cancelled = true
+        unsubscribe?.()
+    }
+}
@@ -1,17 +1,24 @@
 import type { Store } from '../../Store'
-import type { Board, Card, Chat } from '../../types'
+import type { Board, Card, CardEmbedding, CardRevision, Chat, ChatAttachmentData, Trash, UsageRecord } from '../../types'
 import type { UserSettings } from '../../types/settings'
-import type { EncryptedStore } from './EncryptedTypes'
+import type { EncryptedStore, EncryptedBoard, EncryptedCard, EncryptedChat, EncryptionProgress, RememberedDevice } from './EncryptedTypes'
 import {
     encryptBoardData,
     decryptBoardData,
     encryptCardData,
     decryptCardData,
+    encryptCardRevisionData,
+    decryptCardRevisionData,
+    encryptCardEmbeddingData,
+    decryptCardEmbeddingData,
+    encryptUsageRecordData,
+    decryptUsageRecordData,
     encryptChatData,
     decryptChatData,
+    encryptChatAttachmentData,
+    decryptChatAttachmentData,
     encryptUserSettings,
-    decryptUserSettings,
-    deriveMasterKey
+    decryptUserSettings
 } from './crypto'
 
 /**
@@ -19,28 +26,78 @@ import {
  * Handles encryption/decryption transparently
  */
 export class EncryptedStoreWrapper implements Store {
-    private masterKey: CryptoKey
-
     constructor(
-        private encryptedStore: EncryptedStore,
-        password: string
+        private encryptedStore: EncryptedStore
     ) {
-        // The constructor is called after password validation, so we know the password is correct
-        // We'll get the master key from the store
-        if (!(encryptedStore as any).masterKey) {
-            throw new Error('EncryptedStore must have a valid master key')
-        }
-        this.masterKey = (encryptedStore as any).masterKey
+        // The constructor is called after unlocking, so we know the keys are available
+        encryptedStore.getKeys()
+    }
+
+    /** The data key, read from the store each time so that locking takes it away */
+    private get masterKey(): CryptoKey {
+        return this.encryptedStore.getKeys().key
+    }
+
+    /**
+     * Changes the encryption password
+     * @throws Error if the current password is wrong
+     */
+    changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+        await this.encryptedStore.changePassword(currentPassword, newPassword)
+    }
+
+    /**
+     * Sets a new recovery code, replacing any earlier one
+     * @throws Error if the password is wrong
+     */
+    setRecoveryCode = async (password: string, recoveryCode: string): Promise<void> => {
+        await this.encryptedStore.setRecoveryCode(password, recoveryCode)
+    }
+
+    /**
+     * Whether a recovery code can unlock the data
+     */
+    hasRecoveryCode = (): Promise<boolean> => {
+        return this.encryptedStore.hasRecoveryCode()
+    }
+
+    /**
+     * Gets the devices that unlock the data without the password
+     */
+    getDevices = (): Promise<RememberedDevice[]> => {
+        return this.encryptedStore.getDevices()
+    }
+
+    /**
+     * Revokes a remembered device, which then asks for the password
+     */
+    revokeDevice = async (deviceId: string): Promise<void> => {
+        await this.encryptedStore.revokeDevice(deviceId)
+    }
+
+    /**
+     * Whether metadata such as times and relationships is encrypted
+     */
+    isMetadataEncrypted = (): boolean => {
+        return this.encryptedStore.isMetadataEncrypted()
+    }
+
+    /**
+     * Encrypts the metadata of all documents
+     */
+    encryptMetadata = async (onProgress?: (progress: EncryptionProgress) => void): Promise<void> => {
+        await this.encryptedStore.encryptMetadata(onProgress)
     }
 
     setBoard = async (board: Board): Promise<void> => {
-        const { id, createdAt, updatedAt, ...data } = board
+        const { id, createdAt, updatedAt, deletedAt, ...data } = board
         const encryptedData = await encryptBoardData(data, this.masterKey)
         
         await this.encryptedStore.setBoard({
             id,
             createdAt,
             updatedAt,
+            ...(deletedAt ? { deletedAt } : {}),
             data: encryptedData
         })
     }
@@ -49,6 +106,14 @@ export class EncryptedStoreWrapper implements Store {
         await this.encryptedStore.removeBoard(boardId)
     }
 
+    restoreBoard = async (boardId: string): Promise<void> => {
+        await this.encryptedStore.restoreBoard(boardId)
+    }
+
+    purgeBoard = async (boardId: string): Promise<void> => {
+        await this.encryptedStore.purgeBoard(boardId)
+    }
+
     getBoards = (callback: (boards: Board[]) => void): () => void => {
         return this.encryptedStore.getBoards(async (encryptedBoards) => {
             try {
@@ -96,7 +161,7 @@ export class EncryptedStoreWrapper implements Store {
     }
 
     setCard = async (card: Card): Promise<void> => {
-        const { id, boardId, createdAt, updatedAt, ...data } = card
+        const { id, boardId, createdAt, updatedAt, deletedAt, ...data } = card
         const encryptedData = await encryptCardData(data, this.masterKey)
         
         await this.encryptedStore.setCard({
@@ -104,6 +169,7 @@ export class EncryptedStoreWrapper implements Store {
             boardId,
             createdAt,
             updatedAt,
+            ...(deletedAt ? { deletedAt } : {}),
             data: encryptedData
         })
     }
@@ -112,6 +178,14 @@ export class EncryptedStoreWrapper implements Store {
         await this.encryptedStore.removeCard(cardId)
     }
 
+    restoreCard = async (cardId: string): Promise<void> => {
+        await this.encryptedStore.restoreCard(cardId)
+    }
+
+    purgeCard = async (cardId: string): Promise<void> => {
+        await this.encryptedStore.purgeCard(cardId)
+    }
+
     getCardsByBoard = (boardId: string, callback: (cards: Card[]) => void): () => void => {
         return this.encryptedStore.getCardsByBoard(boardId, async (encryptedCards) => {
             try {
@@ -178,8 +252,119 @@ export class EncryptedStoreWrapper implements Store {
         })
     }
 
+    addCardRevision = async (revision: CardRevision): Promise<void> => {
+        const { id, cardId, boardId, createdAt, ...data } = revision
+        const encryptedData = await encryptCardRevisionData(data, this.masterKey)
+
+        await this.encryptedStore.addCardRevision({
+            id,
+            cardId,
+            boardId,
+            createdAt,
+            data: encryptedData
+        })
+    }
+
+    getCardRevisions = (cardId: string, callback: (revisions: CardRevision[]) => void): () => void => {
+        return this.encryptedStore.getCardRevisions(cardId, async (encryptedRevisions) => {
+            const revisions = await Promise.all(
+                encryptedRevisions.map(async (encryptedRevision) => {
+                    try {
+                        const { id, cardId, boardId, createdAt, data } = encryptedRevision
+                        const decryptedData = await decryptCardRevisionData(data, this.masterKey)
+                        return {
+                            ...decryptedData,
+                            id,
+                            cardId,
+                            boardId,
+                            createdAt
+                        }
+                    } catch (error) {
+                        console.error('Failed to decrypt revision:', error)
+                        return null
+                    }
+                })
+            )
+            callback(revisions.filter((revision): revision is CardRevision => revision !== null))
+        })
+    }
+
+    removeCardRevisions = async (cardId: string, revisionIds: string[]): Promise<void> => {
+        await this.encryptedStore.removeCardRevisions(cardId, revisionIds)
+    }
+
+    setCardEmbedding = async (embedding: CardEmbedding): Promise<void> => {
+        const { cardId, boardId, updatedAt, ...data } = embedding
+        const encryptedData = await encryptCardEmbeddingData(data, this.masterKey)
+
+        await this.encryptedStore.setCardEmbedding({
+            cardId,
+            boardId,
+            updatedAt,
+            data: encryptedData
+        })
+    }
+
+    getCardEmbeddingsByBoard = (boardId: string, callback: (embeddings: CardEmbedding[]) => void): () => void => {
+        return this.encryptedStore.getCardEmbeddingsByBoard(boardId, async (encryptedEmbeddings) => {
+            const embeddings = await Promise.all(
+                encryptedEmbeddings.map(async (encryptedEmbedding) => {
+                    try {
+                        const { cardId, boardId, updatedAt, data } = encryptedEmbedding
+                        const decryptedData = await decryptCardEmbeddingData(data, this.masterKey)
+                        return {
+                            ...decryptedData,
+                            cardId,
+                            boardId,
+                            updatedAt
+                        }
+                    } catch (error) {
+                        console.error('Failed to decrypt embedding:', error)
+                        return null
+                    }
+                })
+            )
+            callback(embeddings.filter((embedding): embedding is CardEmbedding => embedding !== null))
+        })
+    }
+
+    addUsageRecord = async (record: UsageRecord): Promise<void> => {
+        const { id, boardId, createdAt, ...data } = record
+        const encryptedData = await encryptUsageRecordData(data, this.masterKey)
+
+        await this.encryptedStore.addUsageRecord({
+            id,
+            boardId,
+            createdAt,
+            data: encryptedData
+        })
+    }
+
+    getUsageRecords = (since: string, callback: (records: UsageRecord[]) => void): () => void => {
+        return this.encryptedStore.getUsageRecords(since, async (encryptedRecords) => {
+            const records = await Promise.all(
+                encryptedRecords.map(async (encryptedRecord) => {
+                    try {
+                        const { id, boardId, createdAt, data } = encryptedRecord
+                        const decryptedData = await decryptUsageRecordData(data, this.masterKey)
+                        return {
+                            ...decryptedData,
+                            id,
+                            boardId,
+                            createdAt
+                        }
+                    } catch (error) {
+                        console.error('Failed to decrypt usage record:', error)
+                        return null
+                    }
+                })
+            )
+            callback(records.filter((record): record is UsageRecord => record !== null))
+        })
+    }
+
     setChat = async (chat: Chat): Promise<void> => {
-        const { id, boardId, createdAt, updatedAt, ...data } = chat
+        const { id, boardId, createdAt, updatedAt, deletedAt, ...data } = chat
         const encryptedData = await encryptChatData(data, this.masterKey)
         
         await this.encryptedStore.setChat({
@@ -187,6 +372,7 @@ export class EncryptedStoreWrapper implements Store {
             boardId,
             createdAt,
             updatedAt,
+            ...(deletedAt ? { deletedAt } : {}),
             data: encryptedData
         })
     }
@@ -195,6 +381,14 @@ export class EncryptedStoreWrapper implements Store {
         await this.encryptedStore.removeChat(chatId)
     }
 
+    restoreChat = async (chatId: string): Promise<void> => {
+        await this.encryptedStore.restoreChat(chatId)
+    }
+
+    purgeChat = async (chatId: string): Promise<void> => {
+        await this.encryptedStore.purgeChat(chatId)
+    }
+
     getChatsByBoard = (boardId: string, callback: (chats: Chat[]) => void): () => void => {
         return this.encryptedStore.getChatsByBoard(boardId, async (encryptedChats) => {
             try {
@@ -243,6 +437,101 @@ export class EncryptedStoreWrapper implements Store {
         })
     }
 
+    setChatAttachment = async (attachment: ChatAttachmentData): Promise<void> => {
+        const { id, chatId, boardId, createdAt, ...data } = attachment
+        const encryptedData = await encryptChatAttachmentData(data, this.masterKey)
+
+        await this.encryptedStore.setChatAttachment({
+            id,
+            chatId,
+            boardId,
+            createdAt,
+            data: encryptedData
+        })
+    }
+
+    getChatAttachment = (attachmentId: string, callback: (attachment: ChatAttachmentData | null) => void): () => void => {
+        return this.encryptedStore.getChatAttachment(attachmentId, async (encryptedAttachment) => {
+            if (!encryptedAttachment) {
+                callback(null)
+                return
+            }
+
+            try {
+                const { id, chatId, boardId, createdAt, data } = encryptedAttachment
+                const decryptedData = await decryptChatAttachmentData(data, this.masterKey)
+                callback({
+                    ...decryptedData,
+                    id,
+                    chatId,
+                    boardId,
+                    createdAt
+                })
+            } catch (error) {
+                console.error('Failed to decrypt attachment:', error)
+                callback(null)
+            }
+        })
+    }
+
+    getTrash = (callback: (trash: Trash) => void): () => void => {
+        return this.encryptedStore.getTrash(async (encryptedTrash) => {
+            const [boards, cards, chats] = await Promise.all([
+                Promise.all(encryptedTrash.boards.map(this.decryptTrashedBoard)),
+                Promise.all(encryptedTrash.cards.map(this.decryptTrashedCard)),
+                Promise.all(encryptedTrash.chats.map(this.decryptTrashedChat))
+            ])
+            callback({
+                boards: boards.filter((board): board is Board => board !== null),
+                cards: cards.filter((card): card is Card => card !== null),
+                chats: chats.filter((chat): chat is Chat => chat !== null)
+            })
+        })
+    }
+
+    /**
+     * Decrypts a trashed board, returning null if it cannot be decrypted
+     */
+    private decryptTrashedBoard = async (encryptedBoard: EncryptedBoard): Promise<Board | null> => {
+        try {
+            const { id, createdAt, updatedAt, deletedAt, data } = encryptedBoard
+            const decryptedData = await decryptBoardData(data, this.masterKey)
+            return { ...decryptedData, id, createdAt, updatedAt, deletedAt }
+        } catch (error) {
+            console.error('Failed to decrypt trashed board:', error)
+            return null
+        }
+    }
+
+    /**
+     * Decrypts a trashed card, returning null if it cannot be decrypted or is invalid
+     */
+    private decryptTrashedCard = async (encryptedCard: EncryptedCard): Promise<Card | null> => {
+        try {
+            const { id, boardId, createdAt, updatedAt, deletedAt, data } = encryptedCard
+            const decryptedData = await decryptCardData(data, this.masterKey)
+            const card = { ...decryptedData, id, boardId, createdAt, updatedAt, deletedAt }
+            return isValidCard(card) ? card : null
+        } catch (error) {
+            console.error('Failed to decrypt trashed card:', error)
+            return null
+        }
+    }
+
+    /**
+     * Decrypts a trashed chat, returning null if it cannot be decrypted
+     */
+    private decryptTrashedChat = async (encryptedChat: EncryptedChat): Promise<Chat | null> => {
+        try {
+            const { id, boardId, createdAt, updatedAt, deletedAt, data } = encryptedChat
+            const decryptedData = await decryptChatData(data, this.masterKey)
+            return { ...decryptedData, id, boardId, createdAt, updatedAt, deletedAt }
+        } catch (error) {
+            console.error('Failed to decrypt trashed chat:', error)
+            return null
+        }
+    }
+
     getUserSettings = (callback: (settings: UserSettings | null) => void): () => void => {
         return this.encryptedStore.getUserSettings(async (encryptedSettings) => {
             if (!encryptedSettings) {
@@ -8,6 +8,40 @@ export interface EncryptedBlob {
     iv: string
 }
 
+/**
+ * The keys that data is encrypted with
+ */
+export interface EncryptionKeys {
+    /** The data key, which data is encrypted with */
+    key: CryptoKey
+}
+
+/**
+ * A device that unlocks the data without the password
+ */
+export interface RememberedDevice {
+    /** The device ID */
+    id: string
+    /** Description of the device, e.g. "Chrome on Windows" */
+    name: string
+    /** Timestamp when the device was remembered in ISO 8601 format */
+    createdAt: string
+    /** Timestamp when the device last unlocked the data in ISO 8601 format */
+    lastUsedAt: string
+    /** Whether this is the device in use */
+    isCurrent: boolean
+}
+
+/**
+ * Progress of encrypting the metadata of all documents
+ */
+export interface EncryptionProgress {
+    /** Number of documents checked so far */
+    done: number
+    /** Number of documents to check */
+    total: number
+}
+
 /**
  * Encrypted version of a Card
  */
@@ -20,6 +54,8 @@ export interface EncryptedCard {
     createdAt: string
     /** When the card was last updated in ISO 8601 format */
     updatedAt: string
+    /** When the card was moved to the trash in ISO 8601 format */
+    deletedAt?: string
     /** The encrypted card data */
     data: EncryptedBlob
 }
@@ -36,10 +72,72 @@ export interface EncryptedChat {
     createdAt: string
     /** When the chat was last updated in ISO 8601 format */
     updatedAt: string
+    /** When the chat was moved to the trash in ISO 8601 format */
+    deletedAt?: string
     /** The encrypted chat data */
     data: EncryptedBlob
 }
 
+/**
+ * Encrypted version of a ChatAttachmentData
+ */
+export interface EncryptedChatAttachment {
+    /** The document ID */
+    id: string
+    /** The chat this attachment belongs to */
+    chatId: string
+    /** The board the chat belongs to */
+    boardId: string
+    /** When the file was attached in ISO 8601 format */
+    createdAt: string
+    /** The encrypted file content */
+    data: EncryptedBlob
+}
+
+/**
+ * Encrypted version of a CardRevision
+ */
+export interface EncryptedCardRevision {
+    /** The document ID */
+    id: string
+    /** The card this revision belongs to */
+    cardId: string
+    /** The board the card belonged to */
+    boardId: string
+    /** When the revision was taken in ISO 8601 format */
+    createdAt: string
+    /** The encrypted revision data */
+    data: EncryptedBlob
+}
+
+/**
+ * Encrypted version of a CardEmbedding
+ */
+export interface EncryptedCardEmbedding {
+    /** The card the embedding belongs to. Also the document ID */
+    cardId: string
+    /** The board the card belongs to */
+    boardId: string
+    /** When the embedding was computed in ISO 8601 format */
+    updatedAt: string
+    /** The encrypted embedding data, including the passages and vectors */
+    data: EncryptedBlob
+}
+
+/**
+ * Encrypted version of a UsageRecord
+ */
+export interface EncryptedUsageRecord {
+    /** Unique identifier for the record */
+    id: string
+    /** The board the request was made from, if any */
+    boardId: string | null
+    /** When the request was made in ISO 8601 format */
+    createdAt: string
+    /** The encrypted record data, including the model and token counts */
+    data: EncryptedBlob
+}
+
 /**
  * Encrypted version of a Board
  */
@@ -50,10 +148,24 @@ export interface EncryptedBoard {
     createdAt: string
     /** Timestamp when the board was last updated in ISO 8601 format */
     updatedAt: string
+    /** Timestamp when the board was moved to the trash in ISO 8601 format */
+    deletedAt?: string
     /** The encrypted board data */
     data: EncryptedBlob
 }
 
+/**
+ * Encrypted contents of the trash
+ */
+export interface EncryptedTrash {
+    /** Encrypted boards that have been moved to the trash */
+    boards: EncryptedBoard[]
+    /** Encrypted cards that have been moved to the trash individually */
+    cards: EncryptedCard[]
+    /** Encrypted chats that have been moved to the trash individually */
+    chats: EncryptedChat[]
+}
+
 /**
  * Encrypted version of a Document
  */
@@ -87,9 +199,10 @@ export interface EncryptedStore {
     /**
      * Set up encryption for the first time with a password
      * Should fail if already initialized
+     * @param recoveryCode Code that unlocks the data if the password is forgotten
      * @throws Error if already initialized
      */
-    initialize(password: string): Promise<void>
+    initialize(password: string, recoveryCode: string): Promise<void>
 
     /**
      * Test if a password can decrypt the store's data
@@ -97,16 +210,99 @@ export interface EncryptedStore {
      */
     validatePassword(password: string): Promise<boolean>
 
+    /**
+     * Unlocks with the key this device keeps, if it was remembered
+     * Returns false if the device is not remembered or was revoked
+     */
+    unlockWithDevice(): Promise<boolean>
+
+    /**
+     * Remembers this device, so that it unlocks without the password. The device
+     * keeps a non-extractable key, and the data key wrapped by it is stored with
+     * the encryption settings, so that removing it revokes the device
+     * @throws Error if the password is wrong
+     */
+    rememberDevice(password: string, name: string): Promise<void>
+
+    /**
+     * Gets the remembered devices
+     */
+    getDevices(): Promise<RememberedDevice[]>
+
+    /**
+     * Revokes a remembered device, which then asks for the password
+     */
+    revokeDevice(deviceId: string): Promise<void>
+
+    /**
+     * Drops the keys from memory until the data is unlocked again
+     */
+    lock(): void
+
+    /**
+     * Gets the keys to encrypt and decrypt data with
+     * @throws Error if the password has not been validated
+     */
+    getKeys(): EncryptionKeys
+
+    /**
+     * Unlocks with the recovery code when the password is forgotten, and sets a
+     * new password
+     * Returns false if the code is wrong or no recovery code was set
+     */
+    unlockWithRecoveryCode(recoveryCode: string, newPassword: string): Promise<boolean>
+
+    /**
+     * Whether a recovery code can unlock the data
+     */
+    hasRecoveryCode(): Promise<boolean>
+
+    /**
+     * Changes the encryption password. Only the wrapped data key is replaced, so
+     * no data is re-encrypted
+     * @throws Error if the current password is wrong
+     */
+    changePassword(currentPassword: string, newPassword: string): Promise<void>
+
+    /**
+     * Sets a new recovery code, replacing any earlier one
+     * @throws Error if the password is wrong
+     */
+    setRecoveryCode(password: string, recoveryCode: string): Promise<void>
+
+    /**
+     * Whether metadata such as times and relationships is encrypted, with
+     * relationships stored as blinded identifiers that can still be queried
+     */
+    isMetadataEncrypted(): boolean
+
+    /**
+     * Encrypts the metadata of all documents. Other open sessions switch to
+     * blinded identifiers as it progresses. Running it again after an
+     * interruption finishes the rest
+     */
+    encryptMetadata(onProgress?: (progress: EncryptionProgress) => void): Promise<void>
+
     /**
      * Adds or updates an encrypted board
      */
     setBoard(board: EncryptedBoard): Promise<void>
 
     /**
-     * Removes a board and all its associated cards
+     * Moves a board to the trash
      */
     removeBoard(boardId: string): Promise<void>
 
+    /**
+     * Restores a board from the trash
+     */
+    restoreBoard(boardId: string): Promise<void>
+
+    /**
+     * Permanently deletes a board and all its associated cards, chats, attachments and revisions
+     */
+    purgeBoard(boardId: string): Promise<void>
+
     /**
      * Retrieves all encrypted boards
      */
@@ -123,10 +319,20 @@ export interface EncryptedStore {
     setCard(card: EncryptedCard): Promise<void>
 
     /**
-     * Removes a card
+     * Moves a card to the trash
      */
     removeCard(cardId: string): Promise<void>
 
+    /**
+     * Restores a card from the trash
+     */
+    restoreCard(cardId: string): Promise<void>
+
+    /**
+     * Permanently deletes a card and its revisions
+     */
+    purgeCard(cardId: string): Promise<void>
+
     /**
      * Retrieves all encrypted cards for a board
      */
@@ -137,16 +343,66 @@ export interface EncryptedStore {
      */
     getCard(cardId: string, callback: (card: EncryptedCard | null) => void): () => void
 
+    /**
+     * Adds an encrypted card revision
+     */
+    addCardRevision(revision: EncryptedCardRevision): Promise<void>
+
+    /**
+     * Retrieves all encrypted revisions for a card
+     */
+    getCardRevisions(cardId: string, callback: (revisions: EncryptedCardRevision[]) => void): () => void
+
+    /**
+     * Permanently deletes revisions of a card
+     */
+    removeCardRevisions(cardId: string, revisionIds: string[]): Promise<void>
+
+    /**
+     * Adds or updates the encrypted embeddings of a card
+     */
+    setCardEmbedding(embedding: EncryptedCardEmbedding): Promise<void>
+
+    /**
+     * Retrieves the encrypted embeddings of all cards on a board
+     */
+    getCardEmbeddingsByBoard(boardId: string, callback: (embeddings: EncryptedCardEmbedding[]) => void): () => void
+
+    /**
+     * Adds an encrypted usage record
+     */
+    addUsageRecord(record: EncryptedUsageRecord): Promise<void>
+
+    /**
+     * Retrieves the encrypted usage records created since a time
+     */
+    getUsageRecords(since: string, callback: (records: EncryptedUsageRecord[]) => void): () => void
+
     /**
      * Adds or updates an encrypted chat
      */
     setChat(chat: EncryptedChat): Promise<void>
 
     /**
-     * Removes a chat
+     * Moves a chat to the trash
      */
     removeChat(chatId: string): Promise<void>
 
+    /**
+     * Restores a chat from the trash
+     */
+    restoreChat(chatId: string): Promise<void>
+
+    /**
+     * Permanently deletes a chat and its attachments
+     */
+    purgeChat(chatId: string): Promise<void>
+
+    /**
+     * Retrieves the encrypted contents of the trash
+     */
+    getTrash(callback: (trash: EncryptedTrash) => void): () => void
+
     /**
      * Retrieves all encrypted chats for a board
      */
@@ -157,6 +413,16 @@ export interface EncryptedStore {
      */
     getChat(chatId: string, callback: (chat: EncryptedChat | null) => void): () => void
 
+    /**
+     * Adds an encrypted chat attachment
+     */
+    setChatAttachment(attachment: EncryptedChatAttachment): Promise<void>
+
+    /**
+     * Retrieves a single encrypted chat attachment by its ID
+     */
+    getChatAttachment(attachmentId: string, callback: (attachment: EncryptedChatAttachment | null) => void): () => void
+
     /**
      * Retrieves encrypted user settings
      */
@@ -0,0 +1,135 @@
+import React, { useState, FormEvent } from 'react'
+import type { EncryptedStoreWrapper } from '../EncryptedStoreWrapper'
+
+/**
+ * Props for the ChangeEncryptionPasswordForm component
+ */
+interface ChangeEncryptionPasswordFormProps {
+    /** The encrypted store whose password is changed */
+    store: EncryptedStoreWrapper
+}
+
+/**
+ * A form that changes the encryption password
+ */
+export function ChangeEncryptionPasswordForm({ store }: ChangeEncryptionPasswordFormProps) {
+    const [currentPassword, setCurrentPassword] = useState('')
+    const [newPassword, setNewPassword] = useState('')
+    const [confirmPassword, setConfirmPassword] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [isDone, setIsDone] = useState(false)
+    const [isSaving, setIsSaving] = useState(false)
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault()
+        setError(null)
+
+        if (newPassword.length < 8) {
+            setError('New password must be at least 8 characters')
+            return
+        }
+
+        if (newPassword !== confirmPassword) {
+            setError('New passwords do not match')
+            return
+        }
+
+        if (newPassword === currentPassword) {
+            setError('The new password is the same as the current one')
+            return
+        }
+
+        setIsSaving(true)
+        try {
+            await store.changePassword(currentPassword, newPassword)
+            setCurrentPassword('')
+            setNewPassword('')
+            setConfirmPassword('')
+            setIsDone(true)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to change the encryption password')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="max-w-md space-y-4">
+            <div>
+                <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">Change Encryption Password</h4>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    Remembered devices and your recovery code keep working. Revoke devices below that should
+                    ask for the new password.
+                </p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                    <label htmlFor="currentEncryptionPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Current Encryption Password
+                    </label>
+                    <input
+                        id="currentEncryptionPassword"
+                        type="password"
+                        value={currentPassword}
+                        onChange={(e) => setCurrentPassword(e.target.value)}
+                        className="block w-full rounded-md border border-gray-300 px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 text-sm"
+                        required
+                    />
+                </div>
+
+                <div>
+                    <label htmlFor="newEncryptionPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        New Encryption Password
+                    </label>
+                    <input
+                        id="newEncryptionPassword"
+                        type="password"
+                        value={newPassword}
+                        onChange={(e) => setNewPassword(e.target.value)}
+                        className="block w-full rounded-md border border-gray-300 px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 text-sm"
+                        required
+                        minLength={8}
+                        placeholder="At least 8 characters"
+                    />
+                </div>
+
+                <div>
+                    <label htmlFor="confirmEncryptionPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Confirm New Encryption Password
+                    </label>
+                    <input
+                        id="confirmEncryptionPassword"
+                        type="password"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        className="block w-full rounded-md border border-gray-300 px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 text-sm"
+                        required
+                    />
+                </div>
+
+                <div className="flex justify-end">
+                    <button
+                        type="submit"
+                        disabled={isSaving}
+                        className="inline-flex items-center justify-center rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? 'Changing...' : 'Change Encryption Password'}
+                    </button>
+                </div>
+            </form>
+
+            {isDone && (
+                <p className="text-sm text-green-600 dark:text-green-400">
+                    Your encryption password has been changed.
+                </p>
+            )}
+
+            {error && (
+                <div className="rounded-md bg-red-50 p-3 dark:bg-red-900/50">
+                    <p className="text-sm text-red-700 dark:text-red-200">{error}</p>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,79 @@
+import React, { useState } from 'react'
+import type { EncryptedStoreWrapper } from '../EncryptedStoreWrapper'
+import type { EncryptionProgress } from '../EncryptedTypes'
+
+/**
+ * Props for the EncryptMetadataForm component
+ */
+interface EncryptMetadataFormProps {
+    /** The encrypted store whose metadata is encrypted */
+    store: EncryptedStoreWrapper
+}
+
+/**
+ * Encrypts the metadata of accounts created before it was encrypted, such as
+ * when notes were changed and which board they are on
+ */
+export function EncryptMetadataForm({ store }: EncryptMetadataFormProps) {
+    const [error, setError] = useState<string | null>(null)
+    const [progress, setProgress] = useState<EncryptionProgress | null>(null)
+
+    const handleEncrypt = async () => {
+        if (!window.confirm('Encrypt metadata? Every note and chat is rewritten, which can take a while.')) return
+
+        setError(null)
+        setProgress({ done: 0, total: 0 })
+        try {
+            await store.encryptMetadata(setProgress)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to encrypt metadata')
+        } finally {
+            setProgress(null)
+        }
+    }
+
+    return (
+        <div className="max-w-md space-y-4">
+            <div>
+                <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">Metadata Encryption</h4>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    {store.isMetadataEncrypted()
+                        ? 'When your notes were created, changed and moved to the trash, and which board they are on, is encrypted.'
+                        : 'When your notes were created, changed and moved to the trash, and which board they are on, is stored unencrypted. Encrypt it to hide it from the server.'}
+                </p>
+            </div>
+
+            {!store.isMetadataEncrypted() && !progress && (
+                <button
+                    type="button"
+                    onClick={handleEncrypt}
+                    className="inline-flex items-center justify-center rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:bg-blue-500 dark:hover:bg-blue-600"
+                >
+                    Encrypt Metadata
+                </button>
+            )}
+
+            {progress && (
+                <div>
+                    <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                        <div
+                            className="h-full bg-blue-500 transition-all"
+                            style={{ width: `${progress.total > 0 ? Math.round(progress.done / progress.total * 100) : 0}%` }}
+                        />
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {progress.total > 0
+                            ? `Encrypting metadata, ${Math.round(progress.done / progress.total * 100)}% done...`
+                            : 'Preparing...'}
+                    </p>
+                </div>
+            )}
+
+            {error && (
+                <div className="rounded-md bg-red-50 p-3 dark:bg-red-900/50">
+                    <p className="text-sm text-red-700 dark:text-red-200">{error}</p>
+                </div>
+            )}
+        </div>
+    )
+}
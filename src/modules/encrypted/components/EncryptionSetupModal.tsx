@@ -1,9 +1,10 @@
 import React, { useState } from 'react'
-import { useAuth } from '../../auth/AuthContext'
-import { storePassword } from '../passwordStorage'
+import { generateRecoveryCode } from '../crypto'
+import { RecoveryCodeDisplay } from './RecoveryCodeDisplay'
 
 interface EncryptionSetupModalProps {
-    onSetupComplete: (password: string) => Promise<void>
+    /** Called with the chosen password, the recovery code the user saved and whether to remember the device */
+    onSetupComplete: (password: string, recoveryCode: string, remember: boolean) => Promise<void>
 }
 
 export function EncryptionSetupModal({ onSetupComplete }: EncryptionSetupModalProps) {
@@ -12,9 +13,11 @@ export function EncryptionSetupModal({ onSetupComplete }: EncryptionSetupModalPr
     const [remember, setRemember] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [isLoading, setIsLoading] = useState(false)
-    const { user } = useAuth()
+    const [recoveryCode] = useState(() => generateRecoveryCode())
+    const [showRecoveryCode, setShowRecoveryCode] = useState(false)
+    const [savedRecoveryCode, setSavedRecoveryCode] = useState(false)
 
-    const handleSubmit = async (e: React.FormEvent) => {
+    const handlePasswordSubmit = (e: React.FormEvent) => {
         e.preventDefault()
         setError(null)
 
@@ -28,12 +31,15 @@ export function EncryptionSetupModal({ onSetupComplete }: EncryptionSetupModalPr
             return
         }
 
+        setShowRecoveryCode(true)
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setError(null)
         setIsLoading(true)
         try {
-            await onSetupComplete(password)
-            if (remember && user) {
-                storePassword(user.uid, password)
-            }
+            await onSetupComplete(password, recoveryCode, remember)
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to set up encryption')
         } finally {
@@ -51,78 +57,129 @@ export function EncryptionSetupModal({ onSetupComplete }: EncryptionSetupModalPr
                     Choose a password to protect your notes. This password is separate from your account password.
                 </p>
 
-                <form onSubmit={handleSubmit} className="space-y-4">
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                            Encryption Password
-                        </label>
-                        <input
-                            type="password"
-                            value={password}
-                            onChange={(e) => setPassword(e.target.value)}
-                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
-                                     bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
-                                     focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            placeholder="Enter a strong password"
-                            required
-                            minLength={8}
-                            autoFocus
-                        />
-                    </div>
-
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                            Confirm Password
-                        </label>
-                        <input
-                            type="password"
-                            value={confirmPassword}
-                            onChange={(e) => setConfirmPassword(e.target.value)}
-                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
-                                     bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
-                                     focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            placeholder="Confirm your password"
-                            required
-                        />
-                    </div>
-
-                    <div className="flex items-center">
-                        <input
-                            type="checkbox"
-                            id="remember"
-                            checked={remember}
-                            onChange={(e) => setRemember(e.target.checked)}
-                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 
-                                     border-gray-300 rounded"
-                        />
-                        <label htmlFor="remember" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
-                            Remember on this device
-                        </label>
-                    </div>
-
-                    {error && (
-                        <div className="text-red-600 dark:text-red-400 text-sm">
-                            {error}
+                {showRecoveryCode ? (
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                            Save this recovery code somewhere safe. If you forget your password, it is the only way
+                            to unlock your notes.
+                        </p>
+
+                        <RecoveryCodeDisplay recoveryCode={recoveryCode} />
+
+                        <div className="flex items-center">
+                            <input
+                                type="checkbox"
+                                id="savedRecoveryCode"
+                                checked={savedRecoveryCode}
+                                onChange={(e) => setSavedRecoveryCode(e.target.checked)}
+                                className="h-4 w-4 text-blue-600 focus:ring-blue-500 
+                                         border-gray-300 rounded"
+                            />
+                            <label htmlFor="savedRecoveryCode" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                                I have saved my recovery code
+                            </label>
                         </div>
-                    )}
 
-                    <div className="bg-yellow-50 dark:bg-yellow-900/30 p-4 rounded-md">
-                        <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                            ⚠️ <strong>Important:</strong> This password cannot be recovered. 
-                            If you forget it, you will lose access to all your encrypted data.
-                        </p>
-                    </div>
-
-                    <button
-                        type="submit"
-                        disabled={isLoading}
-                        className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium 
-                                 text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 
-                                 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        {isLoading ? 'Setting Up...' : 'Set Up Encryption'}
-                    </button>
-                </form>
+                        {error && (
+                            <div className="text-red-600 dark:text-red-400 text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        <div className="flex gap-2">
+                            <button
+                                type="button"
+                                onClick={() => setShowRecoveryCode(false)}
+                                disabled={isLoading}
+                                className="py-2 px-4 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300
+                                         hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                            >
+                                Back
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isLoading || !savedRecoveryCode}
+                                className="flex-1 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium 
+                                         text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 
+                                         focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isLoading ? 'Setting Up...' : 'Set Up Encryption'}
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <form onSubmit={handlePasswordSubmit} className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Encryption Password
+                            </label>
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                                         bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                                         focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                placeholder="Enter a strong password"
+                                required
+                                minLength={8}
+                                autoFocus
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Confirm Password
+                            </label>
+                            <input
+                                type="password"
+                                value={confirmPassword}
+                                onChange={(e) => setConfirmPassword(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                                         bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                                         focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                placeholder="Confirm your password"
+                                required
+                            />
+                        </div>
+
+                        <div className="flex items-center">
+                            <input
+                                type="checkbox"
+                                id="remember"
+                                checked={remember}
+                                onChange={(e) => setRemember(e.target.checked)}
+                                className="h-4 w-4 text-blue-600 focus:ring-blue-500 
+                                         border-gray-300 rounded"
+                            />
+                            <label htmlFor="remember" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                                Remember this device
+                            </label>
+                        </div>
+
+                        {error && (
+                            <div className="text-red-600 dark:text-red-400 text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        <div className="bg-yellow-50 dark:bg-yellow-900/30 p-4 rounded-md">
+                            <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                                ⚠️ <strong>Important:</strong> Your notes can only be unlocked with this password or
+                                the recovery code shown next. If you lose both, your encrypted data cannot be recovered.
+                            </p>
+                        </div>
+
+                        <button
+                            type="submit"
+                            className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium 
+                                     text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 
+                                     focus:ring-offset-2 focus:ring-blue-500"
+                        >
+                            Continue
+                        </button>
+                    </form>
+                )}
             </div>
         </div>
     )
@@ -0,0 +1,62 @@
+import React, { useState } from 'react'
+
+/**
+ * Props for the RecoveryCodeDisplay component
+ */
+interface RecoveryCodeDisplayProps {
+    /** The recovery code to show */
+    recoveryCode: string
+}
+
+/**
+ * Shows a recovery code with buttons to copy it or save it as a text file
+ */
+export function RecoveryCodeDisplay({ recoveryCode }: RecoveryCodeDisplayProps) {
+    const [copied, setCopied] = useState(false)
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(recoveryCode)
+            setCopied(true)
+            setTimeout(() => setCopied(false), 2000)
+        } catch (error) {
+            console.error('Failed to copy recovery code:', error)
+        }
+    }
+
+    const handleDownload = () => {
+        const text = `Notelets recovery code\n\n${recoveryCode}\n\nUse this code to unlock your notes if you forget your encryption password.\n`
+        const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }))
+        const link = document.createElement('a')
+        link.href = url
+        link.download = 'notelets-recovery-code.txt'
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="p-3 rounded-md bg-gray-100 dark:bg-gray-900 font-mono text-center text-sm tracking-wider text-gray-900 dark:text-gray-100 break-all select-all">
+                {recoveryCode}
+            </div>
+            <div className="flex gap-2">
+                <button
+                    type="button"
+                    onClick={handleCopy}
+                    className="flex-1 px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600
+                             text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                    {copied ? 'Copied' : 'Copy'}
+                </button>
+                <button
+                    type="button"
+                    onClick={handleDownload}
+                    className="flex-1 px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600
+                             text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                    Download
+                </button>
+            </div>
+        </div>
+    )
+}
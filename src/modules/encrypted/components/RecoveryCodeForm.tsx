@@ -0,0 +1,111 @@
+import React, { useEffect, useState, FormEvent } from 'react'
+import type { EncryptedStoreWrapper } from '../EncryptedStoreWrapper'
+import { generateRecoveryCode } from '../crypto'
+import { RecoveryCodeDisplay } from './RecoveryCodeDisplay'
+
+/**
+ * Props for the RecoveryCodeForm component
+ */
+interface RecoveryCodeFormProps {
+    /** The encrypted store whose recovery code is set */
+    store: EncryptedStoreWrapper
+}
+
+/**
+ * A form that creates a new recovery code, which unlocks the notes if the
+ * encryption password is forgotten. Any earlier recovery code stops working
+ */
+export function RecoveryCodeForm({ store }: RecoveryCodeFormProps) {
+    const [hasRecoveryCode, setHasRecoveryCode] = useState<boolean | null>(null)
+    const [password, setPassword] = useState('')
+    const [recoveryCode, setRecoveryCode] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [isSaving, setIsSaving] = useState(false)
+
+    useEffect(() => {
+        store.hasRecoveryCode()
+            .then(setHasRecoveryCode)
+            .catch(err => console.error('Failed to check recovery code:', err))
+    }, [store])
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault()
+        setError(null)
+        setIsSaving(true)
+
+        const code = generateRecoveryCode()
+        try {
+            await store.setRecoveryCode(password, code)
+            setPassword('')
+            setRecoveryCode(code)
+            setHasRecoveryCode(true)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create a recovery code')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="max-w-md space-y-4">
+            <div>
+                <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">Recovery Code</h4>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    {hasRecoveryCode === false
+                        ? 'You have no recovery code. If you forget your encryption password, your notes cannot be unlocked.'
+                        : 'A recovery code unlocks your notes if you forget your encryption password. Creating a new one replaces the old one.'}
+                </p>
+            </div>
+
+            {recoveryCode ? (
+                <div className="space-y-3">
+                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                        Save this recovery code somewhere safe. It will not be shown again.
+                    </p>
+                    <RecoveryCodeDisplay recoveryCode={recoveryCode} />
+                    <div className="flex justify-end">
+                        <button
+                            type="button"
+                            onClick={() => setRecoveryCode(null)}
+                            className="px-3 py-1.5 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+                        >
+                            I Have Saved It
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="recoveryCodePassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Encryption Password
+                        </label>
+                        <input
+                            id="recoveryCodePassword"
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            className="block w-full rounded-md border border-gray-300 px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 text-sm"
+                            required
+                        />
+                    </div>
+
+                    <div className="flex justify-end">
+                        <button
+                            type="submit"
+                            disabled={isSaving}
+                            className="inline-flex items-center justify-center rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isSaving ? 'Creating...' : 'Create New Recovery Code'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {error && (
+                <div className="rounded-md bg-red-50 p-3 dark:bg-red-900/50">
+                    <p className="text-sm text-red-700 dark:text-red-200">{error}</p>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,96 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import type { EncryptedStoreWrapper } from '../EncryptedStoreWrapper'
+import type { RememberedDevice } from '../EncryptedTypes'
+
+/**
+ * Props for the RememberedDevicesList component
+ */
+interface RememberedDevicesListProps {
+    /** The encrypted store whose devices are listed */
+    store: EncryptedStoreWrapper
+}
+
+/**
+ * Lists the devices that unlock the notes without the password, so that any of
+ * them can be revoked, for example after losing a laptop
+ */
+export function RememberedDevicesList({ store }: RememberedDevicesListProps) {
+    const [devices, setDevices] = useState<RememberedDevice[] | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const loadDevices = useCallback(() => {
+        store.getDevices()
+            .then(setDevices)
+            .catch(err => {
+                console.error('Failed to load remembered devices:', err)
+                setError('Failed to load remembered devices')
+            })
+    }, [store])
+
+    useEffect(() => {
+        loadDevices()
+    }, [loadDevices])
+
+    const handleRevoke = async (device: RememberedDevice) => {
+        const message = device.isCurrent
+            ? 'Forget this device? You will need to enter your encryption password next time.'
+            : `Revoke ${device.name}? It will need the encryption password to unlock your notes.`
+        if (!window.confirm(message)) return
+
+        setError(null)
+        try {
+            await store.revokeDevice(device.id)
+            loadDevices()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to revoke the device')
+        }
+    }
+
+    return (
+        <div className="max-w-md space-y-3">
+            <div>
+                <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">Remembered Devices</h4>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    These devices unlock your notes without the encryption password.
+                </p>
+            </div>
+
+            {devices && devices.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No devices are remembered.</p>
+            )}
+
+            {devices && devices.length > 0 && (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {devices.map(device => (
+                        <li key={device.id} className="py-2 flex items-center gap-2">
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                                    {device.name}
+                                    {device.isCurrent && (
+                                        <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">This device</span>
+                                    )}
+                                </p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    Last used {new Date(device.lastUsedAt).toLocaleDateString()}
+                                </p>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => handleRevoke(device)}
+                                className="px-3 py-1 text-sm rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30"
+                            >
+                                {device.isCurrent ? 'Forget' : 'Revoke'}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {error && (
+                <div className="rounded-md bg-red-50 p-3 dark:bg-red-900/50">
+                    <p className="text-sm text-red-700 dark:text-red-200">{error}</p>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -1,17 +1,22 @@
 import React, { useState } from 'react'
-import { useAuth } from '../../auth/AuthContext'
-import { storePassword } from '../passwordStorage'
 
 interface UnlockModalProps {
-    onUnlock: (password: string) => Promise<void>
+    /** Unlocks with the password, and remembers the device if asked to */
+    onUnlock: (password: string, remember: boolean) => Promise<void>
+    /** Unlocks with the recovery code and sets a new password */
+    onRecover: (recoveryCode: string, newPassword: string, remember: boolean) => Promise<void>
+    /** Whether a recovery code was set up, so it can be used to unlock */
+    canRecover: boolean
 }
 
-export function UnlockModal({ onUnlock }: UnlockModalProps) {
+export function UnlockModal({ onUnlock, onRecover, canRecover }: UnlockModalProps) {
     const [password, setPassword] = useState('')
     const [remember, setRemember] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [isLoading, setIsLoading] = useState(false)
-    const { user } = useAuth()
+    const [isRecovering, setIsRecovering] = useState(false)
+    const [recoveryCode, setRecoveryCode] = useState('')
+    const [confirmPassword, setConfirmPassword] = useState('')
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
@@ -19,10 +24,7 @@ export function UnlockModal({ onUnlock }: UnlockModalProps) {
         setIsLoading(true)
 
         try {
-            await onUnlock(password)
-            if (remember && user) {
-                storePassword(user.uid, password)
-            }
+            await onUnlock(password, remember)
         } catch (err) {
             setError('Incorrect password')
             setPassword('')
@@ -31,6 +33,40 @@ export function UnlockModal({ onUnlock }: UnlockModalProps) {
         }
     }
 
+    const handleRecover = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setError(null)
+
+        if (password.length < 8) {
+            setError('New password must be at least 8 characters')
+            return
+        }
+
+        if (password !== confirmPassword) {
+            setError('Passwords do not match')
+            return
+        }
+
+        setIsLoading(true)
+        try {
+            await onRecover(recoveryCode, password, remember)
+        } catch (err) {
+            setError('Incorrect recovery code')
+            setRecoveryCode('')
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    /** Switches between unlocking with the password and with the recovery code */
+    const toggleRecovering = () => {
+        setIsRecovering(!isRecovering)
+        setPassword('')
+        setConfirmPassword('')
+        setRecoveryCode('')
+        setError(null)
+    }
+
     return (
         <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50">
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md p-6">
@@ -44,58 +80,155 @@ export function UnlockModal({ onUnlock }: UnlockModalProps) {
                         Unlock Your Notes
                     </h2>
                     <p className="text-gray-600 dark:text-gray-400 mt-2">
-                        Enter your encryption password to access your notes
+                        {isRecovering
+                            ? 'Enter your recovery code and choose a new encryption password'
+                            : 'Enter your encryption password to access your notes'}
                     </p>
                 </div>
 
-                <form onSubmit={handleSubmit} className="space-y-4">
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                            Encryption Password
-                        </label>
-                        <input
-                            type="password"
-                            value={password}
-                            onChange={(e) => setPassword(e.target.value)}
-                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
-                                     bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
-                                     focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            placeholder="Enter your password"
-                            required
-                            autoFocus
-                        />
-                    </div>
+                {isRecovering ? (
+                    <form onSubmit={handleRecover} className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Recovery Code
+                            </label>
+                            <input
+                                type="text"
+                                value={recoveryCode}
+                                onChange={(e) => setRecoveryCode(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                                         bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-mono
+                                         focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                                autoComplete="off"
+                                spellCheck={false}
+                                required
+                                autoFocus
+                            />
+                        </div>
 
-                    <div className="flex items-center">
-                        <input
-                            type="checkbox"
-                            id="remember"
-                            checked={remember}
-                            onChange={(e) => setRemember(e.target.checked)}
-                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 
-                                     border-gray-300 rounded"
-                        />
-                        <label htmlFor="remember" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
-                            Remember on this device
-                        </label>
-                    </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                New Encryption Password
+                            </label>
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                                         bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                                         focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                placeholder="At least 8 characters"
+                                required
+                                minLength={8}
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Confirm New Password
+                            </label>
+                            <input
+                                type="password"
+                                value={confirmPassword}
+                                onChange={(e) => setConfirmPassword(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                                         bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                                         focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                required
+                            />
+                        </div>
 
-                    {error && (
-                        <div className="text-red-600 dark:text-red-400 text-sm text-center">
-                            {error}
+                        <div className="flex items-center">
+                            <input
+                                type="checkbox"
+                                id="rememberRecovered"
+                                checked={remember}
+                                onChange={(e) => setRemember(e.target.checked)}
+                                className="h-4 w-4 text-blue-600 focus:ring-blue-500 
+                                         border-gray-300 rounded"
+                            />
+                            <label htmlFor="rememberRecovered" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                                Remember this device
+                            </label>
                         </div>
-                    )}
 
+                        {error && (
+                            <div className="text-red-600 dark:text-red-400 text-sm text-center">
+                                {error}
+                            </div>
+                        )}
+
+                        <button
+                            type="submit"
+                            disabled={isLoading}
+                            className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium 
+                                     text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 
+                                     focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isLoading ? 'Unlocking...' : 'Unlock and Set Password'}
+                        </button>
+                    </form>
+                ) : (
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Encryption Password
+                            </label>
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                                         bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                                         focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                placeholder="Enter your password"
+                                required
+                                autoFocus
+                            />
+                        </div>
+
+                        <div className="flex items-center">
+                            <input
+                                type="checkbox"
+                                id="remember"
+                                checked={remember}
+                                onChange={(e) => setRemember(e.target.checked)}
+                                className="h-4 w-4 text-blue-600 focus:ring-blue-500 
+                                         border-gray-300 rounded"
+                            />
+                            <label htmlFor="remember" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                                Remember this device
+                            </label>
+                        </div>
+
+                        {error && (
+                            <div className="text-red-600 dark:text-red-400 text-sm text-center">
+                                {error}
+                            </div>
+                        )}
+
+                        <button
+                            type="submit"
+                            disabled={isLoading}
+                            className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium 
+                                     text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 
+                                     focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isLoading ? 'Unlocking...' : 'Unlock'}
+                        </button>
+                    </form>
+                )}
+
+                {canRecover && (
                     <button
-                        type="submit"
-                        disabled={isLoading}
-                        className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium 
-                                 text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 
-                                 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        type="button"
+                        onClick={toggleRecovering}
+                        className="w-full mt-4 text-sm text-blue-600 dark:text-blue-400 hover:underline"
                     >
-                        {isLoading ? 'Unlocking...' : 'Unlock'}
+                        {isRecovering ? 'Use encryption password' : 'Forgot your password? Use recovery code'}
                     </button>
-                </form>
+                )}
             </div>
         </div>
     )
@@ -1,5 +1,27 @@
 import { describe, it, expect } from 'vitest'
-import { encrypt, decrypt, encryptBoardData, decryptBoardData } from './crypto'
+import {
+    encrypt,
+    decrypt,
+    encryptBoardData,
+    decryptBoardData,
+    deriveMasterKey,
+    deriveMasterKeyBytes,
+    generateMasterSalt,
+    generateDataKey,
+    importDataKey,
+    wrapDataKey,
+    unwrapDataKey,
+    generateRecoveryCode,
+    normalizeRecoveryCode,
+    importIndexKey,
+    blindId,
+    encodeSalt,
+    createKdf,
+    legacyKdf,
+    deriveKdfKey,
+    needsKdfUpgrade,
+    calibrateIterations
+} from './crypto'
 import type { Board } from '../../types'
 
 describe('crypto utilities', () => {
@@ -123,4 +145,96 @@ describe('crypto utilities', () => {
             expect(decrypted).toBe(text)
         })
     })
-}) 
\ No newline at end of file
+    describe('key wrapping', () => {
+        it('should unwrap the data key only with the wrapping key', async () => {
+            const dataKey = generateDataKey()
+            const passwordKey = await deriveMasterKey('password', generateMasterSalt())
+            const otherKey = await deriveMasterKey('other-password', generateMasterSalt())
+            const wrapped = await wrapDataKey(dataKey, passwordKey)
+
+            const unwrapped = await unwrapDataKey(wrapped, passwordKey)
+            expect(unwrapped).toEqual(dataKey)
+            await expect(unwrapDataKey(wrapped, otherKey)).rejects.toThrow('Decryption failed')
+
+            const encrypted = await encrypt('Hello, World!', await importDataKey(dataKey))
+            expect(await decrypt(encrypted, await importDataKey(unwrapped))).toBe('Hello, World!')
+        })
+
+        it('should use the key of a password as a data key', async () => {
+            // Accounts set up before keys were wrapped keep their data encrypted with the password's key
+            const salt = generateMasterSalt()
+            const encrypted = await encrypt('Hello, World!', await deriveMasterKey('password', salt))
+            const dataKey = await importDataKey(await deriveMasterKeyBytes('password', salt))
+            expect(await decrypt(encrypted, dataKey)).toBe('Hello, World!')
+        })
+
+        it('should generate readable recovery codes', () => {
+            const code = generateRecoveryCode()
+            expect(code).toMatch(/^[A-HJ-NP-Z2-9]{4}(-[A-HJ-NP-Z2-9]{4}){7}$/)
+            expect(generateRecoveryCode()).not.toBe(code)
+            expect(normalizeRecoveryCode(` ${code.toLowerCase().replace(/-/g, ' ')} `)).toBe(code.replace(/-/g, ''))
+        })
+    })
+
+    describe('blinded identifiers', () => {
+        it('should blind the same identifier the same way with the same key', async () => {
+            const indexKey = await importIndexKey(generateDataKey())
+            const blinded = await blindId(indexKey, 'board', 'board-1')
+            expect(blinded).toMatch(/^[A-Za-z0-9_-]{43}$/)
+            expect(await blindId(indexKey, 'board', 'board-1')).toBe(blinded)
+            expect(await blindId(indexKey, 'board', 'board-2')).not.toBe(blinded)
+        })
+
+        it('should blind identifiers differently by key and purpose', async () => {
+            const indexKey = await importIndexKey(generateDataKey())
+            const otherKey = await importIndexKey(generateDataKey())
+            const blinded = await blindId(indexKey, 'board', 'same-id')
+            expect(await blindId(otherKey, 'board', 'same-id')).not.toBe(blinded)
+            expect(await blindId(indexKey, 'card', 'same-id')).not.toBe(blinded)
+        })
+    })
+
+    describe('key derivation parameters', () => {
+        it('should derive the same key as before parameters were recorded', async () => {
+            const salt = generateMasterSalt()
+            const encrypted = await encrypt('Hello, World!', await deriveMasterKey('password', salt))
+            const key = await deriveKdfKey('password', legacyKdf(encodeSalt(salt)))
+            expect(await decrypt(encrypted, key)).toBe('Hello, World!')
+        })
+
+        it('should derive keys with the recorded iterations and salt', async () => {
+            const kdf = createKdf(600000)
+            expect(kdf).toMatchObject({ version: 1, algorithm: 'PBKDF2-SHA256', iterations: 600000 })
+            expect(createKdf(600000).salt).not.toBe(kdf.salt)
+
+            const encrypted = await encrypt('Hello, World!', await deriveKdfKey('password', kdf))
+            expect(await decrypt(encrypted, await deriveKdfKey('password', kdf))).toBe('Hello, World!')
+            const fewerIterations = await deriveKdfKey('password', { ...kdf, iterations: 100000 })
+            await expect(decrypt(encrypted, fewerIterations)).rejects.toThrow('Decryption failed')
+        })
+
+        it('should reject unsupported parameters', async () => {
+            const kdf = createKdf(600000)
+            await expect(deriveKdfKey('password', { ...kdf, version: 2 })).rejects.toThrow('Unsupported key derivation')
+            await expect(deriveKdfKey('password', { ...kdf, version: 0 })).rejects.toThrow('Unsupported key derivation')
+            await expect(deriveKdfKey('password', { ...kdf, iterations: 1000 })).rejects.toThrow('Unsupported key derivation')
+            await expect(deriveKdfKey('password', { ...kdf, iterations: 600000.5 })).rejects.toThrow('Unsupported key derivation')
+            await expect(deriveKdfKey('password', { ...kdf, iterations: 1e12 })).rejects.toThrow('Unsupported key derivation')
+            await expect(deriveKdfKey('password', { ...kdf, iterations: NaN })).rejects.toThrow('Unsupported key derivation')
+        })
+
+        it('should upgrade keys with fewer iterations than new ones get', () => {
+            expect(needsKdfUpgrade(legacyKdf(encodeSalt(generateMasterSalt())))).toBe(true)
+            expect(needsKdfUpgrade(createKdf(600000))).toBe(false)
+        })
+
+        it('should pick iterations by how fast this device derives keys', () => {
+            // 50,000 iterations in 16 ms gives 781,250 in the target 250 ms
+            expect(calibrateIterations(50000, 16)).toBe(780000)
+            expect(calibrateIterations(50000, 20)).toBe(630000)
+            // Slow devices still get the fewest allowed, and fast ones the most
+            expect(calibrateIterations(50000, 1000)).toBe(600000)
+            expect(calibrateIterations(50000, 0)).toBe(1000000)
+        })
+    })
+})
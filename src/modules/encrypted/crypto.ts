@@ -1,13 +1,24 @@
 import type { EncryptedBlob } from './EncryptedTypes'
-import type { Board, Card, Chat } from '../../types'
+import type { Board, Card, CardEmbedding, CardRevision, Chat, ChatAttachmentData, UsageRecord } from '../../types'
 import type { UserSettings } from '../../types/settings'
 
 /**
  * Configuration for the encryption system
  */
 interface CryptoConfig {
-    /** Number of iterations for key derivation */
-    iterations: number
+    /** Number of iterations of keys derived before their parameters were recorded */
+    legacyIterations: number
+    /** Fewest iterations for new keys. Keys derived with fewer are upgraded on unlock */
+    minIterations: number
+    /**
+     * Most iterations for new keys, however fast the device is. Every device the
+     * password unlocks derives the key, including slower ones than the one setting it
+     */
+    maxIterations: number
+    /** How long deriving a new key should take on the device setting it up, in milliseconds */
+    targetDerivationMs: number
+    /** Number of iterations timed to pick the iterations of new keys */
+    benchmarkIterations: number
     /** Key length in bits */
     keyLength: number
     /** Master salt length in bytes */
@@ -18,15 +29,48 @@ interface CryptoConfig {
  * Default configuration values
  */
 const DEFAULT_CONFIG: CryptoConfig = {
-    iterations: 100000,
+    legacyIterations: 100000,
+    // OWASP's recommendation for PBKDF2 with SHA-256
+    minIterations: 600000,
+    maxIterations: 1000000,
+    targetDerivationMs: 250,
+    benchmarkIterations: 50000,
     keyLength: 256,
     saltLength: 16
 }
 
+/** Version of key derivation descriptors written by this code */
+const KDF_VERSION = 1
+
+/**
+ * Parameters a key was derived from a password with, stored next to what the
+ * key wraps so that they can be changed for new keys
+ */
+export interface KdfDescriptor {
+    /** Version of the descriptor format */
+    version: number
+    /** Key derivation function and its hash */
+    algorithm: 'PBKDF2-SHA256'
+    /** Number of iterations */
+    iterations: number
+    /** Salt as base64 */
+    salt: string
+}
+
+/**
+ * Characters of recovery codes, leaving out ones easily mistaken for others (0, 1, I, O).
+ * There are 32, so each random byte picks one without bias
+ */
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+/** Number of characters in a recovery code, giving 160 random bits */
+const RECOVERY_CODE_LENGTH = 32
+
 /**
  * Derives the master encryption key from a password and salt
+ * @param iterations Number of iterations, by default those of keys derived before they were recorded
  */
-export async function deriveMasterKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+export async function deriveMasterKey(password: string, salt: Uint8Array<ArrayBuffer>, iterations = DEFAULT_CONFIG.legacyIterations): Promise<CryptoKey> {
     const encoder = new TextEncoder()
     const passwordBuffer = encoder.encode(password)
     
@@ -42,7 +86,7 @@ export async function deriveMasterKey(password: string, salt: Uint8Array): Promi
         {
             name: 'PBKDF2',
             salt,
-            iterations: DEFAULT_CONFIG.iterations,
+            iterations,
             hash: 'SHA-256'
         },
         importedKey,
@@ -52,13 +96,200 @@ export async function deriveMasterKey(password: string, salt: Uint8Array): Promi
     )
 }
 
+/**
+ * Derives the same key as {@link deriveMasterKey} as raw bytes. Data of accounts set
+ * up before keys were wrapped is encrypted with this key, which becomes their data key
+ */
+export async function deriveMasterKeyBytes(password: string, salt: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+    const importedKey = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(password),
+        'PBKDF2',
+        false,
+        ['deriveBits']
+    )
+
+    const bits = await crypto.subtle.deriveBits(
+        {
+            name: 'PBKDF2',
+            salt,
+            iterations: DEFAULT_CONFIG.legacyIterations,
+            hash: 'SHA-256'
+        },
+        importedKey,
+        DEFAULT_CONFIG.keyLength
+    )
+    return new Uint8Array(bits)
+}
+
 /**
  * Generates a new random salt for initial setup
  */
-export function generateMasterSalt(): Uint8Array {
+export function generateMasterSalt(): Uint8Array<ArrayBuffer> {
     return crypto.getRandomValues(new Uint8Array(DEFAULT_CONFIG.saltLength))
 }
 
+/**
+ * Encodes a salt as base64 to store it
+ */
+export function encodeSalt(salt: Uint8Array): string {
+    return btoa(String.fromCharCode(...salt))
+}
+
+/**
+ * Decodes a salt stored as base64
+ */
+export function decodeSalt(salt: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(salt), c => c.charCodeAt(0))
+}
+
+/**
+ * Creates the parameters of a new key with a new salt
+ */
+export function createKdf(iterations: number): KdfDescriptor {
+    return {
+        version: KDF_VERSION,
+        algorithm: 'PBKDF2-SHA256',
+        iterations,
+        salt: encodeSalt(generateMasterSalt())
+    }
+}
+
+/**
+ * Describes a key derived before its parameters were recorded, which only stored the salt
+ */
+export function legacyKdf(salt: string): KdfDescriptor {
+    return {
+        version: KDF_VERSION,
+        algorithm: 'PBKDF2-SHA256',
+        iterations: DEFAULT_CONFIG.legacyIterations,
+        salt
+    }
+}
+
+/**
+ * Derives a key from a password with the parameters of a descriptor
+ * @throws Error if the parameters are not supported, such as ones written by a newer version
+ */
+export async function deriveKdfKey(password: string, kdf: KdfDescriptor): Promise<CryptoKey> {
+    // The descriptor comes from the server. Fewer iterations than keys have ever had
+    // would make the password easier to guess, and more than new keys get could hang
+    const isSupported = kdf.version === KDF_VERSION
+        && kdf.algorithm === 'PBKDF2-SHA256'
+        && Number.isInteger(kdf.iterations)
+        && kdf.iterations >= DEFAULT_CONFIG.legacyIterations
+        && kdf.iterations <= DEFAULT_CONFIG.maxIterations
+    if (!isSupported) {
+        throw new Error(`Unsupported key derivation: ${kdf.algorithm} version ${kdf.version} with ${kdf.iterations} iterations`)
+    }
+    return deriveMasterKey(password, decodeSalt(kdf.salt), kdf.iterations)
+}
+
+/**
+ * Whether a key should be derived again with stronger parameters
+ */
+export function needsKdfUpgrade(kdf: KdfDescriptor): boolean {
+    return kdf.version < KDF_VERSION || kdf.iterations < DEFAULT_CONFIG.minIterations
+}
+
+/**
+ * Picks the number of iterations that take the target time, given how long a
+ * number of iterations took. It is rounded to 10,000 and kept within the limits
+ */
+export function calibrateIterations(sampleIterations: number, elapsedMs: number): number {
+    const iterations = Math.round(sampleIterations * DEFAULT_CONFIG.targetDerivationMs / Math.max(elapsedMs, 1) / 10000) * 10000
+    return Math.min(Math.max(iterations, DEFAULT_CONFIG.minIterations), DEFAULT_CONFIG.maxIterations)
+}
+
+/**
+ * Times key derivation on this device to pick the iterations of new keys, so that
+ * they are as strong as the device can derive them quickly
+ */
+export async function benchmarkIterations(): Promise<number> {
+    const salt = generateMasterSalt()
+    const start = performance.now()
+    await deriveMasterKey('benchmark', salt, DEFAULT_CONFIG.benchmarkIterations)
+    return calibrateIterations(DEFAULT_CONFIG.benchmarkIterations, performance.now() - start)
+}
+
+/**
+ * Generates a random data key, which data is encrypted with. It is stored only
+ * wrapped by keys derived from the password and the recovery code
+ */
+export function generateDataKey(): Uint8Array<ArrayBuffer> {
+    return crypto.getRandomValues(new Uint8Array(DEFAULT_CONFIG.keyLength / 8))
+}
+
+/**
+ * Imports a data key to encrypt and decrypt data with
+ */
+export async function importDataKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+}
+
+/**
+ * Generates a key that a remembered device keeps to unwrap the data key. It cannot
+ * be exported, so it never leaves the browser it is stored in
+ */
+export async function generateDeviceKey(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+}
+
+/**
+ * Encrypts a data key with a key derived from a password or recovery code, or with a device key
+ */
+export async function wrapDataKey(raw: Uint8Array<ArrayBuffer>, wrappingKey: CryptoKey): Promise<EncryptedBlob> {
+    return encrypt(btoa(String.fromCharCode(...raw)), wrappingKey)
+}
+
+/**
+ * Decrypts a data key wrapped by {@link wrapDataKey}
+ * @throws Error if the wrapping key is wrong
+ */
+export async function unwrapDataKey(wrapped: EncryptedBlob, wrappingKey: CryptoKey): Promise<Uint8Array<ArrayBuffer>> {
+    const decrypted = await decrypt(wrapped, wrappingKey)
+    return Uint8Array.from(atob(decrypted), c => c.charCodeAt(0))
+}
+
+/**
+ * Imports a key to compute blinded identifiers with. The key itself is random,
+ * like a data key, and stored wrapped by the data key
+ */
+export async function importIndexKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+}
+
+/**
+ * Computes a blinded identifier, which stands in for an ID or time that documents
+ * are queried by without revealing it. The same value always gives the same
+ * identifier for a key, and the purpose keeps identifiers of different kinds apart
+ * @param purpose What the value is, e.g. "board" for board IDs
+ */
+export async function blindId(indexKey: CryptoKey, purpose: string, value: string): Promise<string> {
+    const signature = await crypto.subtle.sign('HMAC', indexKey, new TextEncoder().encode(`${purpose}:${value}`))
+    return btoa(String.fromCharCode(...new Uint8Array(signature)))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '')
+}
+
+/**
+ * Generates a recovery code that unlocks the data if the password is forgotten,
+ * in groups of four characters so that it is easy to write down
+ */
+export function generateRecoveryCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_LENGTH))
+    const code = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('')
+    return code.match(/.{4}/g)!.join('-')
+}
+
+/**
+ * Normalizes a typed recovery code, ignoring case, spaces and dashes
+ */
+export function normalizeRecoveryCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
 /**
  * Encrypts data using AES-GCM with the provided key
  */
@@ -111,17 +342,37 @@ export async function decrypt(encrypted: EncryptedBlob, key: CryptoKey): Promise
 /**
  * Type for the data portion of a board
  */
-type BoardData = Omit<Board, 'id' | 'createdAt' | 'updatedAt'>
+type BoardData = Omit<Board, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt'>
 
 /**
  * Type for the data portion of a card
  */
-type CardData = Omit<Card, 'id' | 'boardId' | 'createdAt' | 'updatedAt'>
+type CardData = Omit<Card, 'id' | 'boardId' | 'createdAt' | 'updatedAt' | 'deletedAt'>
+
+/**
+ * Type for the data portion of a card revision
+ */
+type CardRevisionData = Omit<CardRevision, 'id' | 'cardId' | 'boardId' | 'createdAt'>
+
+/**
+ * Type for the data portion of a card embedding
+ */
+type CardEmbeddingData = Omit<CardEmbedding, 'cardId' | 'boardId' | 'updatedAt'>
+
+/**
+ * Type for the data portion of a usage record
+ */
+type UsageRecordData = Omit<UsageRecord, 'id' | 'boardId' | 'createdAt'>
 
 /**
  * Type for the data portion of a chat
  */
-type ChatData = Omit<Chat, 'id' | 'boardId' | 'createdAt' | 'updatedAt'>
+type ChatData = Omit<Chat, 'id' | 'boardId' | 'createdAt' | 'updatedAt' | 'deletedAt'>
+
+/**
+ * Type for the data portion of a chat attachment
+ */
+type ChatAttachmentContent = Omit<ChatAttachmentData, 'id' | 'chatId' | 'boardId' | 'createdAt'>
 
 /**
  * Encrypts a board's data fields
@@ -153,6 +404,51 @@ export async function decryptCardData(encrypted: EncryptedBlob, key: CryptoKey):
     return JSON.parse(decrypted) as CardData
 }
 
+/**
+ * Encrypts a card revision's data fields
+ */
+export async function encryptCardRevisionData(data: CardRevisionData, key: CryptoKey): Promise<EncryptedBlob> {
+    return encrypt(JSON.stringify(data), key)
+}
+
+/**
+ * Decrypts a card revision's data fields
+ */
+export async function decryptCardRevisionData(encrypted: EncryptedBlob, key: CryptoKey): Promise<CardRevisionData> {
+    const decrypted = await decrypt(encrypted, key)
+    return JSON.parse(decrypted) as CardRevisionData
+}
+
+/**
+ * Encrypts a card embedding's data fields
+ */
+export async function encryptCardEmbeddingData(data: CardEmbeddingData, key: CryptoKey): Promise<EncryptedBlob> {
+    return encrypt(JSON.stringify(data), key)
+}
+
+/**
+ * Decrypts a card embedding's data fields
+ */
+export async function decryptCardEmbeddingData(encrypted: EncryptedBlob, key: CryptoKey): Promise<CardEmbeddingData> {
+    const decrypted = await decrypt(encrypted, key)
+    return JSON.parse(decrypted) as CardEmbeddingData
+}
+
+/**
+ * Encrypts a usage record's data fields
+ */
+export async function encryptUsageRecordData(data: UsageRecordData, key: CryptoKey): Promise<EncryptedBlob> {
+    return encrypt(JSON.stringify(data), key)
+}
+
+/**
+ * Decrypts a usage record's data fields
+ */
+export async function decryptUsageRecordData(encrypted: EncryptedBlob, key: CryptoKey): Promise<UsageRecordData> {
+    const decrypted = await decrypt(encrypted, key)
+    return JSON.parse(decrypted) as UsageRecordData
+}
+
 /**
  * Encrypts a chat's data fields
  */
@@ -168,6 +464,21 @@ export async function decryptChatData(encrypted: EncryptedBlob, key: CryptoKey):
     return JSON.parse(decrypted) as ChatData
 }
 
+/**
+ * Encrypts a chat attachment's content
+ */
+export async function encryptChatAttachmentData(data: ChatAttachmentContent, key: CryptoKey): Promise<EncryptedBlob> {
+    return encrypt(JSON.stringify(data), key)
+}
+
+/**
+ * Decrypts a chat attachment's content
+ */
+export async function decryptChatAttachmentData(encrypted: EncryptedBlob, key: CryptoKey): Promise<ChatAttachmentContent> {
+    const decrypted = await decrypt(encrypted, key)
+    return JSON.parse(decrypted) as ChatAttachmentContent
+}
+
 /**
  * Encrypt user settings data
  */
@@ -0,0 +1,113 @@
+const DB_NAME = 'notelets-devices'
+const DB_VERSION = 1
+const STORE_NAME = 'deviceKeys'
+
+/** Users whose notes were locked on this device, until the password is entered */
+const LOCKED_STORAGE_KEY = 'notelets-locked-users'
+
+/**
+ * The key this browser keeps to unlock a user's notes without the password
+ */
+export interface StoredDeviceKey {
+    userId: string
+    /** ID of the device's record in the cloud, which holds the data key wrapped by the key */
+    deviceId: string
+    /** Non-extractable key that unwraps the data key */
+    key: CryptoKey
+}
+
+/**
+ * Opens the database of device keys. CryptoKeys are stored as they are, which
+ * keeps them non-extractable
+ */
+function openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onerror = () => reject(request.error)
+        request.onsuccess = () => resolve(request.result)
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'userId' })
+        }
+    })
+}
+
+/**
+ * Runs a request on the device keys and closes the database when it is done
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDB()
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+            request.onerror = () => reject(request.error)
+            request.onsuccess = () => resolve(request.result)
+        })
+    } finally {
+        db.close()
+    }
+}
+
+/**
+ * Store the device key for a user
+ */
+export async function storeDeviceKey(deviceKey: StoredDeviceKey): Promise<void> {
+    await withStore('readwrite', store => store.put(deviceKey))
+}
+
+/**
+ * Get the device key for a user
+ * Returns null if this device is not remembered
+ */
+export async function getDeviceKey(userId: string): Promise<StoredDeviceKey | null> {
+    const stored = await withStore<StoredDeviceKey | undefined>('readonly', store => store.get(userId))
+    return stored ?? null
+}
+
+/**
+ * Clear the device key for a user
+ */
+export async function clearDeviceKey(userId: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(userId))
+}
+
+/**
+ * Sets whether a user's notes are locked on this device. While they are, the
+ * device key does not unlock them, so reloading the page does not get past a lock
+ */
+export function setDeviceLocked(userId: string, locked: boolean): void {
+    const lockedUsers: Record<string, string> = JSON.parse(localStorage.getItem(LOCKED_STORAGE_KEY) || '{}')
+    if (locked) {
+        lockedUsers[userId] = new Date().toISOString()
+    } else {
+        delete lockedUsers[userId]
+    }
+    localStorage.setItem(LOCKED_STORAGE_KEY, JSON.stringify(lockedUsers))
+}
+
+/**
+ * Whether a user's notes were locked on this device and need the password or recovery code
+ */
+export function isDeviceLocked(userId: string): boolean {
+    const lockedUsers: Record<string, string> = JSON.parse(localStorage.getItem(LOCKED_STORAGE_KEY) || '{}')
+    return userId in lockedUsers
+}
+
+/**
+ * Describes this device from its browser, e.g. "Chrome on Windows", so that
+ * remembered devices can be told apart
+ */
+export function getDeviceName(): string {
+    const userAgent = navigator.userAgent
+    const browser = /Edg\//.test(userAgent) ? 'Edge'
+        : /Firefox\//.test(userAgent) ? 'Firefox'
+        : /Chrome\//.test(userAgent) ? 'Chrome'
+        : /Safari\//.test(userAgent) ? 'Safari'
+        : 'Browser'
+    const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+        : /Android/.test(userAgent) ? 'Android'
+        : /Windows/.test(userAgent) ? 'Windows'
+        : /Mac OS X/.test(userAgent) ? 'macOS'
+        : /Linux/.test(userAgent) ? 'Linux'
+        : 'unknown device'
+    return `${browser} on ${os}`
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { TEST_DATA, unwrapWithPassword, upgradePasswordKey, wrapWithPassword, type PasswordKeySettings } from './passwordKey'
+import {
+    encrypt,
+    deriveMasterKeyBytes,
+    generateMasterSalt,
+    encodeSalt,
+    generateDataKey,
+    importDataKey,
+    wrapDataKey,
+    createKdf,
+    deriveKdfKey
+} from './crypto'
+
+const password = 'correct horse battery staple'
+
+/** Makes the settings of an account set up before keys were wrapped */
+async function makeLegacySettings(): Promise<{ settings: PasswordKeySettings, dataKey: Uint8Array<ArrayBuffer> }> {
+    const salt = generateMasterSalt()
+    const dataKey = await deriveMasterKeyBytes(password, salt)
+    return {
+        settings: { salt: encodeSalt(salt), test: await encrypt(TEST_DATA, await importDataKey(dataKey)) },
+        dataKey
+    }
+}
+
+/** Makes the settings of an account whose data key is wrapped with a key of the given iterations */
+async function makeWrappedSettings(iterations: number): Promise<{ settings: PasswordKeySettings, dataKey: Uint8Array<ArrayBuffer> }> {
+    const dataKey = generateDataKey()
+    const kdf = createKdf(iterations)
+    return {
+        settings: {
+            kdf,
+            wrappedKey: await wrapDataKey(dataKey, await deriveKdfKey(password, kdf)),
+            test: await encrypt(TEST_DATA, await importDataKey(dataKey))
+        },
+        dataKey
+    }
+}
+
+describe('passwordKey', () => {
+    describe('upgradePasswordKey', () => {
+        it('should wrap the key of an account set up before keys were wrapped and drop its salt', async () => {
+            const { settings, dataKey } = await makeLegacySettings()
+            expect(await unwrapWithPassword(password, settings)).toEqual(dataKey)
+
+            const upgraded = await upgradePasswordKey(settings, dataKey, password, 600000)
+
+            expect(upgraded).not.toBeNull()
+            expect(upgraded!.salt).toBeUndefined()
+            expect(upgraded!.kdf?.iterations).toBe(600000)
+            expect(upgraded!.test).toEqual(settings.test)
+            // The same password unlocks the same data key afterwards, so no data is re-encrypted
+            expect(await unwrapWithPassword(password, upgraded!)).toEqual(dataKey)
+            expect(await unwrapWithPassword('wrong password', upgraded!)).toBeNull()
+        })
+
+        it('should derive a key with weaker parameters again', async () => {
+            const { settings, dataKey } = await makeWrappedSettings(100000)
+
+            const upgraded = await upgradePasswordKey(settings, dataKey, password, 600000)
+
+            expect(upgraded!.kdf?.iterations).toBe(600000)
+            expect(upgraded!.kdf?.salt).not.toBe(settings.kdf?.salt)
+            expect(await unwrapWithPassword(password, upgraded!)).toEqual(dataKey)
+        })
+
+        it('should leave a key wrapped with current parameters as it is', async () => {
+            const { settings, dataKey } = await makeWrappedSettings(600000)
+            expect(await upgradePasswordKey(settings, dataKey, password, 600000)).toBeNull()
+        })
+    })
+
+    describe('unwrapWithPassword', () => {
+        it('should not unwrap the key with the wrong password', async () => {
+            const { settings } = await makeLegacySettings()
+            expect(await unwrapWithPassword('wrong password', settings)).toBeNull()
+
+            const dataKey = generateDataKey()
+            const wrapped = { ...await wrapWithPassword(dataKey, password, 600000), test: settings.test }
+            expect(await unwrapWithPassword(password, wrapped)).toEqual(dataKey)
+            expect(await unwrapWithPassword('wrong password', wrapped)).toBeNull()
+        })
+    })
+})
@@ -0,0 +1,115 @@
+import type { EncryptedBlob } from './EncryptedTypes'
+import {
+    decrypt,
+    decodeSalt,
+    deriveMasterKeyBytes,
+    createKdf,
+    legacyKdf,
+    deriveKdfKey,
+    needsKdfUpgrade,
+    benchmarkIterations,
+    importDataKey,
+    wrapDataKey,
+    unwrapDataKey,
+    type KdfDescriptor
+} from './crypto'
+
+/** Known text encrypted with the data key to validate it */
+export const TEST_DATA = 'test-encryption'
+
+/**
+ * How the data key is stored wrapped by the password, in the encryption settings
+ */
+export interface PasswordKeySettings {
+    /**
+     * Salt of the key derived from the password, as base64, for keys derived before
+     * their parameters were recorded in kdf. Removed once the key is derived again
+     */
+    salt?: string
+    /** Parameters of the key derived from the password */
+    kdf?: KdfDescriptor
+    /** Known text encrypted with the data key */
+    test: EncryptedBlob
+    /**
+     * The data key, encrypted with the key derived from the password. Missing for
+     * accounts set up before keys were wrapped, whose data key is the password's key
+     */
+    wrappedKey?: EncryptedBlob
+}
+
+/**
+ * Checks a key against the known test text
+ */
+export async function isKeyValid(key: CryptoKey, test: EncryptedBlob): Promise<boolean> {
+    try {
+        return await decrypt(test, key) === TEST_DATA
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Gets the data key with the password
+ * @returns The data key, or null if the password is wrong
+ */
+export async function unwrapWithPassword(password: string, settings: PasswordKeySettings): Promise<Uint8Array<ArrayBuffer> | null> {
+    if (!settings.wrappedKey) {
+        // Before keys were wrapped, data was encrypted with the password's key
+        const dataKey = await deriveMasterKeyBytes(password, decodeSalt(settings.salt!))
+        return await isKeyValid(await importDataKey(dataKey), settings.test) ? dataKey : null
+    }
+
+    const wrappingKey = await deriveKdfKey(password, getPasswordKdf(settings))
+    try {
+        return await unwrapDataKey(settings.wrappedKey, wrappingKey)
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Gets the parameters of the key derived from the password
+ */
+export function getPasswordKdf(settings: PasswordKeySettings): KdfDescriptor {
+    return settings.kdf ?? legacyKdf(settings.salt!)
+}
+
+/**
+ * Wraps the data key with a key derived from a password and a new salt
+ * @param iterations Iterations of the new key. Defaults to as many as this device
+ * derives in the target time
+ */
+export async function wrapWithPassword(
+    dataKey: Uint8Array<ArrayBuffer>,
+    password: string,
+    iterations?: number
+): Promise<Required<Pick<PasswordKeySettings, 'kdf' | 'wrappedKey'>>> {
+    const kdf = createKdf(iterations ?? await benchmarkIterations())
+    const wrappingKey = await deriveKdfKey(password, kdf)
+    return { kdf, wrappedKey: await wrapDataKey(dataKey, wrappingKey) }
+}
+
+/**
+ * Upgrades how the data key is wrapped by the password, which is only possible
+ * once it is unlocked. The key of an account set up before keys were wrapped is
+ * wrapped, without re-encrypting any data, and a key derived with weaker parameters
+ * than new keys get is derived again. The salt of a legacy key is dropped
+ * @param settings The settings the data key was unwrapped with
+ * @param dataKey The data key
+ * @param password The password that unwrapped it
+ * @param iterations Iterations of the new key. Defaults to as many as this device
+ * derives in the target time
+ * @returns The upgraded settings, or null if the key is wrapped as it should be
+ */
+export async function upgradePasswordKey<T extends PasswordKeySettings>(
+    settings: T,
+    dataKey: Uint8Array<ArrayBuffer>,
+    password: string,
+    iterations?: number
+): Promise<T | null> {
+    if (settings.wrappedKey && !needsKdfUpgrade(getPasswordKdf(settings))) {
+        return null
+    }
+    const { salt: _, ...rest } = settings
+    return { ...rest, ...await wrapWithPassword(dataKey, password, iterations) } as T
+}
@@ -1,3 +1,7 @@
+/**
+ * Encryption passwords that earlier versions remembered in localStorage. They are
+ * only read to remember the device with a device key instead, and then cleared
+ */
 const STORAGE_KEY = 'notelets-encryption-passwords'
 
 interface StoredEncryptionPassword {
@@ -6,23 +10,6 @@ interface StoredEncryptionPassword {
     timestamp: string
 }
 
-/**
- * Store an encryption password for a user
- */
-export function storePassword(userId: string, password: string): void {
-    const stored: Record<string, StoredEncryptionPassword> = JSON.parse(
-        localStorage.getItem(STORAGE_KEY) || '{}'
-    )
-    
-    stored[userId] = {
-        userId,
-        password,
-        timestamp: new Date().toISOString()
-    }
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
-}
-
 /**
  * Get a stored encryption password for a user
  * Returns null if no password is stored
@@ -31,7 +18,7 @@ export function getStoredPassword(userId: string): string | null {
     const stored: Record<string, StoredEncryptionPassword> = JSON.parse(
         localStorage.getItem(STORAGE_KEY) || '{}'
     )
-    
+
     return stored[userId]?.password || null
 }
 
@@ -42,7 +29,7 @@ export function clearStoredPassword(userId: string): void {
     const stored: Record<string, StoredEncryptionPassword> = JSON.parse(
         localStorage.getItem(STORAGE_KEY) || '{}'
     )
-    
+
     delete stored[userId]
     localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
 }
@@ -52,4 +39,4 @@ export function clearStoredPassword(userId: string): void {
  */
 export function clearAllStoredPasswords(): void {
     localStorage.removeItem(STORAGE_KEY)
-} 
\ No newline at end of file
+}
\ No newline at end of file
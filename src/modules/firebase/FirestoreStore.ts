@@ -2,17 +2,21 @@ import {
     collection,
     doc,
     setDoc,
-    deleteDoc,
+    updateDoc,
+    deleteField,
     query,
     where,
     onSnapshot,
-    writeBatch,
-    getDocs
+    getDoc,
+    getDocs,
+    type DocumentReference
 } from 'firebase/firestore'
 import type { Store } from '../../Store'
-import type { Board, Card, Chat } from '../../types'
+import type { Board, Card, CardEmbedding, CardRevision, Chat, ChatAttachmentData, Trash, UsageRecord } from '../../types'
 import type { UserSettings } from '../../types/settings'
 import { db } from './config'
+import { deleteInBatches } from './batch'
+import { keepTrashed } from '../trash'
 import { getAuth } from 'firebase/auth'
 
 /**
@@ -33,10 +37,17 @@ export class FirestoreStore implements Store {
 
     removeBoard = async (boardId: string): Promise<void> => {
         const userId = this.getUserId()
-        const batch = writeBatch(db)
+        await updateDoc(doc(db, `users/${userId}/boards/${boardId}`), { deletedAt: new Date().toISOString() })
+    }
+
+    restoreBoard = async (boardId: string): Promise<void> => {
+        const userId = this.getUserId()
+        await updateDoc(doc(db, `users/${userId}/boards/${boardId}`), { deletedAt: deleteField() })
+    }
 
-        // Delete the board
-        batch.delete(doc(db, `users/${userId}/boards/${boardId}`))
+    purgeBoard = async (boardId: string): Promise<void> => {
+        const userId = this.getUserId()
+        const refs: DocumentReference[] = []
 
         // Get and delete all cards for this board
         const cardsQuery = query(
@@ -45,7 +56,7 @@ export class FirestoreStore implements Store {
         )
         const cardDocs = await getDocs(cardsQuery)
         cardDocs.forEach(doc => {
-            batch.delete(doc.ref)
+            refs.push(doc.ref)
         })
 
         // Get and delete all chats for this board
@@ -55,11 +66,42 @@ export class FirestoreStore implements Store {
         )
         const chatDocs = await getDocs(chatsQuery)
         chatDocs.forEach(doc => {
-            batch.delete(doc.ref)
+            refs.push(doc.ref)
+        })
+
+        // Get and delete all card revisions for this board
+        const revisionsQuery = query(
+            collection(db, `users/${userId}/revisions`),
+            where('boardId', '==', boardId)
+        )
+        const revisionDocs = await getDocs(revisionsQuery)
+        revisionDocs.forEach(doc => {
+            refs.push(doc.ref)
+        })
+
+        // Get and delete all card embeddings for this board
+        const embeddingsQuery = query(
+            collection(db, `users/${userId}/embeddings`),
+            where('boardId', '==', boardId)
+        )
+        const embeddingDocs = await getDocs(embeddingsQuery)
+        embeddingDocs.forEach(doc => {
+            refs.push(doc.ref)
+        })
+
+        // Get and delete all chat attachments for this board
+        const attachmentsQuery = query(
+            collection(db, `users/${userId}/attachments`),
+            where('boardId', '==', boardId)
+        )
+        const attachmentDocs = await getDocs(attachmentsQuery)
+        attachmentDocs.forEach(doc => {
+            refs.push(doc.ref)
         })
 
-        // Execute all deletions in a single batch
-        await batch.commit()
+        // Delete the board last, so that an interrupted purge can be run again from the trash
+        refs.push(doc(db, `users/${userId}/boards/${boardId}`))
+        await deleteInBatches(refs)
     }
 
     getBoards = (callback: (boards: Board[]) => void): () => void => {
@@ -67,7 +109,7 @@ export class FirestoreStore implements Store {
         const q = collection(db, `users/${userId}/boards`)
 
         return onSnapshot(q, (snapshot) => {
-            const boards = snapshot.docs.map(doc => doc.data() as Board)
+            const boards = snapshot.docs.map(doc => doc.data() as Board).filter(board => !board.deletedAt)
             callback(boards)
         })
     }
@@ -77,18 +119,47 @@ export class FirestoreStore implements Store {
         const docRef = doc(db, `users/${userId}/boards/${boardId}`)
 
         return onSnapshot(docRef, (doc) => {
-            callback(doc.exists() ? doc.data() as Board : null)
+            callback(doc.exists() && !doc.data().deletedAt ? doc.data() as Board : null)
         })
     }
 
     setCard = async (card: Card): Promise<void> => {
         const userId = this.getUserId()
-        await setDoc(doc(db, `users/${userId}/cards/${card.id}`), card)
+        const ref = doc(db, `users/${userId}/cards/${card.id}`)
+        const stored = await getDoc(ref)
+        await setDoc(ref, keepTrashed(card, stored.data() as Card | undefined))
     }
 
     removeCard = async (cardId: string): Promise<void> => {
         const userId = this.getUserId()
-        await deleteDoc(doc(db, `users/${userId}/cards/${cardId}`))
+        await updateDoc(doc(db, `users/${userId}/cards/${cardId}`), { deletedAt: new Date().toISOString() })
+    }
+
+    restoreCard = async (cardId: string): Promise<void> => {
+        const userId = this.getUserId()
+        await updateDoc(doc(db, `users/${userId}/cards/${cardId}`), { deletedAt: deleteField() })
+    }
+
+    purgeCard = async (cardId: string): Promise<void> => {
+        const userId = this.getUserId()
+        const refs: DocumentReference[] = []
+
+        // Get and delete the card's revision history
+        const revisionsQuery = query(
+            collection(db, `users/${userId}/revisions`),
+            where('cardId', '==', cardId)
+        )
+        const revisionDocs = await getDocs(revisionsQuery)
+        revisionDocs.forEach(doc => {
+            refs.push(doc.ref)
+        })
+
+        // Delete the card's embeddings
+        refs.push(doc(db, `users/${userId}/embeddings/${cardId}`))
+
+        // Delete the card last, so that an interrupted purge can be run again from the trash
+        refs.push(doc(db, `users/${userId}/cards/${cardId}`))
+        await deleteInBatches(refs)
     }
 
     getCardsByBoard = (boardId: string, callback: (cards: Card[]) => void): () => void => {
@@ -99,7 +170,7 @@ export class FirestoreStore implements Store {
         )
 
         return onSnapshot(q, (snapshot) => {
-            const cards = snapshot.docs.map(doc => doc.data() as Card)
+            const cards = snapshot.docs.map(doc => doc.data() as Card).filter(card => !card.deletedAt)
             callback(cards)
         })
     }
@@ -109,18 +180,103 @@ export class FirestoreStore implements Store {
         const docRef = doc(db, `users/${userId}/cards/${cardId}`)
 
         return onSnapshot(docRef, (doc) => {
-            callback(doc.exists() ? doc.data() as Card : null)
+            callback(doc.exists() && !doc.data().deletedAt ? doc.data() as Card : null)
+        })
+    }
+
+    addCardRevision = async (revision: CardRevision): Promise<void> => {
+        const userId = this.getUserId()
+        await setDoc(doc(db, `users/${userId}/revisions/${revision.id}`), revision)
+    }
+
+    getCardRevisions = (cardId: string, callback: (revisions: CardRevision[]) => void): () => void => {
+        const userId = this.getUserId()
+        const q = query(
+            collection(db, `users/${userId}/revisions`),
+            where('cardId', '==', cardId)
+        )
+
+        return onSnapshot(q, (snapshot) => {
+            const revisions = snapshot.docs.map(doc => doc.data() as CardRevision)
+            callback(revisions)
+        })
+    }
+
+    removeCardRevisions = async (cardId: string, revisionIds: string[]): Promise<void> => {
+        const userId = this.getUserId()
+        await deleteInBatches(revisionIds.map(id => doc(db, `users/${userId}/revisions/${id}`)))
+    }
+
+    setCardEmbedding = async (embedding: CardEmbedding): Promise<void> => {
+        const userId = this.getUserId()
+        await setDoc(doc(db, `users/${userId}/embeddings/${embedding.cardId}`), embedding)
+    }
+
+    getCardEmbeddingsByBoard = (boardId: string, callback: (embeddings: CardEmbedding[]) => void): () => void => {
+        const userId = this.getUserId()
+        const q = query(
+            collection(db, `users/${userId}/embeddings`),
+            where('boardId', '==', boardId)
+        )
+
+        return onSnapshot(q, (snapshot) => {
+            const embeddings = snapshot.docs.map(doc => doc.data() as CardEmbedding)
+            callback(embeddings)
+        })
+    }
+
+    addUsageRecord = async (record: UsageRecord): Promise<void> => {
+        const userId = this.getUserId()
+        await setDoc(doc(db, `users/${userId}/usage/${record.id}`), record)
+    }
+
+    getUsageRecords = (since: string, callback: (records: UsageRecord[]) => void): () => void => {
+        const userId = this.getUserId()
+        const q = query(
+            collection(db, `users/${userId}/usage`),
+            where('createdAt', '>=', since)
+        )
+
+        return onSnapshot(q, (snapshot) => {
+            const records = snapshot.docs.map(doc => doc.data() as UsageRecord)
+            callback(records)
         })
     }
 
     setChat = async (chat: Chat): Promise<void> => {
         const userId = this.getUserId()
-        await setDoc(doc(db, `users/${userId}/chats/${chat.id}`), chat)
+        const ref = doc(db, `users/${userId}/chats/${chat.id}`)
+        const stored = await getDoc(ref)
+        await setDoc(ref, keepTrashed(chat, stored.data() as Chat | undefined))
     }
 
     removeChat = async (chatId: string): Promise<void> => {
         const userId = this.getUserId()
-        await deleteDoc(doc(db, `users/${userId}/chats/${chatId}`))
+        await updateDoc(doc(db, `users/${userId}/chats/${chatId}`), { deletedAt: new Date().toISOString() })
+    }
+
+    restoreChat = async (chatId: string): Promise<void> => {
+        const userId = this.getUserId()
+        await updateDoc(doc(db, `users/${userId}/chats/${chatId}`), { deletedAt: deleteField() })
+    }
+
+    purgeChat = async (chatId: string): Promise<void> => {
+        const userId = this.getUserId()
+        const refs: DocumentReference[] = []
+
+        // Get and delete the chat's attachments
+        const attachmentsQuery = query(
+            collection(db, `users/${userId}/attachments`),
+            where('chatId', '==', chatId)
+        )
+        const attachmentDocs = await getDocs(attachmentsQuery)
+        attachmentDocs.forEach(doc => {
+            refs.push(doc.ref)
+        })
+
+        // Delete the chat last, so that an interrupted purge can be run again from the trash
+        refs.push(doc(db, `users/${userId}/chats/${chatId}`))
+        await deleteInBatches(refs)
     }
 
     getChatsByBoard = (boardId: string, callback: (chats: Chat[]) => void): () => void => {
@@ -131,7 +287,7 @@ export class FirestoreStore implements Store {
         )
 
         return onSnapshot(q, (snapshot) => {
-            const chats = snapshot.docs.map(doc => doc.data() as Chat)
+            const chats = snapshot.docs.map(doc => doc.data() as Chat).filter(chat => !chat.deletedAt)
             callback(chats)
         })
     }
@@ -141,10 +297,67 @@ export class FirestoreStore implements Store {
         const docRef = doc(db, `users/${userId}/chats/${chatId}`)
 
         return onSnapshot(docRef, (doc) => {
-            callback(doc.exists() ? doc.data() as Chat : null)
+            callback(doc.exists() && !doc.data().deletedAt ? doc.data() as Chat : null)
+        })
+    }
+
+    setChatAttachment = async (attachment: ChatAttachmentData): Promise<void> => {
+        const userId = this.getUserId()
+        await setDoc(doc(db, `users/${userId}/attachments/${attachment.id}`), attachment)
+    }
+
+    getChatAttachment = (attachmentId: string, callback: (attachment: ChatAttachmentData | null) => void): () => void => {
+        const userId = this.getUserId()
+        const docRef = doc(db, `users/${userId}/attachments/${attachmentId}`)
+
+        return onSnapshot(docRef, (doc) => {
+            callback(doc.exists() ? doc.data() as ChatAttachmentData : null)
         })
     }
 
+    getTrash = (callback: (trash: Trash) => void): () => void => {
+        const userId = this.getUserId()
+        let boards: Board[] | null = null
+        let cards: Card[] | null = null
+        let chats: Chat[] | null = null
+
+        // Only report once all three collections have loaded
+        const notify = () => {
+            if (!boards || !cards || !chats) return
+            // Items on a trashed board are restored or purged with the board
+            const trashedBoardIds = new Set(boards.map(board => board.id))
+            callback({
+                boards,
+                cards: cards.filter(card => !trashedBoardIds.has(card.boardId)),
+                chats: chats.filter(chat => !trashedBoardIds.has(chat.boardId))
+            })
+        }
+
+        const trashedQuery = (name: 'boards' | 'cards' | 'chats') => query(
+            collection(db, `users/${userId}/${name}`),
+            where('deletedAt', '!=', null)
+        )
+
+        const unsubscribeBoards = onSnapshot(trashedQuery('boards'), (snapshot) => {
+            boards = snapshot.docs.map(doc => doc.data() as Board)
+            notify()
+        })
+        const unsubscribeCards = onSnapshot(trashedQuery('cards'), (snapshot) => {
+            cards = snapshot.docs.map(doc => doc.data() as Card)
+            notify()
+        })
+        const unsubscribeChats = onSnapshot(trashedQuery('chats'), (snapshot) => {
+            chats = snapshot.docs.map(doc => doc.data() as Chat)
+            notify()
+        })
+
+        return () => {
+            unsubscribeBoards()
+            unsubscribeCards()
+            unsubscribeChats()
+        }
+    }
+
     getUserSettings = (callback: (settings: UserSettings | null) => void): () => void => {
         const userId = this.getUserId()
         const docRef = doc(db, `users/${userId}/settings/user`)
@@ -0,0 +1,19 @@
+import { writeBatch, type DocumentReference } from 'firebase/firestore'
+import { db } from './config'
+
+/** Most documents deleted in one batch. Firestore allows 500 writes per batch */
+const DELETE_BATCH_SIZE = 400
+
+/**
+ * Deletes documents in as many batches as Firestore's limit on writes needs.
+ * They are deleted in order, so documents listed last are deleted only once the
+ * ones before them are
+ * @param refs The documents to delete
+ */
+export async function deleteInBatches(refs: DocumentReference[]): Promise<void> {
+    for (let start = 0; start < refs.length; start += DELETE_BATCH_SIZE) {
+        const batch = writeBatch(db)
+        refs.slice(start, start + DELETE_BATCH_SIZE).forEach(ref => batch.delete(ref))
+        await batch.commit()
+    }
+}
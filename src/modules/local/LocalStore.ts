@@ -1,6 +1,7 @@
 import { Store } from '../../Store'
-import type { Board, Card, Chat } from '../../types'
+import type { Board, Card, CardEmbedding, CardRevision, Chat, ChatAttachmentData, Trash, UsageRecord } from '../../types'
 import type { UserSettings } from '../../types/settings'
+import { keepTrashed } from '../trash'
 
 /**
  * LocalStore implementation that uses IndexedDB for storage
@@ -8,7 +9,7 @@ import type { UserSettings } from '../../types/settings'
 export class LocalStore implements Store {
     private db: IDBDatabase | null = null
     private readonly DB_NAME = 'notelets-local'
-    private readonly DB_VERSION = 1
+    private readonly DB_VERSION = 5
     private listeners: Map<string, Set<Function>> = new Map()
 
     constructor() {
@@ -42,6 +43,23 @@ export class LocalStore implements Store {
                 if (!db.objectStoreNames.contains('settings')) {
                     db.createObjectStore('settings', { keyPath: 'id' })
                 }
+                if (!db.objectStoreNames.contains('revisions')) {
+                    const revisionStore = db.createObjectStore('revisions', { keyPath: 'id' })
+                    revisionStore.createIndex('cardId', 'cardId', { unique: false })
+                }
+                if (!db.objectStoreNames.contains('embeddings')) {
+                    const embeddingStore = db.createObjectStore('embeddings', { keyPath: 'cardId' })
+                    embeddingStore.createIndex('boardId', 'boardId', { unique: false })
+                }
+                if (!db.objectStoreNames.contains('usage')) {
+                    const usageStore = db.createObjectStore('usage', { keyPath: 'id' })
+                    usageStore.createIndex('createdAt', 'createdAt', { unique: false })
+                }
+                if (!db.objectStoreNames.contains('attachments')) {
+                    const attachmentStore = db.createObjectStore('attachments', { keyPath: 'id' })
+                    attachmentStore.createIndex('chatId', 'chatId', { unique: false })
+                    attachmentStore.createIndex('boardId', 'boardId', { unique: false })
+                }
             }
         })
     }
@@ -56,7 +74,7 @@ export class LocalStore implements Store {
         return this.db
     }
 
-    private getStore(name: 'boards' | 'cards' | 'chats' | 'settings', mode: IDBTransactionMode = 'readonly'): IDBObjectStore {
+    private getStore(name: 'boards' | 'cards' | 'chats' | 'settings' | 'revisions' | 'embeddings' | 'usage' | 'attachments', mode: IDBTransactionMode = 'readonly'): IDBObjectStore {
         const db = this.db
         if (!db) {
             throw new Error('Database not initialized')
@@ -88,6 +106,34 @@ export class LocalStore implements Store {
         }
     }
 
+    /**
+     * Sets or clears the deletedAt marker on a record
+     * @returns The updated record, or null if it does not exist
+     */
+    private setDeletedAt<T extends { id: string, deletedAt?: string }>(
+        name: 'boards' | 'cards' | 'chats',
+        id: string,
+        deletedAt: string | undefined
+    ): Promise<T | null> {
+        return new Promise((resolve, reject) => {
+            const store = this.getStore(name, 'readwrite')
+            const getRequest = store.get(id)
+            getRequest.onerror = () => reject(getRequest.error)
+            getRequest.onsuccess = () => {
+                const record = getRequest.result as T | undefined
+                if (!record) {
+                    resolve(null)
+                    return
+                }
+                const { deletedAt: _previous, ...rest } = record
+                const updated = (deletedAt ? { ...rest, deletedAt } : rest) as T
+                const putRequest = store.put(updated)
+                putRequest.onerror = () => reject(putRequest.error)
+                putRequest.onsuccess = () => resolve(updated)
+            }
+        })
+    }
+
     setBoard = async (board: Board): Promise<void> => {
         await this.ensureDB()
         return new Promise((resolve, reject) => {
@@ -103,12 +149,31 @@ export class LocalStore implements Store {
     }
 
     removeBoard = async (boardId: string): Promise<void> => {
+        await this.ensureDB()
+        await this.setDeletedAt<Board>('boards', boardId, new Date().toISOString())
+        this.notifyListeners(`board:${boardId}`, null)
+        this.notifyListeners('boards', null)
+        this.notifyListeners('trash', null)
+    }
+
+    restoreBoard = async (boardId: string): Promise<void> => {
+        await this.ensureDB()
+        await this.setDeletedAt<Board>('boards', boardId, undefined)
+        this.notifyListeners(`board:${boardId}`, null)
+        this.notifyListeners('boards', null)
+        this.notifyListeners('trash', null)
+    }
+
+    purgeBoard = async (boardId: string): Promise<void> => {
         await this.ensureDB()
         return new Promise((resolve, reject) => {
-            const transaction = this.db!.transaction(['boards', 'cards', 'chats'], 'readwrite')
+            const transaction = this.db!.transaction(['boards', 'cards', 'chats', 'revisions', 'embeddings', 'attachments'], 'readwrite')
             const boardStore = transaction.objectStore('boards')
             const cardStore = transaction.objectStore('cards')
             const chatStore = transaction.objectStore('chats')
+            const revisionStore = transaction.objectStore('revisions')
+            const embeddingStore = transaction.objectStore('embeddings')
+            const attachmentStore = transaction.objectStore('attachments')
 
             // Delete the board
             const boardRequest = boardStore.delete(boardId)
@@ -138,11 +203,36 @@ export class LocalStore implements Store {
                 })
             }
 
+            // Delete all card revisions for this board
+            const revisionRequest = revisionStore.getAll()
+            revisionRequest.onsuccess = () => {
+                const revisions: CardRevision[] = revisionRequest.result || []
+                revisions.forEach(revision => {
+                    if (revision.boardId === boardId) {
+                        revisionStore.delete(revision.id)
+                    }
+                })
+            }
+
+            // Delete all card embeddings for this board
+            const embeddingRequest = embeddingStore.index('boardId').getAllKeys(boardId)
+            embeddingRequest.onsuccess = () => {
+                (embeddingRequest.result || []).forEach(key => embeddingStore.delete(key))
+            }
+
+            // Delete all chat attachments for this board
+            const attachmentRequest = attachmentStore.index('boardId').getAllKeys(boardId)
+            attachmentRequest.onsuccess = () => {
+                (attachmentRequest.result || []).forEach(key => attachmentStore.delete(key))
+            }
+
             transaction.oncomplete = () => {
                 this.notifyListeners(`board:${boardId}`, null)
                 this.notifyListeners('boards', null)
                 this.notifyListeners(`cards:${boardId}`, null)
                 this.notifyListeners(`chats:${boardId}`, null)
+                this.notifyListeners(`embeddings:${boardId}`, null)
+                this.notifyListeners('trash', null)
                 resolve()
             }
 
@@ -156,7 +246,7 @@ export class LocalStore implements Store {
             const store = this.getStore('boards')
             const request = store.getAll()
             request.onerror = () => console.error('Failed to fetch boards:', request.error)
-            request.onsuccess = () => callback(request.result || [])
+            request.onsuccess = () => callback((request.result || []).filter(board => !board.deletedAt))
         }
 
         fetchAndNotify()
@@ -169,7 +259,10 @@ export class LocalStore implements Store {
             const store = this.getStore('boards')
             const request = store.get(boardId)
             request.onerror = () => console.error('Failed to fetch board:', request.error)
-            request.onsuccess = () => callback(request.result || null)
+            request.onsuccess = () => {
+                const board: Board | undefined = request.result
+                callback(board && !board.deletedAt ? board : null)
+            }
         }
 
         fetchAndNotify()
@@ -180,38 +273,81 @@ export class LocalStore implements Store {
         await this.ensureDB()
         return new Promise((resolve, reject) => {
             const store = this.getStore('cards', 'readwrite')
-            const request = store.put(card)
-            request.onerror = () => reject(request.error)
-            request.onsuccess = () => {
-                this.notifyListeners(`card:${card.id}`, card)
-                this.notifyListeners(`cards:${card.boardId}`, null)
-                resolve()
+            const getRequest = store.get(card.id)
+            getRequest.onerror = () => reject(getRequest.error)
+            getRequest.onsuccess = () => {
+                const saved = keepTrashed(card, getRequest.result as Card | undefined)
+                const request = store.put(saved)
+                request.onerror = () => reject(request.error)
+                request.onsuccess = () => {
+                    this.notifyListeners(`card:${card.id}`, saved)
+                    this.notifyListeners(`cards:${card.boardId}`, null)
+                    resolve()
+                }
             }
         })
     }
 
     removeCard = async (cardId: string): Promise<void> => {
+        await this.ensureDB()
+        const card = await this.setDeletedAt<Card>('cards', cardId, new Date().toISOString())
+        this.notifyListeners(`card:${cardId}`, null)
+        if (card) {
+            this.notifyListeners(`cards:${card.boardId}`, null)
+        }
+        this.notifyListeners('trash', null)
+    }
+
+    restoreCard = async (cardId: string): Promise<void> => {
+        await this.ensureDB()
+        const card = await this.setDeletedAt<Card>('cards', cardId, undefined)
+        this.notifyListeners(`card:${cardId}`, null)
+        if (card) {
+            this.notifyListeners(`cards:${card.boardId}`, null)
+        }
+        this.notifyListeners('trash', null)
+    }
+
+    purgeCard = async (cardId: string): Promise<void> => {
         await this.ensureDB()
         return new Promise((resolve, reject) => {
-            const store = this.getStore('cards', 'readwrite')
+            const transaction = this.db!.transaction(['cards', 'revisions', 'embeddings'], 'readwrite')
+            const store = transaction.objectStore('cards')
+            const revisionStore = transaction.objectStore('revisions')
+            const embeddingStore = transaction.objectStore('embeddings')
+            let boardId: string | undefined
+
             // Get the card first to know its boardId
             const getRequest = store.get(cardId)
             getRequest.onerror = () => reject(getRequest.error)
             getRequest.onsuccess = (event: Event) => {
                 const request = event.target as IDBRequest<Card>
                 const card = request.result
-                const boardId = card?.boardId
-                
-                const deleteRequest = store.delete(cardId)
-                deleteRequest.onerror = () => reject(deleteRequest.error)
-                deleteRequest.onsuccess = () => {
-                    this.notifyListeners(`card:${cardId}`, null)
-                    if (boardId) {
-                        this.notifyListeners(`cards:${boardId}`, null)
-                    }
-                    resolve()
+                boardId = card?.boardId
+                store.delete(cardId)
+            }
+
+            // Delete the revision history along with the card
+            const revisionRequest = revisionStore.index('cardId').getAllKeys(cardId)
+            revisionRequest.onsuccess = () => {
+                (revisionRequest.result || []).forEach(key => revisionStore.delete(key))
+            }
+
+            // And its embeddings
+            embeddingStore.delete(cardId)
+
+            transaction.oncomplete = () => {
+                this.notifyListeners(`card:${cardId}`, null)
+                this.notifyListeners(`revisions:${cardId}`, null)
+                if (boardId) {
+                    this.notifyListeners(`cards:${boardId}`, null)
+                    this.notifyListeners(`embeddings:${boardId}`, null)
                 }
+                this.notifyListeners('trash', null)
+                resolve()
             }
+
+            transaction.onerror = () => reject(transaction.error)
         })
     }
 
@@ -222,7 +358,7 @@ export class LocalStore implements Store {
             const request = store.getAll()
             request.onerror = () => console.error('Failed to fetch cards:', request.error)
             request.onsuccess = () => {
-                const cards = (request.result || []).filter(card => card.boardId === boardId)
+                const cards = (request.result || []).filter(card => card.boardId === boardId && !card.deletedAt)
                 callback(cards)
             }
         }
@@ -237,49 +373,180 @@ export class LocalStore implements Store {
             const store = this.getStore('cards')
             const request = store.get(cardId)
             request.onerror = () => console.error('Failed to fetch card:', request.error)
-            request.onsuccess = () => callback(request.result || null)
+            request.onsuccess = () => {
+                const card: Card | undefined = request.result
+                callback(card && !card.deletedAt ? card : null)
+            }
         }
 
         fetchAndNotify()
         return this.addListener(`card:${cardId}`, fetchAndNotify)
     }
 
-    setChat = async (chat: Chat): Promise<void> => {
+    addCardRevision = async (revision: CardRevision): Promise<void> => {
         await this.ensureDB()
         return new Promise((resolve, reject) => {
-            const store = this.getStore('chats', 'readwrite')
-            const request = store.put(chat)
+            const store = this.getStore('revisions', 'readwrite')
+            const request = store.put(revision)
             request.onerror = () => reject(request.error)
             request.onsuccess = () => {
-                this.notifyListeners(`chat:${chat.id}`, chat)
-                this.notifyListeners(`chats:${chat.boardId}`, null)
+                this.notifyListeners(`revisions:${revision.cardId}`, null)
                 resolve()
             }
         })
     }
 
-    removeChat = async (chatId: string): Promise<void> => {
+    getCardRevisions = (cardId: string, callback: (revisions: CardRevision[]) => void): () => void => {
+        const fetchAndNotify = async () => {
+            await this.ensureDB()
+            const store = this.getStore('revisions')
+            const request = store.index('cardId').getAll(cardId)
+            request.onerror = () => console.error('Failed to fetch revisions:', request.error)
+            request.onsuccess = () => callback(request.result || [])
+        }
+
+        fetchAndNotify()
+        return this.addListener(`revisions:${cardId}`, fetchAndNotify)
+    }
+
+    removeCardRevisions = async (cardId: string, revisionIds: string[]): Promise<void> => {
+        await this.ensureDB()
+        return new Promise((resolve, reject) => {
+            const transaction = this.db!.transaction('revisions', 'readwrite')
+            const store = transaction.objectStore('revisions')
+            revisionIds.forEach(id => store.delete(id))
+            transaction.onerror = () => reject(transaction.error)
+            transaction.oncomplete = () => {
+                this.notifyListeners(`revisions:${cardId}`, null)
+                resolve()
+            }
+        })
+    }
+
+    setCardEmbedding = async (embedding: CardEmbedding): Promise<void> => {
+        await this.ensureDB()
+        return new Promise((resolve, reject) => {
+            const store = this.getStore('embeddings', 'readwrite')
+            const request = store.put(embedding)
+            request.onerror = () => reject(request.error)
+            request.onsuccess = () => {
+                this.notifyListeners(`embeddings:${embedding.boardId}`, null)
+                resolve()
+            }
+        })
+    }
+
+    getCardEmbeddingsByBoard = (boardId: string, callback: (embeddings: CardEmbedding[]) => void): () => void => {
+        const fetchAndNotify = async () => {
+            await this.ensureDB()
+            const store = this.getStore('embeddings')
+            const request = store.index('boardId').getAll(boardId)
+            request.onerror = () => console.error('Failed to fetch embeddings:', request.error)
+            request.onsuccess = () => callback(request.result || [])
+        }
+
+        fetchAndNotify()
+        return this.addListener(`embeddings:${boardId}`, fetchAndNotify)
+    }
+
+    addUsageRecord = async (record: UsageRecord): Promise<void> => {
+        await this.ensureDB()
+        return new Promise((resolve, reject) => {
+            const store = this.getStore('usage', 'readwrite')
+            const request = store.put(record)
+            request.onerror = () => reject(request.error)
+            request.onsuccess = () => {
+                this.notifyListeners('usage', null)
+                resolve()
+            }
+        })
+    }
+
+    getUsageRecords = (since: string, callback: (records: UsageRecord[]) => void): () => void => {
+        const fetchAndNotify = async () => {
+            await this.ensureDB()
+            const store = this.getStore('usage')
+            const request = store.index('createdAt').getAll(IDBKeyRange.lowerBound(since))
+            request.onerror = () => console.error('Failed to fetch usage records:', request.error)
+            request.onsuccess = () => callback(request.result || [])
+        }
+
+        fetchAndNotify()
+        return this.addListener('usage', fetchAndNotify)
+    }
+
+    setChat = async (chat: Chat): Promise<void> => {
         await this.ensureDB()
         return new Promise((resolve, reject) => {
             const store = this.getStore('chats', 'readwrite')
+            const getRequest = store.get(chat.id)
+            getRequest.onerror = () => reject(getRequest.error)
+            getRequest.onsuccess = () => {
+                const saved = keepTrashed(chat, getRequest.result as Chat | undefined)
+                const request = store.put(saved)
+                request.onerror = () => reject(request.error)
+                request.onsuccess = () => {
+                    this.notifyListeners(`chat:${chat.id}`, saved)
+                    this.notifyListeners(`chats:${chat.boardId}`, null)
+                    resolve()
+                }
+            }
+        })
+    }
+
+    removeChat = async (chatId: string): Promise<void> => {
+        await this.ensureDB()
+        const chat = await this.setDeletedAt<Chat>('chats', chatId, new Date().toISOString())
+        this.notifyListeners(`chat:${chatId}`, null)
+        if (chat) {
+            this.notifyListeners(`chats:${chat.boardId}`, null)
+        }
+        this.notifyListeners('trash', null)
+    }
+
+    restoreChat = async (chatId: string): Promise<void> => {
+        await this.ensureDB()
+        const chat = await this.setDeletedAt<Chat>('chats', chatId, undefined)
+        this.notifyListeners(`chat:${chatId}`, null)
+        if (chat) {
+            this.notifyListeners(`chats:${chat.boardId}`, null)
+        }
+        this.notifyListeners('trash', null)
+    }
+
+    purgeChat = async (chatId: string): Promise<void> => {
+        await this.ensureDB()
+        return new Promise((resolve, reject) => {
+            const transaction = this.db!.transaction(['chats', 'attachments'], 'readwrite')
+            const store = transaction.objectStore('chats')
+            const attachmentStore = transaction.objectStore('attachments')
+            let boardId: string | undefined
+
             // Get the chat first to know its boardId
             const getRequest = store.get(chatId)
             getRequest.onerror = () => reject(getRequest.error)
             getRequest.onsuccess = (event: Event) => {
                 const request = event.target as IDBRequest<Chat>
-                const chat = request.result
-                const boardId = chat?.boardId
-                
-                const deleteRequest = store.delete(chatId)
-                deleteRequest.onerror = () => reject(deleteRequest.error)
-                deleteRequest.onsuccess = () => {
-                    this.notifyListeners(`chat:${chatId}`, null)
-                    if (boardId) {
-                        this.notifyListeners(`chats:${boardId}`, null)
-                    }
-                    resolve()
+                boardId = request.result?.boardId
+                store.delete(chatId)
+            }
+
+            // Delete the attachments along with the chat
+            const attachmentRequest = attachmentStore.index('chatId').getAllKeys(chatId)
+            attachmentRequest.onsuccess = () => {
+                (attachmentRequest.result || []).forEach(key => attachmentStore.delete(key))
+            }
+
+            transaction.oncomplete = () => {
+                this.notifyListeners(`chat:${chatId}`, null)
+                if (boardId) {
+                    this.notifyListeners(`chats:${boardId}`, null)
                 }
+                this.notifyListeners('trash', null)
+                resolve()
             }
+
+            transaction.onerror = () => reject(transaction.error)
         })
     }
 
@@ -290,7 +557,7 @@ export class LocalStore implements Store {
             const request = store.getAll()
             request.onerror = () => console.error('Failed to fetch chats:', request.error)
             request.onsuccess = () => {
-                const chats = (request.result || []).filter(chat => chat.boardId === boardId)
+                const chats = (request.result || []).filter(chat => chat.boardId === boardId && !chat.deletedAt)
                 callback(chats)
             }
         }
@@ -305,13 +572,67 @@ export class LocalStore implements Store {
             const store = this.getStore('chats')
             const request = store.get(chatId)
             request.onerror = () => console.error('Failed to fetch chat:', request.error)
-            request.onsuccess = () => callback(request.result || null)
+            request.onsuccess = () => {
+                const chat: Chat | undefined = request.result
+                callback(chat && !chat.deletedAt ? chat : null)
+            }
         }
 
         fetchAndNotify()
         return this.addListener(`chat:${chatId}`, fetchAndNotify)
     }
 
+    setChatAttachment = async (attachment: ChatAttachmentData): Promise<void> => {
+        await this.ensureDB()
+        return new Promise((resolve, reject) => {
+            const store = this.getStore('attachments', 'readwrite')
+            const request = store.put(attachment)
+            request.onerror = () => reject(request.error)
+            request.onsuccess = () => {
+                this.notifyListeners(`attachment:${attachment.id}`, null)
+                resolve()
+            }
+        })
+    }
+
+    getChatAttachment = (attachmentId: string, callback: (attachment: ChatAttachmentData | null) => void): () => void => {
+        const fetchAndNotify = async () => {
+            await this.ensureDB()
+            const store = this.getStore('attachments')
+            const request = store.get(attachmentId)
+            request.onerror = () => console.error('Failed to fetch attachment:', request.error)
+            request.onsuccess = () => callback(request.result ?? null)
+        }
+
+        fetchAndNotify()
+        return this.addListener(`attachment:${attachmentId}`, fetchAndNotify)
+    }
+
+    getTrash = (callback: (trash: Trash) => void): () => void => {
+        const fetchAndNotify = async () => {
+            const db = await this.ensureDB()
+            const transaction = db.transaction(['boards', 'cards', 'chats'], 'readonly')
+            const boardRequest = transaction.objectStore('boards').getAll()
+            const cardRequest = transaction.objectStore('cards').getAll()
+            const chatRequest = transaction.objectStore('chats').getAll()
+
+            transaction.onerror = () => console.error('Failed to fetch trash:', transaction.error)
+            transaction.oncomplete = () => {
+                const boards: Board[] = (boardRequest.result || []).filter((board: Board) => board.deletedAt)
+                const trashedBoardIds = new Set(boards.map(board => board.id))
+                // Items on a trashed board are restored or purged with the board
+                const cards: Card[] = (cardRequest.result || [])
+                    .filter((card: Card) => card.deletedAt && !trashedBoardIds.has(card.boardId))
+                const chats: Chat[] = (chatRequest.result || [])
+                    .filter((chat: Chat) => chat.deletedAt && !trashedBoardIds.has(chat.boardId))
+                callback({ boards, cards, chats })
+            }
+        }
+
+        fetchAndNotify()
+        return this.addListener('trash', fetchAndNotify)
+    }
+
     getUserSettings = (callback: (settings: UserSettings | null) => void): () => void => {
         const fetchAndNotify = async () => {
             await this.ensureDB()
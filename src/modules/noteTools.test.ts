@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { runNoteTool, type NoteToolContext } from './noteTools'
+import type { RichTextCard } from '../types'
+import { makeCard } from '../test/fixtures'
+
+function makeContext(notes: RichTextCard[]): NoteToolContext {
+    return {
+        notes,
+        createNote: async (title, markdown) => makeCard({ id: 'new', title, markdown })
+    }
+}
+
+describe('noteTools', () => {
+    const notes = [
+        makeCard({ id: 'a', title: 'Garden', markdown: 'Tomatoes need full sun.' }),
+        makeCard({ id: 'b', title: 'Budget', markdown: 'Quarterly spending review.' })
+    ]
+
+    it('should search notes and return their IDs', async () => {
+        const result = await runNoteTool({ id: '1', name: 'search_notes', arguments: { query: 'tomatoes' } }, makeContext(notes))
+        expect(JSON.parse(result.content).map((r: { id: string }) => r.id)).toEqual(['a'])
+        expect(result.activity.description).toBe('Searched notes for "tomatoes"')
+    })
+
+    it('should read a note', async () => {
+        const result = await runNoteTool({ id: '1', name: 'read_note', arguments: { id: 'b' } }, makeContext(notes))
+        expect(JSON.parse(result.content).markdown).toBe('Quarterly spending review.')
+        expect(result.activity.cardId).toBe('b')
+    })
+
+    it('should create a note', async () => {
+        const result = await runNoteTool({ id: '1', name: 'create_note', arguments: { title: 'Ideas', markdown: '- one' } }, makeContext(notes))
+        expect(result.createdNote?.content.markdown).toBe('- one')
+        expect(result.activity.description).toBe('Created "Ideas"')
+    })
+
+    it('should propose edits without applying them', async () => {
+        const result = await runNoteTool({
+            id: '1',
+            name: 'propose_edit',
+            arguments: { id: 'a', markdown: 'Tomatoes need full sun and water.', summary: 'Mention water' }
+        }, makeContext(notes))
+        expect(result.proposedEdit).toMatchObject({
+            cardId: 'a',
+            originalMarkdown: 'Tomatoes need full sun.',
+            markdown: 'Tomatoes need full sun and water.',
+            summary: 'Mention water',
+            status: 'pending'
+        })
+        expect(notes[0].content.markdown).toBe('Tomatoes need full sun.')
+    })
+
+    it('should report problems to the model instead of throwing', async () => {
+        const missing = await runNoteTool({ id: '1', name: 'read_note', arguments: { id: 'zzz' } }, makeContext(notes))
+        expect(missing.content).toMatch(/^Error: /)
+
+        const unknown = await runNoteTool({ id: '1', name: 'delete_note', arguments: {} }, makeContext(notes))
+        expect(unknown.content).toMatch(/^Error: /)
+    })
+})
@@ -0,0 +1,176 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { ChatToolActivity, ProposedNoteEdit, RichTextCard } from '../types'
+import type { ToolCall, ToolDefinition } from '../api/llm'
+import { getCardTitle } from './cards'
+import { SearchIndex } from './search/SearchIndex'
+import { cardToSearchDocument } from './search/StoreSearchIndex'
+
+/** What the note tools can see and do */
+export interface NoteToolContext {
+    /** Notes on the board */
+    notes: RichTextCard[]
+    /**
+     * Creates a note on the board
+     * @returns The created card
+     */
+    createNote: (title: string, markdown: string) => Promise<RichTextCard>
+}
+
+/** Outcome of running a note tool */
+export interface NoteToolResult {
+    /** Result sent back to the model */
+    content: string
+    /** What was done, to show in the chat */
+    activity: ChatToolActivity
+    /** The note that was created, if any */
+    createdNote?: RichTextCard
+    /** The edit that was proposed, if any */
+    proposedEdit?: ProposedNoteEdit
+}
+
+/** Maximum number of notes returned by a search */
+const SEARCH_RESULT_LIMIT = 8
+
+/** Tools that let the assistant search, read, create and propose edits to notes */
+export const NOTE_TOOLS: ToolDefinition[] = [
+    {
+        name: 'search_notes',
+        description: 'Searches the notes on the board. Returns the ID, title and a matching excerpt of the best matches. Supports "quoted phrases".',
+        parameters: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'Words to search for' }
+            },
+            required: ['query']
+        }
+    },
+    {
+        name: 'read_note',
+        description: 'Reads the full markdown content of a note.',
+        parameters: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'ID of the note' }
+            },
+            required: ['id']
+        }
+    },
+    {
+        name: 'create_note',
+        description: 'Creates a new note on the board. Only use this when the user asks for a note to be created.',
+        parameters: {
+            type: 'object',
+            properties: {
+                title: { type: 'string', description: 'Title of the note. May be empty' },
+                markdown: { type: 'string', description: 'Content of the note in markdown' }
+            },
+            required: ['markdown']
+        }
+    },
+    {
+        name: 'propose_edit',
+        description: 'Proposes new content for an existing note. The user sees the change and decides whether to apply it, so read the note first and give its complete new content.',
+        parameters: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'ID of the note' },
+                markdown: { type: 'string', description: 'Complete new content of the note in markdown' },
+                summary: { type: 'string', description: 'Short description of the change' }
+            },
+            required: ['id', 'markdown', 'summary']
+        }
+    }
+]
+
+/**
+ * Gets a string argument of a tool call
+ * @returns The argument, or null if it is missing or not a string
+ */
+function getStringArgument(call: ToolCall, name: string): string | null {
+    const value = call.arguments[name]
+    return typeof value === 'string' ? value : null
+}
+
+/**
+ * Runs a note tool called by the assistant. Problems such as a missing note are
+ * reported back to the model rather than thrown, so it can recover
+ * @param call The tool call
+ * @param context The notes and how to create them
+ * @returns The result for the model and what was done
+ */
+export async function runNoteTool(call: ToolCall, context: NoteToolContext): Promise<NoteToolResult> {
+    const fail = (message: string, description: string): NoteToolResult => ({
+        content: `Error: ${message}`,
+        activity: { tool: call.name, description }
+    })
+
+    switch (call.name) {
+        case 'search_notes': {
+            const query = getStringArgument(call, 'query')
+            if (!query) return fail('query is required', 'Tried to search notes')
+
+            const index = new SearchIndex()
+            context.notes.forEach(note => index.add(cardToSearchDocument(note)))
+            const results = index.search(query, { limit: SEARCH_RESULT_LIMIT }).map(result => ({
+                id: result.document.id,
+                title: result.document.title,
+                excerpt: result.snippet.text
+            }))
+
+            return {
+                content: results.length > 0 ? JSON.stringify(results) : 'No notes matched.',
+                activity: { tool: call.name, description: `Searched notes for "${query}"` }
+            }
+        }
+
+        case 'read_note': {
+            const note = context.notes.find(n => n.id === getStringArgument(call, 'id'))
+            if (!note) return fail(`there is no note with ID ${getStringArgument(call, 'id')}`, 'Tried to read a note')
+
+            return {
+                content: JSON.stringify({ id: note.id, title: getCardTitle(note), updatedAt: note.updatedAt, markdown: note.content.markdown }),
+                activity: { tool: call.name, description: `Read "${getCardTitle(note)}"`, cardId: note.id }
+            }
+        }
+
+        case 'create_note': {
+            const markdown = getStringArgument(call, 'markdown')
+            if (markdown === null) return fail('markdown is required', 'Tried to create a note')
+
+            const note = await context.createNote(getStringArgument(call, 'title') ?? '', markdown)
+            return {
+                content: JSON.stringify({ id: note.id, title: getCardTitle(note) }),
+                activity: { tool: call.name, description: `Created "${getCardTitle(note)}"`, cardId: note.id },
+                createdNote: note
+            }
+        }
+
+        case 'propose_edit': {
+            const note = context.notes.find(n => n.id === getStringArgument(call, 'id'))
+            if (!note) return fail(`there is no note with ID ${getStringArgument(call, 'id')}`, 'Tried to edit a note')
+            const markdown = getStringArgument(call, 'markdown')
+            if (markdown === null) return fail('markdown is required', `Tried to edit "${getCardTitle(note)}"`)
+            if (markdown === note.content.markdown) {
+                return fail('the proposed content is the same as the note', `Tried to edit "${getCardTitle(note)}"`)
+            }
+
+            const proposedEdit: ProposedNoteEdit = {
+                id: uuidv4(),
+                cardId: note.id,
+                title: getCardTitle(note),
+                originalMarkdown: note.content.markdown,
+                markdown,
+                summary: getStringArgument(call, 'summary') ?? '',
+                status: 'pending'
+            }
+            return {
+                content: 'The edit was shown to the user, who will decide whether to apply it. It has not been applied yet.',
+                activity: { tool: call.name, description: `Proposed an edit to "${proposedEdit.title}"`, cardId: note.id },
+                proposedEdit
+            }
+        }
+
+        default:
+            return fail(`there is no tool named ${call.name}`, `Tried to use unknown tool ${call.name}`)
+    }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { fillTemplate, findPrompts, getCommandQuery, getTemplateVariables, mergePrompts, normalizeCommand, parseSlashCommand } from './prompts'
+import type { PromptTemplate } from '../types/settings'
+
+function makePrompt(command: string, template = '', description?: string): PromptTemplate {
+    return { id: command, command, template, ...(description ? { description } : {}) }
+}
+
+describe('prompts', () => {
+    it('should turn names into commands', () => {
+        expect(normalizeCommand('/Translate to French')).toBe('translate-to-french')
+        expect(normalizeCommand('  action_items! ')).toBe('action-items')
+    })
+
+    it('should only suggest commands while the command is being typed', () => {
+        expect(getCommandQuery('/')).toBe('')
+        expect(getCommandQuery('/Crit')).toBe('crit')
+        expect(getCommandQuery('/critique this')).toBeNull()
+        expect(getCommandQuery('Not a /command')).toBeNull()
+    })
+
+    it('should split the command from the text after it', () => {
+        expect(parseSlashCommand('/translate  Good morning\nto all')).toEqual({ command: 'translate', input: 'Good morning\nto all' })
+        expect(parseSlashCommand('/critique')).toEqual({ command: 'critique', input: '' })
+        expect(parseSlashCommand('1/2 cup')).toBeNull()
+    })
+
+    it('should let board prompts replace the user prompts with the same command', () => {
+        const merged = mergePrompts([makePrompt('critique', 'Board')], [makePrompt('critique', 'User'), makePrompt('translate')])
+        expect(merged.map(prompt => [prompt.command, prompt.template])).toEqual([['critique', 'Board'], ['translate', '']])
+    })
+
+    it('should list commands that start with the query first', () => {
+        const prompts = [makePrompt('summarize'), makePrompt('action-items', '', 'Extract the actions'), makePrompt('actions')]
+        expect(findPrompts(prompts, 'act').map(prompt => prompt.command)).toEqual(['action-items', 'actions'])
+        expect(findPrompts(prompts, 'extract').map(prompt => prompt.command)).toEqual(['action-items'])
+        expect(findPrompts(prompts, '').map(prompt => prompt.command)).toEqual(['action-items', 'actions', 'summarize'])
+    })
+
+    it('should fill in variables and add the text typed after the command', () => {
+        const template = 'Critique this note from {{ date }}:\n\n{{selected_note}}\n\n{{unknown}}'
+        expect(getTemplateVariables(template)).toEqual(['date', 'selected_note'])
+        expect(fillTemplate(template, { date: '2026-05-01', selected_note: '# Plan', input: 'Be harsh' })).toBe(
+            'Critique this note from 2026-05-01:\n\n# Plan\n\n{{unknown}}\n\nBe harsh'
+        )
+        expect(fillTemplate('Translate to French: {{input}}', { input: 'Hello' })).toBe('Translate to French: Hello')
+    })
+})
@@ -0,0 +1,107 @@
+import type { PromptTemplate } from '../types/settings'
+
+/** Variables that prompt templates can contain, written as {{name}} */
+export const PROMPT_VARIABLES = [
+    { name: 'selected_note', description: 'Title and content of the selected note' },
+    { name: 'date', description: "Today's date" },
+    { name: 'clipboard', description: 'Text on the clipboard' },
+    { name: 'input', description: 'Text typed after the command. Added at the end if not used' }
+] as const
+
+/** Name of a variable that prompt templates can contain */
+export type PromptVariable = typeof PROMPT_VARIABLES[number]['name']
+
+/** Values of the variables of a prompt template */
+export type PromptValues = Partial<Record<PromptVariable, string>>
+
+/** A prompt command typed into the chat input */
+export interface SlashCommand {
+    /** The command, without the slash */
+    command: string
+    /** Text typed after the command */
+    input: string
+}
+
+/** Matches a variable in a template, allowing spaces inside the braces */
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g
+
+/**
+ * Turns a name into a command that can be typed after a slash: lowercase
+ * letters, digits and dashes
+ */
+export function normalizeCommand(name: string): string {
+    return name
+        .trim()
+        .toLowerCase()
+        .replace(/^\/+/, '')
+        .replace(/[\s_]+/g, '-')
+        .replace(/[^a-z0-9-]/g, '')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '')
+}
+
+/**
+ * Gets the command typed so far while the chat input holds only a slash command,
+ * to suggest prompts for
+ * @returns The command without the slash, or null if the input is not a command being typed
+ */
+export function getCommandQuery(message: string): string | null {
+    const match = message.match(/^\/([a-z0-9-]*)$/i)
+    return match ? match[1].toLowerCase() : null
+}
+
+/**
+ * Splits a message that starts with a slash command into the command and the
+ * text after it
+ * @returns Null if the message does not start with a command
+ */
+export function parseSlashCommand(message: string): SlashCommand | null {
+    const match = message.trim().match(/^\/([a-z0-9-]+)(?:\s+([\s\S]*))?$/i)
+    return match ? { command: match[1].toLowerCase(), input: match[2]?.trim() ?? '' } : null
+}
+
+/**
+ * Combines the prompts of a board with the user's prompts. A board prompt replaces
+ * a user prompt with the same command
+ */
+export function mergePrompts(boardPrompts: PromptTemplate[] = [], userPrompts: PromptTemplate[] = []): PromptTemplate[] {
+    const boardCommands = new Set(boardPrompts.map(prompt => prompt.command))
+    return [...boardPrompts, ...userPrompts.filter(prompt => !boardCommands.has(prompt.command))]
+}
+
+/**
+ * Finds the prompts whose command starts with what has been typed, followed by
+ * those whose command or description contains it elsewhere
+ */
+export function findPrompts(prompts: PromptTemplate[], query: string): PromptTemplate[] {
+    const sorted = [...prompts].sort((a, b) => a.command.localeCompare(b.command))
+    if (!query) return sorted
+
+    const prefixMatches = sorted.filter(prompt => prompt.command.startsWith(query))
+    const otherMatches = sorted.filter(prompt => !prompt.command.startsWith(query)
+        && (prompt.command.includes(query) || prompt.description?.toLowerCase().includes(query)))
+    return [...prefixMatches, ...otherMatches]
+}
+
+/** Gets the variables a template uses, so that only those are looked up */
+export function getTemplateVariables(template: string): PromptVariable[] {
+    const known = new Set<string>(PROMPT_VARIABLES.map(variable => variable.name))
+    const used = [...template.matchAll(VARIABLE_PATTERN)].map(match => match[1]).filter(name => known.has(name))
+    return [...new Set(used)] as PromptVariable[]
+}
+
+/**
+ * Replaces the variables of a template with their values. Unknown variables are
+ * left as they are, and text typed after the command is added at the end unless
+ * the template places it with {{input}}
+ */
+export function fillTemplate(template: string, values: PromptValues): string {
+    const filled = template.replace(VARIABLE_PATTERN, (text, name: string) =>
+        name in values ? values[name as PromptVariable] ?? '' : text)
+
+    const input = values.input?.trim()
+    if (input && !getTemplateVariables(template).includes('input')) {
+        return `${filled.trim()}\n\n${input}`
+    }
+    return filled.trim()
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { isDestructiveEdit, recordCardRevision, snapshotCard, pruneCardRevisions, MAX_REVISIONS_PER_CARD } from './revisions'
+import type { Store } from '../Store'
+import type { Card, CardRevision } from '../types'
+import { makeCard } from '../test/fixtures'
+
+/** Makes a store that keeps revisions in memory */
+function mockStore(revisions: CardRevision[] = []): Store & { revisions: CardRevision[] } {
+    const store = {
+        revisions,
+        addCardRevision: vi.fn(async (revision: CardRevision) => {
+            store.revisions.push(revision)
+        }),
+        getCardRevisions: vi.fn((cardId: string, callback: (revisions: CardRevision[]) => void) => {
+            callback(store.revisions.filter(revision => revision.cardId === cardId))
+            return () => {}
+        }),
+        removeCardRevisions: vi.fn(async (_cardId: string, revisionIds: string[]) => {
+            store.revisions = store.revisions.filter(revision => !revisionIds.includes(revision.id))
+        })
+    }
+    return store as unknown as Store & { revisions: CardRevision[] }
+}
+
+const longText = Array.from({ length: 20 }, (_, i) => `Line ${i} of a note about tomatoes.`).join('\n')
+
+describe('isDestructiveEdit', () => {
+    it('should flag edits that remove most of a long note', () => {
+        expect(isDestructiveEdit(makeCard({ id: 'card', markdown: longText }), makeCard({ id: 'card', markdown: longText.slice(0, 100) }))).toBe(true)
+    })
+
+    it('should flag edits that replace the start of a long note', () => {
+        expect(isDestructiveEdit(makeCard({ id: 'card', markdown: longText }), makeCard({ id: 'card', markdown: 'Something else. ' + longText.slice(50) }))).toBe(true)
+    })
+
+    it('should not flag additions, short notes or other card types', () => {
+        expect(isDestructiveEdit(makeCard({ id: 'card', markdown: longText }), makeCard({ id: 'card', markdown: longText + 'More.' }))).toBe(false)
+        expect(isDestructiveEdit(makeCard({ id: 'card', markdown: 'Short note' }), makeCard({ id: 'card', markdown: '' }))).toBe(false)
+        const image = { ...makeCard({ id: 'card', markdown: longText }), type: 'image' } as unknown as Card
+        expect(isDestructiveEdit(image, makeCard({ id: 'card', markdown: '' }))).toBe(false)
+    })
+})
+
+describe('recordCardRevision', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ now: new Date('2026-03-01T12:00:00.000Z'), toFake: ['Date'] })
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('should do nothing when the title and content are unchanged', async () => {
+        const store = mockStore()
+        const card = makeCard({ id: 'unchanged', markdown: 'Text' })
+        await recordCardRevision(store, card, { ...card, updatedAt: '2026-03-01T12:00:00.000Z' })
+        expect(store.addCardRevision).not.toHaveBeenCalled()
+    })
+
+    it('should snapshot the previous card at most every 5 minutes', async () => {
+        const store = mockStore()
+        const card = makeCard({ id: 'throttled', markdown: 'First' })
+        await recordCardRevision(store, card, makeCard({ id: 'throttled', markdown: 'Second' }))
+        expect(store.revisions.map(revision => revision.content)).toEqual([{ markdown: 'First' }])
+
+        vi.setSystemTime(new Date('2026-03-01T12:04:59.000Z'))
+        await recordCardRevision(store, makeCard({ id: 'throttled', markdown: 'Second' }), makeCard({ id: 'throttled', markdown: 'Third' }))
+        expect(store.revisions).toHaveLength(1)
+
+        vi.setSystemTime(new Date('2026-03-01T12:05:00.000Z'))
+        await recordCardRevision(store, makeCard({ id: 'throttled', markdown: 'Third' }), makeCard({ id: 'throttled', markdown: 'Fourth' }))
+        expect(store.revisions).toHaveLength(2)
+    })
+
+    it('should snapshot destructive edits within 5 minutes', async () => {
+        const store = mockStore()
+        await recordCardRevision(store, makeCard({ id: 'destructive', markdown: longText }), makeCard({ id: 'destructive', markdown: longText + 'More.' }))
+        await recordCardRevision(store, makeCard({ id: 'destructive', markdown: longText + 'More.' }), makeCard({ id: 'destructive', markdown: '' }))
+        expect(store.revisions).toHaveLength(2)
+    })
+})
+
+describe('pruneCardRevisions', () => {
+    /** Makes revisions of a card, one a minute, the oldest first */
+    function makeRevisions(cardId: string, count: number): CardRevision[] {
+        return Array.from({ length: count }, (_, i) => ({
+            id: `${cardId}-${i}`,
+            cardId,
+            boardId: 'board',
+            title: 'Note',
+            content: { markdown: `Version ${i}` },
+            createdAt: new Date(Date.UTC(2026, 2, 1, 0, i)).toISOString()
+        }))
+    }
+
+    it('should delete the oldest revisions beyond the most kept', async () => {
+        const store = mockStore([...makeRevisions('card', MAX_REVISIONS_PER_CARD + 2), ...makeRevisions('other', 3)])
+        await pruneCardRevisions(store, 'card')
+        expect(store.removeCardRevisions).toHaveBeenCalledWith('card', ['card-1', 'card-0'])
+        expect(store.revisions.filter(revision => revision.cardId === 'card')).toHaveLength(MAX_REVISIONS_PER_CARD)
+        expect(store.revisions.filter(revision => revision.cardId === 'other')).toHaveLength(3)
+    })
+
+    it('should not delete anything within the limit', async () => {
+        const store = mockStore(makeRevisions('card', MAX_REVISIONS_PER_CARD))
+        await pruneCardRevisions(store, 'card')
+        expect(store.removeCardRevisions).not.toHaveBeenCalled()
+    })
+
+    it('should prune when a snapshot is taken', async () => {
+        const store = mockStore(makeRevisions('snapshot', MAX_REVISIONS_PER_CARD))
+        await snapshotCard(store, makeCard({ id: 'snapshot', markdown: 'Latest' }))
+        expect(store.revisions).toHaveLength(MAX_REVISIONS_PER_CARD)
+        expect(store.revisions.some(revision => revision.id === 'snapshot-0')).toBe(false)
+    })
+})
@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { Store } from '../Store'
+import type { Card, CardRevision } from '../types'
+
+/** Minimum time between automatic snapshots of the same card */
+const REVISION_INTERVAL_MS = 5 * 60 * 1000
+
+/** Content shorter than this is never considered a destructive edit */
+const DESTRUCTIVE_MIN_LENGTH = 200
+
+/** Most revisions kept per card. The oldest are deleted as new ones are taken */
+export const MAX_REVISIONS_PER_CARD = 50
+
+/** Time of the last snapshot taken in this session, keyed by card id */
+const lastSnapshotAt = new Map<string, number>()
+
+/**
+ * Creates a revision snapshot of a card's current title and content
+ * @param card The card to snapshot
+ * @returns A new revision for the card
+ */
+export function createCardRevision(card: Card): CardRevision {
+    return {
+        id: uuidv4(),
+        cardId: card.id,
+        boardId: card.boardId,
+        title: card.title,
+        content: card.content,
+        createdAt: new Date().toISOString()
+    }
+}
+
+/**
+ * Determines whether an edit removes most of a card's content, such as
+ * an accidental select-all-delete or a paste over the whole note
+ * @param previous The card before the edit
+ * @param next The card after the edit
+ */
+export function isDestructiveEdit(previous: Card, next: Card): boolean {
+    if (previous.type !== 'richtext' || next.type !== 'richtext') return false
+    const before = previous.content.markdown
+    const after = next.content.markdown
+    if (before.length < DESTRUCTIVE_MIN_LENGTH) return false
+    return after.length < before.length / 2 || !after.includes(before.slice(0, 50))
+}
+
+/**
+ * Snapshots a card before it is overwritten, if enough time has passed since the
+ * last snapshot or the edit looks destructive. Debounced editor saves call this on
+ * every write, so most calls are no-ops.
+ * @param store The store to save the revision to
+ * @param previous The card as it is currently stored
+ * @param next The card that is about to be saved
+ */
+export async function recordCardRevision(store: Store, previous: Card, next: Card): Promise<void> {
+    if (previous.title === next.title && JSON.stringify(previous.content) === JSON.stringify(next.content)) return
+
+    const now = Date.now()
+    const last = lastSnapshotAt.get(previous.id)
+    if (last !== undefined && now - last < REVISION_INTERVAL_MS && !isDestructiveEdit(previous, next)) return
+
+    lastSnapshotAt.set(previous.id, now)
+    await addRevision(store, previous)
+}
+
+/**
+ * Unconditionally snapshots a card, e.g. before restoring an older revision over it
+ * @param store The store to save the revision to
+ * @param card The card to snapshot
+ */
+export async function snapshotCard(store: Store, card: Card): Promise<void> {
+    lastSnapshotAt.set(card.id, Date.now())
+    await addRevision(store, card)
+}
+
+/**
+ * Deletes the oldest revisions of a card beyond the most kept
+ * @param store The store holding the revisions
+ * @param cardId The card whose revisions to prune
+ */
+export async function pruneCardRevisions(store: Store, cardId: string): Promise<void> {
+    const revisions = await new Promise<CardRevision[]>((resolve) => {
+        const unsubscribe = store.getCardRevisions(cardId, (revisions) => {
+            // Defer so unsubscribe is assigned even if the callback fires synchronously
+            setTimeout(() => unsubscribe())
+            resolve(revisions)
+        })
+    })
+
+    const excess = [...revisions]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(MAX_REVISIONS_PER_CARD)
+    if (excess.length > 0) {
+        await store.removeCardRevisions(cardId, excess.map(revision => revision.id))
+    }
+}
+
+/**
+ * Saves a snapshot of a card and prunes its oldest revisions. Pruning failing
+ * does not fail the snapshot, as it is retried with the next one
+ */
+async function addRevision(store: Store, card: Card): Promise<void> {
+    await store.addCardRevision(createCardRevision(card))
+    await pruneCardRevisions(store, card.id)
+        .catch(err => console.error('Failed to prune card revisions:', err))
+}
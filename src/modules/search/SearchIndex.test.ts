@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { SearchIndex, tokenize, parseQuery, type SearchDocument } from './SearchIndex'
+
+function makeDocument(id: string, title: string, text: string, kind: SearchDocument['kind'] = 'card'): SearchDocument {
+    return { id, kind, boardId: 'board', title, text, updatedAt: '2024-01-01T00:00:00.000Z' }
+}
+
+describe('SearchIndex', () => {
+    describe('tokenize', () => {
+        it('should lowercase, strip accents and keep offsets', () => {
+            expect(tokenize('Café, au-lait!')).toEqual([
+                { term: 'cafe', start: 0, end: 4 },
+                { term: 'au', start: 6, end: 8 },
+                { term: 'lait', start: 9, end: 13 }
+            ])
+        })
+    })
+
+    describe('parseQuery', () => {
+        it('should separate phrases from terms', () => {
+            expect(parseQuery('budget "annual report" 2024')).toEqual({
+                terms: ['budget', '2024'],
+                phrases: [['annual', 'report']]
+            })
+        })
+
+        it('should treat a quoted single word as a term', () => {
+            expect(parseQuery('"budget"')).toEqual({ terms: ['budget'], phrases: [] })
+        })
+    })
+
+    describe('search', () => {
+        let index: SearchIndex
+
+        beforeEach(() => {
+            index = new SearchIndex()
+            index.add(makeDocument('1', 'Groceries', 'Buy apples, bananas and bread'))
+            index.add(makeDocument('2', 'Apple pie recipe', 'Mix the apples with sugar and cinnamon'))
+            index.add(makeDocument('3', 'Meeting notes', 'Discussed the annual report and the budget'))
+            index.add(makeDocument('1', 'Chat about fruit', 'Which apple is best?', 'chat'))
+        })
+
+        it('should require every term to match', () => {
+            expect(index.search('apples bread').map(r => r.document.id)).toEqual(['1'])
+        })
+
+        it('should match prefixes', () => {
+            const ids = index.search('cinna').map(r => r.document.id)
+            expect(ids).toEqual(['2'])
+        })
+
+        it('should rank title matches higher', () => {
+            expect(index.search('apple')[0].document.title).toBe('Apple pie recipe')
+        })
+
+        it('should keep cards and chats with the same ID separate', () => {
+            const kinds = index.search('apple').map(r => r.document.kind).sort()
+            expect(kinds).toEqual(['card', 'card', 'chat'])
+        })
+
+        it('should match phrases only when the words are adjacent', () => {
+            expect(index.search('"annual report"').map(r => r.document.id)).toEqual(['3'])
+            expect(index.search('"report annual"')).toEqual([])
+        })
+
+        it('should highlight matches in the snippet and title', () => {
+            const [result] = index.search('budget')
+            const { text, highlights } = result.snippet
+            expect(highlights.map(h => text.slice(h.start, h.end))).toEqual(['budget'])
+
+            const [titleResult] = index.search('groc')
+            expect(titleResult.titleHighlights).toEqual([{ start: 0, end: 9 }])
+        })
+
+        it('should update and remove documents', () => {
+            index.add(makeDocument('3', 'Meeting notes', 'Nothing about money'))
+            expect(index.search('budget')).toEqual([])
+            expect(index.search('money')).toHaveLength(1)
+
+            index.remove('card', '3')
+            expect(index.search('money')).toEqual([])
+            expect(index.size).toBe(3)
+        })
+
+        it('should return nothing for an empty query', () => {
+            expect(index.search('  ')).toEqual([])
+        })
+    })
+})
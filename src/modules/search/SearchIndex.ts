@@ -0,0 +1,416 @@
+/** A card or chat as seen by the search index */
+export interface SearchDocument {
+    /** ID of the card or chat */
+    id: string
+    /** Whether the document is a note card or a saved chat */
+    kind: 'card' | 'chat'
+    /** Board the document belongs to */
+    boardId: string
+    /** Display title */
+    title: string
+    /** Searchable body text */
+    text: string
+    /** When the document was last updated in ISO 8601 format */
+    updatedAt: string
+}
+
+/** A word in a piece of text, with its location */
+export interface Token {
+    /** The normalized term */
+    term: string
+    /** Offset of the first character in the original text */
+    start: number
+    /** Offset after the last character in the original text */
+    end: number
+}
+
+/** A search query split into its parts */
+export interface ParsedQuery {
+    /** Individual terms, matched as prefixes */
+    terms: string[]
+    /** Quoted phrases, each a sequence of terms that must appear together */
+    phrases: string[][]
+}
+
+/** Part of a document's text around the matches, with the matches marked */
+export interface SearchSnippet {
+    /** The excerpt */
+    text: string
+    /** Character ranges within the excerpt that matched the query */
+    highlights: { start: number, end: number }[]
+}
+
+/** A document matching a search */
+export interface SearchResult {
+    /** The matching document */
+    document: SearchDocument
+    /** Relevance score. Higher is better */
+    score: number
+    /** Ranges of the title that matched the query */
+    titleHighlights: { start: number, end: number }[]
+    /** Excerpt of the body around the first match */
+    snippet: SearchSnippet
+}
+
+/** Positions of a term within one document */
+interface Posting {
+    /** Token positions in the title */
+    title: number[]
+    /** Token positions in the body */
+    text: number[]
+}
+
+/** Per-document data kept by the index */
+interface IndexedDocument {
+    document: SearchDocument
+    /** Terms the document was indexed under, so it can be removed */
+    terms: string[]
+    /** Number of tokens in the body */
+    length: number
+}
+
+/** Boost for matches in the title over the body */
+const TITLE_WEIGHT = 3
+/** Penalty for matching a query term only as a prefix of a word */
+const PREFIX_WEIGHT = 0.5
+/** BM25 term frequency saturation */
+const K1 = 1.2
+/** BM25 length normalization */
+const B = 0.75
+/** Length of snippets in characters */
+const SNIPPET_LENGTH = 160
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+/**
+ * Normalizes a word for indexing: lowercase with accents removed
+ */
+function normalizeTerm(word: string): string {
+    return word.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '')
+}
+
+/**
+ * Splits text into normalized words
+ * @param text The text to split
+ * @returns The words with their offsets in the original text
+ */
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = []
+    for (const match of text.matchAll(WORD_PATTERN)) {
+        tokens.push({
+            term: normalizeTerm(match[0]),
+            start: match.index!,
+            end: match.index! + match[0].length
+        })
+    }
+    return tokens
+}
+
+/**
+ * Parses a search query. Text in double quotes is a phrase, everything else is individual terms
+ * @param query The query as typed
+ */
+export function parseQuery(query: string): ParsedQuery {
+    const phrases: string[][] = []
+    const rest = query.replace(/"([^"]*)"?/g, (_match, phrase: string) => {
+        const terms = tokenize(phrase).map(t => t.term)
+        if (terms.length > 1) {
+            phrases.push(terms)
+            return ' '
+        }
+        // A single quoted word is just a term
+        return ` ${phrase} `
+    })
+    const terms = Array.from(new Set(tokenize(rest).map(t => t.term)))
+    return { terms, phrases }
+}
+
+/**
+ * Finds the first index in a sorted array whose value is not less than the target
+ */
+function lowerBound(sorted: string[], target: string): number {
+    let low = 0
+    let high = sorted.length
+    while (low < high) {
+        const mid = (low + high) >> 1
+        if (sorted[mid] < target) {
+            low = mid + 1
+        } else {
+            high = mid
+        }
+    }
+    return low
+}
+
+/**
+ * Finds the token ranges in text that match a query
+ * @param tokens The tokens of the text
+ * @param query The parsed query
+ */
+function findMatches(tokens: Token[], query: ParsedQuery): { start: number, end: number }[] {
+    const matches: { start: number, end: number }[] = []
+
+    tokens.forEach((token, i) => {
+        if (query.terms.some(term => token.term.startsWith(term))) {
+            matches.push({ start: token.start, end: token.end })
+        }
+        for (const phrase of query.phrases) {
+            if (phrase.every((term, j) => tokens[i + j]?.term === term)) {
+                matches.push({ start: token.start, end: tokens[i + phrase.length - 1].end })
+            }
+        }
+    })
+
+    // Merge overlapping ranges
+    matches.sort((a, b) => a.start - b.start)
+    const merged: { start: number, end: number }[] = []
+    for (const match of matches) {
+        const last = merged[merged.length - 1]
+        if (last && match.start <= last.end) {
+            last.end = Math.max(last.end, match.end)
+        } else {
+            merged.push({ ...match })
+        }
+    }
+    return merged
+}
+
+/**
+ * Builds an excerpt of text around its first match
+ * @param text The full text
+ * @param matches Matched ranges in the full text
+ */
+function buildSnippet(text: string, matches: { start: number, end: number }[]): SearchSnippet {
+    if (matches.length === 0) {
+        const excerpt = text.slice(0, SNIPPET_LENGTH)
+        return { text: excerpt + (text.length > SNIPPET_LENGTH ? '…' : ''), highlights: [] }
+    }
+
+    // Start a little before the first match, on a word boundary
+    let start = Math.max(0, matches[0].start - Math.floor(SNIPPET_LENGTH / 4))
+    if (start > 0) {
+        const space = text.indexOf(' ', start)
+        start = space >= 0 && space < matches[0].start ? space + 1 : start
+    }
+    const end = Math.min(text.length, start + SNIPPET_LENGTH)
+
+    const prefix = start > 0 ? '…' : ''
+    const suffix = end < text.length ? '…' : ''
+    const highlights = matches
+        .filter(m => m.start >= start && m.end <= end)
+        .map(m => ({ start: m.start - start + prefix.length, end: m.end - start + prefix.length }))
+
+    return { text: prefix + text.slice(start, end) + suffix, highlights }
+}
+
+/**
+ * In-memory inverted index over cards and chats. Supports prefix matching of
+ * terms, quoted phrases, BM25-style ranking with a title boost, and snippets
+ * with highlighted matches. Documents are added and removed individually so
+ * the index can be kept up to date incrementally.
+ */
+export class SearchIndex {
+    /** Indexed documents by key */
+    private documents = new Map<string, IndexedDocument>()
+    /** Postings by term, then by document key */
+    private postings = new Map<string, Map<string, Posting>>()
+    /** All terms in sorted order for prefix lookups. Rebuilt lazily */
+    private sortedTerms: string[] | null = null
+    /** Sum of all body lengths, for length normalization */
+    private totalLength = 0
+
+    /**
+     * Gets the key a document is stored under. Cards and chats have separate ID spaces
+     */
+    private static keyOf(kind: SearchDocument['kind'], id: string): string {
+        return `${kind}:${id}`
+    }
+
+    /** Number of documents in the index */
+    get size(): number {
+        return this.documents.size
+    }
+
+    /**
+     * Gets an indexed document
+     * @param kind Whether the document is a card or a chat
+     * @param id ID of the card or chat
+     */
+    get(kind: SearchDocument['kind'], id: string): SearchDocument | undefined {
+        return this.documents.get(SearchIndex.keyOf(kind, id))?.document
+    }
+
+    /**
+     * Adds a document to the index, replacing any previous version
+     * @param document The document to index
+     */
+    add(document: SearchDocument): void {
+        const key = SearchIndex.keyOf(document.kind, document.id)
+        this.removeKey(key)
+
+        const byTerm = new Map<string, Posting>()
+        const addTokens = (tokens: Token[], field: keyof Posting) => {
+            tokens.forEach((token, position) => {
+                let posting = byTerm.get(token.term)
+                if (!posting) {
+                    posting = { title: [], text: [] }
+                    byTerm.set(token.term, posting)
+                }
+                posting[field].push(position)
+            })
+        }
+
+        const textTokens = tokenize(document.text)
+        addTokens(tokenize(document.title), 'title')
+        addTokens(textTokens, 'text')
+
+        for (const [term, posting] of byTerm) {
+            let docs = this.postings.get(term)
+            if (!docs) {
+                docs = new Map()
+                this.postings.set(term, docs)
+                this.sortedTerms = null
+            }
+            docs.set(key, posting)
+        }
+
+        this.documents.set(key, { document, terms: Array.from(byTerm.keys()), length: textTokens.length })
+        this.totalLength += textTokens.length
+    }
+
+    /**
+     * Removes a document from the index
+     * @param kind Whether the document is a card or a chat
+     * @param id ID of the card or chat
+     */
+    remove(kind: SearchDocument['kind'], id: string): void {
+        this.removeKey(SearchIndex.keyOf(kind, id))
+    }
+
+    /** Removes every document */
+    clear(): void {
+        this.documents.clear()
+        this.postings.clear()
+        this.sortedTerms = null
+        this.totalLength = 0
+    }
+
+    private removeKey(key: string): void {
+        const indexed = this.documents.get(key)
+        if (!indexed) return
+
+        for (const term of indexed.terms) {
+            const docs = this.postings.get(term)
+            if (!docs) continue
+            docs.delete(key)
+            if (docs.size === 0) {
+                this.postings.delete(term)
+                this.sortedTerms = null
+            }
+        }
+        this.documents.delete(key)
+        this.totalLength -= indexed.length
+    }
+
+    /**
+     * Gets the indexed terms that start with a prefix
+     */
+    private termsWithPrefix(prefix: string): string[] {
+        if (!this.sortedTerms) {
+            this.sortedTerms = Array.from(this.postings.keys()).sort()
+        }
+        const terms: string[] = []
+        for (let i = lowerBound(this.sortedTerms, prefix); i < this.sortedTerms.length; i++) {
+            if (!this.sortedTerms[i].startsWith(prefix)) break
+            terms.push(this.sortedTerms[i])
+        }
+        return terms
+    }
+
+    /**
+     * Scores how well a document matches one indexed term
+     */
+    private scoreTerm(term: string, key: string): number {
+        const docs = this.postings.get(term)!
+        const posting = docs.get(key)
+        if (!posting) return 0
+
+        const idf = Math.log(1 + (this.documents.size - docs.size + 0.5) / (docs.size + 0.5))
+        const length = this.documents.get(key)!.length
+        const averageLength = this.totalLength / Math.max(1, this.documents.size) || 1
+        const tf = posting.text.length + posting.title.length * TITLE_WEIGHT
+        return idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / averageLength))
+    }
+
+    /**
+     * Checks whether a document contains a phrase in its title or body
+     */
+    private containsPhrase(phrase: string[], key: string): boolean {
+        const postings = phrase.map(term => this.postings.get(term)?.get(key))
+        if (postings.some(p => !p)) return false
+
+        return (['title', 'text'] as const).some(field =>
+            postings[0]![field].some(position =>
+                postings.every((posting, offset) => posting![field].includes(position + offset))
+            )
+        )
+    }
+
+    /**
+     * Searches the index. Every term and phrase in the query must match
+     * @param query The query as typed. Quoted text is matched as a phrase
+     * @param options.limit Maximum number of results
+     * @returns Matching documents, best first
+     */
+    search(query: string, options: { limit?: number } = {}): SearchResult[] {
+        const parsed = parseQuery(query)
+        if (parsed.terms.length === 0 && parsed.phrases.length === 0) return []
+
+        let candidates: Map<string, number> | null = null
+
+        // Each term must match some indexed word, exactly or as a prefix
+        for (const term of parsed.terms) {
+            const scores = new Map<string, number>()
+            for (const indexedTerm of this.termsWithPrefix(term)) {
+                const weight = indexedTerm === term ? 1 : PREFIX_WEIGHT
+                for (const key of this.postings.get(indexedTerm)!.keys()) {
+                    if (candidates && !candidates.has(key)) continue
+                    const score = this.scoreTerm(indexedTerm, key) * weight
+                    scores.set(key, Math.max(scores.get(key) ?? 0, score))
+                }
+            }
+            candidates = candidates
+                ? new Map(Array.from(scores, ([key, score]) => [key, candidates!.get(key)! + score]))
+                : scores
+            if (candidates.size === 0) return []
+        }
+
+        for (const phrase of parsed.phrases) {
+            const first = this.postings.get(phrase[0])
+            if (!first) return []
+            const scores = new Map<string, number>()
+            for (const key of first.keys()) {
+                if (candidates && !candidates.has(key)) continue
+                if (!this.containsPhrase(phrase, key)) continue
+                const score = phrase.reduce((sum, term) => sum + this.scoreTerm(term, key), 0)
+                scores.set(key, (candidates?.get(key) ?? 0) + score)
+            }
+            candidates = scores
+            if (candidates.size === 0) return []
+        }
+
+        const ranked = Array.from(candidates!, ([key, score]) => ({ indexed: this.documents.get(key)!, score }))
+            .sort((a, b) => b.score - a.score || b.indexed.document.updatedAt.localeCompare(a.indexed.document.updatedAt))
+            .slice(0, options.limit ?? 50)
+
+        return ranked.map(({ indexed, score }) => {
+            const { document } = indexed
+            return {
+                document,
+                score,
+                titleHighlights: findMatches(tokenize(document.title), parsed),
+                snippet: buildSnippet(document.text, findMatches(tokenize(document.text), parsed))
+            }
+        })
+    }
+}
@@ -0,0 +1,166 @@
+import type { Store } from '../../Store'
+import type { Card, Chat } from '../../types'
+import { getCardTitle, getCardSearchableContent } from '../cards'
+import { getChatDisplayTitle } from '../chatSummaries'
+import { SearchIndex, type SearchDocument } from './SearchIndex'
+
+/**
+ * Converts a card to a search document
+ */
+export function cardToSearchDocument(card: Card): SearchDocument {
+    return {
+        id: card.id,
+        kind: 'card',
+        boardId: card.boardId,
+        title: getCardTitle(card),
+        text: getCardSearchableContent(card),
+        updatedAt: card.updatedAt
+    }
+}
+
+/**
+ * Converts a saved chat to a search document
+ */
+export function chatToSearchDocument(chat: Chat): SearchDocument {
+    return {
+        id: chat.id,
+        kind: 'chat',
+        boardId: chat.boardId,
+        title: getChatDisplayTitle(chat),
+        text: chat.messages.map(m => m.content).join('\n\n'),
+        updatedAt: chat.updatedAt
+    }
+}
+
+/** Subscriptions and indexed versions for one board */
+interface BoardSubscription {
+    unsubscribe: () => void
+    /** updatedAt of each indexed card by ID */
+    cards: Map<string, string>
+    /** The board's cards, as last delivered by the store */
+    currentCards: Card[]
+    /** updatedAt of each indexed chat by ID */
+    chats: Map<string, string>
+}
+
+/**
+ * Keeps a SearchIndex in sync with every board's cards and chats in a store.
+ * Store subscriptions deliver full lists, so each update is diffed against
+ * what is already indexed and only changed documents are re-indexed.
+ * The cards are also kept, so that they need not be loaded a second time.
+ */
+export class StoreSearchIndex {
+    /** The underlying index */
+    readonly index = new SearchIndex()
+    private boards = new Map<string, BoardSubscription>()
+    private listeners = new Set<() => void>()
+    private unsubscribeBoards: () => void
+
+    /**
+     * Starts indexing a store. Call dispose() to stop
+     * @param store The store to index
+     */
+    constructor(private store: Store) {
+        this.unsubscribeBoards = store.getBoards(boards => this.syncBoards(boards.map(b => b.id)))
+    }
+
+    /**
+     * Listens for changes to the index
+     * @param listener Called after documents are added or removed
+     * @returns Function to stop listening
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener)
+        return () => {
+            this.listeners.delete(listener)
+        }
+    }
+
+    /**
+     * Gets the cards of every board, as last delivered by the store
+     */
+    getCards(): Card[] {
+        return Array.from(this.boards.values()).flatMap(board => board.currentCards)
+    }
+
+    /** Stops all subscriptions and clears the index */
+    dispose(): void {
+        this.unsubscribeBoards()
+        for (const board of this.boards.values()) {
+            board.unsubscribe()
+        }
+        this.boards.clear()
+        this.index.clear()
+        this.listeners.clear()
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener())
+    }
+
+    /**
+     * Subscribes to added boards and drops removed ones
+     */
+    private syncBoards(boardIds: string[]): void {
+        let changed = false
+
+        for (const [boardId, board] of this.boards) {
+            if (boardIds.includes(boardId)) continue
+            board.unsubscribe()
+            board.cards.forEach((_, id) => this.index.remove('card', id))
+            board.chats.forEach((_, id) => this.index.remove('chat', id))
+            this.boards.delete(boardId)
+            changed = true
+        }
+
+        for (const boardId of boardIds) {
+            if (this.boards.has(boardId)) continue
+            const board: BoardSubscription = { unsubscribe: () => {}, cards: new Map(), currentCards: [], chats: new Map() }
+            this.boards.set(boardId, board)
+
+            const unsubscribeCards = this.store.getCardsByBoard(boardId, cards => {
+                board.currentCards = cards
+                this.syncDocuments(board.cards, cards.map(cardToSearchDocument), 'card')
+                // Listeners are told even if nothing indexed changed, as they may use the cards
+                this.notify()
+            })
+            const unsubscribeChats = this.store.getChatsByBoard(boardId, chats => {
+                if (this.syncDocuments(board.chats, chats.map(chatToSearchDocument), 'chat')) this.notify()
+            })
+            board.unsubscribe = () => {
+                unsubscribeCards()
+                unsubscribeChats()
+            }
+        }
+
+        if (changed) this.notify()
+    }
+
+    /**
+     * Indexes new and changed documents and removes missing ones
+     * @param indexed updatedAt of each document currently indexed for the board
+     * @param documents The board's current documents
+     * @returns Whether anything changed
+     */
+    private syncDocuments(indexed: Map<string, string>, documents: SearchDocument[], kind: SearchDocument['kind']): boolean {
+        let changed = false
+        const ids = new Set(documents.map(d => d.id))
+
+        for (const id of Array.from(indexed.keys())) {
+            if (!ids.has(id)) {
+                this.index.remove(kind, id)
+                indexed.delete(id)
+                changed = true
+            }
+        }
+
+        for (const document of documents) {
+            if (indexed.get(document.id) === document.updatedAt) continue
+            this.index.add(document)
+            indexed.set(document.id, document.updatedAt)
+            changed = true
+        }
+
+        return changed
+    }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { parseCardQuery, matchesCardQuery, queryHasBoardFilter, QueryParseError } from './query'
+import type { Board } from '../../types'
+import { makeCard } from '../../test/fixtures'
+
+/** The card the queries are matched against */
+const card = makeCard({
+    boardId: 'board-1',
+    title: 'Q3 budget',
+    tags: ['q3'],
+    markdown: 'Draft of the exact phrase we agreed on',
+    createdAt: '2025-12-15T10:00:00.000Z',
+    updatedAt: '2026-02-01T10:00:00.000Z'
+})
+
+const boards: Board[] = [{
+    id: 'board-1',
+    title: 'Research',
+    viewType: 'vertical',
+    layoutConfig: {},
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+}]
+
+/** Parses a query and matches it against a card */
+function matches(query: string): boolean {
+    return matchesCardQuery(card, parseCardQuery(query), { boards })
+}
+
+describe('query', () => {
+    describe('parseCardQuery', () => {
+        it('should parse filters, negation and phrases', () => {
+            expect(parseCardQuery('title:budget -draft "exact phrase" updated:>2026-01-01').clauses).toEqual([
+                { type: 'field', field: 'title', value: 'budget', negated: false },
+                { type: 'text', value: 'draft', negated: true },
+                { type: 'text', value: 'exact phrase', negated: false },
+                { type: 'date', field: 'updated', operator: '>', date: '2026-01-01', negated: false }
+            ])
+        })
+
+        it('should accept quoted filter values and aliases', () => {
+            expect(parseCardQuery('board:"Research Lab" is:note').clauses).toEqual([
+                { type: 'field', field: 'board', value: 'research lab', negated: false },
+                { type: 'field', field: 'type', value: 'richtext', negated: false }
+            ])
+        })
+
+        it('should treat URLs as text', () => {
+            expect(parseCardQuery('https://example.com').clauses).toEqual([
+                { type: 'text', value: 'https://example.com', negated: false }
+            ])
+        })
+
+        it('should treat words ending in a colon that are not filters as text', () => {
+            expect(parseCardQuery('Re: meeting TODO:call').clauses).toEqual([
+                { type: 'text', value: 're:', negated: false },
+                { type: 'text', value: 'meeting', negated: false },
+                { type: 'text', value: 'todo:call', negated: false }
+            ])
+        })
+
+        it.each([
+            ['title:', 'Missing value after title:', 0],
+            ['"unclosed', 'Missing closing quote', 0],
+            ['updated:>2026-13-01', 'Invalid date "2026-13-01"', 8],
+            ['type:video', 'Unknown type "video"', 5],
+            ['budget - draft', 'Expected a word or filter after "-"', 7]
+        ])('should reject %s', (query, message, position) => {
+            try {
+                parseCardQuery(query)
+                expect.unreachable()
+            } catch (err) {
+                expect(err).toBeInstanceOf(QueryParseError)
+                expect((err as QueryParseError).message).toContain(message)
+                expect((err as QueryParseError).position).toBe(position)
+            }
+        })
+    })
+
+    describe('matchesCardQuery', () => {
+        it('should match text in the title or content', () => {
+            expect(matches('budget')).toBe(true)
+            expect(matches('"exact phrase"')).toBe(true)
+            expect(matches('"phrase exact"')).toBe(false)
+        })
+
+        it('should apply field filters', () => {
+            expect(matches('title:budget tag:Q3 type:note board:research')).toBe(true)
+            expect(matches('content:budget')).toBe(false)
+            expect(matches('tag:q4')).toBe(false)
+            expect(matches('board:Personal')).toBe(false)
+        })
+
+        it('should exclude negated clauses', () => {
+            expect(matches('budget -draft')).toBe(false)
+            expect(matches('budget -tag:q4')).toBe(true)
+        })
+
+        it('should compare dates by day', () => {
+            expect(matches('updated:>2026-01-01')).toBe(true)
+            expect(matches('updated:2026-02-01')).toBe(true)
+            expect(matches('created:>=2026-01-01')).toBe(false)
+            expect(matches('created:<2026-01-01 updated:<=2026-02-01')).toBe(true)
+        })
+
+        it('should match everything for an empty query', () => {
+            expect(matches('  ')).toBe(true)
+        })
+    })
+
+    describe('queryHasBoardFilter', () => {
+        it('should detect positive board filters', () => {
+            expect(queryHasBoardFilter(parseCardQuery('board:research budget'))).toBe(true)
+            expect(queryHasBoardFilter(parseCardQuery('-board:research budget'))).toBe(false)
+        })
+    })
+})
@@ -0,0 +1,244 @@
+import type { Board, Card } from '../../types'
+import { getCardTitle, getCardSearchableContent } from '../cards'
+import { cardMatchesTagFilter, normalizeTag } from '../tags'
+
+/** Fields that can be filtered on with text */
+export type TextField = 'title' | 'content' | 'tag' | 'type' | 'board'
+
+/** Fields that can be filtered on with dates */
+export type DateField = 'created' | 'updated'
+
+/** Comparison operators for date filters */
+export type DateOperator = '>' | '>=' | '<' | '<=' | '='
+
+/** One condition in a card query. A card must satisfy every clause */
+export type QueryClause =
+    | {
+        /** Free text matched against the title and content */
+        type: 'text'
+        /** The text, lowercased */
+        value: string
+        /** Whether the clause excludes matching cards */
+        negated: boolean
+    }
+    | {
+        /** A field:value filter */
+        type: 'field'
+        field: TextField
+        /** The value, lowercased */
+        value: string
+        negated: boolean
+    }
+    | {
+        /** A date comparison such as updated:>2026-01-01 */
+        type: 'date'
+        field: DateField
+        operator: DateOperator
+        /** The date in YYYY-MM-DD format */
+        date: string
+        negated: boolean
+    }
+
+/** A parsed card query */
+export interface CardQuery {
+    /** Conditions that must all be satisfied */
+    clauses: QueryClause[]
+}
+
+/** Extra information needed to evaluate some filters */
+export interface CardQueryContext {
+    /** Boards, for board: filters */
+    boards?: Board[]
+}
+
+/**
+ * Error thrown when a search query is malformed
+ */
+export class QueryParseError extends Error {
+    constructor(
+        message: string,
+        /** Character offset in the query where the problem was found */
+        public position: number
+    ) {
+        super(message)
+        this.name = 'QueryParseError'
+    }
+}
+
+/** Filter names and aliases mapped to the field they filter */
+const FIELD_ALIASES: Record<string, TextField | DateField> = {
+    title: 'title',
+    content: 'content',
+    body: 'content',
+    text: 'content',
+    tag: 'tag',
+    type: 'type',
+    is: 'type',
+    board: 'board',
+    created: 'created',
+    createdat: 'created',
+    updated: 'updated',
+    updatedat: 'updated',
+    modified: 'updated'
+}
+
+/** Card types that can be used with type:, with friendly aliases */
+const TYPE_ALIASES: Record<string, Card['type']> = {
+    richtext: 'richtext',
+    note: 'richtext',
+    text: 'richtext',
+    file: 'file',
+    image: 'image'
+}
+
+/** Short description of the query syntax for display */
+export const QUERY_SYNTAX_HELP = 'title:  content:  tag:  type:  board:  created:>YYYY-MM-DD  updated:<YYYY-MM-DD  -exclude  "exact phrase"'
+
+/**
+ * Reads a possibly quoted value starting at an offset
+ * @returns The value and the offset after it
+ */
+function readValue(query: string, start: number): { value: string, end: number } {
+    if (query[start] === '"') {
+        const close = query.indexOf('"', start + 1)
+        if (close < 0) {
+            throw new QueryParseError('Missing closing quote', start)
+        }
+        return { value: query.slice(start + 1, close), end: close + 1 }
+    }
+    let end = start
+    while (end < query.length && !/\s/.test(query[end])) end++
+    return { value: query.slice(start, end), end }
+}
+
+/**
+ * Parses a date filter value such as >=2026-01-01
+ */
+function parseDateClause(field: DateField, raw: string, position: number, negated: boolean): QueryClause {
+    const match = /^(>=|<=|>|<|=)?(.*)$/.exec(raw)!
+    const operator = (match[1] ?? '=') as DateOperator
+    const date = match[2]
+
+    const parsed = new Date(`${date}T00:00:00.000Z`)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+        throw new QueryParseError(`Invalid date "${date}" for ${field}:. Use YYYY-MM-DD, e.g. ${field}:>2026-01-01`, position)
+    }
+    return { type: 'date', field, operator, date, negated }
+}
+
+/**
+ * Parses a search query into clauses
+ * @param query The query as typed, e.g. title:budget tag:q3 updated:>2026-01-01 -draft "exact phrase"
+ * @returns The parsed query
+ * @throws QueryParseError if the query is malformed
+ */
+export function parseCardQuery(query: string): CardQuery {
+    const clauses: QueryClause[] = []
+    let i = 0
+
+    while (i < query.length) {
+        if (/\s/.test(query[i])) {
+            i++
+            continue
+        }
+
+        const start = i
+        let negated = false
+        if (query[i] === '-') {
+            negated = true
+            i++
+            if (i >= query.length || /\s/.test(query[i])) {
+                throw new QueryParseError('Expected a word or filter after "-"', start)
+            }
+        }
+
+        // field:value. Other words ending in a colon, such as Re: or TODO:, are text
+        const fieldMatch = /^([a-zA-Z]+):/.exec(query.slice(i))
+        const field = fieldMatch ? FIELD_ALIASES[fieldMatch[1].toLowerCase()] : undefined
+        if (fieldMatch && field && !query.startsWith('//', i + fieldMatch[0].length)) {
+            const valueStart = i + fieldMatch[0].length
+            const { value, end } = readValue(query, valueStart)
+            if (!value.trim()) {
+                throw new QueryParseError(`Missing value after ${fieldMatch[0]}`, i)
+            }
+
+            if (field === 'created' || field === 'updated') {
+                clauses.push(parseDateClause(field, value.trim(), valueStart, negated))
+            } else if (field === 'type') {
+                const cardType = TYPE_ALIASES[value.trim().toLowerCase()]
+                if (!cardType) {
+                    throw new QueryParseError(`Unknown type "${value}". Use note, file or image`, valueStart)
+                }
+                clauses.push({ type: 'field', field, value: cardType, negated })
+            } else {
+                clauses.push({ type: 'field', field, value: value.trim().toLowerCase(), negated })
+            }
+            i = end
+            continue
+        }
+
+        const { value, end } = readValue(query, i)
+        if (value.trim()) {
+            clauses.push({ type: 'text', value: value.trim().toLowerCase(), negated })
+        }
+        i = end
+    }
+
+    return { clauses }
+}
+
+/**
+ * Checks a card against a single clause, ignoring negation
+ */
+function matchesClause(card: Card, clause: QueryClause, context: CardQueryContext): boolean {
+    switch (clause.type) {
+        case 'text': {
+            const title = getCardTitle(card, Number.MAX_SAFE_INTEGER).toLowerCase()
+            const content = getCardSearchableContent(card).toLowerCase()
+            return title.includes(clause.value) || content.includes(clause.value)
+        }
+        case 'field':
+            switch (clause.field) {
+                case 'title':
+                    return getCardTitle(card, Number.MAX_SAFE_INTEGER).toLowerCase().includes(clause.value)
+                case 'content':
+                    return getCardSearchableContent(card).toLowerCase().includes(clause.value)
+                case 'tag':
+                    return cardMatchesTagFilter(card, normalizeTag(clause.value))
+                case 'type':
+                    return card.type === clause.value
+                case 'board': {
+                    const board = context.boards?.find(b => b.id === card.boardId)
+                    return card.boardId === clause.value || !!board?.title.toLowerCase().includes(clause.value)
+                }
+            }
+            return false
+        case 'date': {
+            const day = (clause.field === 'created' ? card.createdAt : card.updatedAt).slice(0, 10)
+            switch (clause.operator) {
+                case '>': return day > clause.date
+                case '>=': return day >= clause.date
+                case '<': return day < clause.date
+                case '<=': return day <= clause.date
+                case '=': return day === clause.date
+            }
+        }
+    }
+}
+
+/**
+ * Checks whether a card matches a parsed query
+ * @param card The card to check
+ * @param query The parsed query
+ * @param context Extra information for board: filters
+ */
+export function matchesCardQuery(card: Card, query: CardQuery, context: CardQueryContext = {}): boolean {
+    return query.clauses.every(clause => matchesClause(card, clause, context) !== clause.negated)
+}
+
+/**
+ * Checks whether a query filters on board, and so should search beyond the current board
+ */
+export function queryHasBoardFilter(query: CardQuery): boolean {
+    return query.clauses.some(clause => clause.type === 'field' && clause.field === 'board' && !clause.negated)
+}
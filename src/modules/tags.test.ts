@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import {
+    normalizeTag,
+    extractInlineTags,
+    getCardTags,
+    getAllTags,
+    cardMatchesTagFilter,
+    UNTAGGED_FILTER
+} from './tags'
+import { makeCard } from '../test/fixtures'
+
+describe('tags', () => {
+    describe('normalizeTag', () => {
+        it('should strip the leading # and lowercase', () => {
+            expect(normalizeTag('  #Work ')).toBe('work')
+        })
+
+        it('should replace spaces with dashes', () => {
+            expect(normalizeTag('Reading List')).toBe('reading-list')
+        })
+    })
+
+    describe('extractInlineTags', () => {
+        it('should find tags in text', () => {
+            expect(extractInlineTags('#Todo call Bob about #project/alpha and #todo'))
+                .toEqual(['todo', 'project/alpha'])
+        })
+
+        it('should ignore headings, numbers, anchors and entities', () => {
+            expect(extractInlineTags('# Heading\n## Sub\nIssue #123, see page#anchor or &#39;'))
+                .toEqual([])
+        })
+
+        it('should support non-latin tags', () => {
+            expect(extractInlineTags('Notizen #Bücher')).toEqual(['bücher'])
+        })
+    })
+
+    describe('getCardTags', () => {
+        it('should combine assigned and inline tags', () => {
+            expect(getCardTags(makeCard({ markdown: 'About #Beta', tags: ['Gamma', 'alpha'] }))).toEqual(['alpha', 'beta', 'gamma'])
+        })
+    })
+
+    describe('getAllTags', () => {
+        it('should collect unique tags across cards', () => {
+            expect(getAllTags([makeCard({ markdown: '#b' }), makeCard({ tags: ['a', 'b'] })])).toEqual(['a', 'b'])
+        })
+    })
+
+    describe('cardMatchesTagFilter', () => {
+        const tagged = makeCard({ tags: ['work'] })
+        const untagged = makeCard({ markdown: 'No tags here' })
+
+        it('should match everything without a filter', () => {
+            expect(cardMatchesTagFilter(tagged, null)).toBe(true)
+            expect(cardMatchesTagFilter(untagged, null)).toBe(true)
+        })
+
+        it('should match cards with the tag', () => {
+            expect(cardMatchesTagFilter(tagged, 'work')).toBe(true)
+            expect(cardMatchesTagFilter(untagged, 'work')).toBe(false)
+        })
+
+        it('should match untagged cards', () => {
+            expect(cardMatchesTagFilter(tagged, UNTAGGED_FILTER)).toBe(false)
+            expect(cardMatchesTagFilter(untagged, UNTAGGED_FILTER)).toBe(true)
+        })
+    })
+})
@@ -0,0 +1,70 @@
+import type { Card } from '../types'
+
+/** Tag filter value that matches cards without any tags */
+export const UNTAGGED_FILTER = ':untagged'
+
+/**
+ * Matches an inline #tag. Tags must start with a letter or underscore so
+ * headings ("# Title") and numbers ("#123") are not treated as tags
+ */
+export const INLINE_TAG_PATTERN = /(^|[^\p{L}\p{N}_&/#])#([\p{L}_][\p{L}\p{N}_/-]*)/gu
+
+/**
+ * Normalizes a tag for storage and comparison
+ * @param tag The tag as typed, with or without a leading #
+ * @returns The lowercase tag with spaces replaced by dashes, or an empty string if invalid
+ */
+export function normalizeTag(tag: string): string {
+    return tag
+        .trim()
+        .replace(/^#+/, '')
+        .replace(/\s+/g, '-')
+        .toLowerCase()
+}
+
+/**
+ * Extracts the inline #tags from markdown
+ * @param markdown The markdown to scan
+ * @returns Unique normalized tags in order of first appearance
+ */
+export function extractInlineTags(markdown: string): string[] {
+    const tags = new Set<string>()
+    for (const match of markdown.matchAll(INLINE_TAG_PATTERN)) {
+        tags.add(normalizeTag(match[2]))
+    }
+    return Array.from(tags)
+}
+
+/**
+ * Gets all tags of a card, combining its assigned tags with inline #tags in its content
+ * @param card The card to get the tags for
+ * @returns Unique normalized tags, sorted alphabetically
+ */
+export function getCardTags(card: Card): string[] {
+    const tags = new Set((card.tags ?? []).map(normalizeTag).filter(Boolean))
+    if (card.type === 'richtext') {
+        extractInlineTags(card.content.markdown).forEach(tag => tags.add(tag))
+    }
+    return Array.from(tags).sort()
+}
+
+/**
+ * Gets every tag used by a set of cards
+ * @param cards The cards to collect tags from
+ * @returns Unique tags, sorted alphabetically
+ */
+export function getAllTags(cards: Card[]): string[] {
+    return Array.from(new Set(cards.flatMap(getCardTags))).sort()
+}
+
+/**
+ * Checks whether a card matches a tag filter
+ * @param card The card to check
+ * @param filter A tag, UNTAGGED_FILTER, or null to match every card
+ */
+export function cardMatchesTagFilter(card: Card, filter: string | null): boolean {
+    if (filter === null) return true
+    const tags = getCardTags(card)
+    if (filter === UNTAGGED_FILTER) return tags.length === 0
+    return tags.includes(filter)
+}
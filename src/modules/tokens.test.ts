@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { estimateTokens, estimateMessageTokens, formatTokenCount } from './tokens'
+
+describe('tokens', () => {
+    describe('estimateTokens', () => {
+        it('should count about four characters per token', () => {
+            expect(estimateTokens('')).toBe(0)
+            expect(estimateTokens('abcd')).toBe(1)
+            expect(estimateTokens('a'.repeat(401))).toBe(101)
+        })
+
+        it('should count CJK characters as a token each', () => {
+            expect(estimateTokens('日本語のテキスト')).toBe(8)
+            expect(estimateTokens('abcd日本')).toBe(3)
+        })
+    })
+
+    describe('estimateMessageTokens', () => {
+        it('should add the message overhead', () => {
+            expect(estimateMessageTokens({ role: 'user', content: 'abcd', createdAt: '' })).toBe(5)
+        })
+    })
+
+    describe('formatTokenCount', () => {
+        it('should abbreviate large counts', () => {
+            expect(formatTokenCount(950)).toBe('950')
+            expect(formatTokenCount(12400)).toBe('12k')
+            expect(formatTokenCount(1048576)).toBe('1M')
+            expect(formatTokenCount(1250000)).toBe('1.3M')
+        })
+    })
+})
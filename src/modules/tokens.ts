@@ -0,0 +1,40 @@
+import type { ChatMessage } from '../types'
+
+/** Average characters per token for alphabetic text */
+const CHARS_PER_TOKEN = 4
+/** Tokens added per message for role markers and separators */
+const MESSAGE_OVERHEAD_TOKENS = 4
+/** Tokens assumed for a file attached to a message. Images use up to a few thousand, and PDFs more per page */
+const ATTACHMENT_TOKENS = 1600
+
+/** Characters that tokenizers typically encode as a token or more each: CJK, kana and hangul */
+const WIDE_CHAR_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g
+
+/**
+ * Estimates how many tokens a model will count for some text. This is an
+ * approximation that works across providers, not an exact count
+ * @param text The text to measure
+ * @returns The estimated number of tokens
+ */
+export function estimateTokens(text: string): number {
+    if (!text) return 0
+    const wideChars = text.match(WIDE_CHAR_PATTERN)?.length ?? 0
+    return Math.ceil((text.length - wideChars) / CHARS_PER_TOKEN) + wideChars
+}
+
+/**
+ * Estimates the tokens used by a chat message, including its role overhead and
+ * any attached files
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+    return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS + (message.attachments?.length ?? 0) * ATTACHMENT_TOKENS
+}
+
+/**
+ * Formats a token count compactly, e.g. 950, 12k or 1.2M
+ */
+export function formatTokenCount(tokens: number): string {
+    if (tokens >= 1_000_000) return `${parseFloat((tokens / 1_000_000).toFixed(1))}M`
+    if (tokens >= 1000) return `${Math.round(tokens / 1000)}k`
+    return `${tokens}`
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getExpiredTrash, keepTrashed, purgeExpiredTrash } from './trash'
+import type { Store } from '../Store'
+import type { Board, Trash } from '../types'
+import { makeCard, makeChat } from '../test/fixtures'
+
+const now = new Date('2026-03-31T12:00:00.000Z')
+
+/** Time a number of days before now */
+function daysAgo(days: number): string {
+    return new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+}
+
+function makeBoard(id: string, deletedAt?: string): Board {
+    return { id, title: id, ...(deletedAt ? { deletedAt } : {}) } as Board
+}
+
+/** Makes a store whose trash holds the given items, with mocked purge methods */
+function mockStore(trash: Trash): Store {
+    return {
+        getTrash: vi.fn((callback: (trash: Trash) => void) => {
+            callback(trash)
+            return () => {}
+        }),
+        purgeBoard: vi.fn().mockResolvedValue(undefined),
+        purgeCard: vi.fn().mockResolvedValue(undefined),
+        purgeChat: vi.fn().mockResolvedValue(undefined)
+    } as unknown as Store
+}
+
+describe('keepTrashed', () => {
+    it('should keep the deletion time of a trashed item saved without one', () => {
+        const saved = keepTrashed(makeCard({ id: 'card' }), makeCard({ id: 'card', deletedAt: daysAgo(1) }))
+        expect(saved.deletedAt).toBe(daysAgo(1))
+        expect(keepTrashed(makeChat({ id: 'chat' }), makeChat({ id: 'chat', deletedAt: daysAgo(2) })).deletedAt).toBe(daysAgo(2))
+    })
+
+    it('should save items that are not trashed or not yet stored as they are', () => {
+        const card = makeCard({ id: 'card' })
+        expect(keepTrashed(card, makeCard({ id: 'card' }))).toBe(card)
+        expect(keepTrashed(card, undefined)).toBe(card)
+        expect(keepTrashed(makeCard({ id: 'card', deletedAt: daysAgo(0) }), makeCard({ id: 'card', deletedAt: daysAgo(3) })).deletedAt).toBe(daysAgo(0))
+    })
+})
+
+describe('getExpiredTrash', () => {
+    const trash: Trash = {
+        boards: [makeBoard('old-board', daysAgo(31)), makeBoard('new-board', daysAgo(29))],
+        cards: [makeCard({ id: 'old-card', deletedAt: daysAgo(45) }), makeCard({ id: 'new-card', deletedAt: daysAgo(1) })],
+        chats: [makeChat({ id: 'old-chat', deletedAt: daysAgo(30.5) }), makeChat({ id: 'new-chat', deletedAt: daysAgo(0) })]
+    }
+
+    it('should return items trashed before the retention period', () => {
+        const expired = getExpiredTrash(trash, 30, now)
+        expect(expired.boards.map(board => board.id)).toEqual(['old-board'])
+        expect(expired.cards.map(card => card.id)).toEqual(['old-card'])
+        expect(expired.chats.map(chat => chat.id)).toEqual(['old-chat'])
+    })
+
+    it('should keep items trashed exactly at the cutoff', () => {
+        const expired = getExpiredTrash({ boards: [makeBoard('board', daysAgo(30))], cards: [], chats: [] }, 30, now)
+        expect(expired.boards).toEqual([])
+    })
+
+    it('should keep everything when retention is 0 or less', () => {
+        expect(getExpiredTrash(trash, 0, now)).toEqual({ boards: [], cards: [], chats: [] })
+        expect(getExpiredTrash(trash, -1, now)).toEqual({ boards: [], cards: [], chats: [] })
+    })
+
+    it('should ignore items without a deletion time', () => {
+        const expired = getExpiredTrash({ boards: [makeBoard('board')], cards: [makeCard({ id: 'card' })], chats: [makeChat({ id: 'chat' })] }, 1, now)
+        expect(expired).toEqual({ boards: [], cards: [], chats: [] })
+    })
+})
+
+describe('purgeExpiredTrash', () => {
+    it('should purge only expired items', async () => {
+        vi.useFakeTimers({ now, toFake: ['Date'] })
+        try {
+            const store = mockStore({
+                boards: [makeBoard('old-board', daysAgo(31)), makeBoard('new-board', daysAgo(1))],
+                cards: [makeCard({ id: 'old-card', deletedAt: daysAgo(31) })],
+                chats: [makeChat({ id: 'old-chat', deletedAt: daysAgo(31) }), makeChat({ id: 'new-chat', deletedAt: daysAgo(1) })]
+            })
+            await purgeExpiredTrash(store, 30)
+            expect(store.purgeBoard).toHaveBeenCalledTimes(1)
+            expect(store.purgeBoard).toHaveBeenCalledWith('old-board')
+            expect(store.purgeCard).toHaveBeenCalledWith('old-card')
+            expect(store.purgeChat).toHaveBeenCalledTimes(1)
+            expect(store.purgeChat).toHaveBeenCalledWith('old-chat')
+        } finally {
+            vi.useRealTimers()
+        }
+    })
+
+    it('should not read the trash when retention is 0', async () => {
+        const store = mockStore({ boards: [makeBoard('board', daysAgo(365))], cards: [], chats: [] })
+        await purgeExpiredTrash(store, 0)
+        expect(store.getTrash).not.toHaveBeenCalled()
+        expect(store.purgeBoard).not.toHaveBeenCalled()
+    })
+})
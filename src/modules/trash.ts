@@ -0,0 +1,64 @@
+import type { Store } from '../Store'
+import type { Trash } from '../types'
+
+/** Number of days items stay in the trash when the user has not configured a retention period */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+/**
+ * Keeps an item in the trash when it is saved without a deletion time, such as by an
+ * editor save that was pending when it was moved to the trash. Items are only taken
+ * out of the trash by restoring them
+ * @param item The item being saved
+ * @param stored The item as currently stored, if it exists
+ * @returns The item to save
+ */
+export function keepTrashed<T extends { deletedAt?: string }>(item: T, stored: { deletedAt?: string } | null | undefined): T {
+    if (item.deletedAt || !stored?.deletedAt) return item
+    return { ...item, deletedAt: stored.deletedAt }
+}
+
+/**
+ * Gets the items in the trash that are older than the retention period
+ * @param trash The contents of the trash
+ * @param retentionDays Days to keep items for. 0 keeps them forever
+ * @param now The current time
+ * @returns The expired items
+ */
+export function getExpiredTrash(trash: Trash, retentionDays: number, now: Date = new Date()): Trash {
+    if (retentionDays <= 0) {
+        return { boards: [], cards: [], chats: [] }
+    }
+
+    const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString()
+    const isExpired = (item: { deletedAt?: string }) => !!item.deletedAt && item.deletedAt < cutoff
+
+    return {
+        boards: trash.boards.filter(isExpired),
+        cards: trash.cards.filter(isExpired),
+        chats: trash.chats.filter(isExpired)
+    }
+}
+
+/**
+ * Permanently deletes items that have been in the trash longer than the retention period
+ * @param store The store to purge from
+ * @param retentionDays Days to keep items for. 0 keeps them forever
+ */
+export async function purgeExpiredTrash(store: Store, retentionDays: number): Promise<void> {
+    if (retentionDays <= 0) return
+
+    const trash = await new Promise<Trash>((resolve) => {
+        const unsubscribe = store.getTrash((trash) => {
+            // Defer so unsubscribe is assigned even if the callback fires synchronously
+            setTimeout(() => unsubscribe())
+            resolve(trash)
+        })
+    })
+
+    const expired = getExpiredTrash(trash, retentionDays)
+    await Promise.all([
+        ...expired.boards.map(board => store.purgeBoard(board.id)),
+        ...expired.cards.map(card => store.purgeCard(card.id)),
+        ...expired.chats.map(chat => store.purgeChat(chat.id))
+    ])
+}
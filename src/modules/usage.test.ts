@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { toTokenUsage, addTokenUsage, summarizeUsage, getMonthKey, formatCost, getBudgetWarning } from './usage'
+import type { UsageRecord } from '../types'
+
+function makeRecord(modelId: string, cost: number | null, createdAt: string = '2026-03-15T12:00:00.000Z'): UsageRecord {
+    return {
+        id: `${modelId}-${createdAt}`,
+        boardId: 'board',
+        modelId,
+        source: 'chat',
+        inputTokens: 1000,
+        outputTokens: 200,
+        reasoningTokens: 0,
+        cost,
+        createdAt
+    }
+}
+
+describe('usage', () => {
+    const pricing = { input: 3, output: 15 }
+
+    it('should prefer the cost reported by the provider', () => {
+        expect(toTokenUsage({ inputTokens: 1000, outputTokens: 100, cost: 0.5 }, pricing)?.cost).toBe(0.5)
+    })
+
+    it('should estimate the cost from the model price', () => {
+        const usage = toTokenUsage({ inputTokens: 1_000_000, outputTokens: 100_000, reasoningTokens: 40_000 }, pricing)
+        expect(usage).toEqual({ inputTokens: 1_000_000, outputTokens: 100_000, reasoningTokens: 40_000, cost: 4.5 })
+    })
+
+    it('should leave the cost unknown without a price, and ignore missing usage', () => {
+        expect(toTokenUsage({ inputTokens: 10, outputTokens: 5 }, undefined)?.cost).toBeNull()
+        expect(toTokenUsage(undefined, pricing)).toBeNull()
+        expect(toTokenUsage({}, pricing)).toBeNull()
+    })
+
+    it('should add up usage across requests', () => {
+        const a = toTokenUsage({ inputTokens: 100, outputTokens: 10, cost: 0.1 }, undefined)
+        const b = toTokenUsage({ inputTokens: 200, outputTokens: 20, cost: 0.2 }, undefined)
+        expect(addTokenUsage([a, null, b])).toMatchObject({ inputTokens: 300, outputTokens: 30 })
+        expect(addTokenUsage([a, b])?.cost).toBeCloseTo(0.3)
+        expect(addTokenUsage([a, toTokenUsage({ inputTokens: 1 }, undefined)])?.cost).toBeNull()
+        expect(addTokenUsage([null])).toBeNull()
+    })
+
+    it('should summarize spend by group, most expensive first', () => {
+        const summaries = summarizeUsage([
+            makeRecord('cheap', 0.01),
+            makeRecord('pricey', 1),
+            makeRecord('cheap', 0.02),
+            makeRecord('cheap', null)
+        ], record => record.modelId)
+
+        expect(summaries.map(s => s.key)).toEqual(['pricey', 'cheap'])
+        expect(summaries[1]).toMatchObject({ requests: 3, inputTokens: 3000, unpricedRequests: 1 })
+        expect(summaries[1].cost).toBeCloseTo(0.03)
+    })
+
+    it('should group by month and format costs', () => {
+        expect(getMonthKey('2026-03-15T12:00:00.000Z')).toBe('2026-03')
+        expect(formatCost(1.234)).toBe('$1.23')
+        expect(formatCost(0.00421)).toBe('$0.0042')
+        expect(formatCost(0)).toBe('$0.00')
+    })
+
+    it('should warn when the monthly budget is nearly or fully spent', () => {
+        expect(getBudgetWarning(5, undefined)).toBeNull()
+        expect(getBudgetWarning(5, 10)).toBeNull()
+        expect(getBudgetWarning(8.5, 10)).toBe('You have spent $8.50 of your $10.00 budget this month.')
+        expect(getBudgetWarning(12, 10)).toBe('You have spent $12.00 this month, over your $10.00 budget.')
+    })
+})
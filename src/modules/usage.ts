@@ -0,0 +1,164 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { TokenUsage, UsageRecord, UsageSource } from '../types'
+import type { LLMUsage, ModelPricing } from '../api/llm'
+
+/** Spend of a group of usage records, such as those of one model */
+export interface UsageSummary {
+    /** What the records have in common, such as the model ID */
+    key: string
+    /** Number of requests */
+    requests: number
+    /** Tokens in the prompts */
+    inputTokens: number
+    /** Tokens in the responses */
+    outputTokens: number
+    /** Tokens spent reasoning */
+    reasoningTokens: number
+    /** Cost in US dollars of the requests whose cost is known */
+    cost: number
+    /** Number of requests whose cost is not known */
+    unpricedRequests: number
+}
+
+/** Share of the monthly budget after which the user is warned */
+const BUDGET_WARNING_SHARE = 0.8
+
+/**
+ * Estimates the cost of a request from a model's price
+ * @returns The cost in US dollars
+ */
+export function estimateCost(inputTokens: number, outputTokens: number, pricing: ModelPricing): number {
+    return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000
+}
+
+/**
+ * Converts the usage reported by a provider to what is stored. The cost the provider
+ * reports is used if there is one, otherwise it is estimated from the model's price
+ * @param usage Usage reported by the provider
+ * @param pricing Price of the model, if known
+ * @returns The usage, or null if the provider did not report any tokens
+ */
+export function toTokenUsage(usage: LLMUsage | undefined | void, pricing: ModelPricing | undefined): TokenUsage | null {
+    if (!usage || (usage.inputTokens === undefined && usage.outputTokens === undefined)) return null
+
+    const inputTokens = usage.inputTokens ?? 0
+    const outputTokens = usage.outputTokens ?? 0
+    return {
+        inputTokens,
+        outputTokens,
+        reasoningTokens: usage.reasoningTokens ?? 0,
+        cost: usage.cost ?? (pricing ? estimateCost(inputTokens, outputTokens, pricing) : null)
+    }
+}
+
+/**
+ * Adds up the usage of several requests, such as the rounds of a tool conversation
+ * @returns The total, or null if there was no usage. The cost is null if any cost is unknown
+ */
+export function addTokenUsage(usages: (TokenUsage | null)[]): TokenUsage | null {
+    const known = usages.filter((usage): usage is TokenUsage => usage !== null)
+    if (known.length === 0) return null
+
+    return {
+        inputTokens: known.reduce((sum, usage) => sum + usage.inputTokens, 0),
+        outputTokens: known.reduce((sum, usage) => sum + usage.outputTokens, 0),
+        reasoningTokens: known.reduce((sum, usage) => sum + usage.reasoningTokens, 0),
+        cost: known.some(usage => usage.cost === null) ? null : known.reduce((sum, usage) => sum + usage.cost!, 0)
+    }
+}
+
+/**
+ * Creates a record of the usage of a request, to be added to the store
+ * @param usage Tokens used and their cost
+ * @param modelId ID of the model in our application
+ * @param source What the request was made for
+ * @param boardId Board the request was made from, if any
+ */
+export function createUsageRecord(usage: TokenUsage, modelId: string, source: UsageSource, boardId: string | null): UsageRecord {
+    return {
+        ...usage,
+        id: uuidv4(),
+        boardId,
+        modelId,
+        source,
+        createdAt: new Date().toISOString()
+    }
+}
+
+/**
+ * Gets the start of the calendar month containing a date, in local time
+ * @param monthsBefore Number of months to go back, e.g. 1 for the previous month
+ * @returns The start of the month in ISO 8601 format
+ */
+export function getMonthStart(date: Date, monthsBefore: number = 0): string {
+    return new Date(date.getFullYear(), date.getMonth() - monthsBefore, 1).toISOString()
+}
+
+/**
+ * Gets the calendar month of a timestamp in local time
+ * @returns The month as YYYY-MM
+ */
+export function getMonthKey(timestamp: string): string {
+    const date = new Date(timestamp)
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+/**
+ * Totals the spend of usage records, grouped by a key
+ * @param records The records to total
+ * @param getKey Gets the group of a record, such as its model ID
+ * @returns A summary of each group, most expensive first
+ */
+export function summarizeUsage(records: UsageRecord[], getKey: (record: UsageRecord) => string): UsageSummary[] {
+    const summaries = new Map<string, UsageSummary>()
+
+    for (const record of records) {
+        const key = getKey(record)
+        const summary = summaries.get(key) ?? {
+            key,
+            requests: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            reasoningTokens: 0,
+            cost: 0,
+            unpricedRequests: 0
+        }
+        summary.requests++
+        summary.inputTokens += record.inputTokens
+        summary.outputTokens += record.outputTokens
+        summary.reasoningTokens += record.reasoningTokens
+        if (record.cost === null) {
+            summary.unpricedRequests++
+        } else {
+            summary.cost += record.cost
+        }
+        summaries.set(key, summary)
+    }
+
+    return [...summaries.values()].sort((a, b) => b.cost - a.cost || b.requests - a.requests)
+}
+
+/**
+ * Gets the warning to show for the spend so far this month
+ * @param spent Spend this month in US dollars
+ * @param budget Monthly budget in US dollars, if the user set one
+ * @returns The warning, or null if the budget is not nearly spent
+ */
+export function getBudgetWarning(spent: number, budget: number | undefined): string | null {
+    if (!budget || budget <= 0) return null
+    if (spent >= budget) {
+        return `You have spent ${formatCost(spent)} this month, over your ${formatCost(budget)} budget.`
+    }
+    if (spent >= budget * BUDGET_WARNING_SHARE) {
+        return `You have spent ${formatCost(spent)} of your ${formatCost(budget)} budget this month.`
+    }
+    return null
+}
+
+/**
+ * Formats a cost in US dollars, with more precision for small amounts, e.g. $0.0042 or $1.25
+ */
+export function formatCost(cost: number): string {
+    if (cost > 0 && cost < 0.01) return `$${cost.toFixed(4)}`
+    return `$${cost.toFixed(2)}`
+}
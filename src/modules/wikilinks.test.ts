@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import MarkdownIt from 'markdown-it'
+import { extractWikilinks, findCardByTitle, getBacklinks, wikilinkPlugin } from './wikilinks'
+import { makeCard } from '../test/fixtures'
+
+describe('wikilinks', () => {
+    describe('extractWikilinks', () => {
+        it('should extract unique titles in order', () => {
+            expect(extractWikilinks('See [[Alpha]] and [[ Beta ]], then [[alpha]] again'))
+                .toEqual(['Alpha', 'Beta'])
+        })
+
+        it('should ignore empty and unterminated links', () => {
+            expect(extractWikilinks('[[]] [[Open and [not] closed')).toEqual([])
+        })
+    })
+
+    describe('findCardByTitle', () => {
+        const cards = [
+            makeCard({ id: '1', boardId: 'board-a', title: 'Recipes', markdown: '' }),
+            makeCard({ id: '2', boardId: 'board-b', title: 'Recipes', markdown: '' }),
+            makeCard({ id: '3', boardId: 'board-a', title: '', markdown: '# Untitled heading\nBody' })
+        ]
+
+        it('should match titles case-insensitively and prefer the given board', () => {
+            expect(findCardByTitle(cards, 'recipes')?.id).toBe('1')
+            expect(findCardByTitle(cards, 'Recipes', 'board-b')?.id).toBe('2')
+        })
+
+        it('should match cards without a title by their first line', () => {
+            expect(findCardByTitle(cards, 'Untitled heading')?.id).toBe('3')
+        })
+
+        it('should return undefined for unknown titles', () => {
+            expect(findCardByTitle(cards, 'Missing')).toBeUndefined()
+        })
+    })
+
+    describe('getBacklinks', () => {
+        it('should find cards linking to the target, excluding itself', () => {
+            const target = makeCard({ id: '1', boardId: 'a', title: 'Target', markdown: 'Self link [[Target]]' })
+            const linking = makeCard({ id: '2', boardId: 'b', title: 'Other', markdown: 'Refers to [[target]]' })
+            const unrelated = makeCard({ id: '3', boardId: 'a', title: 'Unrelated', markdown: 'Refers to [[Something else]]' })
+
+            expect(getBacklinks([target, linking, unrelated], target).map(card => card.id)).toEqual(['2'])
+        })
+    })
+
+    describe('wikilinkPlugin', () => {
+        const md = MarkdownIt().use(wikilinkPlugin)
+
+        it('should render links as escaped wikilink spans', () => {
+            expect(md.renderInline('Go to [[A & B]] now'))
+                .toBe('Go to <span data-wikilink="A &amp; B">A &amp; B</span> now')
+        })
+
+        it('should leave regular links alone', () => {
+            expect(md.renderInline('[text](https://example.com)'))
+                .toBe('<a href="https://example.com">text</a>')
+        })
+    })
+})
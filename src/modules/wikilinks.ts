@@ -0,0 +1,104 @@
+import type MarkdownIt from 'markdown-it'
+import type TurndownService from 'turndown'
+import type { Card } from '../types'
+import { getCardTitle } from './cards'
+
+/** Matches a [[Note title]] wikilink, capturing the title */
+const WIKILINK_PATTERN = /\[\[([^[\]\n]+?)\]\]/g
+
+/**
+ * Gets the full title a card is linked by. Unlike the display title this is never truncated
+ * @param card The card to get the link title for
+ */
+export function getLinkTitle(card: Card): string {
+    return getCardTitle(card, Number.MAX_SAFE_INTEGER)
+}
+
+/**
+ * Normalizes a title for comparison so links are case and whitespace insensitive
+ */
+function normalizeTitle(title: string): string {
+    return title.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Extracts the titles of all notes linked from markdown
+ * @param markdown The markdown to scan
+ * @returns Unique linked titles in order of first appearance
+ */
+export function extractWikilinks(markdown: string): string[] {
+    const titles = new Map<string, string>()
+    for (const match of markdown.matchAll(WIKILINK_PATTERN)) {
+        const title = match[1].trim()
+        if (title && !titles.has(normalizeTitle(title))) {
+            titles.set(normalizeTitle(title), title)
+        }
+    }
+    return Array.from(titles.values())
+}
+
+/**
+ * Finds the card a wikilink points to
+ * @param cards Cards to search
+ * @param title The linked title
+ * @param preferredBoardId Board to prefer when several cards share the title
+ * @returns The matching card, if any
+ */
+export function findCardByTitle(cards: Card[], title: string, preferredBoardId?: string): Card | undefined {
+    const normalized = normalizeTitle(title)
+    const matches = cards.filter(card => normalizeTitle(getLinkTitle(card)) === normalized)
+    return matches.find(card => card.boardId === preferredBoardId) ?? matches[0]
+}
+
+/**
+ * Gets the cards that link to a card
+ * @param cards Cards to search
+ * @param target The card being linked to
+ * @returns Cards other than the target containing a wikilink to its title
+ */
+export function getBacklinks(cards: Card[], target: Card): Card[] {
+    const targetTitle = normalizeTitle(getLinkTitle(target))
+    return cards.filter(card =>
+        card.id !== target.id &&
+        card.type === 'richtext' &&
+        extractWikilinks(card.content.markdown).some(title => normalizeTitle(title) === targetTitle)
+    )
+}
+
+/**
+ * markdown-it plugin that renders [[Note title]] as a span the editor's WikiLink node parses
+ */
+export function wikilinkPlugin(md: MarkdownIt): void {
+    md.inline.ruler.before('link', 'wikilink', (state, silent) => {
+        const { src, pos } = state
+        if (src.charCodeAt(pos) !== 0x5B /* [ */ || src.charCodeAt(pos + 1) !== 0x5B) return false
+
+        const end = src.indexOf(']]', pos + 2)
+        if (end < 0) return false
+
+        const title = src.slice(pos + 2, end).trim()
+        if (!title || /[[\]\n]/.test(title)) return false
+
+        if (!silent) {
+            const token = state.push('wikilink', '', 0)
+            token.content = title
+        }
+        state.pos = end + 2
+        return true
+    })
+
+    md.renderer.rules.wikilink = (tokens, idx) => {
+        const title = md.utils.escapeHtml(tokens[idx].content)
+        return `<span data-wikilink="${title}">${title}</span>`
+    }
+}
+
+/**
+ * Adds a turndown rule that converts the editor's wikilink spans back to [[Note title]]
+ */
+export function addWikilinkRule(turndown: TurndownService): void {
+    turndown.addRule('wikilink', {
+        filter: (node) => node.nodeName === 'SPAN' && node.hasAttribute('data-wikilink'),
+        replacement: (_content, node) => `[[${(node as HTMLElement).getAttribute('data-wikilink')}]]`
+    })
+}
@@ -0,0 +1,37 @@
+import type { Chat, RichTextCard } from '../types'
+
+/** When fixtures are created and updated unless they say otherwise */
+const FIXTURE_TIME = '2026-01-01T00:00:00.000Z'
+
+/**
+ * Makes a note for tests
+ * @param fields Fields replacing the defaults, with markdown setting the content
+ */
+export function makeCard({ markdown = '', ...fields }: Partial<RichTextCard> & { markdown?: string } = {}): RichTextCard {
+    return {
+        id: 'card',
+        boardId: 'board',
+        type: 'richtext',
+        title: '',
+        content: { markdown },
+        createdAt: FIXTURE_TIME,
+        updatedAt: FIXTURE_TIME,
+        ...fields
+    }
+}
+
+/**
+ * Makes a chat for tests
+ * @param fields Fields replacing the defaults
+ */
+export function makeChat(fields: Partial<Chat> = {}): Chat {
+    return {
+        id: 'chat',
+        boardId: 'board',
+        title: '',
+        messages: [],
+        createdAt: FIXTURE_TIME,
+        updatedAt: FIXTURE_TIME,
+        ...fields
+    }
+}
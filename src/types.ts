@@ -1,3 +1,5 @@
+import type { PromptTemplate } from './types/settings'
+
 /**
  * Base interface for all card types
  * Contains common properties shared across all cards
@@ -9,10 +11,14 @@ interface BaseCard {
     boardId: string
     /** Title of the card */
     title: string
+    /** Tags assigned to the card, normalized to lowercase without the leading # */
+    tags?: string[]
     /** Timestamp when the card was created in ISO 8601 format */
     createdAt: string
     /** Timestamp when the card was last updated in ISO 8601 format */
     updatedAt: string
+    /** Timestamp when the card was moved to the trash in ISO 8601 format */
+    deletedAt?: string
 }
 
 /**
@@ -60,20 +66,187 @@ export interface ImageCard extends BaseCard {
 /** Union type of all possible card types */
 export type Card = RichTextCard | FileCard | ImageCard
 
+/**
+ * Interface representing a saved revision of a card
+ * Snapshots are taken before a card is overwritten so edits can be recovered
+ */
+export interface CardRevision {
+    /** Unique identifier for the revision */
+    id: string
+    /** Card that the revision belongs to */
+    cardId: string
+    /** Board that the card belonged to when the revision was taken */
+    boardId: string
+    /** Title of the card at the time of the revision */
+    title: string
+    /** Content of the card at the time of the revision */
+    content: Card['content']
+    /** Timestamp when the revision was taken in ISO 8601 format */
+    createdAt: string
+}
+
+/** A passage of a note along with its embedding vector */
+export interface EmbeddedChunk {
+    /** Text of the passage */
+    text: string
+    /** Embedding vector of the passage */
+    vector: number[]
+}
+
+/**
+ * Interface representing the embeddings of a card's content
+ * Used to find the notes most relevant to a chat message
+ */
+export interface CardEmbedding {
+    /** Card that the embedding belongs to. Also the record's ID */
+    cardId: string
+    /** Board that the card belongs to */
+    boardId: string
+    /** Embedding model used, so embeddings from a different model can be detected */
+    model: string
+    /** Hash of the text that was embedded, so embeddings of edited cards can be detected */
+    contentHash: string
+    /** The embedded passages, in order */
+    chunks: EmbeddedChunk[]
+    /** Timestamp when the embedding was computed in ISO 8601 format */
+    updatedAt: string
+}
+
+/** A note used to answer a chat message */
+export interface ChatMessageSource {
+    /** ID of the card */
+    cardId: string
+    /** Title of the card when the message was sent */
+    title: string
+}
+
+/** Something the assistant did with a tool while writing a message */
+export interface ChatToolActivity {
+    /** Name of the tool */
+    tool: string
+    /** What was done, e.g. 'Searched notes for "budget"' */
+    description: string
+    /** ID of the card the tool read or created, if any */
+    cardId?: string
+}
+
+/** A change to a note proposed by the assistant. It is only applied once the user accepts it */
+export interface ProposedNoteEdit {
+    /** Unique identifier for the proposal */
+    id: string
+    /** ID of the card to change */
+    cardId: string
+    /** Title of the card when the edit was proposed */
+    title: string
+    /** Content of the card when the edit was proposed */
+    originalMarkdown: string
+    /** Proposed new content of the card */
+    markdown: string
+    /** The assistant's description of the change */
+    summary: string
+    /** Whether the user has accepted or rejected the edit */
+    status: 'pending' | 'accepted' | 'rejected'
+}
+
+/** Tokens used to generate a response, and what they cost */
+export interface TokenUsage {
+    /** Tokens in the prompt */
+    inputTokens: number
+    /** Tokens in the response, including any reasoning */
+    outputTokens: number
+    /** Tokens the model spent reasoning. Already counted in outputTokens */
+    reasoningTokens: number
+    /** Cost in US dollars, or null if the model's price is not known */
+    cost: number | null
+}
+
+/** What a model request was made for */
+export type UsageSource = 'chat' | 'quiz' | 'image'
+
+/**
+ * Interface representing a record of the tokens used by a model request
+ * Kept to show the user what they are spending
+ */
+export interface UsageRecord extends TokenUsage {
+    /** Unique identifier for the record */
+    id: string
+    /** Board the request was made from, or null if it was not made from a board */
+    boardId: string | null
+    /** ID of the model in our application */
+    modelId: string
+    /** What the request was made for */
+    source: UsageSource
+    /** Timestamp when the request was made in ISO 8601 format */
+    createdAt: string
+}
+
 /**
  * Interface representing a chat message
  */
 export interface ChatMessage {
+    /** Unique identifier of the message. Messages of chats that have never branched may have none */
+    id?: string
     /** Role of who sent the message */
     role: 'user' | 'assistant'
     /** Content of the message */
     content: string
     /** For assistant messages, which LLM was used */
     llm?: string
+    /** For assistant messages answered by the backup model, the model that failed */
+    fallbackFrom?: string
+    /**
+     * For assistant messages written side by side with other models' answers to the
+     * same message, identifies the comparison. The other answers are versions of the message
+     */
+    comparisonId?: string
+    /** For assistant messages, the notes retrieved as context for the answer */
+    sources?: ChatMessageSource[]
+    /** For assistant messages, the tools used while writing the answer */
+    toolActivity?: ChatToolActivity[]
+    /** For assistant messages, edits to notes the assistant proposed */
+    proposedEdits?: ProposedNoteEdit[]
+    /** For assistant messages, the tokens used to write the answer */
+    usage?: TokenUsage
+    /**
+     * For assistant messages, the reasoning the model did before answering. Shown
+     * to the user but never sent back to the model
+     */
+    reasoning?: string
+    /** For user messages, files the user attached. Their content is stored separately */
+    attachments?: ChatAttachment[]
     /** Timestamp when the message was created in ISO 8601 format */
     createdAt: string
 }
 
+/** A file attached to a chat message */
+export interface ChatAttachment {
+    /** Unique identifier for the attachment. Also the ID of its stored content */
+    id: string
+    /** File name, as shown to the user */
+    name: string
+    /** MIME type of the content, e.g. image/jpeg or application/pdf */
+    mimeType: string
+    /** Size of the content in bytes */
+    size: number
+}
+
+/**
+ * Interface representing the content of a file attached to a chat message
+ * Kept apart from the chat so that loading chats does not load every file
+ */
+export interface ChatAttachmentData {
+    /** ID of the attachment */
+    id: string
+    /** Chat that the attachment belongs to */
+    chatId: string
+    /** Board that the chat belongs to */
+    boardId: string
+    /** Content of the file as a data URL */
+    dataUrl: string
+    /** Timestamp when the file was attached in ISO 8601 format */
+    createdAt: string
+}
+
 /**
  * Interface representing a chat thread
  */
@@ -84,12 +257,27 @@ export interface Chat {
     boardId: string
     /** Title of the chat thread */
     title: string
-    /** Array of messages in the chat */
+    /** Messages of the branch being shown, from the first to the last */
     messages: ChatMessage[]
+    /**
+     * Messages of the other branches, kept when a message is edited or an answer
+     * regenerated so that the earlier versions can be shown again
+     */
+    branchMessages?: ChatBranchMessage[]
     /** Timestamp when the chat was created in ISO 8601 format */
     createdAt: string
     /** Timestamp when the chat was last updated in ISO 8601 format */
     updatedAt: string
+    /** Timestamp when the chat was moved to the trash in ISO 8601 format */
+    deletedAt?: string
+}
+
+/** A message in a branch of a chat other than the one being shown */
+export interface ChatBranchMessage {
+    /** ID of the message it follows, or null if it is the first message of the chat */
+    parentId: string | null
+    /** The message, which always has an ID */
+    message: ChatMessage
 }
 
 /**
@@ -115,10 +303,28 @@ export interface Board {
     }
     /** Free-text instructions applied to all chats on this board */
     customInstructions?: string
+    /** Prompts that can be sent from chat on this board only */
+    prompts?: PromptTemplate[]
     /** Timestamp when the board was created in ISO 8601 format */
     createdAt: string
     /** Timestamp when the board was last updated in ISO 8601 format */
     updatedAt: string
+    /** Timestamp when the board was moved to the trash in ISO 8601 format */
+    deletedAt?: string
+}
+
+/**
+ * Interface representing the contents of the trash
+ * Cards and chats of a trashed board are not listed separately; they are
+ * restored or purged along with their board
+ */
+export interface Trash {
+    /** Boards that have been moved to the trash */
+    boards: Board[]
+    /** Cards that have been moved to the trash individually */
+    cards: Card[]
+    /** Chats that have been moved to the trash individually */
+    chats: Chat[]
 }
 
 /**
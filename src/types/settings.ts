@@ -12,6 +12,11 @@ export interface DeviceSettings {
      */
     type?: 'local' | 'cloud'
   }
+  /** Missing from settings saved before it was added */
+  security?: {
+    /** Minutes without activity after which encrypted notes are locked. 0 or unset never locks */
+    autoLockMinutes?: number
+  }
 }
 
 /**
@@ -21,6 +26,42 @@ export interface DeviceSettings {
  */
 export type TranscriptionProvider = 'whisper' | 'openrouter'
 
+/** An OpenAI-compatible server, such as Ollama, llama.cpp or vLLM */
+export interface CustomEndpoint {
+  /** Unique identifier for the endpoint */
+  id: string
+  /** Display name */
+  name: string
+  /** Base URL of the API, e.g. http://localhost:11434/v1 */
+  baseURL: string
+  /** API key. Empty if the server does not need one */
+  apiKey: string
+  /** IDs of the models the server offers, as discovered from its models list */
+  models: string[]
+}
+
+/** A search query saved for reuse */
+export interface SavedSearch {
+  /** Unique identifier for the saved search */
+  id: string
+  /** Display name */
+  name: string
+  /** The query, in the search query language */
+  query: string
+}
+
+/** A prompt saved for reuse, sent from chat by typing its slash command */
+export interface PromptTemplate {
+  /** Unique identifier for the prompt */
+  id: string
+  /** Command that sends the prompt, without the slash, e.g. "critique" */
+  command: string
+  /** What the prompt does, shown when picking a command */
+  description?: string
+  /** Text of the prompt, which may contain variables such as {{selected_note}}, {{date}} and {{clipboard}} */
+  template: string
+}
+
 /** User-specific settings stored in cloud */
 export interface UserSettings {
   llm: {
@@ -38,7 +79,21 @@ export interface UserSettings {
     openrouterKey?: string
     /** Which provider to use for voice transcription */
     transcriptionProvider?: TranscriptionProvider
+    /** OpenAI-compatible servers whose models can be chosen in chat */
+    customEndpoints?: CustomEndpoint[]
+    /** OpenRouter model IDs chosen from the model catalog to show in the model selector */
+    favoriteModels?: string[]
+    /** Model that answers in chat when the chosen model keeps failing. Empty for none */
+    fallbackModel?: string
   }
   /** Free-text instructions injected into every chat system prompt across all boards */
   customInstructions?: string
+  /** Days to keep items in the trash before they are purged automatically. 0 keeps them forever. Defaults to 30 */
+  trashRetentionDays?: number
+  /** Searches the user has saved from the search modal */
+  savedSearches?: SavedSearch[]
+  /** Spend in US dollars per calendar month above which a warning is shown. 0 or unset for no budget */
+  monthlyBudget?: number
+  /** Prompts that can be sent from chat on every board */
+  prompts?: PromptTemplate[]
 } 
\ No newline at end of file